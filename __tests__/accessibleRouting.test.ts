@@ -0,0 +1,130 @@
+import type { CurbRampSlot, NetworkSegment, SidewalkData } from '@/services/types/NetworkSegment';
+import { buildRouteGraph, findAccessibleRoute, getRouteOptions } from '@/services/utils/accessibleRouting';
+
+const LAT0 = 37.77;
+const LON0 = -122.4;
+const DEG_PER_M = 1 / 111320;
+const COS_LAT = Math.cos((LAT0 * Math.PI) / 180);
+
+// Local metres east/north of the origin → [lon, lat]
+const point = (xM: number, yM: number): [number, number] => [LON0 + (xM * DEG_PER_M) / COS_LAT, LAT0 + yM * DEG_PER_M];
+const line = (...pts: [number, number][]) => ({ type: 'LineString' as const, coordinates: pts });
+
+const ramps = (id: string): CurbRampSlot[] => [
+  { id: `${id}_s`, position: 'start', slotNumber: 1, returnloc: null, returnposition: null, conditionScore: 8, geometry: null },
+  { id: `${id}_e`, position: 'end', slotNumber: 1, returnloc: null, returnposition: null, conditionScore: 8, geometry: null },
+];
+
+function sidewalk(id: string, from: [number, number], to: [number, number], overrides: Partial<SidewalkData> = {}): SidewalkData {
+  return {
+    id,
+    presence: 'yes',
+    surface: 'concrete',
+    width: 1.5,
+    incline: 1,
+    geometry: line(from, to),
+    curbRamps: ramps(id),
+    ...overrides,
+  } as SidewalkData;
+}
+
+// Two parallel blocks either side of a north-south street at x = 100.
+// Sidewalk A runs along y = 0 from x = 0 to 92, sidewalk B along y = 0 from 108 to 200,
+// joined by a crosswalk across the street.
+function network(crossingRamps = true, overrides: Partial<SidewalkData> = {}): NetworkSegment[] {
+  const west = {
+    streetGridId: '1_1_0',
+    startNodeId: 1,
+    endNodeId: 2,
+    street: { highway: 'residential', maxspeed: 25, lanes: 2, surface: 'asphalt', incline: 1, geometry: line(point(0, -8), point(92, -8)) },
+    sidewalkLeft: sidewalk('1_1_0L', point(0, 0), point(92, 0), overrides),
+    sidewalkRight: null,
+    crosswalkStart: null,
+    crosswalkEnd: null,
+  };
+  const east = {
+    streetGridId: '1_1_1',
+    startNodeId: 3,
+    endNodeId: 4,
+    street: { highway: 'residential', maxspeed: 25, lanes: 2, surface: 'asphalt', incline: 1, geometry: line(point(108, -8), point(200, -8)) },
+    sidewalkLeft: sidewalk('1_1_1L', point(108, 0), point(200, 0), crossingRamps ? {} : { curbRamps: [] }),
+    sidewalkRight: null,
+    crosswalkStart: null,
+    crosswalkEnd: null,
+  };
+  const crossed = {
+    streetGridId: '1_1_2',
+    startNodeId: 5,
+    endNodeId: 6,
+    street: { highway: 'residential', maxspeed: 25, lanes: 2, surface: 'asphalt', incline: 1, geometry: line(point(100, -200), point(100, 200)) },
+    sidewalkLeft: null,
+    sidewalkRight: null,
+    crosswalkStart: {
+      id: 'cw1',
+      controlled: 'yes',
+      marked: 'yes',
+      signals: null,
+      island: 'no',
+      kerb: 'raised',
+      condition: 'good',
+      geometry: line(point(92, 0), point(108, 0)),
+    },
+    crosswalkEnd: null,
+  };
+  return [west, east, crossed] as unknown as NetworkSegment[];
+}
+
+describe('findAccessibleRoute', () => {
+  it('routes along sidewalks and across a ramped crosswalk', () => {
+    const options = getRouteOptions('wheelchair');
+    const route = findAccessibleRoute(buildRouteGraph(network(), options), point(20, 2), point(180, 2));
+
+    expect(route).not.toBeNull();
+    expect(route!.steps.map((s) => s.kind)).toEqual(['sidewalk', 'crosswalk', 'sidewalk']);
+    expect(route!.distanceM).toBeCloseTo(160, 0);
+    expect(route!.warnings).toEqual([]);
+  });
+
+  it('routes between two points on the same sidewalk without leaving it', () => {
+    const options = getRouteOptions('wheelchair');
+    for (const [from, to] of [[20, 70], [70, 20]]) {
+      const route = findAccessibleRoute(buildRouteGraph(network(), options), point(from, 2), point(to, 2));
+
+      expect(route).not.toBeNull();
+      expect(route!.steps.map((s) => s.kind)).toEqual(['sidewalk']);
+      expect(route!.distanceM).toBeCloseTo(50, 0);
+      expect(route!.coordinates[0][0]).toBeCloseTo(point(from, 0)[0], 7);
+      expect(route!.coordinates[route!.coordinates.length - 1][0]).toBeCloseTo(point(to, 0)[0], 7);
+    }
+  });
+
+  it('blocks crossings without curb ramps when the mode requires them', () => {
+    const options = getRouteOptions('wheelchair');
+    const route = findAccessibleRoute(buildRouteGraph(network(false), options), point(20, 2), point(180, 2));
+    expect(route).toBeNull();
+  });
+
+  it('allows crossings without curb ramps with a warning otherwise', () => {
+    const options = getRouteOptions('walking');
+    const route = findAccessibleRoute(buildRouteGraph(network(false), options), point(20, 2), point(180, 2));
+
+    expect(route).not.toBeNull();
+    expect(route!.warnings).toEqual(['1 crossing(s) without a mapped curb ramp']);
+  });
+
+  it('falls back to the street for modes that allow it when a sidewalk is too steep', () => {
+    const steep = { incline: 15 };
+    expect(
+      findAccessibleRoute(buildRouteGraph(network(true, steep), getRouteOptions('wheelchair')), point(20, 2), point(180, 2)),
+    ).toBeNull();
+
+    const route = findAccessibleRoute(
+      buildRouteGraph(network(true, steep), getRouteOptions('scooter')),
+      point(20, -6),
+      point(180, 2),
+    );
+    expect(route).not.toBeNull();
+    expect(route!.steps[0].kind).toBe('street');
+    expect(route!.warnings[0]).toMatch(/street without a sidewalk/);
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  anonymizeTrip,
+  AnonymizationContext,
+  AnonymizedTrip,
+  bufferEnds,
+  buildAnonymizationPipeline,
+  clipToEndpointAreas,
+  getPrivacySettings,
+  jitterRelativeTimes,
+  PRIVACY_LEVELS,
+  randomTruncation,
+} from '@/services/utils/anonymizeTrip';
+import type { EndpointArea } from '@/services/utils/censusBlocks';
+
+// A straight route east along the equator, one point every 0.0005° (~56 m)
+const route: [number, number][] = Array.from({ length: 21 }, (_, i) => [i * 0.0005, 0]);
+const times = route.map((_, i) => i * 10);
+
+const box = (minLon: number, maxLon: number): GeoJSON.Polygon => ({
+  type: 'Polygon',
+  coordinates: [[[minLon, -0.001], [maxLon, -0.001], [maxLon, 0.001], [minLon, 0.001], [minLon, -0.001]]],
+});
+
+// Origin covers the first 3 points, destination the last 3
+const origin: EndpointArea = { geoid: '060750101001', polygons: [box(-0.001, 0.0004), box(0.0004, 0.0012)] };
+const destination: EndpointArea = { geoid: '060750102002', polygons: [box(0.0088, 0.011)] };
+
+const context = (overrides: Partial<AnonymizationContext> = {}): AnonymizationContext => ({
+  origin,
+  destination,
+  random: () => 0.5,
+  ...overrides,
+});
+
+const trip = (overrides: Partial<AnonymizedTrip> = {}): AnonymizedTrip => ({
+  coordinates: route,
+  relativeTimes: times,
+  odGeoids: null,
+  ...overrides,
+});
+
+describe('clipToEndpointAreas', () => {
+  it('removes points inside either area and keeps times aligned', () => {
+    const clipped = clipToEndpointAreas().apply(trip(), context())!;
+    expect(clipped.coordinates).toEqual(route.slice(3, 18));
+    expect(clipped.relativeTimes).toEqual(times.slice(3, 18));
+    expect(clipped.odGeoids).toEqual(['060750101001', '060750102002']);
+  });
+
+  it('keeps no point from a loop back into either area', () => {
+    // Returns to the origin after leaving it, and cuts through the destination early
+    const loop: [number, number][] = [
+      ...route.slice(0, 8), [0.0008, 0.0005], ...route.slice(8, 13), [0.009, 0.0005], ...route.slice(13),
+    ];
+    const loopTimes = loop.map((_, i) => i * 10);
+    const clipped = clipToEndpointAreas().apply(trip({ coordinates: loop, relativeTimes: loopTimes }), context())!;
+    expect(clipped.coordinates).toEqual(route.slice(8, 13));
+    expect(clipped.relativeTimes).toEqual(loopTimes.slice(9, 14));
+  });
+
+  it('drops a trip without both areas', () => {
+    expect(clipToEndpointAreas().apply(trip(), context({ destination: null }))).toBeNull();
+  });
+
+  it('drops a trip entirely inside the areas', () => {
+    const everywhere: EndpointArea = { geoid: 'X', polygons: [box(-1, 1)] };
+    expect(clipToEndpointAreas().apply(trip(), context({ origin: everywhere, destination: everywhere }))).toBeNull();
+  });
+});
+
+describe('bufferEnds', () => {
+  it('trims at least the distance from each end', () => {
+    const trimmed = bufferEnds(100).apply(trip(), context())!;
+    // 100 m needs 2 segments of ~56 m at each end
+    expect(trimmed.coordinates).toEqual(route.slice(2, 19));
+    expect(trimmed.relativeTimes).toEqual(times.slice(2, 19));
+  });
+
+  it('drops a trip shorter than both buffers', () => {
+    expect(bufferEnds(600).apply(trip(), context())).toBeNull();
+  });
+});
+
+describe('randomTruncation', () => {
+  it('draws a separate distance for each end', () => {
+    const draws = [0, 0.9];
+    const truncated = randomTruncation(200).apply(trip(), context({ random: () => draws.shift()! }))!;
+    // 0 m from the start, 180 m (4 segments) from the end
+    expect(truncated.coordinates).toEqual(route.slice(0, 17));
+  });
+});
+
+describe('jitterRelativeTimes', () => {
+  it('keeps times in order and non-negative', () => {
+    let flip = 0;
+    const random = () => (flip++ % 2 === 0 ? 0 : 0.999);
+    const jittered = jitterRelativeTimes(15).apply(trip(), context({ random }))!;
+    expect(jittered.relativeTimes![0]).toBe(0);
+    for (let i = 1; i < jittered.relativeTimes!.length; i++) {
+      expect(jittered.relativeTimes![i]).toBeGreaterThanOrEqual(jittered.relativeTimes![i - 1]);
+    }
+    expect(jittered.relativeTimes).not.toEqual(times);
+  });
+
+  it('leaves a trip without times alone', () => {
+    const withoutTimes = trip({ relativeTimes: null });
+    expect(jitterRelativeTimes(15).apply(withoutTimes, context())).toBe(withoutTimes);
+  });
+});
+
+describe('buildAnonymizationPipeline', () => {
+  const names = (level: 'standard' | 'enhanced' | 'strict') =>
+    buildAnonymizationPipeline(PRIVACY_LEVELS[level]).map((step) => step.name);
+
+  it('only clips at the standard level', () => {
+    expect(names('standard')).toEqual(['clip']);
+  });
+
+  it('adds trimming and jitter at higher levels', () => {
+    expect(names('enhanced')).toEqual(['clip', 'buffer', 'truncate', 'jitter']);
+    expect(names('strict')).toEqual(['clip', 'buffer', 'truncate', 'jitter']);
+  });
+
+  it('falls back to standard for trips without a level', () => {
+    expect(getPrivacySettings(null)).toBe(PRIVACY_LEVELS.standard);
+    expect(getPrivacySettings(undefined)).toBe(PRIVACY_LEVELS.standard);
+  });
+});
+
+describe('anonymizeTrip', () => {
+  it('drops an unmatched trip at every level', () => {
+    for (const settings of Object.values(PRIVACY_LEVELS)) {
+      expect(anonymizeTrip(route, times, buildAnonymizationPipeline(settings), context({ origin: null }))).toBeNull();
+    }
+  });
+
+  it('trims further than the areas at the enhanced level', () => {
+    const steps = buildAnonymizationPipeline(PRIVACY_LEVELS.enhanced);
+    const result = anonymizeTrip(route, times, steps, context({ random: () => 0 }))!;
+    expect(result.coordinates).toEqual(route.slice(5, 16));
+    expect(result.relativeTimes).toHaveLength(result.coordinates.length);
+  });
+});
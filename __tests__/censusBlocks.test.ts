@@ -0,0 +1,112 @@
+import { buildCensusBlockIndex, findBlockForPoint, generalizeBlock, parseCensusBlocks } from '@/services/utils/censusBlocks';
+
+// Unit squares side by side along a street: [0,1]x[0,1], [1,2]x[0,1], ...
+const square = (minLon: number, minLat: number, size: number = 1): GeoJSON.Position[][] => [[
+  [minLon, minLat],
+  [minLon + size, minLat],
+  [minLon + size, minLat + size],
+  [minLon, minLat + size],
+  [minLon, minLat],
+]];
+
+const feature = (geoid: string | null, geometry: GeoJSON.Geometry | null): GeoJSON.Feature => ({
+  type: 'Feature',
+  properties: geoid === null ? {} : { GEOID20: geoid, NAME20: 'Block' },
+  geometry: geometry as GeoJSON.Geometry,
+});
+
+const collection = (features: GeoJSON.Feature[]): GeoJSON.FeatureCollection => ({ type: 'FeatureCollection', features });
+
+describe('parseCensusBlocks', () => {
+  it('reads polygons with their geoid and bounding box', () => {
+    const blocks = parseCensusBlocks(collection([feature('060750101001000', { type: 'Polygon', coordinates: square(-122.42, 37.77, 0.01) })]));
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].geoid).toBe('060750101001000');
+    expect(blocks[0].bbox.minLon).toBeCloseTo(-122.42);
+    expect(blocks[0].bbox.maxLat).toBeCloseTo(37.78);
+  });
+
+  it('splits a multipolygon into parts with the same geoid', () => {
+    const blocks = parseCensusBlocks(collection([
+      feature('A', { type: 'MultiPolygon', coordinates: [square(0, 0), square(5, 5)] }),
+    ]));
+    expect(blocks.map((block) => block.geoid)).toEqual(['A', 'A']);
+    expect(blocks[1].bbox).toEqual({ minLon: 5, minLat: 5, maxLon: 6, maxLat: 6 });
+  });
+
+  it('skips features without a geoid or polygon', () => {
+    const blocks = parseCensusBlocks(collection([
+      feature(null, { type: 'Polygon', coordinates: square(0, 0) }),
+      feature('B', null),
+      feature('C', { type: 'Point', coordinates: [0, 0] }),
+      feature('D', { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [0, 0]]] }),
+    ]));
+    expect(blocks).toEqual([]);
+  });
+
+  it('rejects anything but a FeatureCollection', () => {
+    expect(() => parseCensusBlocks({ type: 'Feature' })).toThrow('FeatureCollection');
+    expect(() => parseCensusBlocks(null)).toThrow('FeatureCollection');
+  });
+});
+
+describe('findBlockForPoint', () => {
+  const blocks = parseCensusBlocks(collection([
+    feature('A', { type: 'Polygon', coordinates: square(0, 0) }),
+    feature('B', { type: 'Polygon', coordinates: square(1, 0) }),
+    feature('C', { type: 'Polygon', coordinates: square(-3, -3, 2) }),
+  ]));
+  const index = buildCensusBlockIndex(blocks, 0.5);
+
+  it('finds the block containing the point', () => {
+    expect(findBlockForPoint(index, 0.5, 0.5)?.geoid).toBe('A');
+    expect(findBlockForPoint(index, 1.5, 0.25)?.geoid).toBe('B');
+    expect(findBlockForPoint(index, -1.5, -2.5)?.geoid).toBe('C');
+  });
+
+  it('finds blocks that span several grid cells', () => {
+    expect(findBlockForPoint(index, -2.9, -1.1)?.geoid).toBe('C');
+  });
+
+  it('returns null outside every block', () => {
+    expect(findBlockForPoint(index, 0.5, 1.5)).toBeNull();
+    expect(findBlockForPoint(index, 50, 50)).toBeNull();
+  });
+
+  it('returns null from an empty index', () => {
+    expect(findBlockForPoint(buildCensusBlockIndex([]), 0.5, 0.5)).toBeNull();
+  });
+});
+
+describe('generalizeBlock', () => {
+  // Tract 06075010101: block group 1 has three blocks, block group 2 has one
+  const blocks = parseCensusBlocks(collection([
+    feature('060750101011000', { type: 'Polygon', coordinates: square(0, 0) }),
+    feature('060750101011001', { type: 'Polygon', coordinates: square(1, 0) }),
+    feature('060750101011002', { type: 'Polygon', coordinates: square(2, 0) }),
+    feature('060750101012000', { type: 'Polygon', coordinates: square(3, 0) }),
+  ]));
+  const index = buildCensusBlockIndex(blocks, 0.5);
+
+  it('keeps the block when one is enough', () => {
+    const area = generalizeBlock(index, blocks[0], 1);
+    expect(area.geoid).toBe('060750101011000');
+    expect(area.polygons).toHaveLength(1);
+  });
+
+  it('widens to the block group', () => {
+    const area = generalizeBlock(index, blocks[0], 3);
+    expect(area.geoid).toBe('060750101011');
+    expect(area.polygons).toHaveLength(3);
+  });
+
+  it('widens to the tract', () => {
+    const area = generalizeBlock(index, blocks[3], 2);
+    expect(area.geoid).toBe('06075010101');
+    expect(area.polygons).toHaveLength(4);
+  });
+
+  it('stops at the tract even when it holds too few blocks', () => {
+    expect(generalizeBlock(index, blocks[0], 20).geoid).toBe('06075010101');
+  });
+});
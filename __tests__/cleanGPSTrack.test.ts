@@ -0,0 +1,75 @@
+import {
+  accuracyFilter,
+  cleanTrack,
+  kalmanSmoother,
+  speedOutlierFilter,
+  stopJitterFilter,
+  TrackPoint,
+} from '@/services/utils/cleanGPSTrack';
+
+// ~1.1 m per 0.00001° of latitude
+const pt = (latOffset: number, t: number, accuracy: number | null = 5): TrackPoint => ({
+  lon: -122.4,
+  lat: 37.77 + latOffset,
+  t,
+  accuracy,
+});
+
+describe('accuracyFilter', () => {
+  it('drops fixes above the threshold and keeps fixes without accuracy', () => {
+    const points = [pt(0, 0, 5), pt(0.0001, 1, 80), pt(0.0002, 2, null)];
+    const result = accuracyFilter(30).apply(points);
+    expect(result).toEqual([points[0], points[2]]);
+  });
+});
+
+describe('speedOutlierFilter', () => {
+  it('rejects a single spike and keeps the rest of the track', () => {
+    const points = [pt(0, 0), pt(0.00002, 1), pt(0.01, 2), pt(0.00004, 3)];
+    const result = speedOutlierFilter(8).apply(points);
+    expect(result.map((p) => p.t)).toEqual([0, 1, 3]);
+  });
+
+  it('accepts a sustained jump after repeated rejections', () => {
+    const points = [pt(0, 0), pt(0.01, 1), pt(0.01001, 2), pt(0.01002, 3)];
+    const result = speedOutlierFilter(8, 2).apply(points);
+    expect(result.map((p) => p.t)).toEqual([0, 3]);
+  });
+});
+
+describe('stopJitterFilter', () => {
+  it('collapses a stop into two points that keep its dwell time', () => {
+    const points = [pt(0, 0), pt(0.00001, 5), pt(-0.00001, 10), pt(0.00002, 15), pt(0.001, 30)];
+    const result = stopJitterFilter(8).apply(points);
+    expect(result).toHaveLength(3);
+    expect(result[0].t).toBe(0);
+    expect(result[1].t).toBe(15);
+    expect(result[0].lat).toBeCloseTo(result[1].lat, 10);
+  });
+});
+
+describe('kalmanSmoother', () => {
+  it('pulls a low-accuracy fix towards the previous estimate', () => {
+    const points = [pt(0, 0, 5), pt(0.001, 1, 50)];
+    const result = kalmanSmoother().apply(points);
+    expect(result[1].lat).toBeLessThan(points[1].lat);
+    expect(result[1].lat).toBeGreaterThan(points[0].lat);
+  });
+});
+
+describe('cleanTrack', () => {
+  it('records raw and cleaned point counts', () => {
+    const points = [pt(0, 0), pt(0.0001, 10, 100), pt(0.0002, 20), pt(0.0003, 30)];
+    const result = cleanTrack(points, [accuracyFilter(30)]);
+    expect(result.rawPointCount).toBe(4);
+    expect(result.cleanedPointCount).toBe(3);
+    expect(result.removedByFilter).toEqual({ accuracy: 1 });
+  });
+
+  it('skips a filter that would leave fewer than 2 points', () => {
+    const points = [pt(0, 0, 100), pt(0.0001, 10, 100)];
+    const result = cleanTrack(points, [accuracyFilter(30)]);
+    expect(result.cleanedPointCount).toBe(2);
+    expect(result.removedByFilter).toEqual({ accuracy: 0 });
+  });
+});
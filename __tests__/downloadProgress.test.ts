@@ -0,0 +1,108 @@
+import type { RegionPack } from '@/adapters/DatabaseAdapter';
+import {
+  canResumeDownload,
+  DEFAULT_DOWNLOAD_POLICY,
+  DownloadConditions,
+  estimateSecondsRemaining,
+  getDownloadPauseReason,
+  nextTransferRate,
+  PartialDownload,
+} from '@/services/utils/downloadProgress';
+
+const PACK: RegionPack = {
+  id: 'san-francisco-ca',
+  name: 'San Francisco',
+  jurisdiction: null,
+  bbox: { minLon: -122.5149, minLat: 37.7081, maxLon: -122.3569, maxLat: 37.8324 },
+  utmZone: 10,
+  utmHemisphere: 'N',
+  assetName: 'San_Francisco_County_California_USA_network',
+  sizeBytes: 44_000_000,
+  lastUpdated: '2026-06-01T00:00:00Z',
+  sha256: null,
+  schemaVersion: null,
+  timeZone: null,
+  holidayCalendar: null,
+  hasCensusBlocks: true,
+};
+
+const WIFI: DownloadConditions = { isConnected: true, isCellular: false, batteryLevel: 0.8, isCharging: false, lowPowerMode: false };
+
+describe('getDownloadPauseReason', () => {
+  it('runs on Wi-Fi with a charged battery', () => {
+    expect(getDownloadPauseReason(WIFI, DEFAULT_DOWNLOAD_POLICY)).toBeNull();
+  });
+
+  it('pauses while offline regardless of policy', () => {
+    const policy = { pauseOnCellular: false, pauseOnLowBattery: false };
+    expect(getDownloadPauseReason({ ...WIFI, isConnected: false }, policy)).toBe('offline');
+  });
+
+  it('pauses on cellular only when asked to', () => {
+    const cellular = { ...WIFI, isCellular: true };
+    expect(getDownloadPauseReason(cellular, DEFAULT_DOWNLOAD_POLICY)).toBeNull();
+    expect(getDownloadPauseReason(cellular, { ...DEFAULT_DOWNLOAD_POLICY, pauseOnCellular: true })).toBe('cellular');
+  });
+
+  it('pauses on low battery unless charging', () => {
+    expect(getDownloadPauseReason({ ...WIFI, batteryLevel: 0.1 }, DEFAULT_DOWNLOAD_POLICY)).toBe('low_battery');
+    expect(getDownloadPauseReason({ ...WIFI, batteryLevel: 0.1, isCharging: true }, DEFAULT_DOWNLOAD_POLICY)).toBeNull();
+    expect(getDownloadPauseReason({ ...WIFI, lowPowerMode: true }, DEFAULT_DOWNLOAD_POLICY)).toBe('low_battery');
+    expect(getDownloadPauseReason({ ...WIFI, batteryLevel: 0.1 }, { ...DEFAULT_DOWNLOAD_POLICY, pauseOnLowBattery: false })).toBeNull();
+  });
+
+  it('ignores an unknown battery level', () => {
+    expect(getDownloadPauseReason({ ...WIFI, batteryLevel: -1 }, DEFAULT_DOWNLOAD_POLICY)).toBeNull();
+  });
+});
+
+describe('canResumeDownload', () => {
+  const saved: PartialDownload = { pack: PACK, etag: '"abc"', totalBytes: 44_000_000, bytesWritten: 40_000_000 };
+
+  it('resumes the same file', () => {
+    expect(canResumeDownload(saved, PACK, { etag: '"abc"', totalBytes: 44_000_000 })).toBe(true);
+  });
+
+  it('starts over when the file changed', () => {
+    expect(canResumeDownload(saved, PACK, { etag: '"def"', totalBytes: 44_000_000 })).toBe(false);
+    expect(canResumeDownload(saved, PACK, { etag: null, totalBytes: 44_000_000 })).toBe(false);
+    expect(canResumeDownload(saved, PACK, { etag: '"abc"', totalBytes: 45_000_000 })).toBe(false);
+    expect(canResumeDownload(saved, { ...PACK, lastUpdated: '2026-07-01T00:00:00Z' }, { etag: '"abc"', totalBytes: 44_000_000 })).toBe(false);
+  });
+
+  it('resumes without ETags when size and build match', () => {
+    expect(canResumeDownload({ ...saved, etag: null }, PACK, { etag: null, totalBytes: 44_000_000 })).toBe(true);
+  });
+
+  it('has nothing to resume before the first request', () => {
+    expect(canResumeDownload({ ...saved, bytesWritten: 0 }, PACK, { etag: '"abc"', totalBytes: 44_000_000 })).toBe(false);
+  });
+});
+
+describe('nextTransferRate', () => {
+  it('starts from the first request', () => {
+    expect(nextTransferRate(null, 4_000_000, 2000)).toBe(2_000_000);
+  });
+
+  it('smooths later requests', () => {
+    const rate = nextTransferRate(2_000_000, 4_000_000, 1000)!;
+    expect(rate).toBeGreaterThan(2_000_000);
+    expect(rate).toBeLessThan(4_000_000);
+  });
+
+  it('keeps the previous rate for instant requests', () => {
+    expect(nextTransferRate(1000, 4_000_000, 0)).toBe(1000);
+  });
+});
+
+describe('estimateSecondsRemaining', () => {
+  it('divides what is left by the rate', () => {
+    expect(estimateSecondsRemaining(10_000_000, 2_000_000)).toBe(5);
+    expect(estimateSecondsRemaining(0, 2_000_000)).toBe(0);
+  });
+
+  it('is unknown without a rate', () => {
+    expect(estimateSecondsRemaining(10_000_000, null)).toBeNull();
+    expect(estimateSecondsRemaining(10_000_000, 0)).toBeNull();
+  });
+});
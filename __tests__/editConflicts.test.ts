@@ -0,0 +1,186 @@
+import type { FeatureEdit } from '@/adapters/DatabaseAdapter';
+import type { GeometryEditRecord, NetworkSegment } from '@/services/types/NetworkSegment';
+import {
+  amendGeometryEdit,
+  canAmend,
+  EditConflict,
+  explainConflict,
+  getConflictStreetGridIds,
+  getProposedGeometry,
+  mergeConflicts,
+  rebaseGeometryEdit,
+} from '@/services/utils/editConflicts';
+
+function segment(id: string, coordinates: number[][], startNodeId: number, endNodeId: number): NetworkSegment {
+  return {
+    streetGridId: id,
+    startNodeId,
+    endNodeId,
+    street: { geometry: { type: 'LineString', coordinates } },
+    sidewalkLeft: { id: `${id}L`, curbRamps: [{ id: `${id}_ramp_l` }] },
+    sidewalkRight: { id: `${id}R`, curbRamps: [{ id: `${id}_ramp_r` }] },
+  } as unknown as NetworkSegment;
+}
+
+// A and B meet at node 2; the server has since moved node 2 north
+const A = segment('1_1_0', [[-122.4, 37.77], [-122.398, 37.7702]], 1, 2);
+const B = segment('1_1_1', [[-122.398, 37.7702], [-122.397, 37.77]], 2, 3);
+
+function geometryEdit(id: string, editType: GeometryEditRecord['editType'], payload: unknown, streetGridId?: string): GeometryEditRecord {
+  return {
+    id,
+    userId: 'u1',
+    tripId: 't1',
+    status: 'conflict',
+    createdAt: '2026-06-01T10:00:00Z',
+    editType,
+    streetGridId,
+    payload: payload as GeometryEditRecord['payload'],
+    coord: [0, 0],
+  };
+}
+
+const geometryConflict = (edit: GeometryEditRecord, reason: string | null = null): EditConflict => ({
+  source: 'geometry_edit',
+  status: 'conflict',
+  reason,
+  detectedAt: '2026-06-02T10:00:00Z',
+  edit,
+});
+
+const featureEdit: FeatureEdit & { id: string } = {
+  id: 'f1',
+  userId: 'u1',
+  tripId: 't1',
+  streetGridId: '1_1_0',
+  editType: 'rating',
+  userRating: 4,
+  coord: [-122.399, 37.77],
+  featureType: 'line',
+};
+
+const featureConflict: EditConflict = {
+  source: 'feature_edit',
+  status: 'rejected',
+  reason: null,
+  detectedAt: '2026-06-02T10:00:00Z',
+  edit: featureEdit,
+};
+
+const moveEdit = geometryEdit('g1', 'move_endpoint', {
+  nodeId: 2,
+  oldCoord: [-122.398, 37.77],
+  newCoord: [-122.398, 37.7705],
+  rubberBandSegments: ['1_1_0'],
+}, '1_1_0');
+
+describe('mergeConflicts', () => {
+  it('adds new conflicts and updates known ones in place', () => {
+    const known = geometryConflict(moveEdit);
+    const updated = { ...geometryConflict(moveEdit, 'Node was merged'), detectedAt: '2026-06-03T10:00:00Z' };
+
+    const merged = mergeConflicts([known], [updated, featureConflict]);
+
+    expect(merged.map((c) => c.edit.id)).toEqual(['g1', 'f1']);
+    expect(merged[0].reason).toBe('Node was merged');
+    expect(merged[0].detectedAt).toBe(known.detectedAt);
+  });
+});
+
+describe('explainConflict', () => {
+  it('prefers the reason from the pipeline', () => {
+    expect(explainConflict(geometryConflict(moveEdit, 'Node was merged'))).toBe('Node was merged');
+  });
+
+  it('falls back to a message for the status', () => {
+    expect(explainConflict(geometryConflict(moveEdit))).toMatch(/network changed/);
+    expect(explainConflict(featureConflict)).toMatch(/not accepted/);
+  });
+});
+
+describe('canAmend', () => {
+  it('allows moving point-like geometry edits only', () => {
+    expect(canAmend(geometryConflict(moveEdit))).toBe(true);
+    expect(canAmend(geometryConflict(geometryEdit('g2', 'merge_segments', { segmentIds: ['1_1_0', '1_1_1'] })))).toBe(false);
+    expect(canAmend(featureConflict)).toBe(false);
+  });
+});
+
+describe('getConflictStreetGridIds', () => {
+  it('collects every segment the payload refers to', () => {
+    const merge = geometryEdit('g2', 'merge_segments', { surviving_seg_id: '1_1_0', consumed_seg_id: '1_1_1' });
+    expect(getConflictStreetGridIds(geometryConflict(merge))).toEqual(['1_1_0', '1_1_1']);
+    expect(getConflictStreetGridIds(geometryConflict(moveEdit))).toEqual(['1_1_0']);
+    expect(getConflictStreetGridIds(featureConflict)).toEqual(['1_1_0']);
+  });
+});
+
+describe('getProposedGeometry', () => {
+  it('draws lines for drawn segments', () => {
+    const line = [[-122.4, 37.77], [-122.399, 37.771]];
+    const draw = geometryEdit('g3', 'draw_segment', { geometry: { type: 'LineString', coordinates: line } });
+    expect(getProposedGeometry(geometryConflict(draw))).toEqual({ points: [], lines: [line] });
+  });
+
+  it('uses the main point of point edits', () => {
+    expect(getProposedGeometry(geometryConflict(moveEdit))).toEqual({ points: [[-122.398, 37.7705]], lines: [] });
+  });
+
+  it('skips edits without a location', () => {
+    const toggle = geometryEdit('g4', 'toggle_curb_ramp', { streetGridId: '1_1_0', side: 'left' });
+    expect(getProposedGeometry(geometryConflict(toggle))).toEqual({ points: [], lines: [] });
+  });
+});
+
+describe('rebaseGeometryEdit', () => {
+  it('re-reads the attached segments and old position of a moved node', () => {
+    const rebased = rebaseGeometryEdit(moveEdit, [A, B]);
+
+    expect(rebased?.payload).toMatchObject({
+      oldCoord: [-122.398, 37.7702],
+      newCoord: [-122.398, 37.7705],
+      rubberBandSegments: ['1_1_0', '1_1_1'],
+    });
+  });
+
+  it('keeps changeset payloads in snake_case', () => {
+    const edit = geometryEdit('g5', 'move_endpoint', { node_id: '2', new_x: -122.398, new_y: 37.7705, rubber_band_segments: [] });
+    expect(rebaseGeometryEdit(edit, [A, B])?.payload).toEqual({
+      node_id: '2',
+      new_x: -122.398,
+      new_y: 37.7705,
+      rubber_band_segments: ['1_1_0', '1_1_1'],
+    });
+  });
+
+  it('snaps a split point onto the current street', () => {
+    const split = geometryEdit('g6', 'split_segment', { streetGridId: '1_1_0', splitPoint: [-122.399, 37.77] }, '1_1_0');
+    const rebased = rebaseGeometryEdit(split, [A, B]);
+
+    expect(rebased?.coord[0]).toBeCloseTo(-122.399, 4);
+    expect(rebased?.coord[1]).toBeCloseTo(37.7701, 4);
+  });
+
+  it('gives up when the target is gone', () => {
+    const merge = geometryEdit('g7', 'merge_segments', { segmentIds: ['1_1_0', '1_9_9'] });
+    expect(rebaseGeometryEdit(merge, [A, B])).toBeNull();
+    expect(rebaseGeometryEdit(moveEdit, [])).toBeNull();
+  });
+});
+
+describe('amendGeometryEdit', () => {
+  it('moves the main point in the payload shape it came in', () => {
+    expect(amendGeometryEdit(moveEdit, [-122.3981, 37.7706])).toMatchObject({
+      coord: [-122.3981, 37.7706],
+      payload: { newCoord: [-122.3981, 37.7706] },
+    });
+
+    const add = geometryEdit('g8', 'add_node', { x: -122.4, y: 37.77, feature_type: 'bench' });
+    expect(amendGeometryEdit(add, [-122.41, 37.78])?.payload).toEqual({ x: -122.41, y: 37.78, feature_type: 'bench' });
+  });
+
+  it('returns null for edits without a single point', () => {
+    const merge = geometryEdit('g9', 'merge_segments', { segmentIds: ['1_1_0', '1_1_1'] });
+    expect(amendGeometryEdit(merge, [0, 1])).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { EditHistory } from '@/services/utils/editHistory';
+
+describe('EditHistory', () => {
+  it('starts empty', () => {
+    const history = new EditHistory<string>();
+
+    expect(history.canUndo()).toBe(false);
+    expect(history.canRedo()).toBe(false);
+    expect(history.peekUndo()).toBeNull();
+    expect(history.peekRedo()).toBeNull();
+  });
+
+  it('undoes the most recent command first', () => {
+    const history = new EditHistory<string>();
+    history.record('a');
+    history.record('b');
+
+    expect(history.peekUndo()).toBe('b');
+    history.commitUndo();
+    expect(history.peekUndo()).toBe('a');
+    expect(history.peekRedo()).toBe('b');
+  });
+
+  it('replaces a redone command with its re-applied form', () => {
+    const history = new EditHistory<string>();
+    history.record('a');
+    history.commitUndo();
+
+    history.commitRedo('a2');
+
+    expect(history.getDone()).toEqual(['a2']);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('ignores commits with nothing to move', () => {
+    const history = new EditHistory<string>();
+
+    history.commitUndo();
+    history.commitRedo('a');
+
+    expect(history.toJSON()).toEqual({ done: [], undone: [] });
+  });
+
+  it('clears the redo stack when a new command is recorded', () => {
+    const history = new EditHistory<string>();
+    history.record('a');
+    history.commitUndo();
+
+    history.record('b');
+
+    expect(history.canRedo()).toBe(false);
+    expect(history.getDone()).toEqual(['b']);
+  });
+
+  it('forgets the oldest commands once full', () => {
+    const history = new EditHistory<string>(undefined, 2);
+    history.record('a');
+    history.record('b');
+    history.record('c');
+
+    expect(history.getDone()).toEqual(['b', 'c']);
+  });
+
+  it('round-trips through a snapshot', () => {
+    const history = new EditHistory<string>();
+    history.record('a');
+    history.record('b');
+    history.commitUndo();
+
+    const restored = new EditHistory<string>(JSON.parse(JSON.stringify(history)));
+
+    expect(restored.peekUndo()).toBe('a');
+    expect(restored.peekRedo()).toBe('b');
+  });
+});
@@ -0,0 +1,162 @@
+import type { GeometryEditRecord, NetworkSegment, SegmentEdit, SidewalkData } from '@/services/types/NetworkSegment';
+import { applyEditOverlay, isSegmentEditInBuild, LOCAL_SEGMENT_PREFIX } from '@/services/utils/editOverlay';
+
+const point = (coordinates: number[]) => ({ type: 'Point' as const, coordinates });
+
+function sidewalk(overrides: Partial<SidewalkData> = {}): SidewalkData {
+  return {
+    id: '1_1_0L',
+    width: 1.5,
+    surface: 'concrete',
+    geometry: { type: 'LineString', coordinates: [[-122.4, 37.77], [-122.398, 37.77]] },
+    curbRamps: [
+      { id: 'r_s', position: 'start', slotNumber: 1, returnloc: null, returnposition: null, conditionScore: 8, geometry: point([-122.4, 37.77]) },
+      { id: 'r_e', position: 'end', slotNumber: 1, returnloc: null, returnposition: null, conditionScore: 8, geometry: point([-122.398, 37.77]) },
+    ],
+    ...overrides,
+  } as SidewalkData;
+}
+
+function segment(id: string, coordinates: number[][], startNodeId: number, endNodeId: number, overrides: Partial<NetworkSegment> = {}): NetworkSegment {
+  return {
+    streetGridId: id,
+    startNodeId,
+    endNodeId,
+    street: { highway: 'residential', lanes: 2, surface: 'asphalt', geometry: { type: 'LineString', coordinates } },
+    sidewalkLeft: sidewalk(),
+    sidewalkRight: null,
+    crosswalkStart: null,
+    crosswalkEnd: null,
+    startNodeGeometry: point(coordinates[0]),
+    endNodeGeometry: point(coordinates[coordinates.length - 1]),
+    ...overrides,
+  } as unknown as NetworkSegment;
+}
+
+function geometryEdit(id: string, editType: GeometryEditRecord['editType'], payload: unknown, createdAt: string): GeometryEditRecord {
+  return {
+    id,
+    editType,
+    payload: payload as GeometryEditRecord['payload'],
+    coord: [0, 0],
+    userId: 'u1',
+    tripId: 't1',
+    status: 'pending',
+    createdAt,
+  };
+}
+
+function attributeEdit(streetGridId: string, fieldName: string, newValue: string, createdAt: string): SegmentEdit {
+  return { tripId: 't1', userId: 'u1', streetGridId, facilityType: 'sidewalk_left', fieldName, oldValue: null, newValue, createdAt };
+}
+
+const A = segment('1_1_0', [[-122.4, 37.77], [-122.399, 37.77], [-122.398, 37.77]], 1, 2);
+const B = segment('1_1_1', [[-122.398, 37.77], [-122.397, 37.77]], 2, 3);
+
+describe('applyEditOverlay', () => {
+  it('returns the base segments when nothing is pending', () => {
+    const base = [A, B];
+    expect(applyEditOverlay(base, [], [])).toBe(base);
+  });
+
+  it('applies attribute edits without touching the base segments', () => {
+    const merged = applyEditOverlay([A, B], [attributeEdit('1_1_0', 'width', '2.4', '2026-06-01T10:00:00Z')], []);
+
+    expect(merged[0].sidewalkLeft!.width).toBe(2.4);
+    expect(A.sidewalkLeft!.width).toBe(1.5);
+    expect(merged[1]).toBe(B);
+  });
+
+  it('moves a shared endpoint on every attached segment', () => {
+    const edit = geometryEdit('g1', 'move_endpoint', {
+      nodeId: 2,
+      oldCoord: [-122.398, 37.77],
+      newCoord: [-122.398, 37.771],
+      rubberBandSegments: [],
+    }, '2026-06-01T10:00:00Z');
+    const [a, b] = applyEditOverlay([A, B], [], [edit]);
+
+    expect(a.street.geometry.coordinates[2]).toEqual([-122.398, 37.771]);
+    expect(a.endNodeGeometry).toEqual(point([-122.398, 37.771]));
+    expect(b.street.geometry.coordinates[0]).toEqual([-122.398, 37.771]);
+    expect(A.street.geometry.coordinates[2]).toEqual([-122.398, 37.77]);
+  });
+
+  it('splits a segment into two local halves', () => {
+    const edit = geometryEdit('g1', 'split_segment', { streetGridId: '1_1_0', splitPoint: [-122.3985, 37.7701] }, '2026-06-01T10:00:00Z');
+    const merged = applyEditOverlay([A, B], [], [edit]);
+    const ids = merged.map((s) => s.streetGridId);
+
+    expect(ids).toEqual(['1_1_1', `${LOCAL_SEGMENT_PREFIX}g1_a`, `${LOCAL_SEGMENT_PREFIX}g1_b`]);
+    const [, first, second] = merged;
+    expect(first.street.geometry.coordinates).toEqual([[-122.4, 37.77], [-122.399, 37.77], [-122.3985, 37.77]]);
+    expect(second.street.geometry.coordinates[0]).toEqual([-122.3985, 37.77]);
+    expect(first.endNodeId).toBe(second.startNodeId);
+    expect(first.endNodeId).toBeLessThan(0);
+    expect(first.sidewalkLeft!.curbRamps.map((r) => r.id)).toEqual(['r_s']);
+    expect(second.sidewalkLeft!.curbRamps.map((r) => r.id)).toEqual(['r_e']);
+  });
+
+  it('merges two segments that share an endpoint', () => {
+    const edit = geometryEdit('g1', 'merge_segments', { segmentIds: ['1_1_1', '1_1_0'] }, '2026-06-01T10:00:00Z');
+    const merged = applyEditOverlay([A, B], [], [edit]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].streetGridId).toBe('1_1_1');
+    expect(merged[0].street.geometry.coordinates).toEqual([
+      [-122.4, 37.77], [-122.399, 37.77], [-122.398, 37.77], [-122.397, 37.77],
+    ]);
+    expect(merged[0].startNodeId).toBe(1);
+    expect(merged[0].endNodeId).toBe(3);
+  });
+
+  it('adds drawn segments and toggles curb ramps', () => {
+    const edits = [
+      geometryEdit('g1', 'draw_segment', {
+        facilityType: 'footway',
+        geometry: { type: 'LineString', coordinates: [[-122.4, 37.771], [-122.399, 37.771]] },
+        attributes: {},
+      }, '2026-06-01T10:00:00Z'),
+      geometryEdit('g2', 'toggle_curb_ramp', { streetGridId: '1_1_0', side: 'left', position: 'end', slotNumber: 1, enabled: false }, '2026-06-01T10:01:00Z'),
+    ];
+    const merged = applyEditOverlay([A], [], edits);
+
+    expect(merged.map((s) => s.streetGridId)).toEqual(['1_1_0', `${LOCAL_SEGMENT_PREFIX}g1`]);
+    expect(merged[0].sidewalkLeft!.curbRamps.map((r) => r.id)).toEqual(['r_s']);
+    expect(merged[1].street.highway).toBe('footway');
+  });
+
+  it('replays edits in the order they were made', () => {
+    const split = geometryEdit('g1', 'split_segment', { streetGridId: '1_1_0', splitPoint: [-122.399, 37.77] }, '2026-06-01T10:01:00Z');
+    const before = attributeEdit('1_1_0', 'surface', 'asphalt', '2026-06-01T10:00:00Z');
+    const after = attributeEdit(`${LOCAL_SEGMENT_PREFIX}g1_b`, 'surface', 'gravel', '2026-06-01T10:02:00Z');
+    const [first, second] = applyEditOverlay([A], [after, before], [split]);
+
+    expect(first.sidewalkLeft!.surface).toBe('asphalt');
+    expect(second.sidewalkLeft!.surface).toBe('gravel');
+  });
+
+  it('skips edits whose segment is not loaded', () => {
+    const edits = [geometryEdit('g1', 'split_segment', { streetGridId: '9_9_0', splitPoint: [0, 0] }, '2026-06-01T10:00:00Z')];
+
+    expect(applyEditOverlay([A], [attributeEdit('9_9_0', 'width', '3', '2026-06-01T10:00:00Z')], edits)).toEqual([A]);
+  });
+});
+
+describe('isSegmentEditInBuild', () => {
+  const builtAt = new Date('2026-06-02T00:00:00Z').getTime();
+  const edit = (sentAt?: string): SegmentEdit => ({ ...attributeEdit('1_1_0', 'width', '2.4', '2026-06-01T10:00:00Z'), id: 'e1', sentAt });
+
+  it('includes edits delivered before the build', () => {
+    expect(isSegmentEditInBuild(edit('2026-06-01T10:05:00Z'), new Set(), builtAt)).toBe(true);
+  });
+
+  it('keeps edits still in the outbox, however old', () => {
+    expect(isSegmentEditInBuild(edit(), new Set(['e1']), builtAt)).toBe(false);
+  });
+
+  it('keeps edits delivered after the build or at an unknown time', () => {
+    expect(isSegmentEditInBuild(edit('2026-06-02T08:00:00Z'), new Set(), builtAt)).toBe(false);
+    expect(isSegmentEditInBuild(edit(), new Set(), builtAt)).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+// In-memory stand-in for the trip-writing part of DataService, so
+// SyncService can run in Jest without a Supabase instance. writeTrip
+// follows the Supabase adapter's contract: startTime is binned into
+// timeOfDay and weekday, in the origin's time zone and holiday calendar,
+// and none of the three is stored.
+
+import type { IDataService, Trip } from '@/adapters/DatabaseAdapter';
+import { getTimeOfDayBin, getWeekdayBin } from '@/services/utils/timeBins';
+
+type WriteTripInput = Parameters<IDataService['writeTrip']>[0];
+
+export class LocalDataService implements Pick<IDataService, 'writeTrip'> {
+  /** Every payload handed to writeTrip, as received. */
+  payloads: WriteTripInput[] = [];
+  /** The rows that would have been stored. */
+  trips: Trip[] = [];
+
+  async writeTrip(tripData: WriteTripInput): Promise<Trip> {
+    this.payloads.push(tripData);
+
+    const { startTime, timeZone, holidayCalendar, ...stored } = tripData;
+    const trip: Trip = {
+      ...stored,
+      tripId: `trip-${this.trips.length + 1}`,
+      timeOfDay: getTimeOfDayBin(startTime, { timeZone, holidayCalendar }),
+      weekday: getWeekdayBin(startTime, { timeZone, holidayCalendar }),
+    };
+    this.trips.push(trip);
+    return trip;
+  }
+
+  reset(): void {
+    this.payloads = [];
+    this.trips = [];
+  }
+}
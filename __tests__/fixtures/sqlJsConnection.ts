@@ -0,0 +1,56 @@
+// In-memory SQLite for the local backend's tests: sql.js (SQLite compiled
+// to WebAssembly) behind the SQLiteConnection interface that expo-sqlite's
+// database provides on a device, so the adapter's SQL runs unchanged.
+
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import type { SQLiteBindValue } from 'expo-sqlite';
+
+import type { SQLiteConnection } from '@/adapters/SQLiteAdapter';
+
+const toSqlValue = (value: SQLiteBindValue): SqlValue => (typeof value === 'boolean' ? Number(value) : value);
+
+export class SqlJsConnection implements SQLiteConnection {
+  constructor(readonly database: Database) {}
+
+  /** A new, empty in-memory database. */
+  static async open(): Promise<SqlJsConnection> {
+    const SQL = await initSqlJs();
+    return new SqlJsConnection(new SQL.Database());
+  }
+
+  async execAsync(source: string): Promise<void> {
+    this.database.exec(source);
+  }
+
+  async runAsync(source: string, params: SQLiteBindValue[]): Promise<{ changes: number }> {
+    this.database.run(source, params.map(toSqlValue));
+    return { changes: this.database.getRowsModified() };
+  }
+
+  async getFirstAsync<T>(source: string, params: SQLiteBindValue[]): Promise<T | null> {
+    const [first] = await this.getAllAsync<T>(source, params);
+    return first ?? null;
+  }
+
+  async getAllAsync<T>(source: string, params: SQLiteBindValue[]): Promise<T[]> {
+    const statement = this.database.prepare(source, params.map(toSqlValue));
+    const rows: T[] = [];
+    try {
+      while (statement.step()) rows.push(statement.getAsObject() as T);
+    } finally {
+      statement.free();
+    }
+    return rows;
+  }
+
+  async withTransactionAsync(task: () => Promise<void>): Promise<void> {
+    this.database.exec('BEGIN');
+    try {
+      await task();
+      this.database.exec('COMMIT');
+    } catch (error) {
+      this.database.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
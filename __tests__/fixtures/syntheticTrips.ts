@@ -0,0 +1,115 @@
+// Seeded synthetic city and trips for the privacy invariant tests.
+//
+// The city is a 24 × 24 grid of census blocks (~175 m × 220 m each).
+// GEOIDs follow the real layout (state + county + 6-digit tract + 4-digit
+// block, block group = first block digit): each tract is 4 × 4 blocks,
+// each block group 2 × 2, so endpoint areas widen block → block group →
+// tract as in production. Coordinates are on a 1e-5° grid, the precision
+// of an encoded polyline, so a decoded route is exactly the generated one.
+
+import {
+  buildCensusBlockIndex,
+  CensusBlock,
+  CensusBlockIndex,
+} from '@/services/utils/censusBlocks';
+
+export type Random = () => number;
+
+export interface SyntheticTrip {
+  coordinates: [number, number][]; // [lon, lat]
+  relativeTimes: number[]; // Whole seconds from the start, like TripService
+  startTime: string; // ISO timestamp, as passed to writeTrip for binning
+}
+
+const ORIGIN_LON = -122.45;
+const ORIGIN_LAT = 37.75;
+const BLOCK_DEGREES = 0.002;
+const GRID_SIZE = 24;
+const TRACT_BLOCKS = 4;
+const GROUP_BLOCKS = 2;
+
+const METRES_PER_DEGREE_LAT = 111320;
+const METRES_PER_DEGREE_LON = METRES_PER_DEGREE_LAT * Math.cos((ORIGIN_LAT * Math.PI) / 180);
+
+/** Mulberry32: small, fast, and the same sequence on every run. */
+export function seededRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const snap = (degrees: number): number => Math.round(degrees * 1e5) / 1e5;
+
+function blockGeoid(col: number, row: number): string {
+  const tract = Math.floor(col / TRACT_BLOCKS) + (GRID_SIZE / TRACT_BLOCKS) * Math.floor(row / TRACT_BLOCKS) + 1;
+  const group = Math.floor((col % TRACT_BLOCKS) / GROUP_BLOCKS) + 2 * Math.floor((row % TRACT_BLOCKS) / GROUP_BLOCKS) + 1;
+  const block = (col % GROUP_BLOCKS) + GROUP_BLOCKS * (row % GROUP_BLOCKS);
+  return `06075${String(tract).padStart(6, '0')}${group}${String(block).padStart(3, '0')}`;
+}
+
+export function buildSyntheticCity(): CensusBlockIndex {
+  const blocks: CensusBlock[] = [];
+  for (let col = 0; col < GRID_SIZE; col++) {
+    for (let row = 0; row < GRID_SIZE; row++) {
+      const minLon = snap(ORIGIN_LON + col * BLOCK_DEGREES);
+      const minLat = snap(ORIGIN_LAT + row * BLOCK_DEGREES);
+      const maxLon = snap(minLon + BLOCK_DEGREES);
+      const maxLat = snap(minLat + BLOCK_DEGREES);
+      blocks.push({
+        geoid: blockGeoid(col, row),
+        polygon: {
+          type: 'Polygon',
+          coordinates: [[[minLon, minLat], [maxLon, minLat], [maxLon, maxLat], [minLon, maxLat], [minLon, minLat]]],
+        },
+        bbox: { minLon, minLat, maxLon, maxLat },
+      });
+    }
+  }
+  return buildCensusBlockIndex(blocks);
+}
+
+/**
+ * A trip of 0.5–3 km to a random destination in the city, wandering
+ * around the direct line with fixes every 10–40 m at 1–3 m/s. About one
+ * in eight starts outside the city, so its origin has no census block.
+ */
+export function generateTrip(random: Random): SyntheticTrip {
+  const span = GRID_SIZE * BLOCK_DEGREES;
+  const toMetres = (dLon: number, dLat: number) =>
+    Math.hypot(dLon * METRES_PER_DEGREE_LON, dLat * METRES_PER_DEGREE_LAT);
+
+  const outside = random() < 0.125;
+  let lon = ORIGIN_LON + (outside ? -0.001 - 0.1 * span * random() : span * random());
+  let lat = ORIGIN_LAT + span * random();
+
+  let destLon: number;
+  let destLat: number;
+  do {
+    destLon = ORIGIN_LON + span * random();
+    destLat = ORIGIN_LAT + span * random();
+  } while (toMetres(destLon - lon, destLat - lat) < 500 || toMetres(destLon - lon, destLat - lat) > 3000);
+
+  const speedMps = 1 + random() * 2;
+  const coordinates: [number, number][] = [[snap(lon), snap(lat)]];
+  const relativeTimes = [0];
+  let elapsedS = 0;
+  while (toMetres(destLon - lon, destLat - lat) > 40) {
+    const stepM = 10 + random() * 30;
+    const bearing = Math.atan2((destLat - lat) * METRES_PER_DEGREE_LAT, (destLon - lon) * METRES_PER_DEGREE_LON);
+    const heading = bearing + (random() - 0.5) * 1.2; // ±~35° wander
+    lon += (stepM * Math.cos(heading)) / METRES_PER_DEGREE_LON;
+    lat += (stepM * Math.sin(heading)) / METRES_PER_DEGREE_LAT;
+    elapsedS += stepM / speedMps;
+    coordinates.push([snap(lon), snap(lat)]);
+    relativeTimes.push(Math.round(elapsedS));
+  }
+
+  // Any minute of 2026, in UTC
+  const startMs = Date.UTC(2026, 0, 1) + Math.floor(random() * 365 * 24 * 60) * 60_000;
+  return { coordinates, relativeTimes, startTime: new Date(startMs).toISOString() };
+}
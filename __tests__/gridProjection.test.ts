@@ -0,0 +1,118 @@
+import { GridProjection, parseGridProjection, toTransverseMercator, UTM_ZONE_10N } from '@/services/utils/gridProjection';
+import { convertGeometryToWgs84, utmToLatLon } from '@/services/utils/utmToWgs84';
+import { bboxToGridCells, latLonToUtm } from '@/services/utils/wgs84ToUtm';
+
+// Reference coordinates computed with PROJ (EPSG:4326 → target CRS)
+const REFERENCE_POINTS: { name: string; lat: number; lon: number; projection: GridProjection; easting: number; northing: number }[] = [
+  { name: 'San Francisco (10N)', lat: 37.7749, lon: -122.4194, projection: UTM_ZONE_10N, easting: 551130.7685, northing: 4180998.8815 },
+  { name: 'London (30N)', lat: 51.5074, lon: -0.1278, projection: { zone: 30, hemisphere: 'N' }, easting: 699316.2343, northing: 5710163.7581 },
+  { name: 'Sydney (56S)', lat: -33.8688, lon: 151.2093, projection: { zone: 56, hemisphere: 'S' }, easting: 334368.6336, northing: 6250948.3454 },
+  { name: 'Tokyo (54N)', lat: 35.6762, lon: 139.6503, projection: { zone: 54, hemisphere: 'N' }, easting: 377855.7760, northing: 3948874.3922 },
+  { name: 'São Paulo (23S)', lat: -23.5505, lon: -46.6333, projection: { zone: 23, hemisphere: 'S' }, easting: 333287.9151, northing: 7394588.3186 },
+  { name: 'Nairobi (37S)', lat: -1.2921, lon: 36.8219, projection: { zone: 37, hemisphere: 'S' }, easting: 257634.5018, northing: 9857079.9660 },
+  { name: 'Reykjavík (27N)', lat: 64.1466, lon: -21.9426, projection: { zone: 27, hemisphere: 'N' }, easting: 454138.3765, northing: 7113689.8690 },
+  // Outside the zone: grids that extend past a zone boundary
+  { name: 'Berlin in 32N', lat: 52.52, lon: 13.405, projection: { zone: 32, hemisphere: 'N' }, easting: 798812.8026, northing: 5827999.9001 },
+  { name: 'Vienna in 32N', lat: 48.2082, lon: 16.3738, projection: { zone: 32, hemisphere: 'N' }, easting: 1047664.4982, northing: 5365785.1884 },
+  { name: 'Fiji in 60S', lat: -17.7134, lon: 178.065, projection: { zone: 60, hemisphere: 'S' }, easting: 612929.7513, northing: 8041202.9430 },
+  { name: 'Across the antimeridian in 60S', lat: -16.8, lon: -179.9, projection: { zone: 60, hemisphere: 'S' }, easting: 830457.2383, northing: 8139984.0677 },
+  // Arbitrary transverse Mercator definitions on WGS84
+  {
+    name: 'Milan, custom TM',
+    lat: 45.4642,
+    lon: 9.19,
+    projection: { centralMeridian: 9, latitudeOfOrigin: 45, scaleFactor: 0.9996, falseEasting: 1500000, falseNorthing: 0 },
+    easting: 1514853.4959,
+    northing: 51586.3960,
+  },
+  {
+    name: 'Wellington, custom TM',
+    lat: -41.2865,
+    lon: 174.7762,
+    projection: { centralMeridian: 173, latitudeOfOrigin: -41, scaleFactor: 0.9996, falseEasting: 1600000, falseNorthing: 10000000 },
+    easting: 1748735.5531,
+    northing: 9966673.5407,
+  },
+];
+
+describe('latLonToUtm', () => {
+  it.each(REFERENCE_POINTS)('matches PROJ for $name', ({ lat, lon, projection, easting, northing }) => {
+    const [x, y] = latLonToUtm(lat, lon, projection);
+    expect(x).toBeCloseTo(easting, 3);
+    expect(y).toBeCloseTo(northing, 3);
+  });
+
+  it('defaults to zone 10N', () => {
+    expect(latLonToUtm(37.7749, -122.4194)).toEqual(latLonToUtm(37.7749, -122.4194, UTM_ZONE_10N));
+  });
+});
+
+describe('utmToLatLon', () => {
+  it.each(REFERENCE_POINTS)('inverts PROJ coordinates for $name', ({ lat, lon, projection, easting, northing }) => {
+    const [resultLon, resultLat] = utmToLatLon(easting, northing, projection);
+    expect(resultLat).toBeCloseTo(lat, 8);
+    expect(resultLon).toBeCloseTo(lon, 8);
+  });
+
+  it('converts geometries in the given projection', () => {
+    const sydney = REFERENCE_POINTS[2];
+    const geom = convertGeometryToWgs84({ type: 'Point', coordinates: [sydney.easting, sydney.northing] }, sydney.projection);
+
+    expect(geom.type === 'Point' && geom.coordinates[0]).toBeCloseTo(sydney.lon, 8);
+    expect(geom.type === 'Point' && geom.coordinates[1]).toBeCloseTo(sydney.lat, 8);
+  });
+});
+
+describe('bboxToGridCells', () => {
+  it('finds the cell of a point in a southern zone', () => {
+    const projection: GridProjection = { zone: 56, hemisphere: 'S' };
+    const origin = { x: 330000, y: 6250000 };
+    const bbox = { minLon: 151.2093, minLat: -33.8688, maxLon: 151.2093, maxLat: -33.8688 };
+
+    // 334368.6 E, 6250948.3 N → 4368 m east and 948 m north of the origin
+    expect(bboxToGridCells(bbox, origin, 500, projection)).toEqual({ minCol: 8, maxCol: 8, minRow: 1, maxRow: 1 });
+  });
+});
+
+describe('parseGridProjection', () => {
+  it('reads UTM zones', () => {
+    expect(parseGridProjection({ type: 'utm', zone: 33, hemisphere: 'S' })).toEqual({ zone: 33, hemisphere: 'S' });
+    expect(parseGridProjection({ type: 'UTM', zone: 10 })).toEqual(UTM_ZONE_10N);
+  });
+
+  it('reads WGS 84 UTM EPSG codes', () => {
+    expect(parseGridProjection({ epsg: 32756 })).toEqual({ zone: 56, hemisphere: 'S' });
+    expect(parseGridProjection({ crs: 'EPSG:32630' })).toEqual({ zone: 30, hemisphere: 'N' });
+  });
+
+  it('reads transverse Mercator definitions', () => {
+    expect(parseGridProjection({
+      type: 'transverse_mercator',
+      central_meridian: 173,
+      latitude_of_origin: -41,
+      scale_factor: 0.9996,
+      false_easting: 1600000,
+      false_northing: 10000000,
+    })).toEqual(REFERENCE_POINTS[12].projection);
+  });
+
+  it('rejects projections it cannot convert', () => {
+    expect(() => parseGridProjection(null)).toThrow(/not an object/);
+    expect(() => parseGridProjection({ epsg: 3857 })).toThrow(/not a WGS 84 UTM zone/);
+    expect(() => parseGridProjection({ type: 'utm', zone: 61 })).toThrow(/invalid UTM zone/);
+    expect(() => parseGridProjection({ type: 'tmerc', scale_factor: 1 })).toThrow(/invalid transverse Mercator/);
+    expect(() => parseGridProjection({ type: 'lambert_conformal_conic' })).toThrow(/not supported/);
+  });
+});
+
+describe('toTransverseMercator', () => {
+  it('expands a UTM zone', () => {
+    expect(toTransverseMercator({ zone: 56, hemisphere: 'S' })).toEqual({
+      centralMeridian: 153,
+      latitudeOfOrigin: 0,
+      scaleFactor: 0.9996,
+      falseEasting: 500000,
+      falseNorthing: 10000000,
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import type { CrosswalkData, NetworkSegment, SidewalkData } from '@/services/types/NetworkSegment';
+import {
+  calibrateLTSWeights,
+  CalibrationSample,
+  extractStressFactors,
+  getLTSWeights,
+  scoreSegmentLTS,
+  stressScore,
+} from '@/services/utils/levelOfTrafficStress';
+
+const line = { type: 'LineString' as const, coordinates: [[-122.4, 37.77], [-122.399, 37.77]] };
+
+function sidewalk(overrides: Partial<SidewalkData> = {}): SidewalkData {
+  return {
+    id: '1_1_0L',
+    presence: 'yes',
+    surface: 'concrete',
+    width: 1.5,
+    incline: 1,
+    seperator: null,
+    buffered: 'no',
+    geometry: line,
+    curbRamps: [
+      { id: 'r_s', position: 'start', slotNumber: 1, returnloc: null, returnposition: null, conditionScore: 8, geometry: null },
+      { id: 'r_e', position: 'end', slotNumber: 1, returnloc: null, returnposition: null, conditionScore: 8, geometry: null },
+    ],
+    ...overrides,
+  } as SidewalkData;
+}
+
+function segment(overrides: Partial<NetworkSegment> = {}): NetworkSegment {
+  return {
+    streetGridId: '1_1_0',
+    street: { highway: 'residential', maxspeed: 25, lanes: 2, surface: 'asphalt', incline: 1, geometry: line },
+    sidewalkLeft: sidewalk(),
+    sidewalkRight: null,
+    crosswalkStart: null,
+    crosswalkEnd: null,
+    bikewayLeft1: null,
+    bikewayLeft2: null,
+    bikewayRight1: null,
+    bikewayRight2: null,
+    ...overrides,
+  } as unknown as NetworkSegment;
+}
+
+describe('scoreSegmentLTS', () => {
+  it('scores a good sidewalk as low stress and the street as higher stress', () => {
+    const lts = scoreSegmentLTS(segment(), 'Walking');
+    const street = lts.facilities.find((f) => f.facility === 'street')!;
+    const left = lts.facilities.find((f) => f.facility === 'sidewalk_left')!;
+
+    expect(left.lts).toBe(1);
+    expect(street.score).toBeGreaterThan(left.score);
+    expect(lts.score).toBe(left.score);
+  });
+
+  it('uses a different model per mode', () => {
+    const steep = segment({ sidewalkLeft: sidewalk({ incline: 8, width: 1.0 }) });
+    const walking = scoreSegmentLTS(steep, 'walking');
+    const wheelchair = scoreSegmentLTS(steep, 'wheelchair');
+
+    expect(wheelchair.mode).toBe('wheelchair');
+    expect(wheelchair.score).toBeGreaterThan(walking.score);
+  });
+
+  it('skips sidewalks mapped as absent', () => {
+    const lts = scoreSegmentLTS(segment({ sidewalkLeft: sidewalk({ presence: 'no' }) }), 'walking');
+
+    expect(lts.facilities.map((f) => f.facility)).toEqual(['street']);
+    expect(lts.score).toBe(lts.facilities[0].score);
+  });
+
+  it('scores crosswalks without counting them in the segment score', () => {
+    const crosswalk = { controlled: 'no', marked: 'no', signals: null, island: 'no', condition: 'bad' } as CrosswalkData;
+    const lts = scoreSegmentLTS(segment({ crosswalkStart: crosswalk }), 'walking');
+    const crossing = lts.facilities.find((f) => f.facility === 'crosswalk_start')!;
+
+    expect(crossing.score).toBeGreaterThan(lts.score);
+    expect(lts.score).toBe(lts.facilities.find((f) => f.facility === 'sidewalk_left')!.score);
+  });
+});
+
+describe('calibrateLTSWeights', () => {
+  const base = getLTSWeights('walking');
+  const steepFactors = extractStressFactors(segment({ sidewalkLeft: sidewalk({ incline: 6 }) }), 'sidewalk_left')!;
+
+  it('keeps the base weights when there are too few samples', () => {
+    const samples: CalibrationSample[] = [{ factors: steepFactors, comfort: 1, weight: 10 }];
+    const result = calibrateLTSWeights(base, samples);
+
+    expect(result.sampleCount).toBe(1);
+    expect(result.weights).toEqual(base);
+  });
+
+  it('moves weights toward the stress implied by comfort ratings', () => {
+    // The user rated every steep trip as very uncomfortable
+    const samples: CalibrationSample[] = Array.from({ length: 8 }, () => ({ factors: steepFactors, comfort: 1, weight: 5 }));
+    const result = calibrateLTSWeights(base, samples);
+
+    expect(result.weights.incline).toBeGreaterThan(base.incline);
+    expect(stressScore(steepFactors, result.weights)).toBeGreaterThan(stressScore(steepFactors, base));
+    for (const value of Object.values(result.weights)) expect(value).toBeGreaterThanOrEqual(0);
+  });
+});
@@ -0,0 +1,68 @@
+import type { NetworkSegment } from '@/services/types/NetworkSegment';
+import { mapMatchTrip } from '@/services/utils/mapMatchTrip';
+
+const LAT0 = 37.77;
+const LON0 = -122.4;
+const DEG_PER_M = 1 / 111320;
+
+// Build a minimal east-west segment with a sidewalk offset to the north
+function segment(id: string, startNode: number, endNode: number, fromM: number, toM: number): NetworkSegment {
+  const line = (offsetM: number) => ({
+    type: 'LineString' as const,
+    coordinates: [
+      [LON0 + fromM * DEG_PER_M, LAT0 + offsetM * DEG_PER_M],
+      [LON0 + toM * DEG_PER_M, LAT0 + offsetM * DEG_PER_M],
+    ],
+  });
+  return {
+    streetGridId: id,
+    startNodeId: startNode,
+    endNodeId: endNode,
+    street: { geometry: line(0) },
+    sidewalkLeft: { geometry: line(8) },
+    sidewalkRight: null,
+    crosswalkStart: null,
+    crosswalkEnd: null,
+    bikewayLeft1: null,
+    bikewayLeft2: null,
+    bikewayRight1: null,
+    bikewayRight2: null,
+  } as unknown as NetworkSegment;
+}
+
+const network = [segment('1_1_0', 1, 2, 0, 100), segment('1_1_1', 2, 3, 100, 200)];
+const provider = () => network;
+
+const point = (xM: number, yM: number): [number, number] => [LON0 + xM * DEG_PER_M, LAT0 + yM * DEG_PER_M];
+
+describe('mapMatchTrip', () => {
+  it('follows the sidewalk across connected segments', () => {
+    const coords = [0, 20, 40, 60, 80, 120, 140, 160, 180].map((x) => point(x, 7));
+    const result = mapMatchTrip(coords, provider);
+
+    expect(result.matchedRatio).toBe(1);
+    expect(result.segments.map((s) => [s.streetGridId, s.facility])).toEqual([
+      ['1_1_0', 'sidewalk_left'],
+      ['1_1_1', 'sidewalk_left'],
+    ]);
+    expect(result.segments[0].startIndex).toBe(0);
+    expect(result.segments[1].endIndex).toBe(coords.length - 1);
+  });
+
+  it('does not flip facilities for a single noisy fix', () => {
+    const coords = [point(0, 7), point(20, 7), point(40, 3), point(60, 7), point(80, 7)];
+    const result = mapMatchTrip(coords, provider);
+
+    expect(result.segments).toHaveLength(1);
+    expect(result.segments[0].facility).toBe('sidewalk_left');
+  });
+
+  it('reports unmatched points when off the network', () => {
+    const coords = [point(0, 7), point(20, 7), point(20, 500), point(40, 500)];
+    const farProvider = (lat: number) => (lat > LAT0 + 100 * DEG_PER_M ? [] : network);
+    const result = mapMatchTrip(coords, farProvider);
+
+    expect(result.matchedRatio).toBe(0.5);
+    expect(result.segments[0].endIndex).toBe(1);
+  });
+});
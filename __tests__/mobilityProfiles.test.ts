@@ -0,0 +1,49 @@
+import type { UserProfile } from '@/adapters/DatabaseAdapter';
+import {
+  applyComfort,
+  getDefaultMobilitySettings,
+  getUserMobilitySettings,
+  resolveMobilitySettings,
+  withMobilityProfile,
+} from '@/services/utils/mobilityProfiles';
+
+describe('resolveMobilitySettings', () => {
+  it('uses the mode defaults at the default comfort level', () => {
+    expect(resolveMobilitySettings('Wheelchair')).toEqual(getDefaultMobilitySettings('wheelchair'));
+  });
+
+  it('tightens limits for low comfort and relaxes them for high comfort', () => {
+    const defaults = getDefaultMobilitySettings('scooter');
+    const low = applyComfort(defaults, 2);
+    const high = applyComfort(defaults, 9);
+
+    expect(low.maxInclinePct).toBeLessThan(defaults.maxInclinePct);
+    expect(low.minWidthM).toBeGreaterThan(defaults.minWidthM);
+    expect(low.allowStreet).toBe(false);
+    expect(high.maxInclinePct).toBeGreaterThan(defaults.maxInclinePct);
+    expect(high.maxStreetSpeedMph).toBeGreaterThan(defaults.maxStreetSpeedMph);
+  });
+
+  it('never relaxes curb ramp or surface requirements through comfort', () => {
+    const settings = resolveMobilitySettings('wheelchair', { comfort: 10, overrides: {} });
+    expect(settings.missingCurbRampsBlock).toBe(true);
+    expect(settings.acceptableSurfaces).not.toBeNull();
+  });
+
+  it('applies overrides after comfort', () => {
+    const settings = resolveMobilitySettings('wheelchair', { comfort: 2, overrides: { maxInclinePct: 10 } });
+    expect(settings.maxInclinePct).toBe(10);
+  });
+});
+
+describe('getUserMobilitySettings', () => {
+  it('looks up profiles by lowercase mode', () => {
+    const user = {
+      modeList: ['Skateboard'],
+      mobilityProfiles: withMobilityProfile({}, 'Skateboard', { comfort: 5, overrides: { allowStreet: false } }),
+    } as unknown as UserProfile;
+
+    expect(user.mobilityProfiles).toHaveProperty('skateboard');
+    expect(getUserMobilitySettings(user, 'Skateboard').allowStreet).toBe(false);
+  });
+});
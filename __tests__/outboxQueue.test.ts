@@ -0,0 +1,124 @@
+import {
+  droppedOutboxEntries,
+  MAX_OUTBOX_ATTEMPTS,
+  nextOutboxEntry,
+  nextOutboxRetryAt,
+  OutboxEntry,
+  outboxRetryDelayMs,
+} from '@/services/utils/outboxQueue';
+
+const NOW = Date.parse('2026-06-01T12:00:00Z');
+
+const entry = (id: string, overrides: Partial<OutboxEntry> = {}): OutboxEntry => ({
+  id,
+  tripId: null,
+  dependsOn: [],
+  attempts: 0,
+  nextAttemptAt: null,
+  ...overrides,
+});
+
+const synced = (tripId: string) => `server-${tripId}`;
+
+describe('nextOutboxEntry', () => {
+  it('sends entries in the order they were queued', () => {
+    const entries = [entry('a', { tripId: 't1' }), entry('b', { tripId: 't1' })];
+
+    expect(nextOutboxEntry(entries, NOW, synced)).toEqual({ entry: entries[0], tripId: 'server-t1' });
+    expect(nextOutboxEntry(entries.slice(1), NOW, synced)?.entry.id).toBe('b');
+  });
+
+  it('returns null for an empty outbox', () => {
+    expect(nextOutboxEntry([], NOW, synced)).toBeNull();
+  });
+
+  it('holds back a trip until it has a server ID', () => {
+    const entries = [entry('a', { tripId: 'recording' }), entry('b', { tripId: 't2' })];
+    const resolve = (tripId: string) => (tripId === 'recording' ? null : synced(tripId));
+
+    expect(nextOutboxEntry(entries, NOW, resolve)).toEqual({ entry: entries[1], tripId: 'server-t2' });
+  });
+
+  it('waits for the entries it depends on', () => {
+    const entries = [
+      entry('image', { tripId: 't1', nextAttemptAt: new Date(NOW + 5000).toISOString(), attempts: 1 }),
+      entry('rating', { tripId: 't1', dependsOn: ['image'] }),
+      entry('other', { dependsOn: ['image'] }),
+    ];
+
+    expect(nextOutboxEntry(entries, NOW, synced)).toBeNull();
+    expect(nextOutboxEntry(entries.slice(1), NOW, synced)?.entry.id).toBe('rating');
+  });
+
+  it('keeps a trip in order while an earlier write is backing off', () => {
+    const entries = [
+      entry('a', { tripId: 't1', attempts: 2, nextAttemptAt: new Date(NOW + 10000).toISOString() }),
+      entry('b', { tripId: 't1' }),
+      entry('c', { tripId: 't2' }),
+    ];
+
+    expect(nextOutboxEntry(entries, NOW, synced)?.entry.id).toBe('c');
+    expect(nextOutboxEntry(entries, NOW + 10000, synced)?.entry.id).toBe('a');
+  });
+
+  it('stops retrying after the attempt limit', () => {
+    const entries = [entry('a', { tripId: 't1', attempts: MAX_OUTBOX_ATTEMPTS, nextAttemptAt: null })];
+
+    expect(nextOutboxEntry(entries, NOW, synced)).toBeNull();
+  });
+
+  it('sends writes without a trip as they are', () => {
+    const entries = [entry('a')];
+    const resolve = jest.fn(synced);
+
+    expect(nextOutboxEntry(entries, NOW, resolve)).toEqual({ entry: entries[0], tripId: null });
+    expect(resolve).not.toHaveBeenCalled();
+  });
+});
+
+describe('outbox retry timing', () => {
+  it('backs off exponentially up to a cap', () => {
+    expect(outboxRetryDelayMs(1)).toBe(5000);
+    expect(outboxRetryDelayMs(2)).toBe(10000);
+    expect(outboxRetryDelayMs(3)).toBe(20000);
+    expect(outboxRetryDelayMs(20)).toBe(10 * 60 * 1000);
+  });
+
+  it('wakes up for the earliest retry still allowed', () => {
+    const entries = [
+      entry('a', { attempts: 1, nextAttemptAt: new Date(NOW + 20000).toISOString() }),
+      entry('b', { attempts: 1, nextAttemptAt: new Date(NOW + 5000).toISOString() }),
+      entry('c', { attempts: MAX_OUTBOX_ATTEMPTS, nextAttemptAt: new Date(NOW + 1000).toISOString() }),
+    ];
+
+    expect(nextOutboxRetryAt(entries)).toBe(NOW + 5000);
+    expect(nextOutboxRetryAt([entry('d')])).toBeNull();
+  });
+});
+
+describe('droppedOutboxEntries', () => {
+  const dropped = (tripId: string) => tripId === 'dropped';
+
+  it('discards the writes of a trip its privacy level dropped', () => {
+    const entries = [
+      entry('image', { tripId: 'dropped' }),
+      entry('rating', { tripId: 'dropped', dependsOn: ['image'] }),
+      entry('edit', { tripId: 't2' }),
+    ];
+
+    expect(droppedOutboxEntries(entries, dropped).map((e) => e.id)).toEqual(['image', 'rating']);
+  });
+
+  it('discards writes that depend on a discarded one', () => {
+    const entries = [entry('image', { tripId: 'dropped' }), entry('other', { dependsOn: ['image'] }), entry('free')];
+
+    expect(droppedOutboxEntries(entries, dropped).map((e) => e.id)).toEqual(['image', 'other']);
+  });
+
+  it('leaves the rest of the outbox sendable', () => {
+    const entries = [entry('a', { tripId: 'dropped' }), entry('b', { tripId: 't2' })];
+    const discarded = new Set(droppedOutboxEntries(entries, dropped).map((e) => e.id));
+
+    expect(nextOutboxEntry(entries.filter((e) => !discarded.has(e.id)), NOW, synced)?.entry.id).toBe('b');
+  });
+});
@@ -0,0 +1,115 @@
+import { createHash } from 'crypto';
+
+import {
+  assertChecksum,
+  assertRequiredColumns,
+  findMissingColumns,
+  getTopLevelColumns,
+  isSchemaSupported,
+  ParquetIntegrityError,
+  ParquetSchemaElement,
+  PARQUET_SCHEMA_VERSION,
+} from '@/services/utils/parquetIntegrity';
+import { Sha256 } from '@/services/utils/sha256';
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+// root → id, geometry { x, y }, tags (list → element), width
+const SCHEMA: ParquetSchemaElement[] = [
+  { name: 'schema', num_children: 4 },
+  { name: 'id' },
+  { name: 'geometry', num_children: 2 },
+  { name: 'x' },
+  { name: 'y' },
+  { name: 'tags', num_children: 1 },
+  { name: 'list', num_children: 1 },
+  { name: 'element' },
+  { name: 'width' },
+];
+
+describe('Sha256', () => {
+  it('matches the FIPS 180-4 test vectors', () => {
+    expect(new Sha256().hex()).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(new Sha256().update(utf8('abc')).hex()).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(new Sha256().update(utf8('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')).hex())
+      .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  it('gives the same digest however the input is split', () => {
+    const data = new Uint8Array(10_000).map((_, i) => (i * 31 + 7) & 0xff);
+    const expected = createHash('sha256').update(data).digest('hex');
+
+    for (const chunkSize of [1, 63, 64, 65, 1000, 4096]) {
+      const hash = new Sha256();
+      for (let offset = 0; offset < data.length; offset += chunkSize) {
+        hash.update(data.subarray(offset, offset + chunkSize));
+      }
+      expect(hash.hex()).toBe(expected);
+    }
+  });
+
+  it('pads inputs whose length ends near a block boundary', () => {
+    for (const length of [55, 56, 57, 63, 64, 119, 120]) {
+      const data = new Uint8Array(length).fill(0x61);
+      expect(new Sha256().update(data).hex()).toBe(createHash('sha256').update(data).digest('hex'));
+    }
+  });
+
+  it('cannot be used after finalizing', () => {
+    const hash = new Sha256();
+    hash.hex();
+    expect(() => hash.update(utf8('abc'))).toThrow(/finalized/);
+    expect(() => hash.hex()).toThrow(/finalized/);
+  });
+});
+
+describe('getTopLevelColumns', () => {
+  it('skips the children of nested groups', () => {
+    expect(getTopLevelColumns(SCHEMA)).toEqual(['id', 'geometry', 'tags', 'width']);
+  });
+
+  it('returns nothing for an empty schema', () => {
+    expect(getTopLevelColumns([])).toEqual([]);
+  });
+});
+
+describe('findMissingColumns', () => {
+  it('lists required columns that are absent', () => {
+    expect(findMissingColumns(SCHEMA, ['id', 'width'])).toEqual([]);
+    expect(findMissingColumns(SCHEMA, ['id', 'x', 'slope'])).toEqual(['x', 'slope']);
+  });
+});
+
+describe('isSchemaSupported', () => {
+  it('accepts versions up to the one the app reads', () => {
+    expect(isSchemaSupported(null)).toBe(true);
+    expect(isSchemaSupported(PARQUET_SCHEMA_VERSION)).toBe(true);
+    expect(isSchemaSupported(PARQUET_SCHEMA_VERSION + 1)).toBe(false);
+  });
+});
+
+describe('assertChecksum', () => {
+  const digest = 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad';
+
+  it('accepts the published digest in either case', () => {
+    expect(() => assertChecksum(digest, digest.toUpperCase(), 'network.parquet')).not.toThrow();
+  });
+
+  it('rejects a different digest', () => {
+    const other = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+    expect(() => assertChecksum(other, digest, 'network.parquet')).toThrow(ParquetIntegrityError);
+    try {
+      assertChecksum(other, digest, 'network.parquet');
+    } catch (err) {
+      expect((err as ParquetIntegrityError).reason).toBe('checksum');
+      expect((err as Error).message).toMatch(/^network\.parquet failed verification/);
+    }
+  });
+});
+
+describe('assertRequiredColumns', () => {
+  it('names the missing columns', () => {
+    expect(() => assertRequiredColumns(SCHEMA, ['id', 'slope'], 'network.parquet'))
+      .toThrow('network.parquet is missing 1 required column(s): slope');
+  });
+});
@@ -0,0 +1,136 @@
+import { interpolateTimes, parseGeoJSON, parseGPX, parseTripFile } from '@/services/utils/parseTripFile';
+import { tripsToGeoJSON, tripsToGPX } from '@/services/utils/tripExport';
+
+const GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="OtherTracker" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata><name>Export</name><time>2026-05-04T08:00:00Z</time></metadata>
+  <trk>
+    <name>Morning &amp; roll</name>
+    <trkseg>
+      <trkpt lat="37.7700" lon="-122.4000"><ele>12</ele><time>2026-05-04T08:15:00Z</time></trkpt>
+      <trkpt lon="-122.3995" lat="37.7702"><time>2026-05-04T08:15:10Z</time></trkpt>
+    </trkseg>
+    <trkseg>
+      <trkpt lat='37.7704' lon='-122.3990'><time>2026-05-04T08:15:25Z</time></trkpt>
+    </trkseg>
+  </trk>
+</gpx>`;
+
+describe('parseGPX', () => {
+  it('joins track segments and converts times to relativeTimes', () => {
+    const [track] = parseGPX(GPX);
+
+    expect(track.name).toBe('Morning & roll');
+    expect(track.coordinates).toEqual([
+      [-122.4, 37.77],
+      [-122.3995, 37.7702],
+      [-122.399, 37.7704],
+    ]);
+    expect(track.startTime).toBe('2026-05-04T08:15:00.000Z');
+    expect(track.relativeTimes).toEqual([0, 10, 25]);
+  });
+
+  it('falls back to routes when there are no tracks', () => {
+    const gpx = `<gpx version="1.1"><rte><name>Planned</name>
+      <rtept lat="37.77" lon="-122.4"/><rtept lat="37.771" lon="-122.4"/></rte></gpx>`;
+    const [track] = parseGPX(gpx);
+
+    expect(track.name).toBe('Planned');
+    expect(track.coordinates).toHaveLength(2);
+    expect(track.startTime).toBeNull();
+    expect(track.relativeTimes).toBeNull();
+  });
+
+  it('reads relative times from RollTracks exports', () => {
+    const exported = tripsToGPX([
+      {
+        tripId: 't1',
+        mode: 'walking',
+        comfort: 6,
+        purpose: 'errand',
+        timeOfDay: 'midday',
+        weekday: 1,
+        durationS: 30,
+        distanceMi: 0.02,
+        reachedDest: true,
+        coordinates: [[-122.4, 37.77], [-122.3995, 37.7702]],
+        relativeTimes: [0, 30],
+        clipped: true,
+      },
+    ]);
+    const [track] = parseGPX(exported);
+
+    expect(track.coordinates).toEqual([[-122.4, 37.77], [-122.3995, 37.7702]]);
+    expect(track.startTime).toBeNull();
+    expect(track.relativeTimes).toEqual([0, 30]);
+  });
+});
+
+describe('parseGeoJSON', () => {
+  it('reads LineStrings with coordTimes and MultiLineStrings', () => {
+    const geojson = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: { name: 'Ride', coordTimes: ['2026-05-04T17:00:00Z', '2026-05-04T17:00:05Z', null] },
+          geometry: { type: 'LineString', coordinates: [[-122.4, 37.77, 10], [-122.3995, 37.7702, 11], [-122.399, 37.7704, 12]] },
+        },
+        {
+          type: 'Feature',
+          properties: {},
+          geometry: { type: 'MultiLineString', coordinates: [[[-122.4, 37.77], [-122.3995, 37.7702]], [[-122.399, 37.7704]]] },
+        },
+        { type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: [-122.4, 37.77] } },
+      ],
+    });
+    const tracks = parseGeoJSON(geojson);
+
+    expect(tracks).toHaveLength(2);
+    expect(tracks[0].name).toBe('Ride');
+    expect(tracks[0].coordinates[0]).toEqual([-122.4, 37.77]);
+    expect(tracks[0].startTime).toBe('2026-05-04T17:00:00.000Z');
+    expect(tracks[0].relativeTimes).toEqual([0, 5, 5]);
+    expect(tracks[1].coordinates).toHaveLength(3);
+    expect(tracks[1].relativeTimes).toBeNull();
+  });
+
+  it('round-trips relative times from RollTracks exports', () => {
+    const exported = tripsToGeoJSON([
+      {
+        tripId: 't1',
+        mode: 'walking',
+        comfort: 6,
+        purpose: 'errand',
+        timeOfDay: 'midday',
+        weekday: 1,
+        durationS: 30,
+        distanceMi: 0.02,
+        reachedDest: true,
+        coordinates: [[-122.4, 37.77], [-122.3995, 37.7702]],
+        relativeTimes: [0, 30],
+        clipped: true,
+      },
+    ]);
+
+    expect(parseGeoJSON(exported)[0].relativeTimes).toEqual([0, 30]);
+  });
+});
+
+describe('parseTripFile', () => {
+  it('detects the format from the content when the extension is unknown', () => {
+    expect(parseTripFile(GPX, 'ride.xml')).toHaveLength(1);
+  });
+
+  it('rejects files without usable tracks', () => {
+    expect(() => parseTripFile('hello', 'notes.txt')).toThrow('Unsupported file');
+    expect(() => parseTripFile('<gpx version="1.1"></gpx>', 'empty.gpx')).toThrow('No tracks');
+  });
+});
+
+describe('interpolateTimes', () => {
+  it('interpolates gaps and extends the ends', () => {
+    expect(interpolateTimes([null, 10, null, 30, null])).toEqual([10, 10, 20, 30, 30]);
+    expect(interpolateTimes([null, null])).toBeNull();
+  });
+});
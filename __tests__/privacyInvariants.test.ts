@@ -0,0 +1,296 @@
+import * as polyline from '@mapbox/polyline';
+
+import type { NewTrip, PrivacyLevel } from '@/adapters/DatabaseAdapter';
+import { SyncService } from '@/services/SyncService';
+import { getPrivacySettings } from '@/services/utils/anonymizeTrip';
+import { EndpointArea, findBlockForPoint, generalizeBlock } from '@/services/utils/censusBlocks';
+import { clipTripToBlocks, pointInPolygon } from '@/services/utils/clipTripGeometry';
+
+import { LocalDataService } from './fixtures/localDataService';
+import { buildSyntheticCity, generateTrip, seededRandom, SyntheticTrip } from './fixtures/syntheticTrips';
+
+// Privacy invariants, checked over seeded synthetic trips: whatever route
+// is recorded, what SyncService hands to DataService must not reveal the
+// trip's endpoints or its absolute time.
+
+const mockDataService = new LocalDataService();
+const mockCity = buildSyntheticCity();
+
+jest.mock('@/adapters/DatabaseAdapter', () => ({
+  get DataService() {
+    return mockDataService;
+  },
+}));
+
+// Resolves areas in the synthetic city instead of downloading block files
+jest.mock('@/services/CensusBlockService', () => {
+  const { findBlockForPoint, generalizeBlock } = jest.requireActual('@/services/utils/censusBlocks');
+  return {
+    CensusBlockService: {
+      findArea: async (lon: number, lat: number, minBlocks: number = 1) => {
+        const block = findBlockForPoint(mockCity, lon, lat);
+        return block ? generalizeBlock(mockCity, block, minBlocks) : null;
+      },
+      findRegion: async (lon: number, lat: number) =>
+        findBlockForPoint(mockCity, lon, lat)
+          ? { timeZone: 'America/Los_Angeles', holidayCalendar: 'us-federal' }
+          : null,
+    },
+  };
+});
+
+jest.mock('@/services/MapMatchingService', () => ({
+  MapMatchingService: { matchTrip: async () => null },
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: { addEventListener: () => () => {} },
+}));
+
+const TRIP_COUNT = 150;
+const ISO_TIMESTAMP = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+const EPOCH_SECONDS_2001 = 1e9; // Any epoch timestamp (s or ms) from this century is larger
+
+// --- Helpers ---
+
+const inside = (point: [number, number], area: EndpointArea): boolean =>
+  area.polygons.some((polygon) => pointInPolygon(point, polygon));
+
+function areaFor(point: [number, number], level: PrivacyLevel): EndpointArea | null {
+  const block = findBlockForPoint(mockCity, point[0], point[1]);
+  return block ? generalizeBlock(mockCity, block, getPrivacySettings(level).endpointK) : null;
+}
+
+/** Index of the first point outside the area, or -1 if the route never leaves it. */
+function firstExit(coordinates: [number, number][], area: EndpointArea): number {
+  return coordinates.findIndex((point) => !inside(point, area));
+}
+
+function reenters(coordinates: [number, number][], area: EndpointArea): boolean {
+  const exit = firstExit(coordinates, area);
+  return exit >= 0 && coordinates.slice(exit).some((point) => inside(point, area));
+}
+
+/** Where `part` starts as a contiguous run within `route`, or -1. */
+function sliceStart(route: [number, number][], part: [number, number][]): number {
+  for (let start = 0; start + part.length <= route.length; start++) {
+    if (part.every(([lon, lat], i) => route[start + i][0] === lon && route[start + i][1] === lat)) return start;
+  }
+  return -1;
+}
+
+const decode = (encoded: string): [number, number][] =>
+  (polyline.decode(encoded) as [number, number][]).map(([lat, lon]) => [lon, lat]);
+
+/** Every number anywhere in a value. */
+function numbersIn(value: unknown): number[] {
+  if (typeof value === 'number') return [value];
+  if (Array.isArray(value)) return value.flatMap(numbersIn);
+  if (value && typeof value === 'object') return Object.values(value).flatMap(numbersIn);
+  return [];
+}
+
+function tripRecord(trip: SyntheticTrip, privacyLevel: PrivacyLevel): NewTrip {
+  return {
+    userId: 'user-1',
+    mode: 'wheelchair',
+    comfort: 3,
+    purpose: 'commute',
+    durationS: trip.relativeTimes[trip.relativeTimes.length - 1],
+    distanceMi: 1,
+    status: 'completed',
+    geometry: polyline.encode(trip.coordinates.map(([lon, lat]) => [lat, lon] as [number, number])),
+    relativeTimes: trip.relativeTimes,
+    privacyLevel,
+    startTime: trip.startTime, // For binning only, not stored
+  };
+}
+
+interface Upload {
+  trip: SyntheticTrip;
+  origin: EndpointArea | null;
+  destination: EndpointArea | null;
+  payload: Record<string, unknown> | null; // null if the trip wasn't uploaded
+}
+
+function uploadAreas(trip: SyntheticTrip, level: PrivacyLevel): Pick<Upload, 'origin' | 'destination'> {
+  return {
+    origin: areaFor(trip.coordinates[0], level),
+    destination: areaFor(trip.coordinates[trip.coordinates.length - 1], level),
+  };
+}
+
+async function uploadSyntheticTrips(level: PrivacyLevel, seed: number): Promise<Upload[]> {
+  const random = seededRandom(seed);
+  const uploads: Upload[] = [];
+  for (let i = 0; i < TRIP_COUNT; i++) {
+    const trip = generateTrip(random);
+    const before = mockDataService.payloads.length;
+    await SyncService.syncTrip(tripRecord(trip, level), { localTripId: `${level}-${i}` });
+    uploads.push({
+      trip,
+      ...uploadAreas(trip, level),
+      payload: (mockDataService.payloads[before] as unknown as Record<string, unknown>) ?? null,
+    });
+  }
+  return uploads;
+}
+
+/** Both ends can be clipped away, leaving a route outside the areas. */
+function hideable({ trip, origin, destination }: Upload): boolean {
+  return !!origin && !!destination
+    && clipTripToBlocks(trip.coordinates, origin.polygons, destination.polygons).coordinates.length >= 2;
+}
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  // Seed the pipeline's random truncation and jitter too
+  jest.spyOn(Math, 'random').mockImplementation(seededRandom(42));
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+  SyncService.cleanup();
+});
+
+// ═══════════════════════════════════════════════════════════
+// clipTripToBlocks
+// ═══════════════════════════════════════════════════════════
+
+describe('clipTripToBlocks on synthetic trips', () => {
+  const random = seededRandom(7);
+  const trips = Array.from({ length: 300 }, () => generateTrip(random));
+
+  it('returns a contiguous run of the route with no point inside the blocks', () => {
+    let checked = 0;
+    let looped = 0;
+    for (const trip of trips) {
+      const origin = areaFor(trip.coordinates[0], 'standard');
+      const destination = areaFor(trip.coordinates[trip.coordinates.length - 1], 'standard');
+      if (!origin || !destination) continue;
+
+      const { coordinates, trimmedFromStart, trimmedFromEnd } = clipTripToBlocks(
+        trip.coordinates,
+        origin.polygons,
+        destination.polygons,
+      );
+      if (coordinates.length === 0) continue;
+      checked++;
+
+      expect(coordinates).toEqual(trip.coordinates.slice(trimmedFromStart, trip.coordinates.length - trimmedFromEnd));
+      expect(coordinates.some((point) => inside(point, origin) || inside(point, destination))).toBe(false);
+      if (reenters(trip.coordinates, origin) || reenters([...trip.coordinates].reverse(), destination)) looped++;
+    }
+    expect(checked).toBeGreaterThan(trips.length / 2);
+    expect(looped).toBeGreaterThan(0); // Routes that loop back into an area are covered too
+  });
+});
+
+// ═══════════════════════════════════════════════════════════
+// SyncService uploads
+// ═══════════════════════════════════════════════════════════
+
+describe.each<[PrivacyLevel, number]>([
+  ['standard', 1],
+  ['enhanced', 2],
+  ['strict', 3],
+])('uploads at the %s privacy level', (level, seed) => {
+  let uploads: Upload[] = [];
+
+  beforeAll(async () => {
+    mockDataService.reset();
+    uploads = await uploadSyntheticTrips(level, seed);
+  });
+
+  it('keeps relativeTimes aligned with the uploaded geometry', () => {
+    for (const { payload } of uploads) {
+      if (!payload) continue;
+      expect(payload.relativeTimes).toHaveLength(decode(payload.geometry as string).length);
+    }
+  });
+
+  it('never uploads a point inside the origin or destination area', () => {
+    // Trimming beyond the areas may drop some hideable trips at higher levels
+    expect(uploads.filter((upload) => upload.payload).length).toBeGreaterThan(uploads.length / 2);
+
+    for (const { trip, origin, destination, payload } of uploads) {
+      if (!payload) continue;
+      const uploaded = decode(payload.geometry as string);
+      expect(origin).not.toBeNull();
+      expect(destination).not.toBeNull();
+
+      // A run of the route between leaving the origin and reaching the destination
+      const start = sliceStart(trip.coordinates, uploaded);
+      expect(start).toBeGreaterThanOrEqual(firstExit(trip.coordinates, origin!));
+      const fromEnd = trip.coordinates.length - (start + uploaded.length);
+      expect(fromEnd).toBeGreaterThanOrEqual(firstExit([...trip.coordinates].reverse(), destination!));
+      expect(uploaded.some((point) => inside(point, origin!) || inside(point, destination!))).toBe(false);
+    }
+  });
+
+  it('names the endpoint areas, never the exact blocks above the standard level', () => {
+    for (const { origin, destination, payload } of uploads) {
+      if (!payload || !origin || !destination) continue;
+      expect(payload.odGeoids).toEqual([origin.geoid, destination.geoid]);
+      expect(origin.geoid).toHaveLength(level === 'standard' ? 15 : 11);
+    }
+  });
+
+  it('sends no absolute timestamp besides the startTime used for binning', () => {
+    for (const { trip, payload } of uploads) {
+      if (!payload) continue;
+      const { startTime, ...rest } = payload;
+      expect(startTime).toBe(trip.startTime);
+      expect(JSON.stringify(rest)).not.toMatch(ISO_TIMESTAMP);
+      expect(Math.max(...numbersIn(rest))).toBeLessThan(EPOCH_SECONDS_2001);
+    }
+    for (const stored of mockDataService.trips) {
+      expect(stored).not.toHaveProperty('startTime');
+      expect(stored).not.toHaveProperty('timeZone');
+      expect(JSON.stringify(stored)).not.toMatch(ISO_TIMESTAMP);
+    }
+  });
+
+  it('uploads every hideable trip at the standard level, and only hideable ones at any level', () => {
+    for (const upload of uploads) {
+      if (level === 'standard') expect(upload.payload !== null).toBe(hideable(upload));
+      if (upload.payload) expect(hideable(upload)).toBe(true);
+    }
+    // Dropped trips are never left waiting in the queue
+    expect(SyncService.getQueuedTrips()).toEqual([]);
+  });
+});
+
+describe('trips that cannot be anonymized as recorded', () => {
+  const random = seededRandom(11);
+  let trip: SyntheticTrip;
+
+  beforeAll(() => {
+    mockDataService.reset();
+    do {
+      trip = generateTrip(random);
+    } while (!hideable({ trip, ...uploadAreas(trip, 'standard'), payload: null }));
+  });
+
+  it('drops a trip whose geometry has no route instead of uploading it', async () => {
+    const geometry = polyline.encode([[trip.coordinates[0][1], trip.coordinates[0][0]]]);
+    const saved = await SyncService.syncTrip({ ...tripRecord(trip, 'standard'), geometry }, { localTripId: 'one-point' });
+
+    expect(saved).toBeNull();
+    expect(mockDataService.payloads).toEqual([]);
+    expect(SyncService.isTripDropped('one-point')).toBe(true);
+  });
+
+  it('uploads no relative times when they do not match the route', async () => {
+    const record = { ...tripRecord(trip, 'standard'), relativeTimes: trip.relativeTimes.slice(1) };
+    await SyncService.syncTrip(record, { localTripId: 'misaligned-times' });
+
+    expect(mockDataService.payloads).toHaveLength(1);
+    expect(mockDataService.payloads[0].relativeTimes).toBeUndefined();
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  applyManifestDiff,
+  diffManifests,
+  InstalledManifest,
+  isSameGrid,
+  parseManifest,
+  ProximityManifest,
+  shouldDownloadFull,
+  toHex,
+} from '@/services/utils/proximityManifest';
+
+const sha = (c: string) => c.repeat(64);
+
+const manifest = (version: string, cells: Record<string, [string, number]>): ProximityManifest => ({
+  version,
+  gridOrigin: { x: 540000, y: 4170000, cellSize: 500 },
+  cells: Object.fromEntries(Object.entries(cells).map(([key, [c, bytes]]) => [key, { sha256: sha(c), bytes }])),
+});
+
+const installed: InstalledManifest = {
+  ...manifest('2026-06-01T00:00:00Z', { '1_1': ['a', 100], '1_2': ['b', 100], '2_1': ['c', 100], '2_2': ['d', 100] }),
+  chunks: { '2_1': sha('c') },
+};
+
+describe('parseManifest', () => {
+  it('reads the snake_case manifest from the pipeline', () => {
+    const parsed = parseManifest({
+      version: '2026-06-02T00:00:00Z',
+      grid_origin: { x: 540000, y: 4170000, cell_size: 250 },
+      cells: { '-1_3': { sha256: 'A'.repeat(64), bytes: 42 } },
+    });
+
+    expect(parsed.gridOrigin).toEqual({ x: 540000, y: 4170000, cellSize: 250 });
+    expect(parsed.cells['-1_3']).toEqual({ sha256: 'a'.repeat(64), bytes: 42 });
+  });
+
+  it('rejects malformed manifests', () => {
+    expect(() => parseManifest(null)).toThrow(/version/);
+    expect(() => parseManifest({ version: 'soon', grid_origin: { x: 0, y: 0 }, cells: {} })).toThrow(/version/);
+    expect(() => parseManifest({ version: '2026-06-02T00:00:00Z', cells: {} })).toThrow(/grid origin/);
+    expect(() => parseManifest({
+      version: '2026-06-02T00:00:00Z',
+      grid_origin: { x: 0, y: 0 },
+      cells: { '1_1': { sha256: 'not-a-hash' } },
+    })).toThrow(/cell 1_1/);
+  });
+});
+
+describe('diffManifests', () => {
+  it('lists added, changed and removed cells', () => {
+    const remote = manifest('2026-06-02T00:00:00Z', { '1_1': ['a', 100], '1_2': ['e', 120], '2_1': ['c', 100], '3_3': ['f', 80] });
+
+    expect(diffManifests(installed, remote)).toEqual({
+      added: ['3_3'],
+      changed: ['1_2'],
+      removed: ['2_2'],
+      downloadBytes: 200,
+    });
+  });
+});
+
+describe('shouldDownloadFull', () => {
+  it('prefers the full parquet once the delta passes half the build', () => {
+    const remote = manifest('2026-06-02T00:00:00Z', { '1_1': ['e', 100], '1_2': ['f', 100], '2_1': ['c', 100], '2_2': ['d', 100] });
+    expect(shouldDownloadFull(diffManifests(installed, remote), remote)).toBe(false);
+
+    const mostlyNew = manifest('2026-06-02T00:00:00Z', { '1_1': ['e', 100], '1_2': ['f', 100], '2_1': ['g', 100], '2_2': ['d', 100] });
+    expect(shouldDownloadFull(diffManifests(installed, mostlyNew), mostlyNew)).toBe(true);
+  });
+});
+
+describe('applyManifestDiff', () => {
+  it('serves fetched cells from chunks and forgets removed ones', () => {
+    const remote = manifest('2026-06-02T00:00:00Z', { '1_1': ['a', 100], '1_2': ['e', 120], '3_3': ['f', 80] });
+    const next = applyManifestDiff(installed, remote, diffManifests(installed, remote));
+
+    expect(next.version).toBe('2026-06-02T00:00:00Z');
+    expect(next.cells).toBe(remote.cells);
+    expect(next.chunks).toEqual({ '1_2': sha('e'), '3_3': sha('f') });
+  });
+});
+
+describe('isSameGrid', () => {
+  it('compares origin and cell size', () => {
+    const moved = { ...installed, gridOrigin: { ...installed.gridOrigin, cellSize: 250 } };
+    expect(isSameGrid(installed, installed)).toBe(true);
+    expect(isSameGrid(installed, moved)).toBe(false);
+  });
+});
+
+describe('toHex', () => {
+  it('encodes bytes as lowercase hex', () => {
+    expect(toHex(new Uint8Array([0, 15, 171, 255]).buffer)).toBe('000fabff');
+  });
+});
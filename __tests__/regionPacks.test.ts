@@ -0,0 +1,79 @@
+import type { RegionPack } from '@/adapters/DatabaseAdapter';
+import { bboxIntersects, getPacksForBbox, getPackUtmZone, isPackOutdated, packCellKey } from '@/services/utils/regionPacks';
+import { utmToLatLon } from '@/services/utils/utmToWgs84';
+import { bboxToGridCells, latLonToUtm } from '@/services/utils/wgs84ToUtm';
+
+const pack = (id: string, bbox: RegionPack['bbox'], utmZone: number, utmHemisphere: 'N' | 'S' = 'N'): RegionPack => ({
+  id,
+  name: id,
+  jurisdiction: null,
+  bbox,
+  utmZone,
+  utmHemisphere,
+  assetName: `${id}_network`,
+  sizeBytes: 0,
+  lastUpdated: '2026-06-01T00:00:00Z',
+  sha256: null,
+  schemaVersion: null,
+  timeZone: null,
+  holidayCalendar: null,
+  hasCensusBlocks: true,
+});
+
+const sanFrancisco = pack('san-francisco-ca', { minLon: -122.5149, minLat: 37.7081, maxLon: -122.3569, maxLat: 37.8324 }, 10);
+const oakland = pack('oakland-ca', { minLon: -122.3555, minLat: 37.6325, maxLon: -122.1144, maxLat: 37.8854 }, 10);
+const sydney = pack('sydney-au', { minLon: 150.52, minLat: -34.12, maxLon: 151.34, maxLat: -33.57 }, 56, 'S');
+
+describe('getPacksForBbox', () => {
+  it('returns the packs a viewport overlaps', () => {
+    const bayBridge = { minLon: -122.39, minLat: 37.79, maxLon: -122.33, maxLat: 37.82 };
+    expect(getPacksForBbox([sanFrancisco, oakland, sydney], bayBridge)).toEqual([sanFrancisco, oakland]);
+
+    const missionDistrict = { minLon: -122.43, minLat: 37.75, maxLon: -122.40, maxLat: 37.77 };
+    expect(getPacksForBbox([sanFrancisco, oakland, sydney], missionDistrict)).toEqual([sanFrancisco]);
+  });
+
+  it('treats touching edges as overlapping', () => {
+    expect(bboxIntersects(sanFrancisco.bbox, { ...sanFrancisco.bbox, minLon: sanFrancisco.bbox.maxLon, maxLon: -122.2 })).toBe(true);
+    expect(bboxIntersects(sanFrancisco.bbox, sydney.bbox)).toBe(false);
+  });
+});
+
+describe('isPackOutdated', () => {
+  it('compares the installed build with the catalog', () => {
+    expect(isPackOutdated('2026-05-01T00:00:00Z', sanFrancisco)).toBe(true);
+    expect(isPackOutdated('2026-06-01T00:00:00.000Z', sanFrancisco)).toBe(false);
+  });
+});
+
+describe('packCellKey', () => {
+  it('keeps the same cell of different packs apart', () => {
+    expect(packCellKey('san-francisco-ca', '3_4')).not.toBe(packCellKey('sydney-au', '3_4'));
+  });
+});
+
+describe('pack UTM zones', () => {
+  it('projects onto the central meridian of the pack zone', () => {
+    const [easting, northing] = latLonToUtm(0, 153, getPackUtmZone(sydney));
+    expect(easting).toBeCloseTo(500000, 3);
+    expect(northing).toBeCloseTo(10000000, 3);
+  });
+
+  it('round-trips southern hemisphere coordinates', () => {
+    const zone = getPackUtmZone(sydney);
+    const [easting, northing] = latLonToUtm(-33.8568, 151.2153, zone);
+    const [lon, lat] = utmToLatLon(easting, northing, zone);
+
+    expect(lon).toBeCloseTo(151.2153, 6);
+    expect(lat).toBeCloseTo(-33.8568, 6);
+  });
+
+  it('finds grid cells in the pack zone', () => {
+    const zone = getPackUtmZone(sydney);
+    const [x, y] = latLonToUtm(-33.87, 151.2, zone);
+    const origin = { x: Math.floor(x / 500) * 500, y: Math.floor(y / 500) * 500 };
+    const bbox = { minLon: 151.2, minLat: -33.87, maxLon: 151.2, maxLat: -33.87 };
+
+    expect(bboxToGridCells(bbox, origin, 500, zone)).toEqual({ minCol: 0, maxCol: 0, minRow: 0, maxRow: 0 });
+  });
+});
@@ -0,0 +1,313 @@
+import type { NewTrip, RegionPack } from '@/adapters/DatabaseAdapter';
+import { SQLiteAdapterClass } from '@/adapters/SQLiteAdapter';
+
+import { SqlJsConnection } from './fixtures/sqlJsConnection';
+
+jest.mock('expo-sqlite', () => ({ openDatabaseAsync: jest.fn() }));
+
+jest.mock('expo-crypto', () => {
+  const crypto = jest.requireActual('crypto');
+  return {
+    CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+    randomUUID: () => crypto.randomUUID(),
+    digestStringAsync: async (_algorithm: string, data: string) =>
+      crypto.createHash('sha256').update(data).digest('hex'),
+  };
+});
+
+jest.mock('expo-file-system', () => ({ Directory: jest.fn(), File: jest.fn(), Paths: {} }));
+
+const REGISTRATION = {
+  username: 'rider',
+  displayName: 'Rider',
+  age: 34,
+  password: 'correct horse',
+  modeList: ['wheelchair'],
+};
+
+function newTrip(userId: string, overrides: Partial<NewTrip> = {}): NewTrip {
+  return {
+    userId,
+    mode: 'wheelchair',
+    comfort: 4,
+    purpose: 'commute',
+    status: 'completed',
+    geometry: '_p~iF~ps|U_ulLnnqC',
+    relativeTimes: [0, 30],
+    odGeoids: ['060750101001000', '060750101001003'],
+    matchedSegments: [{ streetGridId: '1_1_0', facility: 'sidewalk_left', startIndex: 0, endIndex: 1 }],
+    reachedDest: true,
+    durationS: 30,
+    distanceMi: 0.2,
+    privacyLevel: 'standard',
+    startTime: '2026-11-26T18:00:00Z', // 10:00 on Thanksgiving in Los Angeles
+    timeZone: 'America/Los_Angeles',
+    holidayCalendar: 'us-federal',
+    ...overrides,
+  };
+}
+
+let connection: SqlJsConnection;
+let adapter: SQLiteAdapterClass;
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  connection = await SqlJsConnection.open();
+  adapter = new SQLiteAdapterClass(async () => connection);
+});
+
+afterEach(() => {
+  connection.database.close();
+  jest.restoreAllMocks();
+});
+
+describe('schema', () => {
+  it('migrates a new database once and keeps its data on reopen', async () => {
+    const user = await adapter.register(REGISTRATION);
+    await adapter.writeTrip(newTrip(user.id));
+
+    const reopened = new SQLiteAdapterClass(async () => connection);
+    expect(await reopened.getCurrentUser()).toEqual(expect.objectContaining({ id: user.id }));
+    expect(await reopened.getUserTrips()).toHaveLength(1);
+    expect(await connection.getFirstAsync('PRAGMA user_version', [])).toEqual({ user_version: 2 });
+  });
+
+  it('has no column for an absolute start time', async () => {
+    await adapter.getRegionPacks(); // Runs the migrations
+    const columns = await connection.getAllAsync<{ name: string }>('PRAGMA table_info(trips)', []);
+    expect(columns.map((column) => column.name)).not.toContain('start_time');
+  });
+});
+
+describe('auth', () => {
+  it('registers an account and makes it current on the device', async () => {
+    expect(await adapter.getCurrentUser()).toBeNull();
+    const user = await adapter.register(REGISTRATION);
+    expect(await adapter.getCurrentUser()).toEqual({
+      id: user.id,
+      displayName: 'Rider',
+      age: 34,
+      modeList: ['wheelchair'],
+      dataRangerMode: false,
+      mobilityProfiles: {},
+      privacyLevel: 'standard',
+    });
+  });
+
+  it('rejects a taken display name or username', async () => {
+    await adapter.register(REGISTRATION);
+    expect(await adapter.checkDisplayNameAvailability('RIDER')).toBe(false);
+    await expect(adapter.register({ ...REGISTRATION, username: 'other' })).rejects.toThrow('display name is already taken');
+    await expect(adapter.register({ ...REGISTRATION, displayName: 'Other' })).rejects.toThrow('username is already taken');
+  });
+
+  it('logs in with the password and switches the current account', async () => {
+    const first = await adapter.register(REGISTRATION);
+    const second = await adapter.register({ ...REGISTRATION, username: 'walker', displayName: 'Walker' });
+    expect((await adapter.getCurrentUser())?.id).toBe(second.id);
+
+    await expect(adapter.login('rider', 'wrong')).rejects.toThrow('Invalid credentials.');
+    await expect(adapter.login('nobody', 'correct horse')).rejects.toThrow('Invalid credentials.');
+
+    await adapter.logout();
+    expect((await adapter.login('rider', 'correct horse')).id).toBe(first.id);
+    expect((await adapter.getCurrentUser())?.id).toBe(first.id);
+  });
+
+  it('never stores the password itself', async () => {
+    await adapter.register(REGISTRATION);
+    const rows = await connection.getAllAsync('SELECT * FROM accounts', []);
+    expect(JSON.stringify(rows)).not.toContain('correct horse');
+  });
+
+  it('updates profile fields and toggles DataRanger mode', async () => {
+    await adapter.register(REGISTRATION);
+    const updated = await adapter.updateProfile({
+      age: 35,
+      privacyLevel: 'strict',
+      mobilityProfiles: { wheelchair: { comfort: 7, overrides: { maxInclinePct: 6 } } },
+    });
+    expect(updated).toEqual(expect.objectContaining({
+      age: 35,
+      privacyLevel: 'strict',
+      mobilityProfiles: { wheelchair: { comfort: 7, overrides: { maxInclinePct: 6 } } },
+    }));
+    expect(await adapter.toggleDataRangerMode()).toBe(true);
+    expect((await adapter.getCurrentUser())?.dataRangerMode).toBe(true);
+  });
+
+  it('deletes every row of the user and ends the session', async () => {
+    const user = await adapter.register(REGISTRATION);
+    const trip = await adapter.writeTrip(newTrip(user.id));
+    await adapter.writeFeatureEdit({
+      userId: user.id, tripId: trip.tripId, streetGridId: '1_1_0', editType: 'rating',
+      userRating: 3, coord: [-122.4, 37.77], featureType: 'line',
+    });
+
+    await adapter.deleteUserData();
+    expect(await adapter.getCurrentUser()).toBeNull();
+    for (const table of ['trips', 'feature_edits', 'user_profiles', 'accounts']) {
+      expect(await connection.getAllAsync(`SELECT * FROM ${table}`, [])).toEqual([]);
+    }
+    await expect(adapter.getUserTrips()).rejects.toThrow('No active session.');
+  });
+});
+
+describe('trips', () => {
+  it('stores the time bins of the start time, in the origin time zone and holiday calendar', async () => {
+    const user = await adapter.register(REGISTRATION);
+    const trip = await adapter.writeTrip(newTrip(user.id));
+    expect(trip.timeOfDay).toBe('midday');
+    expect(trip.weekday).toBe(0); // Thanksgiving
+    expect(JSON.stringify(await connection.getAllAsync('SELECT * FROM trips', []))).not.toContain('2026-11-26');
+  });
+
+  it('reads back what it writes', async () => {
+    const user = await adapter.register(REGISTRATION);
+    const { tripId } = await adapter.writeTrip(newTrip(user.id));
+    expect(await adapter.getTrip(tripId)).toEqual(expect.objectContaining({
+      tripId,
+      userId: user.id,
+      reachedDest: true,
+      relativeTimes: [0, 30],
+      odGeoids: ['060750101001000', '060750101001003'],
+      matchedSegments: [{ streetGridId: '1_1_0', facility: 'sidewalk_left', startIndex: 0, endIndex: 1 }],
+      privacyLevel: 'standard',
+    }));
+
+    const updated = await adapter.updateTrip(tripId, { purpose: 'errand', reachedDest: false });
+    expect(updated).toEqual(expect.objectContaining({ purpose: 'errand', reachedDest: false, mode: 'wheelchair' }));
+    expect(await adapter.getTrip('missing')).toBeNull();
+  });
+
+  it("summarizes the user's completed trips, newest first, with rating and correction counts", async () => {
+    const user = await adapter.register(REGISTRATION);
+    const older = await adapter.writeTrip(newTrip(user.id));
+    await new Promise((resolve) => setTimeout(resolve, 2)); // Trip IDs start with the write time
+    const newer = await adapter.writeTrip(newTrip(user.id));
+    await adapter.writeTrip(newTrip(user.id, { status: 'active' }));
+    await adapter.writeRating({
+      userId: user.id, tripId: older.tripId, crisId: 'c1', conditionScore: 70, userRating: 4,
+      lat: 37.77, long: -122.4, timeStamp: '2026-06-01T10:00:00Z',
+    });
+
+    const summaries = await adapter.getTripSummaries();
+    expect(summaries.map((summary) => summary.tripId)).toEqual([newer.tripId, older.tripId]);
+    expect(summaries[1]).toEqual(expect.objectContaining({ ratingCount: 1, correctionCount: 0 }));
+  });
+
+  it('deletes a trip with its ratings and corrections', async () => {
+    const user = await adapter.register(REGISTRATION);
+    const { tripId } = await adapter.writeTrip(newTrip(user.id));
+    await adapter.writeRating({
+      userId: user.id, tripId, crisId: 'c1', conditionScore: 70, userRating: 4,
+      lat: 37.77, long: -122.4, timeStamp: '2026-06-01T10:00:00Z',
+    });
+    await adapter.writeCorrection({
+      userId: user.id, tripId, correctedSegmentId: 's1', userReportedMaterial: 'gravel',
+      geometry: { type: 'LineString', coordinates: [[-122.4, 37.77], [-122.39, 37.77]] },
+      timeStamp: '2026-06-01T10:00:00Z',
+    });
+
+    await adapter.deleteTrip(tripId);
+    expect(await adapter.getTrip(tripId)).toBeNull();
+    expect(await adapter.getRatingsForTrip(tripId)).toEqual([]);
+    expect(await adapter.getCorrectionsForTrip(tripId)).toEqual([]);
+  });
+});
+
+describe('ratings and edits', () => {
+  let userId: string;
+
+  beforeEach(async () => {
+    userId = (await adapter.register(REGISTRATION)).id;
+  });
+
+  it('treats a retried rating with the same id as already written', async () => {
+    const rating = {
+      id: 'rating-1', userId, tripId: 't1', crisId: 'c1', conditionScore: 70, userRating: 4,
+      lat: 37.77, long: -122.4, timeStamp: '2026-06-01T10:00:00Z',
+    };
+    await adapter.writeRating(rating);
+    expect(await adapter.writeRating({ ...rating, userRating: 5 })).toEqual(expect.objectContaining({ userRating: 4 }));
+    expect(await adapter.getUserRatings()).toHaveLength(1);
+
+    expect(await adapter.updateRating('c1', 't1', { userRating: 2 })).toEqual(expect.objectContaining({ userRating: 2 }));
+    await expect(adapter.updateRating('c2', 't1', { userRating: 2 })).rejects.toThrow('Failed to update rating');
+    await adapter.deleteRating('c1', 't1');
+    expect(await adapter.getRatingsForTrip('t1')).toEqual([]);
+  });
+
+  it('writes, updates and lists segment and feature edits', async () => {
+    await adapter.writeSegmentEdit({
+      id: 'seg-1', tripId: 't1', userId, streetGridId: '1_1_0', facilityType: 'sidewalk_left',
+      fieldName: 'surface', oldValue: 'asphalt', newValue: 'gravel',
+    });
+    expect(await adapter.getSegmentEditsForTrip('t1')).toEqual([
+      expect.objectContaining({ fieldName: 'surface', oldValue: 'asphalt', newValue: 'gravel' }),
+    ]);
+    await adapter.deleteSegmentEdit('seg-1');
+    expect(await adapter.getUserSegmentEdits()).toEqual([]);
+
+    const edit = await adapter.writeFeatureEdit({
+      id: 'edit-1', userId, tripId: 't1', streetGridId: '1_1_0', editType: 'attribute_correction',
+      attributes: { surface: 'gravel' }, coord: [-122.4, 37.77], featureType: 'line',
+    });
+    expect(edit).toEqual(expect.objectContaining({ status: 'pending', coord: [-122.4, 37.77], attributes: { surface: 'gravel' } }));
+
+    const updated = await adapter.updateFeatureEdit('edit-1', { attributes: { surface: 'concrete' } });
+    expect(updated.attributes).toEqual({ surface: 'concrete' });
+    expect(await adapter.getUserFeatureEdits()).toHaveLength(1);
+  });
+
+  it('withdraws only pending geometry edits and resolves only rejected or conflicting ones', async () => {
+    const payload = { geometry: { type: 'LineString', coordinates: [[0, 0], [1, 1]] } };
+    const { id: pending } = await adapter.writeGeometryEdit({ id: 'g1', tripId: 't1', userId, editType: 'add_segment', payload, coord: [0, 0] });
+    const { id: conflicting } = await adapter.writeGeometryEdit({ id: 'g2', tripId: 't1', userId, editType: 'add_segment', payload, coord: [0, 0] });
+    // What the server pipeline would do
+    await connection.runAsync("UPDATE geometry_edits SET status = 'conflict', status_reason = 'Node moved' WHERE id = ?", [conflicting]);
+
+    await adapter.resolveGeometryEdit(pending, { status: 'withdrawn' });
+    await adapter.withdrawGeometryEdit(conflicting);
+    expect(await adapter.getGeometryEditStatuses([pending, conflicting])).toEqual(expect.arrayContaining([
+      { id: pending, status: 'pending', statusReason: null },
+      { id: conflicting, status: 'conflict', statusReason: 'Node moved' },
+    ]));
+
+    await adapter.withdrawGeometryEdit(pending);
+    await adapter.resolveGeometryEdit(conflicting, { status: 'superseded', supersededBy: 'g3' });
+    const edits = await adapter.getGeometryEditsForTrip('t1');
+    expect(edits.map((edit) => edit.status).sort()).toEqual(['superseded', 'withdrawn']);
+    expect(edits[0].payload).toEqual(payload);
+  });
+});
+
+describe('region packs', () => {
+  const PACK: RegionPack = {
+    id: 'demo',
+    name: 'Demo City',
+    jurisdiction: null,
+    bbox: { minLon: -122.5, minLat: 37.7, maxLon: -122.3, maxLat: 37.8 },
+    utmZone: 10,
+    utmHemisphere: 'N',
+    assetName: 'ProximityNetwork',
+    sizeBytes: 1024,
+    lastUpdated: '2026-06-01T00:00:00Z',
+    sha256: 'abc123',
+    schemaVersion: 2,
+    timeZone: 'America/Los_Angeles',
+    holidayCalendar: 'us-federal',
+    hasCensusBlocks: true,
+  };
+
+  it('serves the seeded catalog and asset versions', async () => {
+    expect(await adapter.getRegionPacks()).toEqual([]);
+    expect(await adapter.checkAssetUpdates('ProximityNetwork')).toBeNull();
+
+    await adapter.seedRegionPacks([PACK]);
+    expect(await adapter.getRegionPacks()).toEqual([PACK]);
+    expect(await adapter.checkAssetUpdates('ProximityNetwork')).toEqual({
+      lastUpdated: '2026-06-01T00:00:00Z', sha256: 'abc123', schemaVersion: 2,
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { TrackPoint } from '@/services/utils/cleanGPSTrack';
+import { DEFAULT_STOP_DETECTION_CONFIG, detectStop, MotionState } from '@/services/utils/stopDetection';
+
+import fixtures from './fixtures/stopDetectionTracks.json';
+
+type Fixture = (typeof fixtures)[keyof typeof fixtures];
+
+const toPoints = (fixture: Fixture): TrackPoint[] =>
+  fixture.coordinates.map(([lon, lat], i) => ({
+    lon,
+    lat,
+    t: fixture.relativeTimes[i],
+    accuracy: fixture.accuracies[i],
+  }));
+
+/** Replay a fixture second by second, as the active trip screen polls it. */
+function replay(fixture: Fixture, untilS: number): { t: number; state: MotionState }[] {
+  const points = toPoints(fixture);
+  const transitions: { t: number; state: MotionState }[] = [];
+  let previous: MotionState = 'moving';
+
+  for (let now = 0; now <= untilS; now++) {
+    const { state } = detectStop(points.filter((p) => p.t <= now), now);
+    if (state !== previous) {
+      transitions.push({ t: now, state });
+      previous = state;
+    }
+  }
+  return transitions;
+}
+
+describe('detectStop', () => {
+  it('suggests pausing and then ending during a long stop', () => {
+    const fixture = fixtures.walkThenLongStop;
+    const transitions = replay(fixture, 840);
+
+    expect(transitions.map((t) => t.state)).toEqual(['suggest_pause', 'suggest_end']);
+    const { pauseAfterS, endAfterS } = DEFAULT_STOP_DETECTION_CONFIG;
+    expect(transitions[0].t).toBeGreaterThanOrEqual(fixture.stopStartS - 30 + pauseAfterS);
+    expect(transitions[0].t).toBeLessThanOrEqual(fixture.stopStartS + 10 + pauseAfterS);
+    expect(transitions[1].t - transitions[0].t).toBe(endAfterS - pauseAfterS);
+  });
+
+  it('keeps counting when a stationary device stops reporting', () => {
+    const points = toPoints(fixtures.walkThenLongStop).filter((p) => p.t <= 125);
+    const result = detectStop(points, 125 + DEFAULT_STOP_DETECTION_CONFIG.endAfterS);
+
+    expect(result.state).toBe('suggest_end');
+    expect(result.stopStartS).toBeLessThanOrEqual(124);
+  });
+
+  it('does not flag a short wait at a crossing', () => {
+    expect(replay(fixtures.trafficLight, 210)).toEqual([]);
+  });
+
+  it('does not flag slow but steady movement', () => {
+    expect(replay(fixtures.slowRoll, 900)).toEqual([]);
+  });
+
+  it('ignores low-accuracy spikes during a stop', () => {
+    const fixture = fixtures.urbanCanyonStop;
+    const transitions = replay(fixture, 480);
+
+    expect(transitions.map((t) => t.state)).toEqual(['suggest_pause']);
+    expect(transitions[0].t).toBeLessThanOrEqual(fixture.stopStartS + 10 + DEFAULT_STOP_DETECTION_CONFIG.pauseAfterS);
+  });
+
+  it('uses the configured thresholds', () => {
+    const points = toPoints(fixtures.trafficLight).filter((p) => p.t <= 150);
+    const config = { ...DEFAULT_STOP_DETECTION_CONFIG, pauseAfterS: 60, endAfterS: 120 };
+
+    expect(detectStop(points, 150).state).toBe('moving');
+    expect(detectStop(points, 150, config).state).toBe('suggest_pause');
+    expect(detectStop(points, 200, config).state).toBe('suggest_end');
+  });
+
+  it('does not count a stop from before recording resumed', () => {
+    const points = toPoints(fixtures.walkThenLongStop).filter((p) => p.t <= 125);
+
+    expect(detectStop(points, 700).state).toBe('suggest_end');
+    expect(detectStop(points, 700, DEFAULT_STOP_DETECTION_CONFIG, 600)).toMatchObject({ state: 'moving', stopStartS: 600 });
+  });
+
+  it('reports moving without usable points', () => {
+    expect(detectStop([], 600)).toEqual({ state: 'moving', stoppedForS: 0, stopStartS: null });
+    expect(detectStop([{ lon: -122.4, lat: 37.77, t: 0, accuracy: 500 }], 600).state).toBe('moving');
+  });
+});
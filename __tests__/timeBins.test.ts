@@ -0,0 +1,185 @@
+import type { TimeOfDayBin } from '@/adapters/DatabaseAdapter';
+import { getHolidayDates, getTimeOfDayBin, getWeekdayBin } from '@/services/utils/timeBins';
+
+import { seededRandom } from './fixtures/syntheticTrips';
+
+// Without a time zone, bins follow the device's local clock. Those DST
+// cases hold in any zone; they only cross a transition when Jest runs in
+// a zone that has one (e.g. TZ=America/Los_Angeles npm test). The time
+// zone cases below name their zone and hold wherever Jest runs.
+
+const BIN_ORDER: TimeOfDayBin[] = [
+  'late_night', 'early_morning', 'morning_rush', 'midday', 'evening_rush', 'evening', 'night',
+];
+
+/** ISO timestamp for a local wall-clock time. */
+const local = (year: number, month: number, day: number, hour: number, minute: number = 0): string =>
+  new Date(year, month - 1, day, hour, minute).toISOString();
+
+/** The same instant written with a different UTC offset. */
+function withOffset(ms: number, offsetMinutes: number): string {
+  const shifted = new Date(ms + offsetMinutes * 60_000).toISOString().slice(0, 19);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const abs = Math.abs(offsetMinutes);
+  return `${shifted}${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+}
+
+describe('getTimeOfDayBin', () => {
+  it.each<[number, TimeOfDayBin]>([
+    [0, 'late_night'],
+    [4, 'late_night'],
+    [5, 'early_morning'],
+    [7, 'morning_rush'],
+    [9, 'morning_rush'],
+    [10, 'midday'],
+    [16, 'evening_rush'],
+    [19, 'evening'],
+    [22, 'night'],
+    [23, 'night'],
+  ])('bins %i:00 local time as %s', (hour, bin) => {
+    expect(getTimeOfDayBin(local(2026, 6, 3, hour))).toBe(bin);
+  });
+
+  it('depends on the instant, not the offset it is written with', () => {
+    const random = seededRandom(11);
+    for (let i = 0; i < 200; i++) {
+      const ms = Date.UTC(2026, 0, 1) + Math.floor(random() * 365 * 24 * 60) * 60_000;
+      const bin = getTimeOfDayBin(new Date(ms).toISOString());
+      for (const offset of [-480, -420, 0, 60, 330, 540]) {
+        expect(getTimeOfDayBin(withOffset(ms, offset))).toBe(bin);
+      }
+    }
+  });
+
+  it.each([
+    ['US spring forward', 2026, 3, 8],
+    ['US fall back', 2026, 11, 1],
+    ['EU spring forward', 2026, 3, 29],
+    ['EU fall back', 2026, 10, 25],
+  ])('keeps bins in order through the %s day', (_name, year, month, day) => {
+    let previous = 0;
+    for (let minute = 0; minute < 24 * 60; minute += 15) {
+      const index = BIN_ORDER.indexOf(getTimeOfDayBin(local(year, month, day, Math.floor(minute / 60), minute % 60)));
+      expect(index).toBeGreaterThanOrEqual(previous);
+      previous = index;
+    }
+    expect(previous).toBe(BIN_ORDER.indexOf('night'));
+  });
+});
+
+describe('getWeekdayBin', () => {
+  it('is 1 Monday to Friday and 0 at the weekend', () => {
+    // 2026-06-01 is a Monday
+    const bins = [1, 2, 3, 4, 5, 6, 7].map((day) => getWeekdayBin(local(2026, 6, day, 12)));
+    expect(bins).toEqual([1, 1, 1, 1, 1, 0, 0]);
+  });
+
+  it('changes at local midnight', () => {
+    expect(getWeekdayBin(local(2026, 6, 5, 23, 59))).toBe(1);
+    expect(getWeekdayBin(local(2026, 6, 6, 0, 0))).toBe(0);
+    expect(getWeekdayBin(local(2026, 6, 7, 23, 59))).toBe(0);
+    expect(getWeekdayBin(local(2026, 6, 8, 0, 0))).toBe(1);
+  });
+
+  it('depends on the instant, not the offset it is written with', () => {
+    const random = seededRandom(12);
+    for (let i = 0; i < 200; i++) {
+      const ms = Date.UTC(2026, 0, 1) + Math.floor(random() * 365 * 24 * 60) * 60_000;
+      const bin = getWeekdayBin(new Date(ms).toISOString());
+      for (const offset of [-480, 0, 540]) {
+        expect(getWeekdayBin(withOffset(ms, offset))).toBe(bin);
+      }
+    }
+  });
+
+  it('keeps the local date through DST transitions', () => {
+    // Sundays: the weekend holds on both sides of the clock change
+    for (const [month, day] of [[3, 8], [11, 1], [3, 29], [10, 25]]) {
+      for (let hour = 0; hour < 24; hour++) {
+        expect(getWeekdayBin(local(2026, month, day, hour))).toBe(0);
+      }
+    }
+  });
+});
+
+describe('binning in the origin time zone', () => {
+  const LA = { timeZone: 'America/Los_Angeles' };
+  const TOKYO = { timeZone: 'Asia/Tokyo' };
+
+  it('bins the same instant by the local time of the origin', () => {
+    // 20:30 on Tuesday in Los Angeles, 12:30 on Wednesday in Tokyo
+    expect(getTimeOfDayBin('2026-06-03T03:30:00Z', LA)).toBe('evening');
+    expect(getTimeOfDayBin('2026-06-03T03:30:00Z', TOKYO)).toBe('midday');
+    // 20:00 on Friday in Los Angeles, 12:00 on Saturday in Tokyo
+    expect(getWeekdayBin('2026-06-06T03:00:00Z', LA)).toBe(1);
+    expect(getWeekdayBin('2026-06-06T03:00:00Z', TOKYO)).toBe(0);
+  });
+
+  it.each([
+    ['spring forward', '2026-03-08T08:00:00Z', 23],
+    ['fall back', '2026-11-01T07:00:00Z', 25],
+  ])('keeps bins in order through the US %s day', (_name, midnight, hours) => {
+    const start = Date.parse(midnight);
+    let previous = 0;
+    for (let minute = 0; minute < hours * 60; minute += 15) {
+      const timestamp = new Date(start + minute * 60_000).toISOString();
+      const index = BIN_ORDER.indexOf(getTimeOfDayBin(timestamp, LA));
+      expect(index).toBeGreaterThanOrEqual(previous);
+      previous = index;
+      expect(getWeekdayBin(timestamp, LA)).toBe(0); // Both are Sundays
+    }
+    expect(previous).toBe(BIN_ORDER.indexOf('night'));
+  });
+
+  it("falls back to the device's clock for an unknown zone", () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const timestamp = '2026-06-03T03:30:00Z';
+    expect(getTimeOfDayBin(timestamp, { timeZone: 'Mars/Olympus_Mons' })).toBe(getTimeOfDayBin(timestamp));
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('holidays', () => {
+  it('lists the US federal holidays of a year, with observed days', () => {
+    expect(getHolidayDates('us-federal', 2026)).toEqual([
+      '2026-01-01', // New Year's Day
+      '2026-01-19', // Martin Luther King Jr. Day
+      '2026-02-16', // Washington's Birthday
+      '2026-05-25', // Memorial Day
+      '2026-06-19', // Juneteenth
+      '2026-07-03', // Independence Day, observed (July 4 is a Saturday)
+      '2026-07-04',
+      '2026-09-07', // Labor Day
+      '2026-10-12', // Columbus Day
+      '2026-11-11', // Veterans Day
+      '2026-11-26', // Thanksgiving Day
+      '2026-12-25', // Christmas Day
+    ]);
+  });
+
+  it("observes a Saturday New Year's Day on the last day of the year before", () => {
+    // 2022-01-01 was a Saturday
+    expect(getHolidayDates('us-federal', 2021)).toContain('2021-12-31');
+    expect(getHolidayDates('us-federal', 2022)).not.toContain('2021-12-31');
+    expect(getHolidayDates('us-federal', 2022)[0]).toBe('2022-01-01');
+  });
+
+  it('bins a weekday holiday as 0 only with a holiday calendar', () => {
+    const LA = { timeZone: 'America/Los_Angeles' };
+    const thanksgiving = '2026-11-26T18:00:00Z'; // 10:00 in Los Angeles
+    expect(getWeekdayBin(thanksgiving, LA)).toBe(1);
+    expect(getWeekdayBin(thanksgiving, { ...LA, holidayCalendar: 'us-federal' })).toBe(0);
+    // The day after is a normal Friday
+    expect(getWeekdayBin('2026-11-27T18:00:00Z', { ...LA, holidayCalendar: 'us-federal' })).toBe(1);
+  });
+
+  it('holds the holiday for the whole local day of the origin', () => {
+    const options = { timeZone: 'America/Los_Angeles', holidayCalendar: 'us-federal' };
+    // 00:30 and 23:30 on Memorial Day in Los Angeles
+    expect(getWeekdayBin('2026-05-25T07:30:00Z', options)).toBe(0);
+    expect(getWeekdayBin('2026-05-26T06:30:00Z', options)).toBe(0);
+    // 00:30 the next day
+    expect(getWeekdayBin('2026-05-26T07:30:00Z', options)).toBe(1);
+  });
+});
@@ -0,0 +1,201 @@
+import type { GeometryEditPayload, NetworkSegment, SidewalkData } from '@/services/types/NetworkSegment';
+import {
+  hasTopologyErrors,
+  TopologyContext,
+  TopologyValidationError,
+  validateGeometryEdit,
+} from '@/services/utils/topologyValidation';
+
+const point = (coordinates: number[]) => ({ type: 'Point' as const, coordinates });
+
+function sidewalk(id: string, rampId: string): SidewalkData {
+  return {
+    id,
+    geometry: null,
+    curbRamps: [
+      { id: rampId, position: 'start', slotNumber: 1, returnloc: null, returnposition: null, conditionScore: null, geometry: null },
+    ],
+  } as unknown as SidewalkData;
+}
+
+function segment(id: string, coordinates: number[][], startNodeId: number, endNodeId: number): NetworkSegment {
+  return {
+    streetGridId: id,
+    startNodeId,
+    endNodeId,
+    street: { geometry: { type: 'LineString', coordinates } },
+    sidewalkLeft: sidewalk(`${id}L`, `${id}_ramp_l`),
+    sidewalkRight: sidewalk(`${id}R`, `${id}_ramp_r`),
+    startNodeGeometry: point(coordinates[0]),
+    endNodeGeometry: point(coordinates[coordinates.length - 1]),
+  } as unknown as NetworkSegment;
+}
+
+// A and B run east in a line through node 2; C leaves node 3 to the north; D stands apart
+const A = segment('1_1_0', [[-122.4, 37.77], [-122.399, 37.77], [-122.398, 37.77]], 1, 2);
+const B = segment('1_1_1', [[-122.398, 37.77], [-122.397, 37.77]], 2, 3);
+const C = segment('1_1_2', [[-122.397, 37.77], [-122.397, 37.771]], 3, 4);
+const D = segment('1_2_0', [[-122.39, 37.78], [-122.389, 37.78]], 5, 6);
+
+function context(segments: NetworkSegment[] = [A, B, C, D]): TopologyContext {
+  return {
+    segments,
+    getSegmentPairInfo: (seg1Id, seg2Id) => {
+      const [s1, s2] = [seg1Id, seg2Id].map((id) => segments.find((s) => s.streetGridId === id));
+      if (!s1 || !s2) return null;
+      const ends = (s: NetworkSegment) => [s.street.geometry.coordinates[0], s.street.geometry.coordinates[s.street.geometry.coordinates.length - 1]];
+      for (const p of ends(s1)) {
+        if (ends(s2).some((q) => q[0] === p[0] && q[1] === p[1])) {
+          return { sharedNodeId: `${p[0]}_${p[1]}`, sharedCoord: p as [number, number] };
+        }
+      }
+      return null;
+    },
+  };
+}
+
+const edit = (editType: GeometryEditPayload['editType'], payload: unknown, streetGridId?: string): GeometryEditPayload => ({
+  editType,
+  streetGridId,
+  payload: payload as GeometryEditPayload['payload'],
+  coord: [0, 0],
+});
+
+const codes = (e: GeometryEditPayload, ctx = context()) => validateGeometryEdit(e, ctx).map((i) => `${i.severity}:${i.code}`);
+
+describe('validateGeometryEdit', () => {
+  describe('move_endpoint', () => {
+    it('accepts a move that carries every attached segment', () => {
+      expect(codes(edit('move_endpoint', {
+        nodeId: 2,
+        oldCoord: [-122.398, 37.77],
+        newCoord: [-122.398, 37.7705],
+        rubberBandSegments: ['1_1_0', '1_1_1'],
+      }))).toEqual([]);
+    });
+
+    it('flags a segment left dangling by the move', () => {
+      const issues = validateGeometryEdit(edit('move_endpoint', {
+        node_id: '2',
+        new_x: -122.398,
+        new_y: 37.7705,
+        rubber_band_segments: ['1_1_0'],
+      }), context());
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ severity: 'error', code: 'dangling_endpoint', streetGridIds: ['1_1_1'] });
+    });
+
+    it('warns when the node is not loaded', () => {
+      expect(codes(edit('move_endpoint', { nodeId: 99, newCoord: [0, 0], rubberBandSegments: [] }))).toEqual(['warning:segment_not_loaded']);
+    });
+  });
+
+  describe('merge_segments', () => {
+    it('accepts segments that share a plain node', () => {
+      expect(codes(edit('merge_segments', { segmentIds: ['1_1_0', '1_1_1'] }))).toEqual([]);
+    });
+
+    it('rejects segments without a shared node', () => {
+      expect(codes(edit('merge_segments', { surviving_seg_id: '1_1_0', consumed_seg_id: '1_2_0' }))).toEqual(['error:merge_no_shared_node']);
+    });
+
+    it('warns when merging through an intersection', () => {
+      const E = segment('1_1_3', [[-122.397, 37.77], [-122.397, 37.769]], 3, 7);
+      expect(codes(edit('merge_segments', { segmentIds: ['1_1_1', '1_1_2'] }), context([A, B, C, E]))).toEqual(['warning:merge_at_intersection']);
+    });
+
+    it('rejects merging a segment with itself', () => {
+      expect(codes(edit('merge_segments', { segmentIds: ['1_1_0', '1_1_0'] }))).toEqual(['error:merge_same_segment']);
+    });
+  });
+
+  describe('draw_segment', () => {
+    it('accepts a simple line', () => {
+      expect(codes(edit('draw_segment', {
+        facilityType: 'footway',
+        geometry: { type: 'LineString', coordinates: [[-122.4, 37.77], [-122.399, 37.7705], [-122.398, 37.77]] },
+        attributes: {},
+      }))).toEqual([]);
+    });
+
+    it('rejects a line that crosses itself', () => {
+      const issues = validateGeometryEdit(edit('draw_segment', {
+        coordinates: [[0, 0], [0.001, 0.001], [0.001, 0], [0, 0.001]],
+      }), context());
+
+      expect(issues[0].code).toBe('self_intersection');
+      expect(issues[0].coord![0]).toBeCloseTo(0.0005);
+      expect(issues[0].coord![1]).toBeCloseTo(0.0005);
+    });
+
+    it('rejects a line that closes on itself', () => {
+      expect(codes(edit('draw_segment', { coordinates: [[0, 0], [0.001, 0], [0.001, 0.001], [0, 0]] }))).toEqual(['error:self_intersection']);
+    });
+
+    it('rejects a line without two distinct points', () => {
+      expect(codes(edit('draw_segment', { coordinates: [[0, 0], [0, 0]] }))).toEqual(['error:segment_too_short']);
+    });
+  });
+
+  describe('draw_crosswalk', () => {
+    it('accepts ramps on opposite sides', () => {
+      expect(codes(edit('draw_crosswalk', { fromRampId: '1_1_0_ramp_l', toRampId: '1_1_0_ramp_r', geometry: null }))).toEqual([]);
+    });
+
+    it('rejects ramps on the same side of one segment', () => {
+      expect(codes(edit('draw_crosswalk', {
+        ramp_a: { segment_id: '1_1_0', side: 'left', position: 'start', index: 1 },
+        ramp_b: { segment_id: '1_1_0', side: 'left', position: 'end', index: 1 },
+      }))).toEqual(['error:crosswalk_same_side']);
+    });
+
+    it('accepts a corner crosswalk between same-named sides of two segments', () => {
+      expect(codes(edit('draw_crosswalk', {
+        ramp_a: { segment_id: '1_1_0', side: 'left', position: 'end', index: 1 },
+        ramp_b: { segment_id: '1_1_1', side: 'left', position: 'start', index: 1 },
+      }))).toEqual([]);
+    });
+
+    it('warns when a ramp is not loaded', () => {
+      expect(codes(edit('draw_crosswalk', { fromRampId: '1_1_0_ramp_l', toRampId: 'missing' }))).toEqual(['warning:segment_not_loaded']);
+    });
+  });
+
+  describe('split_segment', () => {
+    it('accepts a split away from the nodes', () => {
+      expect(codes(edit('split_segment', { streetGridId: '1_1_0', splitPoint: [-122.399, 37.77] }))).toEqual([]);
+    });
+
+    it('rejects a split next to a node', () => {
+      expect(codes(edit('split_segment', { streetGridId: '1_1_0', splitPoint: [-122.39801, 37.77] }))).toEqual(['error:split_near_node']);
+    });
+
+    it('warns when the split point is off the street', () => {
+      expect(codes(edit('split_segment', { streetGridId: '1_1_0', splitPoint: [-122.399, 37.7705] }))).toEqual(['warning:split_off_segment']);
+    });
+  });
+
+  it('does not check edits without topology rules', () => {
+    expect(codes(edit('add_node', { coord: [0, 0] }))).toEqual([]);
+  });
+});
+
+describe('hasTopologyErrors', () => {
+  it('ignores warnings', () => {
+    expect(hasTopologyErrors([{ severity: 'warning', code: 'split_off_segment', message: '' }])).toBe(false);
+    expect(hasTopologyErrors([{ severity: 'error', code: 'split_near_node', message: '' }])).toBe(true);
+  });
+});
+
+describe('TopologyValidationError', () => {
+  it('uses the first error as its message', () => {
+    const error = new TopologyValidationError([
+      { severity: 'warning', code: 'split_off_segment', message: 'off' },
+      { severity: 'error', code: 'split_near_node', message: 'too close' },
+    ]);
+
+    expect(error.message).toBe('too close');
+    expect(error.issues).toHaveLength(2);
+  });
+});
@@ -0,0 +1,77 @@
+import { ExportableTrip, tripsToCSV, tripsToGeoJSON, tripsToGPX } from '@/services/utils/tripExport';
+
+function trip(overrides: Partial<ExportableTrip> = {}): ExportableTrip {
+  return {
+    tripId: 'trip-1',
+    mode: 'wheelchair',
+    comfort: 7,
+    purpose: 'work',
+    timeOfDay: 'morning_rush',
+    weekday: 1,
+    durationS: 20,
+    distanceMi: 0.05,
+    reachedDest: true,
+    coordinates: [
+      [-122.4, 37.77],
+      [-122.3995, 37.7702],
+      [-122.399, 37.7704],
+    ],
+    relativeTimes: [0, 10, 20],
+    clipped: true,
+    ...overrides,
+  };
+}
+
+describe('tripsToGPX', () => {
+  it('writes a GPX 1.1 track with relative times and no absolute timestamps', () => {
+    const gpx = tripsToGPX([trip()]);
+
+    expect(gpx).toContain('<gpx version="1.1" creator="RollTracks" xmlns="http://www.topografix.com/GPX/1/1"');
+    expect(gpx).toContain('<type>wheelchair</type>');
+    expect(gpx).toContain('<rt:comfort>7</rt:comfort>');
+    expect(gpx).toContain('<rt:clipped>true</rt:clipped>');
+    expect(gpx.match(/<trkpt /g)).toHaveLength(3);
+    expect(gpx).toContain('<trkpt lat="37.7702" lon="-122.3995"><extensions><rt:relativeTime>10</rt:relativeTime>');
+    expect(gpx).not.toContain('<time>');
+  });
+
+  it('escapes user-entered text', () => {
+    const gpx = tripsToGPX([trip({ purpose: 'coffee & <errands>' })]);
+
+    expect(gpx).toContain('<rt:purpose>coffee &amp; &lt;errands&gt;</rt:purpose>');
+  });
+});
+
+describe('tripsToGeoJSON', () => {
+  it('writes one LineString feature per trip', () => {
+    const collection = JSON.parse(tripsToGeoJSON([trip(), trip({ tripId: 'trip-2', clipped: false })]));
+
+    expect(collection.type).toBe('FeatureCollection');
+    expect(collection.features).toHaveLength(2);
+    expect(collection.features[0].geometry.coordinates[0]).toEqual([-122.4, 37.77]);
+    expect(collection.features[0].properties).toMatchObject({ mode: 'wheelchair', comfort: 7, relativeTimes: [0, 10, 20] });
+    expect(collection.features[1].properties.clipped).toBe(false);
+  });
+
+  it('drops relative times that do not match the coordinates', () => {
+    const collection = JSON.parse(tripsToGeoJSON([trip({ relativeTimes: [0, 10] })]));
+
+    expect(collection.features[0].properties.relativeTimes).toBeNull();
+  });
+});
+
+describe('tripsToCSV', () => {
+  it('writes a header and one row per point', () => {
+    const rows = tripsToCSV([trip()]).trim().split('\n');
+
+    expect(rows[0]).toBe('trip_id,mode,comfort,purpose,time_of_day,weekday,clipped,point_index,relative_time_s,longitude,latitude');
+    expect(rows).toHaveLength(4);
+    expect(rows[2]).toBe('trip-1,wheelchair,7,work,morning_rush,1,true,1,10,-122.3995,37.7702');
+  });
+
+  it('quotes fields containing commas or quotes', () => {
+    const rows = tripsToCSV([trip({ purpose: 'groceries, "quick"', timeOfDay: null })]).trim().split('\n');
+
+    expect(rows[1]).toBe('trip-1,wheelchair,7,"groceries, ""quick""",,1,true,0,0,-122.4,37.77');
+  });
+});
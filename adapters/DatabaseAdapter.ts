@@ -5,12 +5,16 @@ import * as Crypto from 'expo-crypto';
 import argon2 from '@sphereon/react-native-argon2';
 import { Platform } from 'react-native';
 
+import { SQLiteAdapter } from '@/adapters/SQLiteAdapter';
+import { getTimeOfDayBin, getWeekdayBin } from '@/services/utils/timeBins';
+
 // ═══════════════════════════════════════════════════════════
 // DATABASE ADAPTER — PUBLIC INTERFACES
 // ═══════════════════════════════════════════════════════════
 // These interfaces define the contract that services and views depend on.
 // To switch databases, create a new adapter implementing these same
-// interfaces. No other components need modification.
+// interfaces and select it in BACKEND SELECTION below. No other
+// components need modification.
 
 export interface UserProfile {
   id: string;
@@ -18,6 +22,42 @@ export interface UserProfile {
   age: number;
   modeList: string[];
   dataRangerMode: boolean;
+  /** Mobility profile per mode (lowercase mode name). Missing modes use defaults. */
+  mobilityProfiles?: Record<string, MobilityProfile>;
+  /** How strongly trips are anonymized before upload (see services/utils/anonymizeTrip.ts) */
+  privacyLevel?: PrivacyLevel;
+}
+
+export type PrivacyLevel = 'standard' | 'enhanced' | 'strict';
+
+/**
+ * Physical limits and traffic tolerance for one travel mode.
+ * Used by routing and segment scoring.
+ */
+export interface MobilitySettings {
+  /** Absolute grade (%) above which a facility is unusable. */
+  maxInclinePct: number;
+  /** Minimum usable sidewalk width (m). */
+  minWidthM: number;
+  /** Acceptable surface values (lowercase OSM). null accepts any surface. */
+  acceptableSurfaces: string[] | null;
+  /** Whether a crossing without a curb ramp is unusable (vs. merely uncomfortable). */
+  missingCurbRampsBlock: boolean;
+  /** Whether riding in the street is acceptable where there is no usable sidewalk. */
+  allowStreet: boolean;
+  /** Highest posted speed (mph) tolerated when in the street. */
+  maxStreetSpeedMph: number;
+  /** OSM highway classes never used. */
+  avoidHighways: string[];
+}
+
+/**
+ * Stored mobility profile for one mode. Effective settings are the mode
+ * defaults scaled by comfort (1–10, 5 = defaults), then explicit overrides.
+ */
+export interface MobilityProfile {
+  comfort: number;
+  overrides: Partial<MobilitySettings>;
 }
 
 export interface IAuthService {
@@ -58,7 +98,7 @@ export interface IAuthService {
 
   /** Update editable profile fields */
   updateProfile(
-    updates: Partial<Pick<UserProfile, 'displayName' | 'age' | 'modeList' | 'dataRangerMode'>>,
+    updates: Partial<Pick<UserProfile, 'displayName' | 'age' | 'modeList' | 'dataRangerMode' | 'mobilityProfiles' | 'privacyLevel'>>,
   ): Promise<UserProfile>;
 
   /** Toggle DataRanger mode on/off, returns the new value */
@@ -93,6 +133,32 @@ export interface Trip {
   devicePlatform?: string; // Device platform (ios, android, web)
   deviceOsVersion?: string; // OS version (e.g., "iOS 17.2", "Android 14")
   appVersion?: string; // App version from package.json
+  rawPointCount?: number; // GPS fixes recorded before track cleaning
+  cleanedPointCount?: number; // GPS fixes remaining after track cleaning
+  matchedSegments?: TripSegmentMatch[] | null; // Map-matched network path (null if unmatched)
+  privacyLevel?: PrivacyLevel | null; // Level the trip was anonymized at (null: before levels existed)
+}
+
+/**
+ * A completed trip on its way to the database. startTime is binned into
+ * timeOfDay and weekday by writeTrip, in the origin's time zone and
+ * holiday calendar, and is not stored.
+ */
+export type NewTrip = Omit<Trip, 'tripId' | 'timeOfDay' | 'weekday'> & {
+  startTime: string;
+  timeZone?: string | null; // Of the trip's origin, for binning; not stored
+  holidayCalendar?: string | null; // Of the trip's origin, for binning; not stored
+};
+
+/**
+ * One run of a map-matched trip on a single network facility.
+ * Indexes refer to coordinates of the stored (clipped) geometry.
+ */
+export interface TripSegmentMatch {
+  streetGridId: string;
+  facility: string; // FacilityType: 'street' | 'sidewalk_left' | 'crosswalk_start' | ...
+  startIndex: number;
+  endIndex: number;
 }
 
 export interface RatedFeature {
@@ -130,8 +196,15 @@ export interface FeatureEdit {
   coord: [number, number]; // [longitude, latitude]
   featureType: 'point' | 'line';
   createdAt?: string;
+  status?: 'pending' | 'applied' | 'rejected' | 'conflict' | 'withdrawn' | 'superseded';
+  statusReason?: string | null; // Why the pipeline rejected it or flagged a conflict
 }
 
+/** How the user resolved a rejected or conflicting edit. */
+export type EditResolution =
+  | { status: 'withdrawn' }
+  | { status: 'superseded'; supersededBy: string }; // Replaced by a re-applied or amended edit
+
 export interface TripSummary {
   tripId: string;
   mode: string;
@@ -146,10 +219,35 @@ export interface TripSummary {
   geometry?: string; // Encoded polyline for card preview
 }
 
+/** A downloadable area of the proximity network, from the region_packs catalog. */
+export interface RegionPack {
+  id: string;
+  name: string;
+  jurisdiction: string | null; // County or city the pack covers
+  bbox: { minLon: number; minLat: number; maxLon: number; maxLat: number };
+  utmZone: number; // Zone of the pack's grid, unless its parquet records a projection
+  utmHemisphere: 'N' | 'S';
+  assetName: string; // Storage name: <assetName>.parquet, chunks and manifest under <assetName>/
+  sizeBytes: number;
+  lastUpdated: string;
+  sha256: string | null; // Of the published parquet; null if the upload predates checksums
+  schemaVersion: number | null; // Parquet schema the build was written with
+  timeZone: string | null; // IANA zone trips starting here are binned in; null: the device's
+  holidayCalendar: string | null; // Key in constants/timeBins.json; null: no holidays
+  hasCensusBlocks: boolean; // Whether census_blocks.geojson is published; false: trips here can't be clipped
+}
+
+/** Version of a published asset, from asset_metadata. */
+export interface AssetVersion {
+  lastUpdated: string;
+  sha256: string | null;
+  schemaVersion: number | null;
+}
+
 export interface IDataService {
   // --- Trip Operations ---
   /** Write a new trip to the database (accepts startTime for binning, not stored) */
-  writeTrip(tripData: Omit<Trip, 'tripId' | 'timeOfDay' | 'weekday'> & { startTime: string }): Promise<Trip>;
+  writeTrip(tripData: NewTrip): Promise<Trip>;
 
   /** Update an existing trip (e.g., status, end_time, duration) */
   updateTrip(tripId: string, updates: Partial<Trip>): Promise<Trip>;
@@ -166,12 +264,9 @@ export interface IDataService {
   /** Delete a trip and all associated ratings/corrections */
   deleteTrip(tripId: string): Promise<void>;
 
-  /** Return the census block (geoid + GeoJSON polygon) that contains the given WGS-84 point, or null if outside coverage */
-  getBlockForPoint(lon: number, lat: number): Promise<{ geoid: string; polygon: GeoJSON.Polygon } | null>;
-
   // --- Rating Operations ---
-  /** Write a feature rating */
-  writeRating(rating: Omit<RatedFeature, 'id'>): Promise<RatedFeature>;
+  /** Write a feature rating. A client-supplied `id` makes retries idempotent. */
+  writeRating(rating: Omit<RatedFeature, 'id'> & { id?: string }): Promise<RatedFeature>;
 
   /** Update an existing rating */
   updateRating(crisId: string, tripId: string, updates: { userRating: number; imageUrl?: string }): Promise<RatedFeature>;
@@ -182,9 +277,12 @@ export interface IDataService {
   /** Get all ratings for the current user */
   getUserRatings(): Promise<RatedFeature[]>;
 
+  /** Delete the rating of a feature in a trip (undo) */
+  deleteRating(crisId: string, tripId: string): Promise<void>;
+
   // --- Image Operations ---
-  /** Upload an image to Supabase Storage and return the public URL */
-  uploadFeatureImage(userId: string, imageUri: string, featureId: string): Promise<string>;
+  /** Upload an image to Supabase Storage and return the public URL. A stable `uploadKey` makes retries idempotent. */
+  uploadFeatureImage(userId: string, imageUri: string, featureId: string, uploadKey?: string): Promise<string>;
 
   /** Delete an image from Supabase Storage */
   deleteFeatureImage(imageUrl: string): Promise<void>;
@@ -200,19 +298,22 @@ export interface IDataService {
   getUserCorrections(): Promise<CorrectedSegment[]>;
 
   // --- Segment Edit Operations ---
-  /** Write a segment attribute edit */
-  writeSegmentEdit(edit: { tripId: string; userId: string; streetGridId: string; facilityType: string; fieldName: string; oldValue: string | null; newValue: string }): Promise<void>;
+  /** Write a segment attribute edit. A client-supplied `id` makes retries idempotent. */
+  writeSegmentEdit(edit: { id?: string; tripId: string; userId: string; streetGridId: string; facilityType: string; fieldName: string; oldValue: string | null; newValue: string }): Promise<void>;
 
   /** Get edits for a specific trip */
   getSegmentEditsForTrip(tripId: string): Promise<{ streetGridId: string; facilityType: string; fieldName: string; oldValue: string | null; newValue: string; createdAt: string }[]>;
 
+  /** Delete a segment attribute edit (undo) */
+  deleteSegmentEdit(editId: string): Promise<void>;
+
   /** Get all edits by the current user */
   getUserSegmentEdits(): Promise<{ streetGridId: string; facilityType: string; fieldName: string; oldValue: string | null; newValue: string; createdAt: string }[]>;
 
   // --- Geometry Edit Operations ---
-  /** Write a geometry edit (topology-altering operation) */
+  /** Write a geometry edit (topology-altering operation). A client-supplied `id` makes retries idempotent. */
   writeGeometryEdit(edit: {
-    tripId: string; userId: string; editType: string; streetGridId?: string;
+    id?: string; tripId: string; userId: string; editType: string; streetGridId?: string;
     payload: Record<string, unknown>; coord: [number, number];
   }): Promise<{ id: string }>;
 
@@ -230,12 +331,18 @@ export interface IDataService {
     status: string; createdAt: string;
   }[]>;
 
-  /** Get status updates for a list of geometry edit IDs */
-  getGeometryEditStatuses(editIds: string[]): Promise<{ id: string; status: string }[]>;
+  /** Get status updates (and the pipeline's reason for rejections and conflicts) for a list of geometry edit IDs */
+  getGeometryEditStatuses(editIds: string[]): Promise<{ id: string; status: string; statusReason: string | null }[]>;
+
+  /** Withdraw a pending geometry edit (undo); edits already processed are left alone */
+  withdrawGeometryEdit(editId: string): Promise<void>;
+
+  /** Close a rejected or conflicting geometry edit: withdrawn, or superseded by a new edit */
+  resolveGeometryEdit(editId: string, resolution: EditResolution): Promise<void>;
 
   // --- Feature Edit Operations (unified table) ---
-  /** Write a feature edit (rating, attribute correction, or geometry correction) */
-  writeFeatureEdit(edit: Omit<FeatureEdit, 'id' | 'createdAt'>): Promise<FeatureEdit>;
+  /** Write a feature edit (rating, attribute correction, or geometry correction). A client-supplied `id` makes retries idempotent. */
+  writeFeatureEdit(edit: Omit<FeatureEdit, 'id' | 'createdAt'> & { id?: string }): Promise<FeatureEdit>;
 
   /** Get all feature edits for a specific trip */
   getFeatureEditsForTrip(tripId: string): Promise<FeatureEdit[]>;
@@ -246,14 +353,39 @@ export interface IDataService {
   /** Update an existing feature edit (e.g., change rating or attributes) */
   updateFeatureEdit(editId: string, updates: Partial<Pick<FeatureEdit, 'attributes' | 'userRating' | 'geometry'>>): Promise<FeatureEdit>;
 
+  /** Close a rejected or conflicting feature edit: withdrawn, or superseded by a new edit */
+  resolveFeatureEdit(editId: string, resolution: EditResolution): Promise<void>;
+
   // --- Asset Management ---
-  /** Check if local assets need updating (returns last modified timestamp from Supabase) */
-  checkAssetUpdates(assetName: 'ProximityNetwork'): Promise<string | null>;
+  /** Check if local assets need updating (returns the published version, checksum and schema from Supabase) */
+  checkAssetUpdates(assetName: 'ProximityNetwork'): Promise<AssetVersion | null>;
+
+  /** Fetch the catalog of downloadable region packs */
+  getRegionPacks(): Promise<RegionPack[]>;
 
-  /** Return the public URL of the proximity network parquet for streaming download */
-  getProximityAssetUrl(): string;
+  /** Return the public URL of a region pack's parquet for streaming download */
+  getProximityAssetUrl(assetName: string): string;
+
+  /** Return the public URL of a region pack's per-cell manifest for delta updates */
+  getProximityManifestUrl(assetName: string): string;
+
+  /** Return the public URL of a file in a region pack's asset folder (e.g. a cell chunk) */
+  getProximityFileUrl(assetName: string, path: string): string;
 }
 
+// ═══════════════════════════════════════════════════════════
+// BACKEND SELECTION
+// ═══════════════════════════════════════════════════════════
+// EXPO_PUBLIC_BACKEND picks the implementation behind AuthService and
+// DataService:
+// - 'supabase' (default): this file's Supabase implementation.
+// - 'local': the on-device SQLite database (adapters/SQLiteAdapter.ts).
+//   Nothing is sent to a server, and no Supabase project is needed.
+
+export type Backend = 'supabase' | 'local';
+
+export const BACKEND: Backend = process.env.EXPO_PUBLIC_BACKEND === 'local' ? 'local' : 'supabase';
+
 // ═══════════════════════════════════════════════════════════
 // SUPABASE CLIENT (Private)
 // ═══════════════════════════════════════════════════════════
@@ -263,17 +395,28 @@ const supabaseAnonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY ?? '';
 
 // Log configuration for debugging (only in development)
 if (__DEV__) {
-  console.log('[DatabaseAdapter] Supabase configured:', supabaseUrl ? 'YES' : 'NO');
+  console.log('[DatabaseAdapter] Backend:', BACKEND, '| Supabase configured:', supabaseUrl ? 'YES' : 'NO');
 }
 
-const supabase: SupabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    storage: AsyncStorage,
-    autoRefreshToken: true,
-    persistSession: true,
-    detectSessionInUrl: false,
-  },
-});
+let _client: SupabaseClient | null = null;
+
+/**
+ * The Supabase client, created on first use so the local backend never
+ * needs a project URL or restores a session.
+ */
+function _supabase(): SupabaseClient {
+  if (!_client) {
+    _client = createClient(supabaseUrl, supabaseAnonKey, {
+      auth: {
+        storage: AsyncStorage,
+        autoRefreshToken: true,
+        persistSession: true,
+        detectSessionInUrl: false,
+      },
+    });
+  }
+  return _client;
+}
 
 // ═══════════════════════════════════════════════════════════
 // PRIVATE SUPABASE FUNCTIONS
@@ -365,43 +508,13 @@ async function _verifyPassword(password: string, hash: string): Promise<boolean>
   }
 }
 
-// --- Time Binning Utilities ---
-
 /**
- * Bin a timestamp into a time of day category.
- * Bins:
- * - late_night:    00:00 - 05:00
- * - early_morning: 05:00 - 07:00
- * - morning_rush:  07:00 - 10:00
- * - midday:        10:00 - 16:00
- * - evening_rush:  16:00 - 19:00
- * - evening:       19:00 - 22:00
- * - night:         22:00 - 24:00
+ * True if an insert failed because a row with the same primary key exists.
+ * Writes that carry a client-generated ID treat this as "already written",
+ * which makes retrying them after a lost response safe.
  */
-function _getTimeOfDayBin(timestamp: string): TimeOfDayBin {
-  const date = new Date(timestamp);
-  const hour = date.getHours();
-
-  if (hour >= 0 && hour < 5) return 'late_night';
-  if (hour >= 5 && hour < 7) return 'early_morning';
-  if (hour >= 7 && hour < 10) return 'morning_rush';
-  if (hour >= 10 && hour < 16) return 'midday';
-  if (hour >= 16 && hour < 19) return 'evening_rush';
-  if (hour >= 19 && hour < 22) return 'evening';
-  return 'night';
-}
-
-/**
- * Determine if a timestamp is a weekday or weekend/holiday.
- * Returns 1 for weekdays (Mon-Fri), 0 for weekends (Sat-Sun).
- * Note: Holiday detection not yet implemented, treats holidays as regular weekdays.
- */
-function _getWeekdayBin(timestamp: string): number {
-  const date = new Date(timestamp);
-  const dayOfWeek = date.getDay(); // 0 = Sunday, 6 = Saturday
-
-  // Return 1 for weekdays (Mon-Fri), 0 for weekends (Sat-Sun)
-  return (dayOfWeek >= 1 && dayOfWeek <= 5) ? 1 : 0;
+function _isDuplicateKeyError(error: { code?: string } | null): boolean {
+  return error?.code === '23505';
 }
 
 // --- Device Info Utilities ---
@@ -431,7 +544,7 @@ function _getDeviceInfo(): {
 async function _createAnonymousSession(captchaToken?: string): Promise<Session> {
   const shouldSkipCaptcha = __DEV__ || !captchaToken;
 
-  const { data, error } = await supabase.auth.signInAnonymously({
+  const { data, error } = await _supabase().auth.signInAnonymously({
     options: shouldSkipCaptcha ? {} : {
       captchaToken,
     },
@@ -445,7 +558,7 @@ async function _createAnonymousSession(captchaToken?: string): Promise<Session>
 async function _getSession(): Promise<Session | null> {
   const {
     data: { session },
-  } = await supabase.auth.getSession();
+  } = await _supabase().auth.getSession();
   return session;
 }
 
@@ -464,7 +577,7 @@ async function _insertUserProfile(
   // Check if display name is already taken using SECURITY DEFINER function
   // Skip this check during login (when migrating existing user data)
   if (!skipDisplayNameCheck) {
-    const { data: isAvailable, error: checkError } = await supabase.rpc(
+    const { data: isAvailable, error: checkError } = await _supabase().rpc(
       'check_display_name_available',
       { p_display_name: profile.displayName }
     );
@@ -478,7 +591,7 @@ async function _insertUserProfile(
     }
   }
 
-  const { error } = await supabase.from('user_profiles').insert({
+  const { error } = await _supabase().from('user_profiles').insert({
     id: userId,
     display_name: profile.displayName,
     age: profile.age,
@@ -489,7 +602,7 @@ async function _insertUserProfile(
 }
 
 async function _getUserProfile(userId: string): Promise<UserProfile | null> {
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('user_profiles')
     .select('*')
     .eq('id', userId)
@@ -501,6 +614,8 @@ async function _getUserProfile(userId: string): Promise<UserProfile | null> {
     age: data.age,
     modeList: data.mode_list,
     dataRangerMode: data.dataranger_mode,
+    mobilityProfiles: data.mobility_profiles ?? {},
+    privacyLevel: data.privacy_level ?? 'standard',
   };
 }
 
@@ -508,7 +623,7 @@ async function _updateUserProfile(
   userId: string,
   updates: Record<string, unknown>,
 ): Promise<void> {
-  const { error } = await supabase
+  const { error } = await _supabase()
     .from('user_profiles')
     .update(updates)
     .eq('id', userId);
@@ -516,7 +631,7 @@ async function _updateUserProfile(
 }
 
 async function _deleteUserProfile(userId: string): Promise<void> {
-  const { error } = await supabase
+  const { error } = await _supabase()
     .from('user_profiles')
     .delete()
     .eq('id', userId);
@@ -531,7 +646,7 @@ async function _insertRecoveryCredentials(
 ): Promise<string> {
   // Use secure SECURITY DEFINER function instead of direct INSERT
   // This prevents username enumeration and enforces validation
-  const { data, error } = await supabase.rpc('create_recovery_credentials', {
+  const { data, error } = await _supabase().rpc('create_recovery_credentials', {
     p_username: username,
     p_password_hash: passwordHash,
   });
@@ -550,7 +665,7 @@ async function _getRecoveryCredentials(
 ): Promise<{ id: string; passwordHash: string } | null> {
   // Use SECURITY DEFINER function to prevent direct table access
   // This prevents bulk scraping and username enumeration via SQL
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .rpc('verify_login_credentials', {
       p_username: username,
     });
@@ -612,14 +727,14 @@ async function _linkRecoveryToUser(
   recoveryId: string,
   userId: string,
 ): Promise<void> {
-  const { error } = await supabase
+  const { error } = await _supabase()
     .from('user_recovery_links')
     .insert({ recovery_id: recoveryId, user_id: userId });
   if (error) throw new Error(`Failed to link recovery: ${error.message}`);
 }
 
 async function _getLinkedUserId(recoveryId: string): Promise<string | null> {
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('user_recovery_links')
     .select('user_id')
     .eq('recovery_id', recoveryId)
@@ -632,7 +747,7 @@ async function _updateRecoveryLink(
   recoveryId: string,
   newUserId: string,
 ): Promise<void> {
-  const { error } = await supabase
+  const { error } = await _supabase()
     .from('user_recovery_links')
     .update({ user_id: newUserId })
     .eq('recovery_id', recoveryId);
@@ -647,7 +762,7 @@ async function _deleteAllUserData(userId: string): Promise<void> {
   
   // Delete in dependency order: child rows first, then profile
   // All deletes are permanent and cannot be recovered
-  const { error: featuresError } = await supabase
+  const { error: featuresError } = await _supabase()
     .from('rated_features')
     .delete()
     .eq('user_id', userId);
@@ -656,7 +771,7 @@ async function _deleteAllUserData(userId: string): Promise<void> {
     throw new Error(`Failed to delete rated features: ${featuresError.message}`);
   }
 
-  const { error: segmentsError } = await supabase
+  const { error: segmentsError } = await _supabase()
     .from('corrected_segments')
     .delete()
     .eq('user_id', userId);
@@ -665,7 +780,7 @@ async function _deleteAllUserData(userId: string): Promise<void> {
     throw new Error(`Failed to delete corrected segments: ${segmentsError.message}`);
   }
 
-  const { error: tripsError } = await supabase
+  const { error: tripsError } = await _supabase()
     .from('trips')
     .delete()
     .eq('user_id', userId);
@@ -675,7 +790,7 @@ async function _deleteAllUserData(userId: string): Promise<void> {
   }
 
   // Remove recovery credentials and links
-  const { data: links, error: linksError } = await supabase
+  const { data: links, error: linksError } = await _supabase()
     .from('user_recovery_links')
     .select('recovery_id')
     .eq('user_id', userId);
@@ -688,7 +803,7 @@ async function _deleteAllUserData(userId: string): Promise<void> {
   if (links && links.length > 0) {
     const recoveryIds = links.map((l) => l.recovery_id);
     
-    const { error: linkDeleteError } = await supabase
+    const { error: linkDeleteError } = await _supabase()
       .from('user_recovery_links')
       .delete()
       .eq('user_id', userId);
@@ -697,7 +812,7 @@ async function _deleteAllUserData(userId: string): Promise<void> {
       throw new Error(`Failed to delete recovery links: ${linkDeleteError.message}`);
     }
 
-    const { error: recoveryDeleteError } = await supabase
+    const { error: recoveryDeleteError } = await _supabase()
       .from('account_recovery')
       .delete()
       .in('id', recoveryIds);
@@ -722,17 +837,17 @@ async function _deleteAllUserData(userId: string): Promise<void> {
  */
 /**
  * Insert a new trip into the database.
- * Bins the startTime into timeOfDay and weekday before storage.
+ * Bins the startTime into timeOfDay and weekday (in the origin's time
+ * zone and holiday calendar, when known) before storage.
  * Geometry is stored as an encoded polyline string.
  */
-async function _insertTrip(
-  tripData: Omit<Trip, 'tripId' | 'timeOfDay' | 'weekday'> & { startTime: string }
-): Promise<Trip> {
-  // Bin the startTime into time_of_day and weekday
-  const timeOfDay = _getTimeOfDayBin(tripData.startTime);
-  const weekday = _getWeekdayBin(tripData.startTime);
-
-  const { data, error } = await supabase
+async function _insertTrip(tripData: NewTrip): Promise<Trip> {
+  // Bin the startTime into time_of_day and weekday; the zone and calendar aren't stored
+  const binning = { timeZone: tripData.timeZone, holidayCalendar: tripData.holidayCalendar };
+  const timeOfDay = getTimeOfDayBin(tripData.startTime, binning);
+  const weekday = getWeekdayBin(tripData.startTime, binning);
+
+  const { data, error } = await _supabase()
     .from('trips')
     .insert({
       user_id: tripData.userId,
@@ -751,6 +866,10 @@ async function _insertTrip(
       device_platform: tripData.devicePlatform,
       device_os_version: tripData.deviceOsVersion,
       app_version: tripData.appVersion,
+      raw_point_count: tripData.rawPointCount ?? null,
+      cleaned_point_count: tripData.cleanedPointCount ?? null,
+      matched_segments: tripData.matchedSegments ?? null,
+      privacy_level: tripData.privacyLevel ?? null,
     })
     .select()
     .single();
@@ -776,6 +895,10 @@ async function _insertTrip(
     devicePlatform: data.device_platform,
     deviceOsVersion: data.device_os_version,
     appVersion: data.app_version,
+    rawPointCount: data.raw_point_count ?? undefined,
+    cleanedPointCount: data.cleaned_point_count ?? undefined,
+    matchedSegments: data.matched_segments ?? null,
+    privacyLevel: data.privacy_level ?? null,
   };
 }
 
@@ -792,7 +915,7 @@ async function _updateTrip(tripId: string, updates: Partial<Trip>): Promise<Trip
   if (updates.reachedDest !== undefined) dbUpdates.reached_dest = updates.reachedDest;
   if (updates.geometry !== undefined) dbUpdates.geometry = updates.geometry;
 
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('trips')
     .update(dbUpdates)
     .eq('trip_id', tripId)
@@ -834,7 +957,7 @@ async function _getBlockPolygons(
 
   try {
     // Fetch both blocks in a single query
-    const { data, error } = await supabase
+    const { data, error } = await _supabase()
       .from('census_blocks')
       .select('geoid20, geom')
       .in('geoid20', [originGeoid, destGeoid].filter(Boolean));
@@ -858,7 +981,7 @@ async function _getBlockPolygons(
 }
 
 async function _getTrip(tripId: string): Promise<Trip | null> {
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('trips')
     .select('*')
     .eq('trip_id', tripId)
@@ -888,11 +1011,15 @@ async function _getTrip(tripId: string): Promise<Trip | null> {
     devicePlatform: data.device_platform,
     deviceOsVersion: data.device_os_version,
     appVersion: data.app_version,
+    rawPointCount: data.raw_point_count ?? undefined,
+    cleanedPointCount: data.cleaned_point_count ?? undefined,
+    matchedSegments: data.matched_segments ?? null,
+    privacyLevel: data.privacy_level ?? null,
   };
 }
 
 async function _getUserTrips(userId: string): Promise<Trip[]> {
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('trips')
     .select('*')
     .eq('user_id', userId)
@@ -926,6 +1053,10 @@ async function _getUserTrips(userId: string): Promise<Trip[]> {
         devicePlatform: row.device_platform,
         deviceOsVersion: row.device_os_version,
         appVersion: row.app_version,
+        rawPointCount: row.raw_point_count ?? undefined,
+        cleanedPointCount: row.cleaned_point_count ?? undefined,
+        matchedSegments: row.matched_segments ?? null,
+        privacyLevel: row.privacy_level ?? null,
       };
     }),
   );
@@ -934,7 +1065,7 @@ async function _getUserTrips(userId: string): Promise<Trip[]> {
 }
 
 async function _getTripSummaries(userId: string): Promise<TripSummary[]> {
-  const { data: trips, error } = await supabase
+  const { data: trips, error } = await _supabase()
     .from('trips')
     .select('trip_id, mode, purpose, time_of_day, weekday, duration_s, distance_mi, reached_dest, geometry')
     .eq('user_id', userId)
@@ -950,12 +1081,12 @@ async function _getTripSummaries(userId: string): Promise<TripSummary[]> {
   // Fetch rating and correction counts for all trips
   const tripIds = trips.map((t) => t.trip_id);
 
-  const { data: ratingCounts } = await supabase
+  const { data: ratingCounts } = await _supabase()
     .from('rated_features')
     .select('trip_id')
     .in('trip_id', tripIds);
 
-  const { data: correctionCounts } = await supabase
+  const { data: correctionCounts } = await _supabase()
     .from('corrected_segments')
     .select('trip_id')
     .in('trip_id', tripIds);
@@ -994,10 +1125,10 @@ async function _getTripSummaries(userId: string): Promise<TripSummary[]> {
 
 async function _deleteTrip(tripId: string): Promise<void> {
   // Delete child records first
-  await supabase.from('rated_features').delete().eq('trip_id', tripId);
-  await supabase.from('corrected_segments').delete().eq('trip_id', tripId);
+  await _supabase().from('rated_features').delete().eq('trip_id', tripId);
+  await _supabase().from('corrected_segments').delete().eq('trip_id', tripId);
 
-  const { error } = await supabase
+  const { error } = await _supabase()
     .from('trips')
     .delete()
     .eq('trip_id', tripId);
@@ -1009,10 +1140,11 @@ async function _deleteTrip(tripId: string): Promise<void> {
 
 // --- rated_features ---
 
-async function _insertRating(rating: Omit<RatedFeature, 'id'>): Promise<RatedFeature> {
-  const { data, error } = await supabase
+async function _insertRating(rating: Omit<RatedFeature, 'id'> & { id?: string }): Promise<RatedFeature> {
+  let { data, error } = await _supabase()
     .from('rated_features')
     .insert({
+      ...(rating.id && { id: rating.id }),
       user_id: rating.userId,
       trip_id: rating.tripId,
       cris_id: rating.crisId,
@@ -1026,6 +1158,10 @@ async function _insertRating(rating: Omit<RatedFeature, 'id'>): Promise<RatedFea
     .select()
     .single();
 
+  if (rating.id && _isDuplicateKeyError(error)) {
+    ({ data, error } = await _supabase().from('rated_features').select().eq('id', rating.id).single());
+  }
+
   if (error || !data) {
     throw new Error(`Failed to insert rating: ${error?.message}`);
   }
@@ -1045,7 +1181,7 @@ async function _insertRating(rating: Omit<RatedFeature, 'id'>): Promise<RatedFea
 }
 
 async function _getRatingsForTrip(tripId: string): Promise<RatedFeature[]> {
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('rated_features')
     .select('*')
     .eq('trip_id', tripId)
@@ -1082,7 +1218,7 @@ async function _updateRating(
     dbUpdates.image_url = updates.imageUrl;
   }
 
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('rated_features')
     .update(dbUpdates)
     .eq('cris_id', crisId)
@@ -1109,7 +1245,7 @@ async function _updateRating(
 }
 
 async function _getUserRatings(userId: string): Promise<RatedFeature[]> {
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('rated_features')
     .select('*')
     .eq('user_id', userId)
@@ -1133,6 +1269,18 @@ async function _getUserRatings(userId: string): Promise<RatedFeature[]> {
   }));
 }
 
+async function _deleteRating(crisId: string, tripId: string): Promise<void> {
+  const { error } = await _supabase()
+    .from('rated_features')
+    .delete()
+    .eq('cris_id', crisId)
+    .eq('trip_id', tripId);
+
+  if (error) {
+    throw new Error(`Failed to delete rating: ${error.message}`);
+  }
+}
+
 // --- Image Upload ---
 
 /**
@@ -1141,39 +1289,43 @@ async function _getUserRatings(userId: string): Promise<RatedFeature[]> {
  * @param userId - The user ID (used for folder organization)
  * @param imageUri - Local file URI from expo-image-picker
  * @param featureId - Unique identifier for the feature (cris_id)
+ * @param uploadKey - Stable key used in place of the timestamp; re-uploading with the same key is a no-op
  * @returns Public URL of the uploaded image
  */
 async function _uploadFeatureImage(
   userId: string,
   imageUri: string,
   featureId: string,
+  uploadKey?: string,
 ): Promise<string> {
   try {
-    // Generate unique filename with timestamp
-    const timestamp = Date.now();
+    // Generate unique filename with timestamp (or the caller's upload key)
+    const suffix = uploadKey ?? Date.now();
     const fileExt = imageUri.split('.').pop() || 'jpg';
-    const fileName = `${userId}/${featureId}_${timestamp}.${fileExt}`;
+    const fileName = `${userId}/${featureId}_${suffix}.${fileExt}`;
 
     // Fetch the image as a blob
     const response = await fetch(imageUri);
     const blob = await response.blob();
 
     // Upload to Supabase Storage
-    const { data, error } = await supabase.storage
+    const { data, error } = await _supabase().storage
       .from('feature-images')
       .upload(fileName, blob, {
         contentType: `image/${fileExt}`,
         upsert: false,
       });
 
-    if (error) {
+    // A retried upload finds its own earlier copy
+    const alreadyUploaded = !!uploadKey && !!error && /exists|duplicate/i.test(error.message);
+    if (error && !alreadyUploaded) {
       throw new Error(`Failed to upload image: ${error.message}`);
     }
 
     // Get public URL
-    const { data: urlData } = supabase.storage
+    const { data: urlData } = _supabase().storage
       .from('feature-images')
-      .getPublicUrl(data.path);
+      .getPublicUrl(data?.path ?? fileName);
 
     return urlData.publicUrl;
   } catch (error) {
@@ -1196,7 +1348,7 @@ async function _deleteFeatureImage(imageUrl: string): Promise<void> {
     }
     const filePath = urlParts[1];
 
-    const { error } = await supabase.storage
+    const { error } = await _supabase().storage
       .from('feature-images')
       .remove([filePath]);
 
@@ -1212,7 +1364,7 @@ async function _deleteFeatureImage(imageUrl: string): Promise<void> {
 // --- corrected_segments ---
 
 async function _insertCorrection(correction: Omit<CorrectedSegment, 'id'>): Promise<CorrectedSegment> {
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('corrected_segments')
     .insert({
       user_id: correction.userId,
@@ -1241,7 +1393,7 @@ async function _insertCorrection(correction: Omit<CorrectedSegment, 'id'>): Prom
 }
 
 async function _getCorrectionsForTrip(tripId: string): Promise<CorrectedSegment[]> {
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('corrected_segments')
     .select('*')
     .eq('trip_id', tripId)
@@ -1263,7 +1415,7 @@ async function _getCorrectionsForTrip(tripId: string): Promise<CorrectedSegment[
 }
 
 async function _getUserCorrections(userId: string): Promise<CorrectedSegment[]> {
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('corrected_segments')
     .select('*')
     .eq('user_id', userId)
@@ -1287,12 +1439,13 @@ async function _getUserCorrections(userId: string): Promise<CorrectedSegment[]>
 // --- Segment Edit Operations ---
 
 async function _writeSegmentEdit(edit: {
-  tripId: string; userId: string; streetGridId: string;
+  id?: string; tripId: string; userId: string; streetGridId: string;
   facilityType: string; fieldName: string; oldValue: string | null; newValue: string;
 }): Promise<void> {
-  const { error } = await supabase
+  const { error } = await _supabase()
     .from('segment_edits')
     .insert({
+      ...(edit.id && { id: edit.id }),
       user_id: edit.userId,
       trip_id: edit.tripId,
       street_grid_id: edit.streetGridId,
@@ -1302,13 +1455,24 @@ async function _writeSegmentEdit(edit: {
       new_value: edit.newValue,
     });
 
-  if (error) {
+  if (error && !(edit.id && _isDuplicateKeyError(error))) {
     throw new Error(`Failed to write segment edit: ${error.message}`);
   }
 }
 
+async function _deleteSegmentEdit(editId: string): Promise<void> {
+  const { error } = await _supabase()
+    .from('segment_edits')
+    .delete()
+    .eq('id', editId);
+
+  if (error) {
+    throw new Error(`Failed to delete segment edit: ${error.message}`);
+  }
+}
+
 async function _getSegmentEditsForTrip(tripId: string) {
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('segment_edits')
     .select('*')
     .eq('trip_id', tripId)
@@ -1329,7 +1493,7 @@ async function _getSegmentEditsForTrip(tripId: string) {
 }
 
 async function _getUserSegmentEdits(userId: string) {
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('segment_edits')
     .select('*')
     .eq('user_id', userId)
@@ -1352,12 +1516,13 @@ async function _getUserSegmentEdits(userId: string) {
 // --- Geometry Edit Operations ---
 
 async function _writeGeometryEdit(edit: {
-  tripId: string; userId: string; editType: string; streetGridId?: string;
+  id?: string; tripId: string; userId: string; editType: string; streetGridId?: string;
   payload: Record<string, unknown>; coord: [number, number];
 }): Promise<{ id: string }> {
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('geometry_edits')
     .insert({
+      ...(edit.id && { id: edit.id }),
       user_id: edit.userId,
       trip_id: edit.tripId,
       edit_type: edit.editType,
@@ -1368,6 +1533,10 @@ async function _writeGeometryEdit(edit: {
     .select('id')
     .single();
 
+  if (edit.id && _isDuplicateKeyError(error)) {
+    return { id: edit.id };
+  }
+
   if (error || !data) {
     throw new Error(`Failed to write geometry edit: ${error?.message}`);
   }
@@ -1388,7 +1557,7 @@ function _mapGeometryEditRow(row: any) {
 }
 
 async function _getGeometryEditsForTrip(tripId: string) {
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('geometry_edits')
     .select('*')
     .eq('trip_id', tripId)
@@ -1402,7 +1571,7 @@ async function _getGeometryEditsForTrip(tripId: string) {
 }
 
 async function _getUserGeometryEdits(userId: string) {
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('geometry_edits')
     .select('*')
     .eq('user_id', userId)
@@ -1415,27 +1584,61 @@ async function _getUserGeometryEdits(userId: string) {
   return (data || []).map(_mapGeometryEditRow);
 }
 
-async function _getGeometryEditStatuses(editIds: string[]): Promise<{ id: string; status: string }[]> {
+async function _getGeometryEditStatuses(editIds: string[]): Promise<{ id: string; status: string; statusReason: string | null }[]> {
   if (editIds.length === 0) return [];
 
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('geometry_edits')
-    .select('id, status')
+    .select('id, status, status_reason')
     .in('id', editIds);
 
   if (error) {
     throw new Error(`Failed to fetch geometry edit statuses: ${error.message}`);
   }
 
-  return (data || []).map((row: any) => ({ id: row.id, status: row.status }));
+  return (data || []).map((row: any) => ({ id: row.id, status: row.status, statusReason: row.status_reason ?? null }));
+}
+
+async function _withdrawGeometryEdit(editId: string): Promise<void> {
+  const { error } = await _supabase()
+    .from('geometry_edits')
+    .update({ status: 'withdrawn' })
+    .eq('id', editId)
+    .eq('status', 'pending');
+
+  if (error) {
+    throw new Error(`Failed to withdraw geometry edit: ${error.message}`);
+  }
+}
+
+/**
+ * Mark a rejected or conflicting edit as resolved. Edits that are no
+ * longer rejected or conflicting (e.g. already resolved from another
+ * device) are left alone, so a retried resolution is harmless.
+ */
+async function _resolveEdit(table: 'geometry_edits' | 'feature_edits', editId: string, resolution: EditResolution): Promise<void> {
+  const { error } = await _supabase()
+    .from(table)
+    .update({
+      status: resolution.status,
+      superseded_by: resolution.status === 'superseded' ? resolution.supersededBy : null,
+      resolved_at: new Date().toISOString(),
+    })
+    .eq('id', editId)
+    .in('status', ['rejected', 'conflict']);
+
+  if (error) {
+    throw new Error(`Failed to resolve edit: ${error.message}`);
+  }
 }
 
 // --- Feature Edit Operations ---
 
-async function _supaWriteFeatureEdit(edit: Omit<FeatureEdit, 'id' | 'createdAt'>): Promise<FeatureEdit> {
-  const { data, error } = await supabase
+async function _supaWriteFeatureEdit(edit: Omit<FeatureEdit, 'id' | 'createdAt'> & { id?: string }): Promise<FeatureEdit> {
+  let { data, error } = await _supabase()
     .from('feature_edits')
     .insert({
+      ...(edit.id && { id: edit.id }),
       user_id: edit.userId,
       trip_id: edit.tripId,
       street_grid_id: edit.streetGridId,
@@ -1449,12 +1652,16 @@ async function _supaWriteFeatureEdit(edit: Omit<FeatureEdit, 'id' | 'createdAt'>
     .select()
     .single();
 
+  if (edit.id && _isDuplicateKeyError(error)) {
+    ({ data, error } = await _supabase().from('feature_edits').select().eq('id', edit.id).single());
+  }
+
   if (error) throw new Error(`Failed to write feature edit: ${error.message}`);
   return _mapFeatureEditRow(data);
 }
 
 async function _supaGetFeatureEditsForTrip(tripId: string): Promise<FeatureEdit[]> {
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('feature_edits')
     .select('*')
     .eq('trip_id', tripId)
@@ -1465,10 +1672,10 @@ async function _supaGetFeatureEditsForTrip(tripId: string): Promise<FeatureEdit[
 }
 
 async function _supaGetUserFeatureEdits(): Promise<FeatureEdit[]> {
-  const { data: { session } } = await supabase.auth.getSession();
+  const { data: { session } } = await _supabase().auth.getSession();
   if (!session?.user) throw new Error('Not authenticated');
 
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('feature_edits')
     .select('*')
     .eq('user_id', session.user.id)
@@ -1487,7 +1694,7 @@ async function _supaUpdateFeatureEdit(
   if (updates.userRating !== undefined) updateObj.user_rating = updates.userRating;
   if (updates.geometry !== undefined) updateObj.geometry = JSON.stringify(updates.geometry);
 
-  const { data, error } = await supabase
+  const { data, error } = await _supabase()
     .from('feature_edits')
     .update(updateObj)
     .eq('id', editId)
@@ -1511,6 +1718,8 @@ function _mapFeatureEditRow(row: any): FeatureEdit {
     coord: _parsePointCoord(row.coord),
     featureType: row.feature_type,
     createdAt: row.created_at,
+    status: row.status ?? 'pending',
+    statusReason: row.status_reason ?? null,
   };
 }
 
@@ -1525,30 +1734,68 @@ function _parsePointCoord(coord: any): [number, number] {
   return [0, 0];
 }
 
-function _getProximityAssetUrl(): string {
-  const fileName = 'San_Francisco_County_California_USA_network.parquet';
-  const { data: { publicUrl } } = supabase.storage
+function _getProximityAssetUrl(assetName: string): string {
+  const { data: { publicUrl } } = _supabase().storage
+    .from('dataranger-assets')
+    .getPublicUrl(`${assetName}.parquet`);
+  return publicUrl;
+}
+
+// Per-cell chunks and their manifest live in a folder next to the full parquet
+function _getProximityFileUrl(assetName: string, path: string): string {
+  const { data: { publicUrl } } = _supabase().storage
     .from('dataranger-assets')
-    .getPublicUrl(fileName);
+    .getPublicUrl(`${assetName}/${path}`);
   return publicUrl;
 }
 
+// --- region_packs (catalog of downloadable areas) ---
+
+async function _getRegionPacks(): Promise<RegionPack[]> {
+  const { data, error } = await _supabase()
+    .from('region_packs')
+    .select('id, name, jurisdiction, min_lon, min_lat, max_lon, max_lat, utm_zone, utm_hemisphere, asset_name, size_bytes, last_updated, sha256, schema_version, time_zone, holiday_calendar, has_census_blocks')
+    .order('name');
+
+  if (error) throw error;
+  return (data ?? []).map((row: any) => ({
+    id: row.id,
+    name: row.name,
+    jurisdiction: row.jurisdiction,
+    bbox: { minLon: row.min_lon, minLat: row.min_lat, maxLon: row.max_lon, maxLat: row.max_lat },
+    utmZone: row.utm_zone,
+    utmHemisphere: row.utm_hemisphere,
+    assetName: row.asset_name,
+    sizeBytes: Number(row.size_bytes ?? 0),
+    lastUpdated: row.last_updated,
+    sha256: row.sha256 ?? null,
+    schemaVersion: row.schema_version ?? null,
+    timeZone: row.time_zone ?? null,
+    holidayCalendar: row.holiday_calendar ?? null,
+    hasCensusBlocks: row.has_census_blocks ?? true,
+  }));
+}
+
 // --- asset_metadata (optional table for tracking asset versions) ---
 
-async function _getAssetMetadata(assetName: string): Promise<string | null> {
-  const { data, error } = await supabase
+async function _getAssetMetadata(assetName: string): Promise<AssetVersion | null> {
+  const { data, error } = await _supabase()
     .from('asset_metadata')
-    .select('last_updated')
+    .select('last_updated, sha256, schema_version')
     .eq('asset_name', assetName)
     .single();
 
   if (error || !data) return null;
-  return data.last_updated;
+  return {
+    lastUpdated: data.last_updated,
+    sha256: data.sha256 ?? null,
+    schemaVersion: data.schema_version ?? null,
+  };
 }
 
 
 // ═══════════════════════════════════════════════════════════
-// AUTH SERVICE MODULE (Public API)
+// AUTH SERVICE MODULE (Supabase)
 // Two-layer authentication system combining local device security
 // with Supabase anonymous authentication.
 // Called by Auth Stack screens via AuthContext.
@@ -1575,7 +1822,7 @@ async function _getAssetMetadata(assetName: string): Promise<string | null> {
 // - Original user can log back in with credentials without creating new profile
 // ═══════════════════════════════════════════════════════════
 
-export const AuthService: IAuthService = {
+const SupabaseAuthService: IAuthService = {
   async register(params: {
     username: string;
     displayName: string;
@@ -1616,7 +1863,7 @@ export const AuthService: IAuthService = {
       });
     } catch (error: any) {
       // Clean up the anonymous session if profile creation fails
-      await supabase.auth.signOut();
+      await _supabase().auth.signOut();
       throw error;
     }
 
@@ -1627,7 +1874,7 @@ export const AuthService: IAuthService = {
     } catch (error: any) {
       // Clean up profile and session if recovery credentials fail
       await _deleteUserProfile(userId);
-      await supabase.auth.signOut();
+      await _supabase().auth.signOut();
       throw error;
     }
 
@@ -1687,7 +1934,7 @@ export const AuthService: IAuthService = {
         return profile;
       } else {
         console.log('[login] Different user logging in - need to switch sessions');
-        await supabase.auth.signOut();
+        await _supabase().auth.signOut();
       }
     }
 
@@ -1698,7 +1945,7 @@ export const AuthService: IAuthService = {
     console.log('[login] Created new session with user_id:', newUserId);
 
     // Migrate all data atomically via server-side function
-    const { error: migrateError } = await supabase.rpc('migrate_user_to_new_session', {
+    const { error: migrateError } = await _supabase().rpc('migrate_user_to_new_session', {
       p_old_user_id: linkedUserId,
       p_recovery_id: result.recovery_id,
     });
@@ -1755,7 +2002,7 @@ export const AuthService: IAuthService = {
     console.log('[deleteUserData] Permanently deleting all user data and session');
     await _deleteAllUserData(session.user.id);
     // NOW we destroy the session since user is deleting their account
-    await supabase.auth.signOut();
+    await _supabase().auth.signOut();
   },
 
   async updateProfile(updates) {
@@ -1772,6 +2019,10 @@ export const AuthService: IAuthService = {
       dbUpdates.mode_list = updates.modeList;
     if (updates.dataRangerMode !== undefined)
       dbUpdates.dataranger_mode = updates.dataRangerMode;
+    if (updates.mobilityProfiles !== undefined)
+      dbUpdates.mobility_profiles = updates.mobilityProfiles;
+    if (updates.privacyLevel !== undefined)
+      dbUpdates.privacy_level = updates.privacyLevel;
 
     await _updateUserProfile(userId, dbUpdates);
 
@@ -1795,7 +2046,7 @@ export const AuthService: IAuthService = {
 
   async checkDisplayNameAvailability(displayName: string) {
     // Use SECURITY DEFINER function to bypass RLS and check all display names
-    const { data, error } = await supabase.rpc('check_display_name_available', {
+    const { data, error } = await _supabase().rpc('check_display_name_available', {
       p_display_name: displayName,
     });
     
@@ -1809,11 +2060,11 @@ export const AuthService: IAuthService = {
 };
 
 // ═══════════════════════════════════════════════════════════
-// DATA SERVICE MODULE (Public API)
+// DATA SERVICE MODULE (Supabase)
 // Called by Main Stack screens via services.
 // ═══════════════════════════════════════════════════════════
 
-export const DataService: IDataService = {
+const SupabaseDataService: IDataService = {
   // --- Trip Operations ---
 
   async writeTrip(tripData) {
@@ -1844,14 +2095,6 @@ export const DataService: IDataService = {
     return _deleteTrip(tripId);
   },
 
-  async getBlockForPoint(lon, lat) {
-    const { data, error } = await supabase.rpc('get_census_block_for_point', { lon, lat });
-    if (error || !data || data.length === 0) return null;
-    const row = data[0];
-    if (!row.geoid20 || !row.geom) return null;
-    return { geoid: row.geoid20, polygon: row.geom as GeoJSON.Polygon };
-  },
-
   // --- Rating Operations ---
 
   async writeRating(rating) {
@@ -1872,6 +2115,10 @@ export const DataService: IDataService = {
     return _getUserRatings(session.user.id);
   },
 
+  async deleteRating(crisId, tripId) {
+    return _deleteRating(crisId, tripId);
+  },
+
   // --- Correction Operations ---
 
   async writeCorrection(correction) {
@@ -1890,8 +2137,8 @@ export const DataService: IDataService = {
 
   // --- Image Operations ---
 
-  async uploadFeatureImage(userId, imageUri, featureId) {
-    return _uploadFeatureImage(userId, imageUri, featureId);
+  async uploadFeatureImage(userId, imageUri, featureId, uploadKey) {
+    return _uploadFeatureImage(userId, imageUri, featureId, uploadKey);
   },
 
   async deleteFeatureImage(imageUrl) {
@@ -1904,8 +2151,20 @@ export const DataService: IDataService = {
     return _getAssetMetadata(assetName);
   },
 
-  getProximityAssetUrl() {
-    return _getProximityAssetUrl();
+  async getRegionPacks() {
+    return _getRegionPacks();
+  },
+
+  getProximityAssetUrl(assetName) {
+    return _getProximityAssetUrl(assetName);
+  },
+
+  getProximityManifestUrl(assetName) {
+    return _getProximityFileUrl(assetName, 'manifest.json');
+  },
+
+  getProximityFileUrl(assetName, path) {
+    return _getProximityFileUrl(assetName, path);
   },
 
   // --- Geometry Edit Operations ---
@@ -1928,12 +2187,24 @@ export const DataService: IDataService = {
     return _getGeometryEditStatuses(editIds);
   },
 
+  async withdrawGeometryEdit(editId) {
+    return _withdrawGeometryEdit(editId);
+  },
+
+  async resolveGeometryEdit(editId, resolution) {
+    return _resolveEdit('geometry_edits', editId, resolution);
+  },
+
   // --- Segment Edit Operations ---
 
   async writeSegmentEdit(edit) {
     return _writeSegmentEdit(edit);
   },
 
+  async deleteSegmentEdit(editId) {
+    return _deleteSegmentEdit(editId);
+  },
+
   async getSegmentEditsForTrip(tripId) {
     return _getSegmentEditsForTrip(tripId);
   },
@@ -1950,4 +2221,17 @@ export const DataService: IDataService = {
   getFeatureEditsForTrip: _supaGetFeatureEditsForTrip,
   getUserFeatureEdits: _supaGetUserFeatureEdits,
   updateFeatureEdit: _supaUpdateFeatureEdit,
+
+  async resolveFeatureEdit(editId, resolution) {
+    return _resolveEdit('feature_edits', editId, resolution);
+  },
 };
+
+// ═══════════════════════════════════════════════════════════
+// PUBLIC SERVICES
+// The implementations chosen by BACKEND.
+// ═══════════════════════════════════════════════════════════
+
+export const AuthService: IAuthService = BACKEND === 'local' ? SQLiteAdapter : SupabaseAuthService;
+
+export const DataService: IDataService = BACKEND === 'local' ? SQLiteAdapter : SupabaseDataService;
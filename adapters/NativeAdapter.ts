@@ -1,4 +1,7 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import { Platform } from 'react-native';
 
 // ═══════════════════════════════════════════════════════════
 // NATIVE ADAPTER
@@ -7,6 +10,18 @@ import * as Location from 'expo-location';
 // GPS location data from native API, serving it to Trip Service and
 // screens for MapView display. Will be expanded to include other
 // native device capabilities.
+//
+// Background recording runs as a TaskManager task so it keeps receiving
+// locations while the app is backgrounded, the screen is locked or the JS
+// runtime is restarted. Points are appended to a persisted buffer that
+// TripService drains, so nothing is lost while no listener is attached.
+
+// --- Constants ---
+
+export const BACKGROUND_LOCATION_TASK = 'rolltracks-background-location';
+const STORAGE_KEY_BACKGROUND_BUFFER = '@rolltracks/background_points';
+
+// --- Types ---
 
 export interface GPSCoordinate {
   latitude: number;
@@ -21,6 +36,12 @@ export interface GPSPermissionStatus {
   canAskAgain: boolean;
 }
 
+export interface BackgroundPermissionStatus {
+  foreground: boolean;
+  background: boolean;
+  canAskAgain: boolean;
+}
+
 export class NativeAdapterError extends Error {
   constructor(message: string) {
     super(message);
@@ -28,6 +49,64 @@ export class NativeAdapterError extends Error {
   }
 }
 
+// ═══════════════════════════════════════════════════════════
+// Background Location Task
+// ═══════════════════════════════════════════════════════════
+
+function toGPSCoordinate(location: Location.LocationObject): GPSCoordinate {
+  return {
+    latitude: location.coords.latitude,
+    longitude: location.coords.longitude,
+    altitude: location.coords.altitude,
+    accuracy: location.coords.accuracy,
+    timestamp: location.timestamp,
+  };
+}
+
+// Called after new points are buffered. Set by the trip being recorded in
+// this JS runtime; null when the task runs headless (app not open).
+let backgroundListener: (() => void) | null = null;
+
+// Serializes buffer reads and writes so a drain can't interleave with an append
+let bufferQueue: Promise<unknown> = Promise.resolve();
+
+function withBufferLock<T>(operation: () => Promise<T>): Promise<T> {
+  const result = bufferQueue.then(operation, operation);
+  bufferQueue = result.catch(() => undefined);
+  return result;
+}
+
+async function readBackgroundBuffer(): Promise<GPSCoordinate[]> {
+  const data = await AsyncStorage.getItem(STORAGE_KEY_BACKGROUND_BUFFER);
+  return data ? (JSON.parse(data) as GPSCoordinate[]) : [];
+}
+
+// Defined at module scope so the task is registered whenever the bundle
+// loads, including when the OS relaunches the app in the background.
+if (Platform.OS !== 'web') {
+  TaskManager.defineTask<{ locations: Location.LocationObject[] }>(
+    BACKGROUND_LOCATION_TASK,
+    async ({ data, error }) => {
+      if (error) {
+        console.error('[NativeAdapter] Background location error:', error.message);
+        return;
+      }
+      if (!data?.locations?.length) return;
+
+      const points = data.locations.map(toGPSCoordinate);
+      await withBufferLock(async () => {
+        const buffered = await readBackgroundBuffer();
+        await AsyncStorage.setItem(STORAGE_KEY_BACKGROUND_BUFFER, JSON.stringify([...buffered, ...points]));
+      });
+      backgroundListener?.();
+    }
+  );
+}
+
+// ═══════════════════════════════════════════════════════════
+// Native Adapter Class
+// ═══════════════════════════════════════════════════════════
+
 class NativeAdapterClass {
   private locationSubscription: Location.LocationSubscription | null = null;
 
@@ -77,6 +156,50 @@ class NativeAdapterClass {
     }
   }
 
+  /**
+   * Check foreground and background ("Always") location permissions.
+   */
+  async checkBackgroundPermissions(): Promise<BackgroundPermissionStatus> {
+    if (Platform.OS === 'web') {
+      return { foreground: false, background: false, canAskAgain: false };
+    }
+    const foreground = await Location.getForegroundPermissionsAsync();
+    const background = await Location.getBackgroundPermissionsAsync();
+    return {
+      foreground: foreground.status === 'granted',
+      background: background.status === 'granted',
+      canAskAgain: background.canAskAgain,
+    };
+  }
+
+  /**
+   * Request background location permission, asking for foreground
+   * permission first (the OS requires it before "Always" can be granted).
+   * Returns true if background recording is allowed.
+   * Does not throw errors - recording falls back to foreground-only.
+   */
+  async requestBackgroundPermissions(): Promise<boolean> {
+    if (Platform.OS === 'web') {
+      return false;
+    }
+    try {
+      const { foreground, background, canAskAgain } = await this.checkBackgroundPermissions();
+      if (background) return true;
+      if (!foreground && !(await this.requestPermissions())) return false;
+      if (!canAskAgain) return false;
+
+      const { status } = await Location.requestBackgroundPermissionsAsync();
+      if (status !== 'granted') {
+        console.warn('[NativeAdapter] Background location permission denied');
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('[NativeAdapter] Failed to request background permissions:', error);
+      return false;
+    }
+  }
+
   /**
    * Get the current GPS position.
    * Used by screens to display user location on map.
@@ -90,13 +213,7 @@ class NativeAdapterClass {
         accuracy: Location.Accuracy.High,
       });
 
-      return {
-        latitude: location.coords.latitude,
-        longitude: location.coords.longitude,
-        altitude: location.coords.altitude,
-        accuracy: location.coords.accuracy,
-        timestamp: location.timestamp,
-      };
+      return toGPSCoordinate(location);
     } catch (error) {
       throw new NativeAdapterError(`Failed to get current position: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -134,13 +251,7 @@ class NativeAdapterClass {
           timeInterval: options?.timeInterval ?? 1000, // Or every 1 second
         },
         (location) => {
-          callback({
-            latitude: location.coords.latitude,
-            longitude: location.coords.longitude,
-            altitude: location.coords.altitude,
-            accuracy: location.coords.accuracy,
-            timestamp: location.timestamp,
-          });
+          callback(toGPSCoordinate(location));
         }
       );
     } catch (error) {
@@ -159,6 +270,113 @@ class NativeAdapterClass {
     }
   }
 
+  /**
+   * Start background location updates for trip recording.
+   * Points are buffered in storage by the background task and onBuffered is
+   * called after each batch; read them with drainBackgroundLocations().
+   * On Android this runs as a foreground service with a persistent notification.
+   *
+   * @param granted Result of requestBackgroundPermissions(), so the user isn't prompted twice
+   * @param onBuffered Function called when new points have been buffered
+   * @param options Configuration for location accuracy and update frequency
+   * @returns Promise that resolves when updates start
+   */
+  async startBackgroundLocationUpdates(
+    granted: boolean,
+    onBuffered: () => void,
+    options?: {
+      accuracy?: Location.Accuracy;
+      distanceInterval?: number; // meters
+      timeInterval?: number; // milliseconds
+    }
+  ): Promise<void> {
+    if (!granted) {
+      throw new NativeAdapterError('Background location permission denied. Allow location access "Always" to record trips in the background.');
+    }
+
+    // Discard points left over from a previous trip
+    await this.clearBackgroundLocations();
+    backgroundListener = onBuffered;
+
+    try {
+      await Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK, {
+        accuracy: options?.accuracy ?? Location.Accuracy.High,
+        distanceInterval: options?.distanceInterval ?? 5,
+        timeInterval: options?.timeInterval ?? 1000,
+        activityType: Location.ActivityType.Fitness,
+        pausesUpdatesAutomatically: false,
+        showsBackgroundLocationIndicator: true,
+        foregroundService: {
+          notificationTitle: 'RollTracks is recording your trip',
+          notificationBody: 'Open the app to pause or end the trip.',
+          killServiceOnDestroy: false,
+        },
+      });
+    } catch (error) {
+      backgroundListener = null;
+      throw new NativeAdapterError(`Failed to start background location: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Re-attach a listener to background updates that are already running,
+   * e.g. after the JS runtime restarted mid-trip.
+   */
+  attachBackgroundLocationListener(onBuffered: () => void): void {
+    backgroundListener = onBuffered;
+  }
+
+  /**
+   * Stop background location updates.
+   * Buffered points are kept until drained or cleared.
+   */
+  async stopBackgroundLocationUpdates(): Promise<void> {
+    backgroundListener = null;
+    try {
+      if (await this.isBackgroundLocationActive()) {
+        await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+      }
+    } catch (error) {
+      console.error('[NativeAdapter] Failed to stop background location:', error);
+    }
+  }
+
+  /**
+   * Check if background location updates are running.
+   * They survive JS reloads, so this is true for a trip that was being
+   * recorded before the app restarted.
+   */
+  async isBackgroundLocationActive(): Promise<boolean> {
+    if (Platform.OS === 'web') {
+      return false;
+    }
+    try {
+      return await Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Take all buffered background points (oldest first) and clear the buffer.
+   */
+  async drainBackgroundLocations(): Promise<GPSCoordinate[]> {
+    return withBufferLock(async () => {
+      const points = await readBackgroundBuffer();
+      if (points.length > 0) {
+        await AsyncStorage.removeItem(STORAGE_KEY_BACKGROUND_BUFFER);
+      }
+      return points;
+    });
+  }
+
+  /**
+   * Discard any buffered background points.
+   */
+  async clearBackgroundLocations(): Promise<void> {
+    await withBufferLock(() => AsyncStorage.removeItem(STORAGE_KEY_BACKGROUND_BUFFER));
+  }
+
   /**
    * Check if location services are enabled on the device.
    * Returns false if user has disabled location services system-wide.
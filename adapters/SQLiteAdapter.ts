@@ -0,0 +1,1180 @@
+import * as Crypto from 'expo-crypto';
+import { Directory, File, Paths } from 'expo-file-system';
+import { openDatabaseAsync } from 'expo-sqlite';
+import type { SQLiteBindValue } from 'expo-sqlite';
+
+import type {
+  AssetVersion,
+  CorrectedSegment,
+  EditResolution,
+  FeatureEdit,
+  IAuthService,
+  IDataService,
+  NewTrip,
+  PrivacyLevel,
+  RatedFeature,
+  RegionPack,
+  TimeOfDayBin,
+  Trip,
+  TripSummary,
+  UserProfile,
+} from '@/adapters/DatabaseAdapter';
+import { getTimeOfDayBin, getWeekdayBin } from '@/services/utils/timeBins';
+
+// ═══════════════════════════════════════════════════════════
+// SQLITE ADAPTER — LOCAL-ONLY BACKEND
+// ═══════════════════════════════════════════════════════════
+// Implements IAuthService and IDataService on an on-device SQLite
+// database, selected with EXPO_PUBLIC_BACKEND=local (see DatabaseAdapter).
+// Nothing leaves the device: accounts and profiles, trips, ratings,
+// corrections and edits are tables in the database file, and feature
+// photos are copied into the app's document directory.
+//
+// Differences from the Supabase backend:
+// - There is no server session. register() and login() make the account
+//   current on this device; logout() leaves it current, as with Supabase,
+//   and AuthContext clears its own state.
+// - Passwords are salted SHA-256, not Argon2: the database sits on the
+//   same device, so the hash only keeps the password itself unreadable.
+// - Edits stay 'pending': no pipeline applies, rejects or conflicts them.
+// - Trips have no origin/destination block polygons (no census_blocks).
+// - The region catalog and asset versions come from local tables, filled
+//   by seedRegionPacks(); pack files download from EXPO_PUBLIC_ASSET_BASE_URL,
+//   a static copy of the dataranger-assets bucket.
+//
+// Tests and demos pass their own connection (e.g. an in-memory engine)
+// to SQLiteAdapterClass instead of opening the database file.
+
+// --- Types ---
+
+/** The part of expo-sqlite's SQLiteDatabase the adapter uses. */
+export interface SQLiteConnection {
+  execAsync(source: string): Promise<void>;
+  runAsync(source: string, params: SQLiteBindValue[]): Promise<{ changes: number }>;
+  getFirstAsync<T>(source: string, params: SQLiteBindValue[]): Promise<T | null>;
+  getAllAsync<T>(source: string, params: SQLiteBindValue[]): Promise<T[]>;
+  withTransactionAsync(task: () => Promise<void>): Promise<void>;
+}
+
+// --- Constants ---
+
+const DATABASE_NAME = 'rolltracks.db';
+const FEATURE_IMAGE_DIR = 'feature-images';
+const assetBaseUrl = (process.env.EXPO_PUBLIC_ASSET_BASE_URL ?? '').replace(/\/+$/, '');
+
+/**
+ * Schema migrations, applied in order. PRAGMA user_version records how
+ * many have run, so only append to this list; never edit an entry.
+ * JSON values are stored as TEXT, booleans as 0/1 and points as lon/lat.
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE settings (
+    key TEXT PRIMARY KEY,
+    value TEXT
+  );
+
+  CREATE TABLE user_profiles (
+    id TEXT PRIMARY KEY,
+    display_name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    age INTEGER NOT NULL,
+    mode_list TEXT NOT NULL,
+    dataranger_mode INTEGER NOT NULL DEFAULT 0,
+    mobility_profiles TEXT,
+    privacy_level TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE accounts (
+    username TEXT PRIMARY KEY COLLATE NOCASE,
+    password_hash TEXT NOT NULL,
+    user_id TEXT NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE
+  );
+
+  CREATE TABLE trips (
+    trip_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    comfort REAL,
+    purpose TEXT,
+    time_of_day TEXT NOT NULL,
+    weekday INTEGER NOT NULL,
+    duration_s REAL,
+    distance_mi REAL,
+    status TEXT NOT NULL,
+    reached_dest INTEGER,
+    geometry TEXT NOT NULL,
+    relative_times TEXT,
+    od_geoids TEXT,
+    device_platform TEXT,
+    device_os_version TEXT,
+    app_version TEXT,
+    raw_point_count INTEGER,
+    cleaned_point_count INTEGER,
+    matched_segments TEXT,
+    privacy_level TEXT
+  );
+  CREATE INDEX trips_user_id ON trips (user_id);
+
+  CREATE TABLE rated_features (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    trip_id TEXT NOT NULL,
+    cris_id TEXT NOT NULL,
+    condition_score REAL,
+    user_rating REAL NOT NULL,
+    lat REAL NOT NULL,
+    long REAL NOT NULL,
+    time_stamp TEXT NOT NULL,
+    image_url TEXT
+  );
+  CREATE INDEX rated_features_trip_id ON rated_features (trip_id);
+
+  CREATE TABLE corrected_segments (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    trip_id TEXT NOT NULL,
+    corrected_segment_id TEXT NOT NULL,
+    user_reported_material TEXT NOT NULL,
+    geometry TEXT NOT NULL,
+    time_stamp TEXT NOT NULL
+  );
+  CREATE INDEX corrected_segments_trip_id ON corrected_segments (trip_id);
+
+  CREATE TABLE segment_edits (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    trip_id TEXT NOT NULL,
+    street_grid_id TEXT NOT NULL,
+    facility_type TEXT NOT NULL,
+    field_name TEXT NOT NULL,
+    old_value TEXT,
+    new_value TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX segment_edits_trip_id ON segment_edits (trip_id);
+
+  CREATE TABLE geometry_edits (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    trip_id TEXT NOT NULL,
+    edit_type TEXT NOT NULL,
+    street_grid_id TEXT,
+    payload TEXT NOT NULL,
+    coord_lon REAL NOT NULL,
+    coord_lat REAL NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    status_reason TEXT,
+    superseded_by TEXT,
+    resolved_at TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX geometry_edits_trip_id ON geometry_edits (trip_id);
+
+  CREATE TABLE feature_edits (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    trip_id TEXT NOT NULL,
+    street_grid_id TEXT NOT NULL,
+    edit_type TEXT NOT NULL,
+    attributes TEXT NOT NULL,
+    user_rating REAL,
+    geometry TEXT,
+    coord_lon REAL NOT NULL,
+    coord_lat REAL NOT NULL,
+    feature_type TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    status_reason TEXT,
+    superseded_by TEXT,
+    resolved_at TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX feature_edits_trip_id ON feature_edits (trip_id);
+
+  CREATE TABLE region_packs (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    jurisdiction TEXT,
+    min_lon REAL NOT NULL,
+    min_lat REAL NOT NULL,
+    max_lon REAL NOT NULL,
+    max_lat REAL NOT NULL,
+    utm_zone INTEGER NOT NULL,
+    utm_hemisphere TEXT NOT NULL,
+    asset_name TEXT NOT NULL,
+    size_bytes INTEGER NOT NULL,
+    last_updated TEXT NOT NULL,
+    sha256 TEXT,
+    schema_version INTEGER,
+    time_zone TEXT,
+    holiday_calendar TEXT
+  );
+
+  CREATE TABLE asset_metadata (
+    asset_name TEXT PRIMARY KEY,
+    last_updated TEXT NOT NULL,
+    sha256 TEXT,
+    schema_version INTEGER
+  );
+  `,
+  `
+  ALTER TABLE region_packs ADD COLUMN has_census_blocks INTEGER NOT NULL DEFAULT 1;
+  `,
+];
+
+// --- Row types ---
+// Columns as the adapter writes them: JSON is TEXT, booleans are 0/1, and
+// columns the schema leaves nullable but every insert fills are non-null.
+
+interface ProfileRow {
+  id: string;
+  display_name: string;
+  age: number;
+  mode_list: string;
+  dataranger_mode: number;
+  mobility_profiles: string | null;
+  privacy_level: PrivacyLevel | null;
+  created_at: string;
+}
+
+interface TripRow {
+  trip_id: string;
+  user_id: string;
+  mode: string;
+  comfort: number;
+  purpose: string;
+  time_of_day: TimeOfDayBin;
+  weekday: number;
+  duration_s: number | null;
+  distance_mi: number | null;
+  status: Trip['status'];
+  reached_dest: number | null;
+  geometry: string;
+  relative_times: string | null;
+  od_geoids: string | null;
+  device_platform: string | null;
+  device_os_version: string | null;
+  app_version: string | null;
+  raw_point_count: number | null;
+  cleaned_point_count: number | null;
+  matched_segments: string | null;
+  privacy_level: PrivacyLevel | null;
+}
+
+/** A completed trip with its rating and correction counts, for getTripSummaries(). */
+interface TripSummaryRow extends Pick<
+  TripRow,
+  'trip_id' | 'mode' | 'purpose' | 'time_of_day' | 'weekday' | 'duration_s' | 'distance_mi' | 'reached_dest' | 'geometry'
+> {
+  rating_count: number;
+  correction_count: number;
+}
+
+interface RatingRow {
+  id: string;
+  user_id: string;
+  trip_id: string;
+  cris_id: string;
+  condition_score: number;
+  user_rating: number;
+  lat: number;
+  long: number;
+  time_stamp: string;
+  image_url: string | null;
+}
+
+interface CorrectionRow {
+  id: string;
+  user_id: string;
+  trip_id: string;
+  corrected_segment_id: string;
+  user_reported_material: string;
+  geometry: string;
+  time_stamp: string;
+}
+
+interface SegmentEditRow {
+  id: string;
+  user_id: string;
+  trip_id: string;
+  street_grid_id: string;
+  facility_type: string;
+  field_name: string;
+  old_value: string | null;
+  new_value: string;
+  created_at: string;
+}
+
+interface GeometryEditRow {
+  id: string;
+  user_id: string;
+  trip_id: string;
+  edit_type: string;
+  street_grid_id: string | null;
+  payload: string;
+  coord_lon: number;
+  coord_lat: number;
+  status: string;
+  status_reason: string | null;
+  superseded_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+interface FeatureEditRow {
+  id: string;
+  user_id: string;
+  trip_id: string;
+  street_grid_id: string;
+  edit_type: FeatureEdit['editType'];
+  attributes: string;
+  user_rating: number | null;
+  geometry: string | null;
+  coord_lon: number;
+  coord_lat: number;
+  feature_type: FeatureEdit['featureType'];
+  status: NonNullable<FeatureEdit['status']>;
+  status_reason: string | null;
+  superseded_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+interface RegionPackRow {
+  id: string;
+  name: string;
+  jurisdiction: string | null;
+  min_lon: number;
+  min_lat: number;
+  max_lon: number;
+  max_lat: number;
+  utm_zone: number;
+  utm_hemisphere: RegionPack['utmHemisphere'];
+  asset_name: string;
+  size_bytes: number;
+  last_updated: string;
+  sha256: string | null;
+  schema_version: number | null;
+  time_zone: string | null;
+  holiday_calendar: string | null;
+  has_census_blocks: number;
+}
+
+interface AssetMetadataRow {
+  asset_name: string;
+  last_updated: string;
+  sha256: string | null;
+  schema_version: number | null;
+}
+
+// --- Row mapping ---
+
+const _toJson = (value: unknown): string | null => (value === undefined || value === null ? null : JSON.stringify(value));
+const _fromJson = (text: string | null) => (text === null ? null : JSON.parse(text));
+const _toBool = (value: boolean | null | undefined): number | null => (value === undefined || value === null ? null : value ? 1 : 0);
+const _now = (): string => new Date().toISOString();
+
+function _mapProfileRow(row: ProfileRow): UserProfile {
+  return {
+    id: row.id,
+    displayName: row.display_name,
+    age: row.age,
+    modeList: JSON.parse(row.mode_list),
+    dataRangerMode: row.dataranger_mode === 1,
+    mobilityProfiles: _fromJson(row.mobility_profiles) ?? {},
+    privacyLevel: row.privacy_level ?? 'standard',
+  };
+}
+
+function _mapTripRow(row: TripRow): Trip {
+  return {
+    tripId: row.trip_id,
+    userId: row.user_id,
+    mode: row.mode,
+    comfort: row.comfort,
+    purpose: row.purpose,
+    timeOfDay: row.time_of_day,
+    weekday: row.weekday,
+    durationS: row.duration_s ?? undefined,
+    distanceMi: row.distance_mi ?? undefined,
+    status: row.status,
+    reachedDest: row.reached_dest === null ? undefined : row.reached_dest === 1,
+    geometry: row.geometry,
+    relativeTimes: _fromJson(row.relative_times) ?? undefined,
+    odGeoids: _fromJson(row.od_geoids),
+    odBlockPolygons: null,
+    devicePlatform: row.device_platform ?? undefined,
+    deviceOsVersion: row.device_os_version ?? undefined,
+    appVersion: row.app_version ?? undefined,
+    rawPointCount: row.raw_point_count ?? undefined,
+    cleanedPointCount: row.cleaned_point_count ?? undefined,
+    matchedSegments: _fromJson(row.matched_segments),
+    privacyLevel: row.privacy_level ?? null,
+  };
+}
+
+function _mapRatingRow(row: RatingRow): RatedFeature {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    tripId: row.trip_id,
+    crisId: row.cris_id,
+    conditionScore: row.condition_score,
+    userRating: row.user_rating,
+    lat: row.lat,
+    long: row.long,
+    timeStamp: row.time_stamp,
+    imageUrl: row.image_url ?? undefined,
+  };
+}
+
+function _mapCorrectionRow(row: CorrectionRow): CorrectedSegment {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    tripId: row.trip_id,
+    correctedSegmentId: row.corrected_segment_id,
+    userReportedMaterial: row.user_reported_material,
+    geometry: JSON.parse(row.geometry),
+    timeStamp: row.time_stamp,
+  };
+}
+
+function _mapSegmentEditRow(row: SegmentEditRow) {
+  return {
+    streetGridId: row.street_grid_id,
+    facilityType: row.facility_type,
+    fieldName: row.field_name,
+    oldValue: row.old_value,
+    newValue: row.new_value,
+    createdAt: row.created_at,
+  };
+}
+
+function _mapGeometryEditRow(row: GeometryEditRow) {
+  return {
+    id: row.id,
+    editType: row.edit_type,
+    streetGridId: row.street_grid_id ?? undefined,
+    payload: JSON.parse(row.payload),
+    coord: [row.coord_lon, row.coord_lat] as [number, number],
+    status: row.status,
+    createdAt: row.created_at,
+  };
+}
+
+function _mapFeatureEditRow(row: FeatureEditRow): FeatureEdit {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    tripId: row.trip_id,
+    streetGridId: row.street_grid_id,
+    editType: row.edit_type,
+    attributes: JSON.parse(row.attributes),
+    userRating: row.user_rating ?? undefined,
+    geometry: _fromJson(row.geometry) ?? undefined,
+    coord: [row.coord_lon, row.coord_lat],
+    featureType: row.feature_type,
+    createdAt: row.created_at,
+    status: row.status,
+    statusReason: row.status_reason ?? null,
+  };
+}
+
+function _mapRegionPackRow(row: RegionPackRow): RegionPack {
+  return {
+    id: row.id,
+    name: row.name,
+    jurisdiction: row.jurisdiction,
+    bbox: { minLon: row.min_lon, minLat: row.min_lat, maxLon: row.max_lon, maxLat: row.max_lat },
+    utmZone: row.utm_zone,
+    utmHemisphere: row.utm_hemisphere,
+    assetName: row.asset_name,
+    sizeBytes: row.size_bytes,
+    lastUpdated: row.last_updated,
+    sha256: row.sha256 ?? null,
+    schemaVersion: row.schema_version ?? null,
+    timeZone: row.time_zone ?? null,
+    holidayCalendar: row.holiday_calendar ?? null,
+    hasCensusBlocks: row.has_census_blocks === 1,
+  };
+}
+
+// --- Passwords ---
+
+async function _hashPassword(password: string, salt: string = Crypto.randomUUID()): Promise<string> {
+  const digest = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${password}`);
+  return `sha256$${salt}$${digest}`;
+}
+
+async function _verifyPassword(password: string, hash: string): Promise<boolean> {
+  const [scheme, salt] = hash.split('$');
+  if (scheme !== 'sha256' || !salt) return false;
+  return (await _hashPassword(password, salt)) === hash;
+}
+
+// ═══════════════════════════════════════════════════════════
+// SQLITE ADAPTER CLASS
+// ═══════════════════════════════════════════════════════════
+
+export class SQLiteAdapterClass implements IAuthService, IDataService {
+  private readonly openConnection: () => Promise<SQLiteConnection>;
+  private ready: Promise<SQLiteConnection> | null = null;
+
+  /**
+   * @param openConnection - Opens the database; called once, on first use.
+   *   Pending migrations run before the connection is handed out.
+   */
+  constructor(openConnection: () => Promise<SQLiteConnection>) {
+    this.openConnection = openConnection;
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // Connection and session
+  // ═══════════════════════════════════════════════════════════
+
+  private getDb(): Promise<SQLiteConnection> {
+    if (!this.ready) {
+      this.ready = this.openAndMigrate().catch((error) => {
+        this.ready = null; // Retry on next use
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  private async openAndMigrate(): Promise<SQLiteConnection> {
+    const db = await this.openConnection();
+    await db.execAsync('PRAGMA foreign_keys = ON');
+    const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version', []);
+    const version = row?.user_version ?? 0;
+
+    for (let i = version; i < MIGRATIONS.length; i++) {
+      await db.withTransactionAsync(async () => {
+        await db.execAsync(MIGRATIONS[i]);
+        await db.execAsync(`PRAGMA user_version = ${i + 1}`);
+      });
+      console.log(`[SQLiteAdapter] Applied migration ${i + 1}`);
+    }
+    return db;
+  }
+
+  private async getCurrentUserId(): Promise<string | null> {
+    const db = await this.getDb();
+    const row = await db.getFirstAsync<{ value: string | null }>("SELECT value FROM settings WHERE key = 'current_user_id'", []);
+    return row?.value ?? null;
+  }
+
+  private async setCurrentUserId(userId: string | null): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync(
+      "INSERT INTO settings (key, value) VALUES ('current_user_id', ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value",
+      [userId],
+    );
+  }
+
+  /** The current user's ID; throws like the Supabase backend without a session. */
+  private async requireUserId(): Promise<string> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) throw new Error('No active session.');
+    return userId;
+  }
+
+  private async getProfile(userId: string): Promise<UserProfile | null> {
+    const db = await this.getDb();
+    const row = await db.getFirstAsync<ProfileRow>('SELECT * FROM user_profiles WHERE id = ?', [userId]);
+    return row ? _mapProfileRow(row) : null;
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // IAuthService
+  // ═══════════════════════════════════════════════════════════
+
+  async register(params: {
+    username: string;
+    displayName: string;
+    age: number;
+    password: string;
+    modeList: string[];
+    dataRangerMode?: boolean;
+    captchaToken?: string;
+  }): Promise<UserProfile> {
+    const { username, displayName, age, password, modeList, dataRangerMode } = params;
+    const db = await this.getDb();
+
+    if (!(await this.checkDisplayNameAvailability(displayName))) {
+      throw new Error('This display name is already taken. Please choose a different one.');
+    }
+    const existing = await db.getFirstAsync<{ username: string }>('SELECT username FROM accounts WHERE username = ?', [username]);
+    if (existing) {
+      throw new Error('This username is already taken. Please choose a different one.');
+    }
+
+    const userId = Crypto.randomUUID();
+    const passwordHash = await _hashPassword(password);
+
+    await db.withTransactionAsync(async () => {
+      await db.runAsync(
+        `INSERT INTO user_profiles (id, display_name, age, mode_list, dataranger_mode, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [userId, displayName, age, JSON.stringify(modeList), dataRangerMode ? 1 : 0, _now()],
+      );
+      await db.runAsync('INSERT INTO accounts (username, password_hash, user_id) VALUES (?, ?, ?)', [username, passwordHash, userId]);
+    });
+    await this.setCurrentUserId(userId);
+
+    return { id: userId, displayName, age, modeList, dataRangerMode: dataRangerMode ?? false };
+  }
+
+  async login(username: string, password: string): Promise<UserProfile> {
+    const db = await this.getDb();
+    const account = await db.getFirstAsync<{ password_hash: string; user_id: string }>(
+      'SELECT password_hash, user_id FROM accounts WHERE username = ?',
+      [username],
+    );
+    if (!account || !(await _verifyPassword(password, account.password_hash))) {
+      throw new Error('Invalid credentials.');
+    }
+
+    const profile = await this.getProfile(account.user_id);
+    if (!profile) throw new Error('No account linked to this username.');
+
+    await this.setCurrentUserId(account.user_id);
+    return profile;
+  }
+
+  async getCurrentUser(): Promise<UserProfile | null> {
+    const userId = await this.getCurrentUserId();
+    return userId ? this.getProfile(userId) : null;
+  }
+
+  async logout(): Promise<void> {
+    // As with Supabase, the account stays current on this device; AuthContext
+    // clears its own state and login() switches accounts
+    console.log('[SQLiteAdapter] Clearing local auth state (session preserved)');
+  }
+
+  async deleteUserData(): Promise<void> {
+    const userId = await this.requireUserId();
+    const db = await this.getDb();
+    const images = await db.getAllAsync<{ image_url: string }>(
+      'SELECT image_url FROM rated_features WHERE user_id = ? AND image_url IS NOT NULL',
+      [userId],
+    );
+
+    await db.withTransactionAsync(async () => {
+      for (const table of ['rated_features', 'corrected_segments', 'segment_edits', 'geometry_edits', 'feature_edits', 'trips']) {
+        await db.runAsync(`DELETE FROM ${table} WHERE user_id = ?`, [userId]);
+      }
+      await db.runAsync('DELETE FROM accounts WHERE user_id = ?', [userId]);
+      await db.runAsync('DELETE FROM user_profiles WHERE id = ?', [userId]);
+    });
+    await this.setCurrentUserId(null);
+
+    for (const { image_url } of images) {
+      await this.deleteFeatureImage(image_url).catch(() => {});
+    }
+  }
+
+  async updateProfile(
+    updates: Partial<Pick<UserProfile, 'displayName' | 'age' | 'modeList' | 'dataRangerMode' | 'mobilityProfiles' | 'privacyLevel'>>,
+  ): Promise<UserProfile> {
+    const userId = await this.requireUserId();
+    const db = await this.getDb();
+
+    const columns: [string, SQLiteBindValue][] = [];
+    if (updates.displayName !== undefined) columns.push(['display_name', updates.displayName]);
+    if (updates.age !== undefined) columns.push(['age', updates.age]);
+    if (updates.modeList !== undefined) columns.push(['mode_list', JSON.stringify(updates.modeList)]);
+    if (updates.dataRangerMode !== undefined) columns.push(['dataranger_mode', updates.dataRangerMode ? 1 : 0]);
+    if (updates.mobilityProfiles !== undefined) columns.push(['mobility_profiles', _toJson(updates.mobilityProfiles)]);
+    if (updates.privacyLevel !== undefined) columns.push(['privacy_level', updates.privacyLevel]);
+
+    if (columns.length > 0) {
+      try {
+        await db.runAsync(
+          `UPDATE user_profiles SET ${columns.map(([column]) => `${column} = ?`).join(', ')} WHERE id = ?`,
+          [...columns.map(([, value]) => value), userId],
+        );
+      } catch (error) {
+        throw new Error(`Failed to update profile: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const profile = await this.getProfile(userId);
+    if (!profile) throw new Error('Profile not found after update.');
+    return profile;
+  }
+
+  async toggleDataRangerMode(): Promise<boolean> {
+    const userId = await this.requireUserId();
+    const profile = await this.getProfile(userId);
+    if (!profile) throw new Error('Profile not found.');
+
+    const newMode = !profile.dataRangerMode;
+    const db = await this.getDb();
+    await db.runAsync('UPDATE user_profiles SET dataranger_mode = ? WHERE id = ?', [newMode ? 1 : 0, userId]);
+    return newMode;
+  }
+
+  async checkDisplayNameAvailability(displayName: string): Promise<boolean> {
+    const db = await this.getDb();
+    const row = await db.getFirstAsync<{ id: string }>('SELECT id FROM user_profiles WHERE display_name = ?', [displayName]);
+    return row === null;
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // IDataService — Trips
+  // ═══════════════════════════════════════════════════════════
+
+  /**
+   * Bins the startTime into timeOfDay and weekday (in the origin's time
+   * zone and holiday calendar, when known) and stores only the bins.
+   */
+  async writeTrip(tripData: NewTrip): Promise<Trip> {
+    const binning = { timeZone: tripData.timeZone, holidayCalendar: tripData.holidayCalendar };
+    // Same shape as TripService's IDs, so ordering by ID is by creation time
+    const tripId = `trip_${Date.now()}_${Crypto.randomUUID().slice(0, 9)}`;
+    const db = await this.getDb();
+
+    await db.runAsync(
+      `INSERT INTO trips (
+        trip_id, user_id, mode, comfort, purpose, time_of_day, weekday, duration_s, distance_mi, status,
+        reached_dest, geometry, relative_times, od_geoids, device_platform, device_os_version, app_version,
+        raw_point_count, cleaned_point_count, matched_segments, privacy_level
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        tripId,
+        tripData.userId,
+        tripData.mode,
+        tripData.comfort,
+        tripData.purpose,
+        getTimeOfDayBin(tripData.startTime, binning),
+        getWeekdayBin(tripData.startTime, binning),
+        tripData.durationS ?? null,
+        tripData.distanceMi ?? null,
+        tripData.status,
+        _toBool(tripData.reachedDest),
+        tripData.geometry,
+        _toJson(tripData.relativeTimes),
+        _toJson(tripData.odGeoids),
+        tripData.devicePlatform ?? null,
+        tripData.deviceOsVersion ?? null,
+        tripData.appVersion ?? null,
+        tripData.rawPointCount ?? null,
+        tripData.cleanedPointCount ?? null,
+        _toJson(tripData.matchedSegments),
+        tripData.privacyLevel ?? null,
+      ],
+    );
+
+    const trip = await this.getTrip(tripId);
+    if (!trip) throw new Error('Failed to insert trip: not found after insert');
+    return trip;
+  }
+
+  async updateTrip(tripId: string, updates: Partial<Trip>): Promise<Trip> {
+    const columns: [string, SQLiteBindValue][] = [];
+    if (updates.mode !== undefined) columns.push(['mode', updates.mode]);
+    if (updates.comfort !== undefined) columns.push(['comfort', updates.comfort]);
+    if (updates.purpose !== undefined) columns.push(['purpose', updates.purpose]);
+    if (updates.timeOfDay !== undefined) columns.push(['time_of_day', updates.timeOfDay]);
+    if (updates.weekday !== undefined) columns.push(['weekday', updates.weekday]);
+    if (updates.durationS !== undefined) columns.push(['duration_s', updates.durationS]);
+    if (updates.distanceMi !== undefined) columns.push(['distance_mi', updates.distanceMi]);
+    if (updates.status !== undefined) columns.push(['status', updates.status]);
+    if (updates.reachedDest !== undefined) columns.push(['reached_dest', _toBool(updates.reachedDest)]);
+    if (updates.geometry !== undefined) columns.push(['geometry', updates.geometry]);
+
+    if (columns.length > 0) {
+      const db = await this.getDb();
+      await db.runAsync(
+        `UPDATE trips SET ${columns.map(([column]) => `${column} = ?`).join(', ')} WHERE trip_id = ?`,
+        [...columns.map(([, value]) => value), tripId],
+      );
+    }
+
+    const trip = await this.getTrip(tripId);
+    if (!trip) throw new Error(`Failed to update trip: ${tripId} not found`);
+    return trip;
+  }
+
+  async getTrip(tripId: string): Promise<Trip | null> {
+    const db = await this.getDb();
+    const row = await db.getFirstAsync<TripRow>('SELECT * FROM trips WHERE trip_id = ?', [tripId]);
+    return row ? _mapTripRow(row) : null;
+  }
+
+  async getUserTrips(): Promise<Trip[]> {
+    const userId = await this.requireUserId();
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<TripRow>('SELECT * FROM trips WHERE user_id = ? ORDER BY trip_id DESC', [userId]);
+    return rows.map(_mapTripRow);
+  }
+
+  async getTripSummaries(): Promise<TripSummary[]> {
+    const userId = await this.requireUserId();
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<TripSummaryRow>(
+      `SELECT trip_id, mode, purpose, time_of_day, weekday, duration_s, distance_mi, reached_dest, geometry,
+        (SELECT COUNT(*) FROM rated_features r WHERE r.trip_id = t.trip_id) AS rating_count,
+        (SELECT COUNT(*) FROM corrected_segments c WHERE c.trip_id = t.trip_id) AS correction_count
+       FROM trips t
+       WHERE user_id = ? AND status = 'completed'
+       ORDER BY trip_id DESC`,
+      [userId],
+    );
+
+    return rows.map((row) => ({
+      tripId: row.trip_id,
+      mode: row.mode,
+      purpose: row.purpose,
+      timeOfDay: row.time_of_day,
+      weekday: row.weekday,
+      durationS: row.duration_s ?? 0, // Completed trips always have both; 0 only for a damaged row
+      distanceMi: row.distance_mi ?? 0,
+      reachedDest: row.reached_dest === null ? undefined : row.reached_dest === 1,
+      ratingCount: row.rating_count,
+      correctionCount: row.correction_count,
+      geometry: row.geometry,
+    }));
+  }
+
+  async deleteTrip(tripId: string): Promise<void> {
+    const db = await this.getDb();
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('DELETE FROM rated_features WHERE trip_id = ?', [tripId]);
+      await db.runAsync('DELETE FROM corrected_segments WHERE trip_id = ?', [tripId]);
+      await db.runAsync('DELETE FROM trips WHERE trip_id = ?', [tripId]);
+    });
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // IDataService — Ratings and images
+  // ═══════════════════════════════════════════════════════════
+
+  /** A retried write with the same client-supplied `id` returns the stored rating. */
+  async writeRating(rating: Omit<RatedFeature, 'id'> & { id?: string }): Promise<RatedFeature> {
+    const id = rating.id ?? Crypto.randomUUID();
+    const db = await this.getDb();
+    await db.runAsync(
+      `INSERT INTO rated_features (id, user_id, trip_id, cris_id, condition_score, user_rating, lat, long, time_stamp, image_url)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT (id) DO NOTHING`,
+      [id, rating.userId, rating.tripId, rating.crisId, rating.conditionScore, rating.userRating,
+        rating.lat, rating.long, rating.timeStamp, rating.imageUrl ?? null],
+    );
+
+    const row = await db.getFirstAsync<RatingRow>('SELECT * FROM rated_features WHERE id = ?', [id]);
+    if (!row) throw new Error('Failed to insert rating: not found after insert');
+    return _mapRatingRow(row);
+  }
+
+  async updateRating(crisId: string, tripId: string, updates: { userRating: number; imageUrl?: string }): Promise<RatedFeature> {
+    const db = await this.getDb();
+    const { changes } = await db.runAsync(
+      'UPDATE rated_features SET user_rating = ?, image_url = COALESCE(?, image_url) WHERE cris_id = ? AND trip_id = ?',
+      [updates.userRating, updates.imageUrl ?? null, crisId, tripId],
+    );
+    if (changes === 0) throw new Error(`Failed to update rating: no rating of ${crisId} in trip ${tripId}`);
+
+    const row = await db.getFirstAsync<RatingRow>('SELECT * FROM rated_features WHERE cris_id = ? AND trip_id = ?', [crisId, tripId]);
+    if (!row) throw new Error(`Failed to update rating: no rating of ${crisId} in trip ${tripId}`);
+    return _mapRatingRow(row);
+  }
+
+  async getRatingsForTrip(tripId: string): Promise<RatedFeature[]> {
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<RatingRow>('SELECT * FROM rated_features WHERE trip_id = ? ORDER BY time_stamp ASC', [tripId]);
+    return rows.map(_mapRatingRow);
+  }
+
+  async getUserRatings(): Promise<RatedFeature[]> {
+    const userId = await this.requireUserId();
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<RatingRow>('SELECT * FROM rated_features WHERE user_id = ? ORDER BY time_stamp DESC', [userId]);
+    return rows.map(_mapRatingRow);
+  }
+
+  async deleteRating(crisId: string, tripId: string): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync('DELETE FROM rated_features WHERE cris_id = ? AND trip_id = ?', [crisId, tripId]);
+  }
+
+  /**
+   * Copy a photo into the app's document directory and return its file
+   * URI. With an `uploadKey`, a retried copy finds the earlier one.
+   */
+  async uploadFeatureImage(userId: string, imageUri: string, featureId: string, uploadKey?: string): Promise<string> {
+    try {
+      const suffix = uploadKey ?? Date.now();
+      const fileExt = imageUri.split('.').pop() || 'jpg';
+      const directory = new Directory(Paths.document, FEATURE_IMAGE_DIR, userId);
+      if (!directory.exists) {
+        directory.create({ intermediates: true });
+      }
+      const target = new File(directory, `${featureId}_${suffix}.${fileExt}`);
+      if (!(uploadKey && target.exists)) {
+        new File(imageUri).copy(target);
+      }
+      return target.uri;
+    } catch (error) {
+      console.error('[SQLiteAdapter] Failed to store image:', error);
+      throw new Error(`Image upload failed: ${error}`);
+    }
+  }
+
+  async deleteFeatureImage(imageUrl: string): Promise<void> {
+    if (!imageUrl.includes(`/${FEATURE_IMAGE_DIR}/`)) {
+      throw new Error('Image deletion failed: not a locally stored feature image');
+    }
+    try {
+      const file = new File(imageUrl);
+      if (file.exists) file.delete();
+    } catch (error) {
+      console.error('[SQLiteAdapter] Failed to delete image:', error);
+      throw new Error(`Image deletion failed: ${error}`);
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // IDataService — Corrections and segment edits
+  // ═══════════════════════════════════════════════════════════
+
+  async writeCorrection(correction: Omit<CorrectedSegment, 'id'>): Promise<CorrectedSegment> {
+    const id = Crypto.randomUUID();
+    const db = await this.getDb();
+    await db.runAsync(
+      `INSERT INTO corrected_segments (id, user_id, trip_id, corrected_segment_id, user_reported_material, geometry, time_stamp)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [id, correction.userId, correction.tripId, correction.correctedSegmentId, correction.userReportedMaterial,
+        JSON.stringify(correction.geometry), correction.timeStamp],
+    );
+    return { ...correction, id };
+  }
+
+  async getCorrectionsForTrip(tripId: string): Promise<CorrectedSegment[]> {
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<CorrectionRow>('SELECT * FROM corrected_segments WHERE trip_id = ? ORDER BY time_stamp ASC', [tripId]);
+    return rows.map(_mapCorrectionRow);
+  }
+
+  async getUserCorrections(): Promise<CorrectedSegment[]> {
+    const userId = await this.requireUserId();
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<CorrectionRow>('SELECT * FROM corrected_segments WHERE user_id = ? ORDER BY time_stamp DESC', [userId]);
+    return rows.map(_mapCorrectionRow);
+  }
+
+  async writeSegmentEdit(edit: {
+    id?: string; tripId: string; userId: string; streetGridId: string;
+    facilityType: string; fieldName: string; oldValue: string | null; newValue: string;
+  }): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync(
+      `INSERT INTO segment_edits (id, user_id, trip_id, street_grid_id, facility_type, field_name, old_value, new_value, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT (id) DO NOTHING`,
+      [edit.id ?? Crypto.randomUUID(), edit.userId, edit.tripId, edit.streetGridId, edit.facilityType,
+        edit.fieldName, edit.oldValue, edit.newValue, _now()],
+    );
+  }
+
+  async getSegmentEditsForTrip(tripId: string) {
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<SegmentEditRow>('SELECT * FROM segment_edits WHERE trip_id = ? ORDER BY created_at ASC', [tripId]);
+    return rows.map(_mapSegmentEditRow);
+  }
+
+  async deleteSegmentEdit(editId: string): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync('DELETE FROM segment_edits WHERE id = ?', [editId]);
+  }
+
+  async getUserSegmentEdits() {
+    const userId = await this.requireUserId();
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<SegmentEditRow>('SELECT * FROM segment_edits WHERE user_id = ? ORDER BY created_at DESC', [userId]);
+    return rows.map(_mapSegmentEditRow);
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // IDataService — Geometry and feature edits
+  // ═══════════════════════════════════════════════════════════
+
+  async writeGeometryEdit(edit: {
+    id?: string; tripId: string; userId: string; editType: string; streetGridId?: string;
+    payload: Record<string, unknown>; coord: [number, number];
+  }): Promise<{ id: string }> {
+    const id = edit.id ?? Crypto.randomUUID();
+    const db = await this.getDb();
+    await db.runAsync(
+      `INSERT INTO geometry_edits (id, user_id, trip_id, edit_type, street_grid_id, payload, coord_lon, coord_lat, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT (id) DO NOTHING`,
+      [id, edit.userId, edit.tripId, edit.editType, edit.streetGridId ?? null, JSON.stringify(edit.payload),
+        edit.coord[0], edit.coord[1], _now()],
+    );
+    return { id };
+  }
+
+  async getGeometryEditsForTrip(tripId: string) {
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<GeometryEditRow>('SELECT * FROM geometry_edits WHERE trip_id = ? ORDER BY created_at ASC', [tripId]);
+    return rows.map(_mapGeometryEditRow);
+  }
+
+  async getUserGeometryEdits() {
+    const userId = await this.requireUserId();
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<GeometryEditRow>('SELECT * FROM geometry_edits WHERE user_id = ? ORDER BY created_at DESC', [userId]);
+    return rows.map(_mapGeometryEditRow);
+  }
+
+  async getGeometryEditStatuses(editIds: string[]): Promise<{ id: string; status: string; statusReason: string | null }[]> {
+    if (editIds.length === 0) return [];
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<{ id: string; status: string; status_reason: string | null }>(
+      `SELECT id, status, status_reason FROM geometry_edits WHERE id IN (${editIds.map(() => '?').join(', ')})`,
+      editIds,
+    );
+    return rows.map((row) => ({ id: row.id, status: row.status, statusReason: row.status_reason ?? null }));
+  }
+
+  async withdrawGeometryEdit(editId: string): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync("UPDATE geometry_edits SET status = 'withdrawn' WHERE id = ? AND status = 'pending'", [editId]);
+  }
+
+  async resolveGeometryEdit(editId: string, resolution: EditResolution): Promise<void> {
+    return this.resolveEdit('geometry_edits', editId, resolution);
+  }
+
+  /** A retried write with the same client-supplied `id` returns the stored edit. */
+  async writeFeatureEdit(edit: Omit<FeatureEdit, 'id' | 'createdAt'> & { id?: string }): Promise<FeatureEdit> {
+    const id = edit.id ?? Crypto.randomUUID();
+    const db = await this.getDb();
+    await db.runAsync(
+      `INSERT INTO feature_edits (
+        id, user_id, trip_id, street_grid_id, edit_type, attributes, user_rating, geometry,
+        coord_lon, coord_lat, feature_type, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) ON CONFLICT (id) DO NOTHING`,
+      [id, edit.userId, edit.tripId, edit.streetGridId, edit.editType, JSON.stringify(edit.attributes || {}),
+        edit.userRating || null, _toJson(edit.geometry), edit.coord[0], edit.coord[1], edit.featureType, _now()],
+    );
+
+    const row = await db.getFirstAsync<FeatureEditRow>('SELECT * FROM feature_edits WHERE id = ?', [id]);
+    if (!row) throw new Error('Failed to write feature edit: not found after insert');
+    return _mapFeatureEditRow(row);
+  }
+
+  async getFeatureEditsForTrip(tripId: string): Promise<FeatureEdit[]> {
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<FeatureEditRow>('SELECT * FROM feature_edits WHERE trip_id = ? ORDER BY created_at DESC', [tripId]);
+    return rows.map(_mapFeatureEditRow);
+  }
+
+  async getUserFeatureEdits(): Promise<FeatureEdit[]> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) throw new Error('Not authenticated');
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<FeatureEditRow>('SELECT * FROM feature_edits WHERE user_id = ? ORDER BY created_at DESC', [userId]);
+    return rows.map(_mapFeatureEditRow);
+  }
+
+  async updateFeatureEdit(
+    editId: string,
+    updates: Partial<Pick<FeatureEdit, 'attributes' | 'userRating' | 'geometry'>>,
+  ): Promise<FeatureEdit> {
+    const columns: [string, SQLiteBindValue][] = [];
+    if (updates.attributes !== undefined) columns.push(['attributes', JSON.stringify(updates.attributes)]);
+    if (updates.userRating !== undefined) columns.push(['user_rating', updates.userRating]);
+    if (updates.geometry !== undefined) columns.push(['geometry', JSON.stringify(updates.geometry)]);
+
+    const db = await this.getDb();
+    if (columns.length > 0) {
+      await db.runAsync(
+        `UPDATE feature_edits SET ${columns.map(([column]) => `${column} = ?`).join(', ')} WHERE id = ?`,
+        [...columns.map(([, value]) => value), editId],
+      );
+    }
+
+    const row = await db.getFirstAsync<FeatureEditRow>('SELECT * FROM feature_edits WHERE id = ?', [editId]);
+    if (!row) throw new Error(`Failed to update feature edit: ${editId} not found`);
+    return _mapFeatureEditRow(row);
+  }
+
+  async resolveFeatureEdit(editId: string, resolution: EditResolution): Promise<void> {
+    return this.resolveEdit('feature_edits', editId, resolution);
+  }
+
+  /**
+   * Mark a rejected or conflicting edit as resolved; edits in any other
+   * state are left alone, so a retried resolution is harmless.
+   */
+  private async resolveEdit(table: 'geometry_edits' | 'feature_edits', editId: string, resolution: EditResolution): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync(
+      `UPDATE ${table} SET status = ?, superseded_by = ?, resolved_at = ?
+       WHERE id = ? AND status IN ('rejected', 'conflict')`,
+      [resolution.status, resolution.status === 'superseded' ? resolution.supersededBy : null, _now(), editId],
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // IDataService — Assets
+  // ═══════════════════════════════════════════════════════════
+
+  async checkAssetUpdates(assetName: 'ProximityNetwork'): Promise<AssetVersion | null> {
+    const db = await this.getDb();
+    const row = await db.getFirstAsync<AssetMetadataRow>('SELECT * FROM asset_metadata WHERE asset_name = ?', [assetName]);
+    if (!row) return null;
+    return { lastUpdated: row.last_updated, sha256: row.sha256 ?? null, schemaVersion: row.schema_version ?? null };
+  }
+
+  async getRegionPacks(): Promise<RegionPack[]> {
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<RegionPackRow>('SELECT * FROM region_packs ORDER BY name', []);
+    return rows.map(_mapRegionPackRow);
+  }
+
+  getProximityAssetUrl(assetName: string): string {
+    return `${assetBaseUrl}/${assetName}.parquet`;
+  }
+
+  getProximityManifestUrl(assetName: string): string {
+    return this.getProximityFileUrl(assetName, 'manifest.json');
+  }
+
+  getProximityFileUrl(assetName: string, path: string): string {
+    return `${assetBaseUrl}/${assetName}/${path}`;
+  }
+
+  /**
+   * Replace the local region catalog, e.g. with a demo's packs or a copy
+   * of the published one. Each pack's version is recorded for
+   * checkAssetUpdates under its asset name.
+   */
+  async seedRegionPacks(packs: RegionPack[]): Promise<void> {
+    const db = await this.getDb();
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('DELETE FROM region_packs', []);
+      for (const pack of packs) {
+        await db.runAsync(
+          `INSERT INTO region_packs (
+            id, name, jurisdiction, min_lon, min_lat, max_lon, max_lat, utm_zone, utm_hemisphere, asset_name,
+            size_bytes, last_updated, sha256, schema_version, time_zone, holiday_calendar, has_census_blocks
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [pack.id, pack.name, pack.jurisdiction, pack.bbox.minLon, pack.bbox.minLat, pack.bbox.maxLon, pack.bbox.maxLat,
+            pack.utmZone, pack.utmHemisphere, pack.assetName, pack.sizeBytes, pack.lastUpdated, pack.sha256,
+            pack.schemaVersion, pack.timeZone, pack.holidayCalendar, _toBool(pack.hasCensusBlocks)],
+        );
+        await db.runAsync(
+          `INSERT INTO asset_metadata (asset_name, last_updated, sha256, schema_version) VALUES (?, ?, ?, ?)
+           ON CONFLICT (asset_name) DO UPDATE SET
+             last_updated = excluded.last_updated, sha256 = excluded.sha256, schema_version = excluded.schema_version`,
+          [pack.assetName, pack.lastUpdated, pack.sha256, pack.schemaVersion],
+        );
+      }
+    });
+  }
+}
+
+export const SQLiteAdapter = new SQLiteAdapterClass(() => openDatabaseAsync(DATABASE_NAME));
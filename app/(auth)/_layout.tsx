@@ -6,7 +6,7 @@ import { Colors } from '@/constants/theme';
 /**
  * Auth Stack Layout
  * Simple stack navigator for authentication and profile screens (no map background).
- * Handles: Log In Screen, Create Profile Screen, Profile Screen
+ * Handles: Log In Screen, Create Profile Screen, Profile Screen, Region Packs Screen
  */
 export default function AuthLayout() {
   const colorScheme = useColorScheme();
@@ -23,6 +23,7 @@ export default function AuthLayout() {
       <Stack.Screen name="login" options={{ title: 'Log In' }} />
       <Stack.Screen name="create-profile" options={{ title: 'Create Profile' }} />
       <Stack.Screen name="profile" options={{ title: 'Profile' }} />
+      <Stack.Screen name="region-packs" options={{ title: 'Region Packs' }} />
     </Stack>
   );
 }
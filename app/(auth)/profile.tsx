@@ -2,7 +2,9 @@ import { useRouter } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import { ActivityIndicator, Alert, Modal, Pressable, ScrollView, StyleSheet, Switch, View } from 'react-native';
 
+import { MobilityProfile, PrivacyLevel } from '@/adapters/DatabaseAdapter';
 import { BottomNavigationBarComponent } from '@/components/BottomNavigationBarComponent';
+import { MobilityProfileModal } from '@/components/MobilityProfileModal';
 import SelectModeListComponent from '@/components/SelectModeListComponent';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
@@ -11,6 +13,27 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useThemeColor } from '@/hooks/use-theme-color';
 import { HistoryService } from '@/services/HistoryService';
+import { DEFAULT_PRIVACY_LEVEL } from '@/services/utils/anonymizeTrip';
+import { getMobilityProfile, getUserMobilitySettings, withMobilityProfile } from '@/services/utils/mobilityProfiles';
+
+// Trip privacy choices, strongest last
+const PRIVACY_OPTIONS: { level: PrivacyLevel; label: string; description: string }[] = [
+  {
+    level: 'standard',
+    label: 'Standard',
+    description: 'Trip start and end census blocks are removed before upload.',
+  },
+  {
+    level: 'enhanced',
+    label: 'Enhanced',
+    description: 'Larger areas around start and end are removed, plus a random extra distance. Times are slightly blurred.',
+  },
+  {
+    level: 'strict',
+    label: 'Strict',
+    description: 'Widest areas removed, plus a larger random extra distance. Times are blurred more.',
+  },
+];
 
 /**
  * Profile Screen
@@ -20,11 +43,14 @@ import { HistoryService } from '@/services/HistoryService';
  * Features:
  * - Bottom Navigation Bar for navigation
  * - Mode list with modal to edit user's mode list (Select Mode List Component)
+ * - Mobility profile per mode (comfort level and routing limits)
+ * - Trip privacy level (how strongly trips are anonymized before upload)
  * - User summary statistics:
  *   - Average trip length
  *   - Average trip duration
  *   - Total trips
  * - Buttons: Logout, Delete all user data, Toggle DataRanger mode
+ * - Link to manage region packs while DataRanger mode is on
  */
 export default function ProfileScreen() {
   const router = useRouter();
@@ -32,6 +58,7 @@ export default function ProfileScreen() {
   const { themePreference, setThemePreference } = useTheme();
   const [isModeModalVisible, setIsModeModalVisible] = useState(false);
   const [selectedModes, setSelectedModes] = useState<string[]>(user?.modeList ?? []);
+  const [editingProfileMode, setEditingProfileMode] = useState<string | null>(null);
   const [statistics, setStatistics] = useState<{
     avgTripLength: number;
     avgTripDuration: number;
@@ -211,6 +238,42 @@ export default function ProfileScreen() {
     }
   };
 
+  const handleSaveMobilityProfile = async (profile: MobilityProfile) => {
+    if (!editingProfileMode) return;
+    try {
+      await updateUser({
+        mobilityProfiles: withMobilityProfile(user?.mobilityProfiles, editingProfileMode, profile),
+      });
+      setEditingProfileMode(null);
+    } catch (error) {
+      console.error('Update mobility profile failed:', error);
+      Alert.alert('Error', 'Failed to update mobility profile. Please try again.');
+    }
+  };
+
+  const handleSelectPrivacyLevel = async (privacyLevel: PrivacyLevel) => {
+    if (privacyLevel === (user?.privacyLevel ?? DEFAULT_PRIVACY_LEVEL)) return;
+    try {
+      await updateUser({ privacyLevel });
+    } catch (error) {
+      console.error('Update privacy level failed:', error);
+      Alert.alert('Error', 'Failed to update privacy level. Please try again.');
+    }
+  };
+
+  // One-line summary of the effective limits for a mode
+  const describeMobilityProfile = (mode: string): string => {
+    const settings = getUserMobilitySettings(user, mode);
+    const parts = [
+      `Comfort ${getMobilityProfile(user, mode).comfort}/10`,
+      `≤${settings.maxInclinePct.toFixed(1)}% incline`,
+      `≥${settings.minWidthM.toFixed(2)} m wide`,
+    ];
+    if (settings.missingCurbRampsBlock) parts.push('curb ramps required');
+    if (settings.allowStreet) parts.push(`streets ≤${settings.maxStreetSpeedMph} mph`);
+    return parts.join(' · ');
+  };
+
   return (
     <View style={styles.container}>
       <ScrollView 
@@ -237,6 +300,52 @@ export default function ProfileScreen() {
           </Pressable>
         </ThemedView>
 
+        {/* Mobility Profiles Section */}
+        {user?.modeList && user.modeList.length > 0 && (
+          <ThemedView style={styles.section}>
+            <ThemedText type="subtitle">Mobility Profiles</ThemedText>
+            {user.modeList.map((mode) => (
+              <Pressable key={mode} style={styles.modeButton} onPress={() => setEditingProfileMode(mode)}>
+                <View style={styles.modeText}>
+                  <ThemedText type="defaultSemiBold">{mode}</ThemedText>
+                  <ThemedText style={styles.profileSummary}>{describeMobilityProfile(mode)}</ThemedText>
+                </View>
+                <ThemedText type="link">Edit</ThemedText>
+              </Pressable>
+            ))}
+          </ThemedView>
+        )}
+
+        {/* Trip Privacy Section */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">Trip Privacy</ThemedText>
+          {PRIVACY_OPTIONS.map(({ level, label, description }) => {
+            const selected = (user?.privacyLevel ?? DEFAULT_PRIVACY_LEVEL) === level;
+            return (
+              <Pressable
+                key={level}
+                style={styles.modeButton}
+                onPress={() => handleSelectPrivacyLevel(level)}
+                accessibilityRole="radio"
+                accessibilityState={{ checked: selected }}
+                accessibilityLabel={`${label} privacy`}
+                accessibilityHint={description}
+              >
+                <View style={styles.modeText}>
+                  <ThemedText type="defaultSemiBold">{label}</ThemedText>
+                  <ThemedText style={styles.profileSummary}>{description}</ThemedText>
+                </View>
+                <View style={[styles.radio, { borderColor: tintColor }]}>
+                  {selected && <View style={[styles.radioDot, { backgroundColor: tintColor }]} />}
+                </View>
+              </Pressable>
+            );
+          })}
+          <ThemedText style={styles.profileSummary}>
+            Applies to trips you record or import from now on.
+          </ThemedText>
+        </ThemedView>
+
         {/* Statistics Section */}
         <ThemedView style={styles.section}>
           <ThemedText type="subtitle">Statistics</ThemedText>
@@ -302,6 +411,13 @@ export default function ProfileScreen() {
               />
             </View>
           </View>
+
+          {user?.dataRangerMode && (
+            <Pressable style={styles.modeButton} onPress={() => router.push('/(auth)/region-packs')}>
+              <ThemedText style={styles.modeText}>Region Packs</ThemedText>
+              <ThemedText type="link">Manage</ThemedText>
+            </Pressable>
+          )}
         </ThemedView>
 
         {/* Actions Section */}
@@ -329,6 +445,17 @@ export default function ProfileScreen() {
       {/* Bottom Navigation Bar */}
       <BottomNavigationBarComponent />
 
+      {/* Mobility Profile Modal */}
+      {editingProfileMode && (
+        <MobilityProfileModal
+          visible={editingProfileMode !== null}
+          mode={editingProfileMode}
+          profile={getMobilityProfile(user, editingProfileMode)}
+          onSave={handleSaveMobilityProfile}
+          onClose={() => setEditingProfileMode(null)}
+        />
+      )}
+
       {/* Mode Selection Modal */}
       <Modal
         visible={isModeModalVisible}
@@ -399,6 +526,24 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: 12,
   },
+  profileSummary: {
+    fontSize: 12,
+    opacity: 0.7,
+    marginTop: 2,
+  },
+  radio: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  radioDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
   statsGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
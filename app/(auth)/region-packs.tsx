@@ -0,0 +1,434 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, Switch, View } from 'react-native';
+
+import { RegionPack } from '@/adapters/DatabaseAdapter';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useDataRanger } from '@/contexts/DataRangerContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { RegionPackService, RegionPackUsage } from '@/services/RegionPackService';
+import { DownloadPausedError, DownloadPauseReason, DownloadPolicy, DownloadProgress } from '@/services/utils/downloadProgress';
+import { ParquetIntegrityError } from '@/services/utils/parquetIntegrity';
+import { isPackOutdated } from '@/services/utils/regionPacks';
+import { mediumImpact, selectionFeedback } from '@/utils/haptics';
+
+const PAUSE_LABELS: Record<DownloadPauseReason, string> = {
+  offline: 'while offline',
+  cellular: 'on cellular data',
+  low_battery: 'on low battery',
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+function formatTimeRemaining(seconds: number): string {
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} min left`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min left`;
+}
+
+function formatProgress(progress: DownloadProgress): string {
+  const percent = progress.totalBytes > 0 ? Math.floor((progress.bytesWritten / progress.totalBytes) * 100) : 0;
+  switch (progress.status) {
+    case 'verifying':
+      return 'Verifying download…';
+    case 'paused':
+      return `Paused${progress.pauseReason ? ` ${PAUSE_LABELS[progress.pauseReason]}` : ''} • ${percent}%`;
+    default:
+      return [
+        `${formatBytes(progress.bytesWritten)} of ${formatBytes(progress.totalBytes)}`,
+        progress.secondsRemaining !== null ? formatTimeRemaining(progress.secondsRemaining) : null,
+      ].filter(Boolean).join(' • ');
+  }
+}
+
+/**
+ * Region Packs Screen
+ * Part of Auth Stack - chooses which areas of the proximity network are
+ * kept on the device for DataRanger mode.
+ * Accessible from the Profile Screen while DataRanger mode is on.
+ *
+ * Features:
+ * - Installed packs with the disk space each uses
+ * - Remove a pack to free its space
+ * - Packs available to download, with their download size
+ * - Update packs with a newer build
+ * - Download progress; downloads pause and resume where they left off
+ * - Choose whether downloads run on cellular data or low battery
+ * - Packs whose download failed verification, and why
+ */
+export default function RegionPacksScreen() {
+  const router = useRouter();
+  const { integrityErrors, downloads } = useDataRanger();
+
+  const tintColor = useThemeColor({}, 'tint');
+  const iconColor = useThemeColor({}, 'icon');
+  const buttonPrimaryColor = useThemeColor({}, 'buttonPrimary');
+  const buttonDangerColor = useThemeColor({}, 'buttonDanger');
+  const buttonTextColor = useThemeColor({}, 'buttonText');
+  const errorColor = useThemeColor({}, 'error');
+
+  // State
+  const [installed, setInstalled] = useState<RegionPackUsage[]>([]);
+  const [catalog, setCatalog] = useState<RegionPack[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [catalogError, setCatalogError] = useState<string | null>(null);
+  const [busyPackIds, setBusyPackIds] = useState<Set<string>>(new Set());
+  const [downloadPolicy, setDownloadPolicy] = useState<DownloadPolicy>(RegionPackService.getDownloadPolicy());
+
+  const refreshInstalled = useCallback(() => {
+    setInstalled(RegionPackService.getInstalledPacks());
+  }, []);
+
+  // Installed packs come from disk; the catalog needs a connection
+  useEffect(() => {
+    const loadPacks = async () => {
+      try {
+        setIsLoading(true);
+        await RegionPackService.initialize();
+        refreshInstalled();
+        setDownloadPolicy(RegionPackService.getDownloadPolicy());
+        setCatalog(await RegionPackService.getCatalog());
+        setCatalogError(null);
+      } catch (err) {
+        console.error('[RegionPacksScreen] Failed to load region packs:', err);
+        setCatalogError('Could not load available packs. Check your connection and try again.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadPacks();
+  }, [refreshInstalled]);
+
+  // Reflect installs and updates started elsewhere (e.g. the background update check)
+  useEffect(() => RegionPackService.onPackChange(refreshInstalled), [refreshInstalled]);
+
+  const setBusy = (packId: string, isBusy: boolean) => {
+    setBusyPackIds((prev) => {
+      const next = new Set(prev);
+      if (isBusy) next.add(packId);
+      else next.delete(packId);
+      return next;
+    });
+  };
+
+  const handleBack = () => {
+    mediumImpact();
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.push('/(auth)/profile');
+    }
+  };
+
+  const handleInstall = async (pack: RegionPack) => {
+    mediumImpact();
+    setBusy(pack.id, true);
+    try {
+      await RegionPackService.installRegionPack(pack);
+    } catch (err) {
+      console.error('[RegionPacksScreen] Failed to install pack:', err);
+      // Pauses and verification failures are shown on the pack's row
+      if (!(err instanceof ParquetIntegrityError) && !(err instanceof DownloadPausedError)) {
+        Alert.alert('Error', `Failed to download ${pack.name}. Please try again.`);
+      }
+    } finally {
+      setBusy(pack.id, false);
+      refreshInstalled();
+    }
+  };
+
+  const handleUpdate = async () => {
+    mediumImpact();
+    const outdated = installed.filter(({ pack }) => isOutdated(pack.id));
+    outdated.forEach(({ pack }) => setBusy(pack.id, true));
+    try {
+      await RegionPackService.checkForUpdates();
+    } finally {
+      outdated.forEach(({ pack }) => setBusy(pack.id, false));
+      refreshInstalled();
+    }
+  };
+
+  const handleResume = async (packId: string) => {
+    mediumImpact();
+    setBusy(packId, true);
+    try {
+      await RegionPackService.resumeDownloads();
+    } finally {
+      setBusy(packId, false);
+      refreshInstalled();
+    }
+  };
+
+  const handlePolicyChange = async (change: Partial<DownloadPolicy>) => {
+    selectionFeedback();
+    const policy = { ...downloadPolicy, ...change };
+    setDownloadPolicy(policy);
+    try {
+      await RegionPackService.setDownloadPolicy(policy);
+    } catch (err) {
+      console.error('[RegionPacksScreen] Failed to save download settings:', err);
+    }
+  };
+
+  const handleRemove = (pack: RegionPack) => {
+    Alert.alert(
+      'Remove Region Pack',
+      `${pack.name} will be deleted from this device. Curb ramps and segments there won't show until you download it again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            setBusy(pack.id, true);
+            try {
+              await RegionPackService.removeRegionPack(pack.id);
+            } catch (err) {
+              console.error('[RegionPacksScreen] Failed to remove pack:', err);
+              Alert.alert('Error', `Failed to remove ${pack.name}. Please try again.`);
+            } finally {
+              setBusy(pack.id, false);
+              refreshInstalled();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const isOutdated = (packId: string) => {
+    const installedPack = installed.find(({ pack }) => pack.id === packId)?.pack;
+    const catalogPack = catalog.find((pack) => pack.id === packId);
+    return !!installedPack && !!catalogPack && isPackOutdated(installedPack.version, catalogPack);
+  };
+
+  const progressFor = (packId: string) => downloads.find((download) => download.packId === packId);
+  const isBusy = (packId: string) => {
+    const progress = progressFor(packId);
+    return busyPackIds.has(packId) || (!!progress && progress.status !== 'paused');
+  };
+
+  const available = catalog.filter((pack) => !installed.some((usage) => usage.pack.id === pack.id));
+  const totalBytes = installed.reduce((sum, usage) => sum + usage.diskBytes, 0);
+  const hasUpdates = installed.some(({ pack }) => isOutdated(pack.id));
+
+  const renderActionButton = (label: string, onPress: () => void, packId: string, destructive: boolean = false) => (
+    <Pressable
+      onPress={onPress}
+      disabled={isBusy(packId)}
+      style={({ pressed }) => [
+        styles.actionButton,
+        { backgroundColor: destructive ? buttonDangerColor : buttonPrimaryColor },
+        isBusy(packId) && styles.actionButtonDisabled,
+        pressed && styles.actionButtonPressed,
+      ]}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+    >
+      <ThemedText style={[styles.actionButtonText, { color: buttonTextColor }]}>{label}</ThemedText>
+    </Pressable>
+  );
+
+  const renderPackRow = (pack: RegionPack, detail: string, action: React.ReactNode) => {
+    const progress = progressFor(pack.id);
+    const fraction = progress && progress.totalBytes > 0 ? Math.min(1, progress.bytesWritten / progress.totalBytes) : 0;
+    return (
+      <View key={pack.id} style={styles.packRow}>
+        <View style={styles.packText}>
+          <ThemedText type="defaultSemiBold">{pack.name}</ThemedText>
+          {pack.jurisdiction && <ThemedText style={styles.packDetail}>{pack.jurisdiction}</ThemedText>}
+          <ThemedText style={styles.packDetail}>{progress ? formatProgress(progress) : detail}</ThemedText>
+          {progress && (
+            <View
+              style={[styles.progressTrack, { backgroundColor: iconColor }]}
+              accessibilityRole="progressbar"
+              accessibilityValue={{ min: 0, max: 100, now: Math.floor(fraction * 100) }}
+            >
+              <View style={[styles.progressFill, { width: `${fraction * 100}%`, backgroundColor: tintColor }]} />
+            </View>
+          )}
+          {integrityErrors[pack.id] && (
+            <ThemedText style={[styles.packError, { color: errorColor }]}>{integrityErrors[pack.id]}</ThemedText>
+          )}
+        </View>
+        {isBusy(pack.id)
+          ? <ActivityIndicator color={tintColor} />
+          : progress?.status === 'paused'
+            ? renderActionButton('Resume', () => handleResume(pack.id), pack.id)
+            : action}
+      </View>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView style={styles.scrollContainer} contentContainerStyle={styles.scrollContent}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Pressable onPress={handleBack} accessibilityRole="button" accessibilityLabel="Go back">
+            <Ionicons name="arrow-back" size={24} color={iconColor} />
+          </Pressable>
+          <ThemedText type="title">Region Packs</ThemedText>
+        </View>
+
+        {/* Installed Section */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">On This Device</ThemedText>
+          <ThemedText style={styles.sectionDetail}>
+            {installed.length > 0 ? `Using ${formatBytes(totalBytes)}` : 'No packs downloaded'}
+          </ThemedText>
+          {installed.map(({ pack, diskBytes }) =>
+            renderPackRow(
+              pack,
+              `${formatBytes(diskBytes)}${isOutdated(pack.id) ? ' • Update available' : ''}`,
+              renderActionButton('Remove', () => handleRemove(pack), pack.id, true)
+            )
+          )}
+          {hasUpdates && (
+            <Pressable style={styles.linkRow} onPress={handleUpdate} accessibilityRole="button">
+              <ThemedText type="link">Update all</ThemedText>
+            </Pressable>
+          )}
+        </ThemedView>
+
+        {/* Download Settings Section */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">Downloads</ThemedText>
+          <View style={styles.settingRow}>
+            <ThemedText>Download on cellular data</ThemedText>
+            <Switch
+              value={!downloadPolicy.pauseOnCellular}
+              onValueChange={(value) => handlePolicyChange({ pauseOnCellular: !value })}
+              trackColor={{ false: '#767577', true: tintColor }}
+              thumbColor="#fff"
+              accessibilityLabel="Download on cellular data"
+            />
+          </View>
+          <View style={styles.settingRow}>
+            <ThemedText>Pause on low battery</ThemedText>
+            <Switch
+              value={downloadPolicy.pauseOnLowBattery}
+              onValueChange={(value) => handlePolicyChange({ pauseOnLowBattery: value })}
+              trackColor={{ false: '#767577', true: tintColor }}
+              thumbColor="#fff"
+              accessibilityLabel="Pause on low battery"
+            />
+          </View>
+        </ThemedView>
+
+        {/* Catalog Section */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">Available</ThemedText>
+          {isLoading ? (
+            <View style={styles.loading}>
+              <ActivityIndicator size="large" color={tintColor} />
+            </View>
+          ) : catalogError ? (
+            <ThemedText style={styles.sectionDetail}>{catalogError}</ThemedText>
+          ) : available.length === 0 ? (
+            <ThemedText style={styles.sectionDetail}>Every available pack is on this device.</ThemedText>
+          ) : (
+            available.map((pack) =>
+              renderPackRow(
+                pack,
+                pack.sizeBytes > 0 ? `${formatBytes(pack.sizeBytes)} download` : 'Download',
+                renderActionButton('Download', () => handleInstall(pack), pack.id)
+              )
+            )
+          )}
+        </ThemedView>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContainer: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    paddingTop: 60,
+  },
+  section: {
+    padding: 16,
+    marginBottom: 8,
+  },
+  sectionDetail: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginTop: 4,
+  },
+  packRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+  },
+  packText: {
+    flex: 1,
+  },
+  packDetail: {
+    fontSize: 12,
+    opacity: 0.7,
+    marginTop: 2,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+  },
+  settingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  packError: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  linkRow: {
+    paddingVertical: 12,
+  },
+  loading: {
+    paddingVertical: 20,
+    alignItems: 'center',
+  },
+  actionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  actionButtonDisabled: {
+    opacity: 0.5,
+  },
+  actionButtonPressed: {
+    opacity: 0.7,
+  },
+  actionButtonText: {
+    fontWeight: '700',
+  },
+});
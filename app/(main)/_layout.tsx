@@ -101,6 +101,7 @@ function MainLayoutContent() {
           features={mapContext.features}
           segments={mapContext.segments}
           previewFeatures={mapContext.previewFeatures}
+          showLTS={mapContext.showLTS}
           centerPosition={mapContext.centerPosition}
           zoomLevel={mapContext.zoomLevel}
           interactionState={mapContext.interactionState}
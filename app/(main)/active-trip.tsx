@@ -6,10 +6,14 @@
  * - Displays active trip polyline on map as it's being recorded
  * - Trip stats card showing mode, duration, distance, comfort level
  * - Pause and Stop buttons in footer slot
+ * - Suggests pausing, then ending (with the post-trip survey), after a prolonged stop
  * - Recenter button in secondary footer slot
  * - When trip ends, navigates to Trip Summary Screen
  * - Integrates with TripService for GPS tracking and SyncService for data persistence
  * - DataRanger mode: displays nearby curb ramp features and rating modal
+ * - DataRanger mode: shows how many ratings and edits are waiting to upload
+ * - DataRanger mode: undo/redo for the trip's edits and ratings
+ * - DataRanger mode: geometry edits are validated against the loaded network first
  */
 
 import { NativeAdapter } from '@/adapters/NativeAdapter';
@@ -27,9 +31,13 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { useDataRanger } from '@/contexts/DataRangerContext';
 import { useMap } from '@/contexts/MapContext';
-import { DataRangerService } from '@/services/DataRangerService';
+import { DataRangerService, EditHistoryState } from '@/services/DataRangerService';
+import { LTSService } from '@/services/LTSService';
 import { SyncService } from '@/services/SyncService';
 import { ActiveTripData, TripService } from '@/services/TripService';
+import { haversineDistance } from '@/services/utils/geoDistance';
+import type { MotionState } from '@/services/utils/stopDetection';
+import { hasTopologyErrors, TopologyIssue, TopologyValidationError } from '@/services/utils/topologyValidation';
 import type { FacilityType, GeometryEditType, NetworkSegment } from '@/services/types/NetworkSegment';
 import { mediumImpact, warningNotification } from '@/utils/haptics';
 import { Ionicons } from '@expo/vector-icons';
@@ -53,7 +61,7 @@ export default function ActiveTripScreen() {
     purpose?: string;
   }>();
   const { user } = useAuth();
-  const { isReady: isDataRangerReady } = useDataRanger();
+  const { isReady: isDataRangerReady, pendingWriteCount } = useDataRanger();
   const toolPanelsRef = useRef<DataRangerToolPanelsRef>(null);
   const hasInitializedRef = useRef(false);
   const colorScheme = useColorScheme();
@@ -79,6 +87,10 @@ export default function ActiveTripScreen() {
   // Post-trip survey state
   const [showPostTripModal, setShowPostTripModal] = useState(false);
 
+  // Stop detection prompts: at most one of each per stop, reset once moving again
+  const promptedStopStateRef = useRef<MotionState | null>(null);
+  const isStopPromptOpenRef = useRef(false);
+
   // User location from GPS Adapter
   const [userPosition, setUserPosition] = useState<[number, number] | null>(null);
   const lastPositionRef = useRef<[number, number] | null>(null);
@@ -90,6 +102,7 @@ export default function ActiveTripScreen() {
   const [nearbyFeatures, setNearbyFeatures] = useState<Feature[]>([]);
   const [nearbySegments, setNearbySegments] = useState<NetworkSegment[]>([]);
   const [ratedCount, setRatedCount] = useState(0);
+  const [showLTS, setShowLTS] = useState(false);
   // True only while a NEWLY-started DataRanger trip waits for its first
   // feature load. Resuming an existing trip skips the throbber — segments
   // are already loaded from the previous session (or will appear silently
@@ -113,6 +126,12 @@ export default function ActiveTripScreen() {
   // Stored as EditPreviewFeature[] (the internal shape); converted to GeoJSON.Feature[] at render.
   const [editPreviews, setEditPreviews] = useState<EditPreviewFeature[]>([]);
 
+  // Undo/redo availability for this trip's DataRanger edits
+  const [editHistory, setEditHistory] = useState<EditHistoryState>({ canUndo: false, canRedo: false });
+
+  // Problems found validating the last geometry edit (shown in the tool panels)
+  const [topologyIssues, setTopologyIssues] = useState<TopologyIssue[]>([]);
+
   // Initialize SyncService on mount
   useEffect(() => {
     SyncService.initialize();
@@ -156,7 +175,7 @@ export default function ActiveTripScreen() {
 
       try {
         // Start trip via TripService
-        const tripId = await TripService.startTrip(user.id, mode, comfort, purpose);
+        const tripId = await TripService.startTrip(user.id, mode, comfort, purpose, user.privacyLevel);
         console.log('[ActiveTripScreen] Trip started:', tripId);
 
         // Get trip data
@@ -213,10 +232,7 @@ export default function ActiveTripScreen() {
             for (let i = startIdx; i < currentTrip.coordinates.length - 1; i++) {
               const [lon1, lat1] = currentTrip.coordinates[i];
               const [lon2, lat2] = currentTrip.coordinates[i + 1];
-              cachedDistance += calculateDistance(
-                { latitude: lat1, longitude: lon1 },
-                { latitude: lat2, longitude: lon2 }
-              );
+              cachedDistance += haversineDistance(lat1, lon1, lat2, lon2);
             }
             lastCoordinateCount = currentTrip.coordinates.length;
           }
@@ -238,6 +254,72 @@ export default function ActiveTripScreen() {
     return () => clearInterval(interval);
   }, []);
 
+  // Stop detection: suggest pausing, then ending, when the user hasn't moved for a while
+  useEffect(() => {
+    if (isPaused || showPostTripModal) return;
+
+    const interval = setInterval(() => {
+      const motion = TripService.getMotionState();
+      if (!motion) return;
+
+      if (motion.state === 'moving') {
+        promptedStopStateRef.current = null;
+        return;
+      }
+      if (isStopPromptOpenRef.current || promptedStopStateRef.current === motion.state || promptedStopStateRef.current === 'suggest_end') {
+        return;
+      }
+
+      promptedStopStateRef.current = motion.state;
+      isStopPromptOpenRef.current = true;
+      const closePrompt = () => {
+        isStopPromptOpenRef.current = false;
+      };
+      const minutes = Math.floor(motion.stoppedForS / 60);
+      warningNotification();
+
+      if (motion.state === 'suggest_pause') {
+        Alert.alert(
+          'Pause Trip?',
+          `You haven't moved for ${minutes} minutes. Pause recording until you set off again?`,
+          [
+            { text: 'Keep Recording', style: 'cancel', onPress: closePrompt },
+            {
+              text: 'Pause',
+              onPress: () => {
+                closePrompt();
+                TripService.pauseTrip()
+                  .then(() => setIsPaused(true))
+                  .catch((err) => console.error('[ActiveTripScreen] Failed to pause trip:', err));
+              },
+            },
+          ],
+          { onDismiss: closePrompt }
+        );
+      } else {
+        Alert.alert(
+          'End Trip?',
+          `You haven't moved for ${minutes} minutes. Did your trip end here?`,
+          [
+            { text: 'Keep Recording', style: 'cancel', onPress: closePrompt },
+            {
+              text: 'End Trip',
+              style: 'destructive',
+              onPress: () => {
+                closePrompt();
+                // Show the post-trip survey modal
+                setShowPostTripModal(true);
+              },
+            },
+          ],
+          { onDismiss: closePrompt }
+        );
+      }
+    }, 5000); // Stops are measured in minutes; no need to check every second
+
+    return () => clearInterval(interval);
+  }, [isPaused, showPostTripModal]);
+
   // Track user location from GPS Adapter
   useEffect(() => {
     let isSubscribed = true;
@@ -304,6 +386,18 @@ export default function ActiveTripScreen() {
       .catch(() => {});
   }, [isDataRanger, isDataRangerReady, user, tripId]);
 
+  useEffect(() => {
+    if (!isDataRanger) return;
+    return DataRangerService.subscribeEditHistory(setEditHistory);
+  }, [isDataRanger]);
+
+  // DataRanger: score nearby segments with the LTS model for this trip's mode
+  const tripMode = tripData?.metadata.mode;
+  useEffect(() => {
+    if (!isDataRanger || !tripMode) return;
+    LTSService.activateMode(tripMode).catch(() => {});
+  }, [isDataRanger, tripMode]);
+
   // DataRanger: load grid cells for the visible map viewport.
   // Fires on pan/zoom so segments are pre-loaded before the user reaches them.
   const handleRegionDidChange = useCallback((bbox: { minLon: number; minLat: number; maxLon: number; maxLat: number }) => {
@@ -346,6 +440,16 @@ export default function ActiveTripScreen() {
     if (!isDataRanger) setIsLoadingInitialFeatures(false);
   }, [isDataRanger]);
 
+  // DataRanger: re-query after edits change the overlay or rated markers
+  // (position read via ref to avoid re-creating callbacks every tick)
+  const refreshNearbyData = useCallback(() => {
+    setRatedCount(DataRangerService.getRatedCountForCurrentTrip());
+    if (!userPositionRef.current) return;
+    const [lon, lat] = userPositionRef.current;
+    setNearbyFeatures(DataRangerService.queryNearbyFeatures(lat, lon));
+    setNearbySegments(DataRangerService.queryNearbySegments(lat, lon));
+  }, []);
+
   // DataRanger: handle segment tap from map
   const handleSegmentPress = useCallback((segment: NetworkSegment, facilityType: FacilityType) => {
     setSelectedSegment(segment);
@@ -368,18 +472,13 @@ export default function ActiveTripScreen() {
         params.imageUri
       );
 
-      setRatedCount(DataRangerService.getRatedCountForCurrentTrip());
-
-      // Re-query to update rated status of markers (read ref to avoid re-creating callback on every position tick)
-      if (userPositionRef.current) {
-        const [lon, lat] = userPositionRef.current;
-        setNearbyFeatures(DataRangerService.queryNearbyFeatures(lat, lon));
-      }
+      // Re-query to update rated status of markers
+      refreshNearbyData();
     } catch (error) {
       console.error('[ActiveTripScreen] Failed to submit rating:', error);
       Alert.alert('Error', 'Failed to submit rating. Please try again.');
     }
-  }, [tripData, user]); // userPosition read via ref to avoid callback churn every position tick
+  }, [tripData, user, refreshNearbyData]);
 
   // Push map state to persistent MapContext
   useEffect(() => {
@@ -394,6 +493,10 @@ export default function ActiveTripScreen() {
     updateMapState({ segments: isDataRanger ? nearbySegments : [] });
   }, [nearbySegments, isDataRanger, updateMapState]);
 
+  useEffect(() => {
+    updateMapState({ showLTS: isDataRanger && showLTS });
+  }, [showLTS, isDataRanger, updateMapState]);
+
   useEffect(() => {
     updateMapState({
       previewFeatures: isDataRanger && editPreviews.length > 0
@@ -444,8 +547,34 @@ export default function ActiveTripScreen() {
       tripId: tripData.metadata.tripId,
       userId: user.id,
     });
+    refreshNearbyData();
   };
 
+  // DataRanger: step back/forward through this trip's edits. The map is
+  // redrawn from the reverted overlay, which also undoes any source
+  // mutations the edit made.
+  const handleUndo = useCallback(async () => {
+    try {
+      await DataRangerService.undo();
+      setEditPreviews([]);
+      refreshNearbyData();
+    } catch (err) {
+      console.error('[ActiveTripScreen] Failed to undo edit:', err);
+      Alert.alert('Error', 'Failed to undo. Please try again.');
+    }
+  }, [refreshNearbyData]);
+
+  const handleRedo = useCallback(async () => {
+    try {
+      await DataRangerService.redo();
+      setEditPreviews([]);
+      refreshNearbyData();
+    } catch (err) {
+      console.error('[ActiveTripScreen] Failed to redo edit:', err);
+      Alert.alert('Error', 'Failed to redo. Please try again.');
+    }
+  }, [refreshNearbyData]);
+
   // DataRanger: new segment — user selected facility type, open attribute modal
   const handleNewSegmentRequest = useCallback((facilityType: FacilityType) => {
     setPendingSegmentFacility(facilityType);
@@ -478,9 +607,14 @@ export default function ActiveTripScreen() {
           tripData.metadata.tripId,
           user.id,
         );
+        setTopologyIssues([]);
       } catch (err) {
-        console.error('[ActiveTripScreen] Failed to submit new segment:', err);
-        Alert.alert('Error', 'Failed to save segment. Please try again.');
+        if (err instanceof TopologyValidationError) {
+          setTopologyIssues(err.issues);
+        } else {
+          console.error('[ActiveTripScreen] Failed to submit new segment:', err);
+          Alert.alert('Error', 'Failed to save segment. Please try again.');
+        }
       }
     }
 
@@ -498,11 +632,12 @@ export default function ActiveTripScreen() {
     if (!tripData || !user) return;
     try {
       await DataRangerService.submitNewPointFeature(subtype, coords, attributes, tripData.metadata.tripId, user.id);
+      refreshNearbyData();
     } catch (err) {
       console.error('[ActiveTripScreen] Failed to submit new point feature:', err);
       Alert.alert('Error', 'Failed to save point feature. Please try again.');
     }
-  }, [tripData, user]);
+  }, [tripData, user, refreshNearbyData]);
 
   // DataRanger: persist shared-tool changesets to Supabase
   const handleChangeset = useCallback(async (type: string, data: unknown) => {
@@ -582,34 +717,23 @@ export default function ActiveTripScreen() {
           return;
       }
 
-      await DataRangerService.submitGeometryEdit(
-        { editType, streetGridId, payload: payload as any, coord },
-        tripId,
-        userId,
-      );
+      // Errors drop the edit; redrawing from the overlay discards the tool's
+      // optimistic map changes. Warnings are shown but the edit is kept.
+      const edit = { editType, streetGridId, payload: payload as any, coord };
+      const issues = DataRangerService.validateGeometryEdit(edit);
+      setTopologyIssues(issues);
+      if (hasTopologyErrors(issues)) {
+        setEditPreviews([]);
+        refreshNearbyData();
+        return;
+      }
+
+      await DataRangerService.submitGeometryEdit(edit, tripId, userId);
+      refreshNearbyData();
     } catch (err) {
       console.error('[ActiveTripScreen] Failed to persist changeset:', type, err);
     }
-  }, [tripData, user]);
-
-  // Helper: Calculate distance between two coordinates (Haversine formula)
-  const calculateDistance = (
-    coord1: { latitude: number; longitude: number },
-    coord2: { latitude: number; longitude: number }
-  ): number => {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = (coord1.latitude * Math.PI) / 180;
-    const φ2 = (coord2.latitude * Math.PI) / 180;
-    const Δφ = ((coord2.latitude - coord1.latitude) * Math.PI) / 180;
-    const Δλ = ((coord2.longitude - coord1.longitude) * Math.PI) / 180;
-
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
-  };
+  }, [tripData, user, refreshNearbyData]);
 
   // Format duration as HH:MM:SS
   const formatDuration = (seconds: number): string => {
@@ -705,7 +829,7 @@ export default function ActiveTripScreen() {
       if (syncStatus.isPending) {
         Alert.alert(
           'Trip Saved',
-          'Your trip has been saved locally and will sync when you have internet connection.',
+          'Your trip has been saved on this device. It will be anonymized and synced when you have an internet connection.',
           [
             {
               text: 'OK',
@@ -792,6 +916,15 @@ export default function ActiveTripScreen() {
           <ThemedText style={styles.modeText}>
             {tripData.metadata.mode.charAt(0).toUpperCase() + tripData.metadata.mode.slice(1)}
           </ThemedText>
+          {isDataRanger && (
+            <TouchableOpacity
+              onPress={() => setShowLTS((prev) => !prev)}
+              accessibilityLabel={showLTS ? 'Show sidewalk data quality' : 'Show traffic stress'}
+              accessibilityRole="button"
+            >
+              <Ionicons name={showLTS ? 'speedometer' : 'speedometer-outline'} size={20} color={colors.tint} />
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Trip Stats - Duration and Distance Only */}
@@ -821,6 +954,16 @@ export default function ActiveTripScreen() {
             </>
           )}
         </View>
+
+        {/* Outbox - ratings and edits upload once the trip has synced */}
+        {isDataRanger && pendingWriteCount > 0 && (
+          <View style={styles.pendingWritesRow}>
+            <Ionicons name="cloud-upload-outline" size={14} color={colors.icon} />
+            <ThemedText style={styles.pendingWritesText}>
+              {pendingWriteCount} {pendingWriteCount === 1 ? 'edit' : 'edits'} waiting to upload
+            </ThemedText>
+          </View>
+        )}
       </ThemedView>
     </View>
   );
@@ -909,6 +1052,12 @@ export default function ActiveTripScreen() {
           onChangeset={handleChangeset}
           onNewSegmentRequest={handleNewSegmentRequest}
           onAddNodeSubmit={handleAddNodeSubmit}
+          canUndo={editHistory.canUndo}
+          canRedo={editHistory.canRedo}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          topologyIssues={topologyIssues}
+          onDismissTopologyIssues={() => setTopologyIssues([])}
         />
       )}
       <TripModal
@@ -1023,6 +1172,17 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '800',
   },
+  pendingWritesRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 12,
+  },
+  pendingWritesText: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
   footerContainer: {
     flexDirection: 'row',
     paddingHorizontal: 16,
@@ -0,0 +1,434 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { Polyline } from '@/components/MapViewComponent';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useDataRanger } from '@/contexts/DataRangerContext';
+import { useMap } from '@/contexts/MapContext';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { DataRangerService } from '@/services/DataRangerService';
+import type { NetworkSegment } from '@/services/types/NetworkSegment';
+import {
+  canAmend,
+  ConflictResolution,
+  EditConflict,
+  explainConflict,
+  getConflictStreetGridIds,
+  getConflictTitle,
+  getProposedGeometry,
+} from '@/services/utils/editConflicts';
+import { TopologyIssue, TopologyValidationError } from '@/services/utils/topologyValidation';
+import { mediumImpact } from '@/utils/haptics';
+
+const PROPOSED_COLOR = '#ff3b30';
+
+/**
+ * Edit Conflicts Screen
+ * Conflict inbox for DataRanger edits the server rejected or flagged as
+ * conflicting.
+ *
+ * Features:
+ * - Lists rejected and conflicting edits with the reason they didn't go through
+ * - Selecting one shows the edit (red) on the map next to the current network
+ * - Re-apply: submit again, rebased on the current network
+ * - Amend: tap the map to move the edit's point, then submit
+ * - Withdraw: drop the edit
+ * - Resolutions are queued in the outbox, so they work offline
+ */
+export default function EditConflictsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { updateMapState } = useMap();
+  const { isReady: isDataRangerReady } = useDataRanger();
+
+  const backgroundColor = useThemeColor({}, 'background');
+  const tintColor = useThemeColor({}, 'tint');
+  const iconColor = useThemeColor({}, 'icon');
+  const buttonPrimaryColor = useThemeColor({}, 'buttonPrimary');
+  const buttonDangerColor = useThemeColor({}, 'buttonDanger');
+  const buttonTextColor = useThemeColor({}, 'buttonText');
+  const errorColor = useThemeColor({}, 'error');
+
+  // State
+  const [conflicts, setConflicts] = useState<EditConflict[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isAmending, setIsAmending] = useState(false);
+  const [amendedCoord, setAmendedCoord] = useState<[number, number] | null>(null);
+  const [issues, setIssues] = useState<TopologyIssue[]>([]);
+  const [isResolving, setIsResolving] = useState(false);
+
+  const selected = conflicts.find((c) => c.edit.id === selectedId) ?? null;
+
+  // Check edit statuses with the server; show what's stored if that fails (e.g. offline)
+  useEffect(() => {
+    const loadConflicts = async () => {
+      try {
+        setIsLoading(true);
+        setConflicts(await DataRangerService.syncEditConflicts());
+      } catch (err) {
+        console.error('[EditConflictsScreen] Failed to sync edit statuses:', err);
+        setConflicts(await DataRangerService.getEditConflicts());
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadConflicts();
+  }, []);
+
+  // Reset map state when leaving the screen
+  useEffect(() => {
+    return () => {
+      updateMapState({ segments: [], polylines: [], previewFeatures: [], onMapTap: undefined });
+    };
+  }, [updateMapState]);
+
+  // Show the selected edit next to the current state of the segments it touches
+  useEffect(() => {
+    if (!selected) {
+      updateMapState({ segments: [], polylines: [], previewFeatures: [] });
+      return;
+    }
+
+    let isCancelled = false;
+    const showConflict = async () => {
+      const proposed = getProposedGeometry(selected);
+      const center = amendedCoord ?? proposed.points[0] ?? proposed.lines[0]?.[0] ?? selected.edit.coord;
+
+      let segments: NetworkSegment[] = [];
+      if (isDataRangerReady) {
+        await DataRangerService.loadGridCellsNearPoint(center[1], center[0]).catch(() => {});
+        segments = getConflictStreetGridIds(selected)
+          .map((id) => DataRangerService.getSegmentById(id))
+          .filter((s): s is NetworkSegment => s !== null);
+      }
+      if (isCancelled) return;
+
+      const polylines: Polyline[] = proposed.lines.map((coordinates, i) => ({
+        id: `conflict-${selected.edit.id}-${i}`,
+        coordinates,
+        color: PROPOSED_COLOR,
+        width: 5,
+      }));
+      const points = amendedCoord ? [amendedCoord] : proposed.points;
+
+      updateMapState({
+        segments,
+        polylines,
+        previewFeatures: points.map((coordinates) => ({
+          type: 'Feature' as const,
+          geometry: { type: 'Point' as const, coordinates },
+          properties: { editType: selected.edit.editType },
+        })),
+        centerPosition: center,
+        zoomLevel: 18,
+        interactionState: 'interactive',
+      });
+    };
+
+    showConflict();
+    return () => {
+      isCancelled = true;
+    };
+  }, [selected, amendedCoord, isDataRangerReady, updateMapState]);
+
+  // While amending, a map tap moves the edit's point
+  const handleMapTap = useCallback((coords: { longitude: number; latitude: number }) => {
+    setAmendedCoord([coords.longitude, coords.latitude]);
+  }, []);
+
+  useEffect(() => {
+    updateMapState({ onMapTap: isAmending ? handleMapTap : undefined });
+  }, [isAmending, handleMapTap, updateMapState]);
+
+  const handleBack = () => {
+    mediumImpact();
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.push('/(main)');
+    }
+  };
+
+  const handleSelect = (conflict: EditConflict) => {
+    mediumImpact();
+    setSelectedId(conflict.edit.id === selectedId ? null : conflict.edit.id);
+    setIsAmending(false);
+    setAmendedCoord(null);
+    setIssues([]);
+  };
+
+  const handleResolve = async (conflict: EditConflict, resolution: ConflictResolution) => {
+    mediumImpact();
+    setIsResolving(true);
+    setIssues([]);
+    try {
+      await DataRangerService.resolveEditConflict(conflict.edit.id, resolution, amendedCoord ?? undefined);
+      setConflicts((prev) => prev.filter((c) => c.edit.id !== conflict.edit.id));
+      setSelectedId(null);
+      setIsAmending(false);
+      setAmendedCoord(null);
+    } catch (err) {
+      if (err instanceof TopologyValidationError) {
+        setIssues(err.issues);
+      } else {
+        console.error('[EditConflictsScreen] Failed to resolve conflict:', err);
+        Alert.alert('Error', err instanceof Error ? err.message : 'Failed to resolve this edit. Please try again.');
+      }
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const handleWithdraw = (conflict: EditConflict) => {
+    Alert.alert('Withdraw Edit', 'This edit will be dropped and not applied to the network.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Withdraw', style: 'destructive', onPress: () => handleResolve(conflict, 'withdraw') },
+    ]);
+  };
+
+  // Render header with back button and title
+  const renderHeader = () => (
+    <View style={[styles.headerContainer, { paddingTop: insets.top + 8 }]}>
+      <Pressable
+        onPress={handleBack}
+        style={[styles.headerButton, { backgroundColor }]}
+        accessibilityRole="button"
+        accessibilityLabel="Go back"
+      >
+        <Ionicons name="arrow-back" size={24} color={iconColor} />
+      </Pressable>
+      <ThemedText type="title" style={styles.headerTitle}>Edit Conflicts</ThemedText>
+    </View>
+  );
+
+  const renderActionButton = (label: string, onPress: () => void, options: { disabled?: boolean; destructive?: boolean } = {}) => (
+    <Pressable
+      onPress={onPress}
+      disabled={options.disabled || isResolving}
+      style={({ pressed }) => [
+        styles.actionButton,
+        { backgroundColor: options.destructive ? buttonDangerColor : buttonPrimaryColor },
+        (options.disabled || isResolving) && styles.actionButtonDisabled,
+        pressed && styles.actionButtonPressed,
+      ]}
+      accessibilityRole="button"
+    >
+      <ThemedText style={[styles.actionButtonText, { color: buttonTextColor }]}>{label}</ThemedText>
+    </Pressable>
+  );
+
+  // Explanation and actions for the selected conflict
+  const renderDetails = (conflict: EditConflict) => (
+    <View style={styles.details}>
+      <ThemedText style={styles.explanation}>{explainConflict(conflict)}</ThemedText>
+      {issues.map((issue, i) => (
+        <ThemedText
+          key={`${issue.code}-${i}`}
+          style={[styles.issueText, issue.severity === 'error' && { color: errorColor }]}
+        >
+          {issue.message}
+        </ThemedText>
+      ))}
+      {isAmending ? (
+        <>
+          <ThemedText style={styles.hint}>
+            {amendedCoord ? 'Tap the map again to adjust, then submit.' : 'Tap the map where this edit should be.'}
+          </ThemedText>
+          <View style={styles.actionRow}>
+            {renderActionButton('Submit', () => handleResolve(conflict, 'amend'), { disabled: !amendedCoord })}
+            {renderActionButton('Cancel', () => {
+              setIsAmending(false);
+              setAmendedCoord(null);
+            })}
+          </View>
+        </>
+      ) : (
+        <View style={styles.actionRow}>
+          {renderActionButton('Re-apply', () => handleResolve(conflict, 'reapply'))}
+          {canAmend(conflict) && renderActionButton('Amend', () => setIsAmending(true))}
+          {renderActionButton('Withdraw', () => handleWithdraw(conflict), { destructive: true })}
+        </View>
+      )}
+      {isResolving && <ActivityIndicator color={tintColor} />}
+    </View>
+  );
+
+  const renderConflict = (conflict: EditConflict) => {
+    const isSelected = conflict.edit.id === selectedId;
+    return (
+      <ThemedView key={conflict.edit.id} style={styles.card}>
+        <Pressable
+          onPress={() => handleSelect(conflict)}
+          style={styles.cardHeader}
+          accessibilityRole="button"
+          accessibilityState={{ expanded: isSelected }}
+        >
+          <Ionicons
+            name={conflict.status === 'conflict' ? 'git-compare-outline' : 'close-circle-outline'}
+            size={24}
+            color={conflict.status === 'conflict' ? tintColor : errorColor}
+          />
+          <View style={styles.cardTitle}>
+            <ThemedText type="defaultSemiBold">{getConflictTitle(conflict)}</ThemedText>
+            <ThemedText style={styles.cardSubtitle}>
+              {conflict.status === 'conflict' ? 'Conflict' : 'Rejected'} • {new Date(conflict.edit.createdAt ?? conflict.detectedAt).toLocaleDateString()}
+            </ThemedText>
+          </View>
+          <Ionicons name={isSelected ? 'chevron-up' : 'chevron-down'} size={20} color={iconColor} />
+        </Pressable>
+        {isSelected && renderDetails(conflict)}
+      </ThemedView>
+    );
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.centerContainer}>
+          <ThemedView style={styles.messageCard}>
+            <ActivityIndicator size="large" color={tintColor} />
+            <ThemedText style={styles.messageText}>Checking your edits...</ThemedText>
+          </ThemedView>
+        </View>
+      );
+    }
+
+    if (conflicts.length === 0) {
+      return (
+        <View style={styles.centerContainer}>
+          <ThemedView style={styles.messageCard}>
+            <Ionicons name="checkmark-circle-outline" size={48} color={tintColor} />
+            <ThemedText style={styles.messageText}>No edits need your attention.</ThemedText>
+          </ThemedView>
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+        {conflicts.map(renderConflict)}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      {renderHeader()}
+      <View style={styles.spacer} pointerEvents="none" />
+      {renderBody()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'transparent', // Allow map to show through
+  },
+  headerContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  headerTitle: {
+    flex: 1,
+  },
+  headerButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+    elevation: 5,
+  },
+  spacer: {
+    flex: 1, // Leaves the top half of the screen to the map
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 16,
+    paddingTop: 0,
+    gap: 8,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  messageCard: {
+    padding: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    maxWidth: 400,
+    opacity: 0.95, // Semi-transparent to show map behind
+  },
+  messageText: {
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  card: {
+    borderRadius: 12,
+    padding: 12,
+    opacity: 0.95,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  cardTitle: {
+    flex: 1,
+  },
+  cardSubtitle: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  details: {
+    marginTop: 12,
+    gap: 8,
+  },
+  explanation: {
+    fontSize: 15,
+  },
+  issueText: {
+    fontSize: 13,
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  actionButtonDisabled: {
+    opacity: 0.5,
+  },
+  actionButtonPressed: {
+    opacity: 0.7,
+  },
+  actionButtonText: {
+    fontWeight: '700',
+  },
+});
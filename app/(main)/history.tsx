@@ -1,18 +1,21 @@
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import React, { useEffect, useState } from 'react';
-import { ActivityIndicator, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { TripSummary } from '@/adapters/DatabaseAdapter';
 import { BottomNavigationBarComponent } from '@/components/BottomNavigationBarComponent';
+import { TripExportModal, TripExportOption } from '@/components/TripExportModal';
 import { TripHistoryCard } from '@/components/TripHistoryCard';
+import { StartTripParams, TripModal } from '@/components/TripModal';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { useAuth } from '@/contexts/AuthContext';
 import { useMap } from '@/contexts/MapContext';
 import { useThemeColor } from '@/hooks/use-theme-color';
-import { HistoryService } from '@/services/HistoryService';
+import { HistoryService, PendingTripSummary } from '@/services/HistoryService';
+import { ImportService, PickedTripFile } from '@/services/ImportService';
 import { TripService } from '@/services/TripService';
 import { mediumImpact } from '@/utils/haptics';
 
@@ -25,7 +28,12 @@ import { mediumImpact } from '@/utils/haptics';
  * - Profile button in header (launches Profile Screen)
  * - Map displays all completed trips (dimmed)
  * - Empty state for new users with no trips
+ * - Trips still in the sync queue are listed first with a pending badge
+ *   (works offline — read from local storage)
  * - Checks for orphaned trips on mount and prompts user
+ * - Export button in header: share selected trips as GPX, GeoJSON or CSV
+ * - Import button in header: GPX/GeoJSON tracks from other apps, with
+ *   mode/comfort/purpose collected by TripModal (import mode)
  */
 export default function TripHistoryScreen() {
   const backgroundColor = useThemeColor({}, 'background');
@@ -38,8 +46,13 @@ export default function TripHistoryScreen() {
 
   // State
   const [trips, setTrips] = useState<TripSummary[]>([]);
+  const [pendingTrips, setPendingTrips] = useState<PendingTripSummary[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PickedTripFile | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0); // Bumped to reload trips after an import
 
   // State for orphaned trip modal
   const [shouldShowOrphanedTripModal, setShouldShowOrphanedTripModal] = useState(false);
@@ -69,6 +82,11 @@ export default function TripHistoryScreen() {
       try {
         setIsLoading(true);
         setError(null);
+
+        // Queued trips come from local storage, so load them before the
+        // network request — they stay visible even if it fails offline
+        setPendingTrips(await HistoryService.getPendingTripSummaries());
+
         const tripSummaries = await HistoryService.getTripSummaries();
         setTrips(tripSummaries);
 
@@ -123,7 +141,7 @@ export default function TripHistoryScreen() {
         showUserLocation: true,
       });
     };
-  }, [mapContext.updateMapState]);
+  }, [mapContext.updateMapState, reloadCount]);
 
   // Navigate to profile screen
   const handleProfilePress = () => {
@@ -184,6 +202,72 @@ export default function TripHistoryScreen() {
     };
   };
 
+  // Trips offered for export, pending first (same order as the list)
+  const exportOptions: TripExportOption[] = [
+    ...pendingTrips.map((trip) => ({
+      tripId: trip.tripId,
+      label: `${trip.mode} • ${(trip.distanceMi ?? 0).toFixed(2)} mi • pending`,
+      pending: true,
+    })),
+    ...trips.map((trip) => ({
+      tripId: trip.tripId,
+      label: `${trip.mode} • ${(trip.distanceMi ?? 0).toFixed(2)} mi`,
+    })),
+  ];
+
+  const handleExportPress = () => {
+    mediumImpact();
+    setShowExportModal(true);
+  };
+
+  // Pick a GPX/GeoJSON file, then ask for trip details
+  const handleImportPress = async () => {
+    mediumImpact();
+    try {
+      const picked = await ImportService.pickTripFile();
+      if (!picked) return;
+
+      const timedTracks = picked.tracks.filter((track) => track.startTime !== null);
+      if (timedTracks.length === 0) {
+        Alert.alert(
+          'Cannot Import',
+          'This file has no timestamps. RollTracks needs the time a trip was recorded to bin it by time of day.',
+        );
+        return;
+      }
+      setPendingImport({ ...picked, tracks: timedTracks });
+    } catch (err) {
+      console.error('[TripHistoryScreen] Failed to read trip file:', err);
+      Alert.alert('Cannot Import', err instanceof Error ? err.message : 'Failed to read this file.');
+    }
+  };
+
+  // Save imported tracks with the details from TripModal
+  const handleImportTrips = async ({ mode, comfort, purpose }: StartTripParams) => {
+    if (!pendingImport || !user) return;
+
+    const { tracks } = pendingImport;
+    setPendingImport(null);
+    setIsImporting(true);
+
+    let imported = 0;
+    for (const track of tracks) {
+      try {
+        await TripService.importTrip(user.id, track, mode, comfort, purpose, user.privacyLevel);
+        imported++;
+      } catch (err) {
+        console.error('[TripHistoryScreen] Failed to import track:', track.name, err);
+      }
+    }
+
+    setIsImporting(false);
+    setReloadCount((count) => count + 1);
+
+    if (imported < tracks.length) {
+      Alert.alert('Import Incomplete', `Imported ${imported} of ${tracks.length} trips. Please try again.`);
+    }
+  };
+
   // Navigate to trip summary screen
   const handleTripPress = (tripId: string) => {
     mediumImpact();
@@ -205,6 +289,29 @@ export default function TripHistoryScreen() {
   const renderHeader = () => (
     <View style={[styles.headerContainer, { paddingTop: insets.top + 8 }]}>
       <ThemedText type="title" style={styles.headerTitle}>Trip History</ThemedText>
+      <Pressable
+        style={[styles.profileButton, { backgroundColor }]}
+        onPress={handleImportPress}
+        disabled={isImporting}
+        accessibilityLabel="Import trips from a GPX or GeoJSON file"
+        accessibilityRole="button"
+      >
+        {isImporting ? (
+          <ActivityIndicator size={32} color={tintColor} />
+        ) : (
+          <Ionicons name="download-outline" size={32} color={tintColor} />
+        )}
+      </Pressable>
+      {exportOptions.length > 0 && (
+        <Pressable
+          style={[styles.profileButton, { backgroundColor }]}
+          onPress={handleExportPress}
+          accessibilityLabel="Export trips"
+          accessibilityRole="button"
+        >
+          <Ionicons name="share-outline" size={32} color={tintColor} />
+        </Pressable>
+      )}
       <Pressable 
         style={[styles.profileButton, { backgroundColor }]}
         onPress={handleProfilePress}
@@ -238,6 +345,7 @@ export default function TripHistoryScreen() {
           onPress={() => {
             setIsLoading(true);
             setError(null);
+            HistoryService.getPendingTripSummaries().then(setPendingTrips);
             HistoryService.getTripSummaries()
               .then(setTrips)
               .catch((err) => {
@@ -281,6 +389,21 @@ export default function TripHistoryScreen() {
   // Render trip list
   const renderTripList = () => (
     <View style={styles.tripListContainer}>
+      {pendingTrips.map((trip) => (
+        <TripHistoryCard
+          key={trip.tripId}
+          trip={{
+            ...trip,
+            userId: user?.id || '',
+            status: 'completed' as const,
+            geometry: trip.geometry || '',
+          }}
+          onPress={() => handleTripPress(trip.tripId)}
+          syncState={trip.recordedOffline ? 'offline' : 'queued'}
+          anonymized={trip.anonymized}
+          variant="card"
+        />
+      ))}
       {trips.map((trip) => (
         <TripHistoryCard
           key={trip.tripId}
@@ -305,18 +428,20 @@ export default function TripHistoryScreen() {
   );
 
   // Render body based on state
+  const hasTrips = trips.length > 0 || pendingTrips.length > 0;
   const renderBody = () => (
     <ScrollView
       style={styles.scrollContainer}
       contentContainerStyle={[
         styles.scrollContent,
-        (isLoading || error || trips.length === 0) && styles.scrollContentCentered,
+        (isLoading || (error && pendingTrips.length === 0) || !hasTrips) && styles.scrollContentCentered,
       ]}
     >
       {isLoading && renderLoading()}
+      {!isLoading && pendingTrips.length > 0 && error && renderTripList()}
       {error && !isLoading && renderError()}
-      {!isLoading && !error && trips.length === 0 && renderEmptyState()}
-      {!isLoading && !error && trips.length > 0 && renderTripList()}
+      {!isLoading && !error && !hasTrips && renderEmptyState()}
+      {!isLoading && !error && hasTrips && renderTripList()}
     </ScrollView>
   );
 
@@ -328,6 +453,18 @@ export default function TripHistoryScreen() {
         autoOpenModal={shouldShowOrphanedTripModal}
         onModalVisibilityChange={handleModalVisibilityChange}
       />
+      {pendingImport && (
+        <TripModal
+          visible
+          importMode
+          importTrackCount={pendingImport.tracks.length}
+          onClose={() => setPendingImport(null)}
+          onStartTrip={handleImportTrips}
+        />
+      )}
+      {showExportModal && (
+        <TripExportModal visible trips={exportOptions} onClose={() => setShowExportModal(false)} />
+      )}
     </View>
   );
 }
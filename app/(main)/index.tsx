@@ -1,4 +1,5 @@
 import { Trip } from '@/adapters/DatabaseAdapter';
+import { NativeAdapter } from '@/adapters/NativeAdapter';
 import { BottomNavigationBarComponent } from '@/components/BottomNavigationBarComponent';
 import { Polyline } from '@/components/MapViewComponent';
 import { RecenterButton } from '@/components/RecenterButton';
@@ -7,13 +8,17 @@ import { ThemedView } from '@/components/themed-view';
 import { useAuth } from '@/contexts/AuthContext';
 import { useMap } from '@/contexts/MapContext';
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { DataRangerService } from '@/services/DataRangerService';
 import { HistoryService } from '@/services/HistoryService';
+import { RoutingService } from '@/services/RoutingService';
 import { TripService } from '@/services/TripService';
+import { RouteResult } from '@/services/utils/accessibleRouting';
+import { getMobilityProfile } from '@/services/utils/mobilityProfiles';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
-import { useRouter } from 'expo-router';
-import React, { useEffect, useState } from 'react';
-import { Pressable, StyleSheet, View } from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 /**
@@ -22,28 +27,41 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
  *
  * Features:
  * - Profile button in header slot (right side)
+ * - Edit conflicts button with a count badge next to it while DataRanger edits need attention
  * - Bottom Navigation Bar in footer slot
  * - Recenter button in secondary footer slot (right side)
  * - Displays all trip polyline data using History Service
  * - In DataRanger mode: shows rated features, unrated features along routes, recorded segments
  * - Map zoom automatically fits all trip data
- * - Checks for orphaned trips on mount and prompts user
+ * - Reopens a trip still recording in the background; otherwise checks for orphaned trips on mount and prompts user
+ * - Long-press the map to plan an accessible route from the current position
  */
 export default function HomeScreen() {
   const { user } = useAuth();
   const router = useRouter();
   const mapContext = useMap();
+  const { updateMapState } = mapContext; // Stable identity (useCallback in MapProvider)
   const insets = useSafeAreaInsets();
 
   // Theme colors
   const tintColor = useThemeColor({}, 'tint');
   const backgroundColor = useThemeColor({}, 'background');
+  const errorColor = useThemeColor({}, 'error');
 
   // State for trip data
   const [trips, setTrips] = useState<Trip[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // State for accessible route planning
+  const [tripPolylines, setTripPolylines] = useState<Polyline[]>([]);
+  const [route, setRoute] = useState<RouteResult | null>(null);
+  const [isRouting, setIsRouting] = useState(false);
+  const [routeError, setRouteError] = useState<string | null>(null);
+
+  // Rejected or conflicting DataRanger edits waiting in the conflict inbox
+  const [conflictCount, setConflictCount] = useState(0);
+
   // State for orphaned trip modal
   const [shouldShowOrphanedTripModal, setShouldShowOrphanedTripModal] = useState(false);
 
@@ -53,6 +71,13 @@ export default function HomeScreen() {
       if (!user) return;
 
       try {
+        // A trip still recording in the background goes straight back to the active trip screen
+        if (await TripService.recoverActiveTrip()) {
+          console.log('[HomeScreen] Active trip recovered on mount, reopening it');
+          router.push('/(main)/active-trip');
+          return;
+        }
+
         const orphanedTrip = await TripService.checkForOrphanedTrip();
         if (orphanedTrip) {
           console.log('[HomeScreen] Orphaned trip detected on mount, showing modal');
@@ -64,7 +89,7 @@ export default function HomeScreen() {
     };
 
     checkForOrphanedTrips();
-  }, [user]);
+  }, [user, router]);
 
   // Fetch trip data and update map context
   useEffect(() => {
@@ -78,7 +103,7 @@ export default function HomeScreen() {
         setTrips(completedTrips);
 
         // Convert trips to polylines for MapView
-        const tripPolylines: Polyline[] = completedTrips
+        const polylines: Polyline[] = completedTrips
           .map((trip) => {
             // Decode polyline string to coordinates
             const coordinates = HistoryService.decodePolyline(trip.geometry);
@@ -96,12 +121,13 @@ export default function HomeScreen() {
             };
           })
           .filter((polyline): polyline is Polyline => polyline !== null);
+        setTripPolylines(polylines);
 
         // Update map context with trip data.
         // Do NOT set centerPosition — let GPS auto-pan handle the initial camera
         // center. Trip polylines are still visible once the user pans/zooms.
         mapContext.updateMapState({
-          polylines: tripPolylines,
+          polylines,
           features: [],
           zoomLevel: 15,
           interactionState: 'interactive',
@@ -118,6 +144,58 @@ export default function HomeScreen() {
     loadTripData();
   }, [mapContext]);
 
+  // Plan a route from the user's current position to the long-pressed point
+  const handleMapLongPress = useCallback(async (coords: { longitude: number; latitude: number }) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setIsRouting(true);
+    setRouteError(null);
+    setRoute(null);
+
+    try {
+      const position = await NativeAdapter.getCurrentPosition();
+      const mode = user?.modeList[0] ?? 'wheelchair';
+      const result = await RoutingService.computeRoute(
+        [position.longitude, position.latitude],
+        [coords.longitude, coords.latitude],
+        mode,
+        getMobilityProfile(user, mode),
+      );
+
+      if (result) {
+        setRoute(result);
+      } else {
+        setRouteError('No accessible route found');
+      }
+    } catch (err) {
+      console.error('[HomeScreen] Failed to compute route:', err);
+      setRouteError(err instanceof Error ? err.message : 'Failed to compute route');
+    } finally {
+      setIsRouting(false);
+    }
+  }, [user]);
+
+  // Register the long-press handler while the home screen is mounted
+  useEffect(() => {
+    updateMapState({ onMapLongPress: handleMapLongPress });
+    return () => {
+      updateMapState({ onMapLongPress: undefined });
+    };
+  }, [handleMapLongPress, updateMapState]);
+
+  // Draw the planned route on top of trip polylines
+  useEffect(() => {
+    if (isLoading) return;
+    updateMapState({
+      polylines: route ? [...tripPolylines, RoutingService.toPolyline(route)] : tripPolylines,
+    });
+  }, [route, tripPolylines, isLoading, updateMapState]);
+
+  const handleClearRoute = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setRoute(null);
+    setRouteError(null);
+  };
+
   // Get color based on transport mode
   const getModeColor = (mode: string): string => {
     const modeColors: Record<string, string> = {
@@ -130,6 +208,21 @@ export default function HomeScreen() {
     return modeColors[mode.toLowerCase()] ?? '#757575'; // Gray default
   };
 
+  // Refresh the conflict count whenever the screen regains focus
+  useFocusEffect(
+    useCallback(() => {
+      DataRangerService.getEditConflicts()
+        .then((conflicts) => setConflictCount(conflicts.length))
+        .catch(() => setConflictCount(0));
+    }, [])
+  );
+
+  // Navigate to the conflict inbox
+  const handleConflictsPress = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    router.push('/(main)/edit-conflicts');
+  };
+
   // Navigate to profile screen
   const handleProfilePress = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -150,9 +243,23 @@ export default function HomeScreen() {
     }
   };
 
-  // Render header with profile button
+  // Render header with profile button (and conflict inbox button when edits need attention)
   const renderHeader = () => (
     <View style={[styles.headerContainer, { paddingTop: insets.top + 8 }]}>
+      {conflictCount > 0 && (
+        <Pressable
+          style={[styles.profileButton, { backgroundColor }]}
+          onPress={handleConflictsPress}
+          accessibilityLabel={`${conflictCount} edit ${conflictCount === 1 ? 'conflict' : 'conflicts'}`}
+          accessibilityHint="Review rejected or conflicting edits"
+          accessibilityRole="button"
+        >
+          <Ionicons name="git-compare-outline" size={32} color={tintColor} />
+          <View style={[styles.badge, { backgroundColor: errorColor }]}>
+            <ThemedText style={styles.badgeText}>{conflictCount}</ThemedText>
+          </View>
+        </Pressable>
+      )}
       <Pressable 
         style={[styles.profileButton, { backgroundColor }]}
         onPress={handleProfilePress}
@@ -170,6 +277,43 @@ export default function HomeScreen() {
     <RecenterButton onPress={handleRecenter} position="secondary-footer" />
   );
 
+  // Render route card above the footer while planning or showing a route
+  const renderRouteCard = () => {
+    if (!isRouting && !route && !routeError) return null;
+
+    return (
+      <ThemedView style={styles.routeCard}>
+        {isRouting ? (
+          <View style={styles.routeRow}>
+            <ActivityIndicator color={tintColor} />
+            <ThemedText style={styles.routeText}>Finding accessible route…</ThemedText>
+          </View>
+        ) : (
+          <>
+            <View style={styles.routeRow}>
+              <Ionicons name={route ? 'navigate-outline' : 'alert-circle-outline'} size={20} color={tintColor} />
+              <ThemedText style={styles.routeText}>
+                {route ? `${(route.distanceM / 1000).toFixed(2)} km accessible route` : routeError}
+              </ThemedText>
+              <Pressable
+                onPress={handleClearRoute}
+                accessibilityLabel="Clear route"
+                accessibilityRole="button"
+              >
+                <Ionicons name="close-circle" size={24} color={tintColor} />
+              </Pressable>
+            </View>
+            {route?.warnings.map((warning) => (
+              <ThemedText key={warning} style={styles.routeWarning}>
+                {warning}
+              </ThemedText>
+            ))}
+          </>
+        )}
+      </ThemedView>
+    );
+  };
+
   // Render footer with bottom navigation bar
   const renderFooter = () => (
     <BottomNavigationBarComponent
@@ -190,6 +334,7 @@ export default function HomeScreen() {
           </ThemedView>
         </View>
         <View style={styles.spacer} />
+        {renderRouteCard()}
         {renderSecondaryFooter()}
         {renderFooter()}
       </View>
@@ -213,6 +358,7 @@ export default function HomeScreen() {
           </ThemedView>
         </View>
         <View style={styles.spacer} />
+        {renderRouteCard()}
         {renderSecondaryFooter()}
         {renderFooter()}
       </View>
@@ -224,6 +370,7 @@ export default function HomeScreen() {
     <View style={styles.container}>
       {renderHeader()}
       <View style={styles.spacer} />
+      {renderRouteCard()}
       {renderSecondaryFooter()}
       {renderFooter()}
     </View>
@@ -255,6 +402,23 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 5,
   },
+  badge: {
+    position: 'absolute',
+    top: 0,
+    right: 0,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 11,
+    lineHeight: 14,
+    fontWeight: '700',
+  },
   centerContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -294,4 +458,24 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     opacity: 0.95,
   },
+  routeCard: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 12,
+    borderRadius: 12,
+    opacity: 0.95,
+  },
+  routeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  routeText: {
+    flex: 1,
+  },
+  routeWarning: {
+    marginTop: 4,
+    fontSize: 13,
+    opacity: 0.7,
+  },
 });
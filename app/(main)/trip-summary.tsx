@@ -7,6 +7,7 @@ import { Trip } from '@/adapters/DatabaseAdapter';
 import { Feature, MapViewComponentRef, PolygonOutline, Polyline } from '@/components/MapViewComponent';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { TripExportModal } from '@/components/TripExportModal';
 import { TripHistoryCard } from '@/components/TripHistoryCard';
 import { useDataRanger } from '@/contexts/DataRangerContext';
 import { useThemeColor } from '@/hooks/use-theme-color';
@@ -26,6 +27,7 @@ import { mediumImpact } from '@/utils/haptics';
  * - Map centered on trip route with appropriate zoom
  * - Back button in header to return to previous screen
  * - Shows cached raw GPS data for unsynced trips (before census block clipping)
+ * - Export button in header: share this trip as GPX, GeoJSON or CSV
  * - DataRanger Mode: Displays rated and unrated features along the route
  *   - Queries features within 50m of route points
  *   - Loads trip ratings to distinguish rated vs unrated features
@@ -46,6 +48,9 @@ export default function TripSummaryScreen() {
   const [features, setFeatures] = useState<Feature[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [syncState, setSyncState] = useState<'offline' | 'queued' | undefined>(undefined);
+  const [isAnonymized, setIsAnonymized] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
 
   const backgroundColor = useThemeColor({}, 'background');
   const iconColor = useThemeColor({}, 'icon');
@@ -76,6 +81,12 @@ export default function TripSummaryScreen() {
           console.log('[TripSummaryScreen] Using cached raw GPS data for unsynced trip');
           setTrip(cachedTrip.trip);
 
+          const queued = SyncService.getQueuedTrips().find(item => item.queueId === tripId);
+          if (queued) {
+            setSyncState(queued.recordedOffline ? 'offline' : 'queued');
+            setIsAnonymized(queued.anonymized ?? false);
+          }
+
           // Decode polyline string to coordinates
           console.log('[TripSummaryScreen] Cached trip geometry:', {
             hasGeometry: !!cachedTrip.trip.geometry,
@@ -361,7 +372,12 @@ export default function TripSummaryScreen() {
     }
   };
 
-  // Render header with back button
+  const handleExportPress = () => {
+    mediumImpact();
+    setShowExportModal(true);
+  };
+
+  // Render header with back button (and export button once the trip is loaded)
   const renderHeader = () => (
     <View style={styles.headerContainer}>
       <Pressable
@@ -376,6 +392,20 @@ export default function TripSummaryScreen() {
       >
         <Ionicons name="arrow-back" size={24} color={iconColor} />
       </Pressable>
+      {trip && !error && (
+        <Pressable
+          onPress={handleExportPress}
+          style={({ pressed }) => [
+            styles.backButton,
+            { backgroundColor },
+            pressed && styles.backButtonPressed,
+          ]}
+          accessibilityRole="button"
+          accessibilityLabel="Export trip"
+        >
+          <Ionicons name="share-outline" size={24} color={iconColor} />
+        </Pressable>
+      )}
     </View>
   );
 
@@ -400,6 +430,8 @@ export default function TripSummaryScreen() {
         onPress={handleTripCardPress}
         showDataRangerStats={isDataRangerMode}
         variant="drawer"
+        syncState={syncState}
+        anonymized={isAnonymized}
       />
     );
   };
@@ -451,24 +483,35 @@ export default function TripSummaryScreen() {
 
   // Main trip summary view
   return (
-    <BasemapLayout
-      ref={mapRef}
-      polylines={polyline ? [polyline] : []}
-      polygonOutlines={blockOutlines}
-      features={isDataRangerMode ? features : []}
-      featureEncounterTimestamp={trip.endTime || trip.startTime}
-      onRatingSubmit={isDataRangerMode ? handleRatingSubmit : undefined}
-      centerPosition={mapBounds?.centerCoordinate}
-      zoomLevel={mapBounds?.zoomLevel}
-      showUserLocation={false}
-      header={renderHeader()}
-      footer={renderFooter()}
-    />
+    <>
+      <BasemapLayout
+        ref={mapRef}
+        polylines={polyline ? [polyline] : []}
+        polygonOutlines={blockOutlines}
+        features={isDataRangerMode ? features : []}
+        featureEncounterTimestamp={trip.endTime || trip.startTime}
+        onRatingSubmit={isDataRangerMode ? handleRatingSubmit : undefined}
+        centerPosition={mapBounds?.centerCoordinate}
+        zoomLevel={mapBounds?.zoomLevel}
+        showUserLocation={false}
+        header={renderHeader()}
+        footer={renderFooter()}
+      />
+      {showExportModal && (
+        <TripExportModal
+          visible
+          trips={[{ tripId, label: `${trip.mode} trip`, pending: syncState !== undefined }]}
+          onClose={() => setShowExportModal(false)}
+        />
+      )}
+    </>
   );
 }
 
 const styles = StyleSheet.create({
   headerContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
     paddingTop: 50,
     paddingHorizontal: 16,
     paddingBottom: 12,
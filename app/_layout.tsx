@@ -10,6 +10,8 @@ import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import 'react-native-reanimated';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 
+// Registers the background location task at startup, before the OS delivers queued updates
+import '@/adapters/NativeAdapter';
 import { LoadingScreen } from '@/components/LoadingScreen';
 import { NetworkErrorScreen } from '@/components/NetworkErrorScreen';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
@@ -7,6 +7,8 @@
  *
  * Rating and segment editing are NOT handled here — they happen tacitly via
  * map taps (onRatingSubmit → DataRangerCallout, onSegmentPress → SegmentEditCallout).
+ * Undo/redo buttons above "+" step through the trip's edit history.
+ * Problems found by topology validation are listed in a card above the panel.
  */
 
 import { Colors, Fonts } from '@/constants/theme';
@@ -23,6 +25,7 @@ import React, {
 import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
 import type { FacilityType } from '@/services/types/NetworkSegment';
 import type { MapAdapter } from '@/services/rnMapboxAdapter';
+import type { TopologyIssue } from '@/services/utils/topologyValidation';
 
 // ---------------------------------------------------------------------------
 // Public types
@@ -38,6 +41,13 @@ export interface DataRangerToolPanelsProps {
   onNewSegmentRequest?: (facilityType: FacilityType) => void;
   /** Called when user confirms placement of a new point feature. */
   onAddNodeSubmit?: (subtype: 'ramp' | 'calm', coords: [number, number], attributes: Record<string, string>) => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  /** Errors and warnings from validating the last geometry edit. */
+  topologyIssues?: TopologyIssue[];
+  onDismissTopologyIssues?: () => void;
 }
 
 export interface DataRangerToolPanelsRef {
@@ -68,7 +78,7 @@ export const DataRangerToolPanels = forwardRef<
   DataRangerToolPanelsRef,
   DataRangerToolPanelsProps
 >(function DataRangerToolPanels(
-  { isDataRangerMode, onEditPreviewsChange, onNewSegmentRequest, onAddNodeSubmit },
+  { isDataRangerMode, onEditPreviewsChange, onNewSegmentRequest, onAddNodeSubmit, canUndo, canRedo, onUndo, onRedo, topologyIssues, onDismissTopologyIssues },
   ref,
 ) {
   const { colorScheme } = useTheme();
@@ -133,6 +143,25 @@ export const DataRangerToolPanels = forwardRef<
   return (
     <View style={styles.container} pointerEvents="box-none">
 
+      {/* Validation problems with the last geometry edit */}
+      {topologyIssues && topologyIssues.length > 0 && (
+        <View style={[styles.placementBar, { backgroundColor: panelBg, borderColor }]}>
+          {topologyIssues.map((issue, i) => (
+            <Text
+              key={`${issue.code}-${i}`}
+              style={[styles.issueText, { color: issue.severity === 'error' ? colors.error : textColor }]}
+            >
+              {issue.severity === 'error' ? '✕ ' : '⚠ '}{issue.message}
+            </Text>
+          ))}
+          {onDismissTopologyIssues && (
+            <Pressable style={[styles.cancelBtn, { borderColor }]} onPress={onDismissTopologyIssues}>
+              <Text style={[styles.cancelBtnText, { color: textColor }]}>Dismiss</Text>
+            </Pressable>
+          )}
+        </View>
+      )}
+
       {/* Placement hint + confirm/cancel when placing a node */}
       {isPlacingNode && (
         <View style={[styles.placementBar, { backgroundColor: panelBg, borderColor }]}>
@@ -249,8 +278,32 @@ export const DataRangerToolPanels = forwardRef<
           )}
         </View>
 
-        {/* Right: "+" toggle button */}
+        {/* Right: undo/redo and "+" toggle button */}
         <View style={styles.buttonColumn}>
+          {onUndo && onRedo && (
+            <View style={styles.historyRow}>
+              <Pressable
+                style={[styles.historyButton, { backgroundColor: panelBg, borderColor }, !canUndo && styles.historyButtonDisabled]}
+                onPress={onUndo}
+                disabled={!canUndo}
+                hitSlop={8}
+                accessibilityRole="button"
+                accessibilityLabel="Undo last edit"
+              >
+                <Text style={[styles.historyIcon, { color: textColor }]}>↶</Text>
+              </Pressable>
+              <Pressable
+                style={[styles.historyButton, { backgroundColor: panelBg, borderColor }, !canRedo && styles.historyButtonDisabled]}
+                onPress={onRedo}
+                disabled={!canRedo}
+                hitSlop={8}
+                accessibilityRole="button"
+                accessibilityLabel="Redo edit"
+              >
+                <Text style={[styles.historyIcon, { color: textColor }]}>↷</Text>
+              </Pressable>
+            </View>
+          )}
           <Pressable
             style={[
               styles.addButton,
@@ -318,6 +371,10 @@ const styles = StyleSheet.create({
     fontFamily: Fonts?.mono ?? undefined,
     textAlign: 'center',
   },
+  issueText: {
+    fontSize: 12,
+    fontFamily: Fonts?.mono ?? undefined,
+  },
   confirmRow: {
     flexDirection: 'row',
     gap: 8,
@@ -357,6 +414,26 @@ const styles = StyleSheet.create({
   buttonColumn: {
     gap: 8,
   },
+  historyRow: {
+    flexDirection: 'row',
+    width: 58,
+    justifyContent: 'space-between',
+  },
+  historyButton: {
+    width: 27,
+    height: 27,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  historyButtonDisabled: {
+    opacity: 0.4,
+  },
+  historyIcon: {
+    fontSize: 16,
+    lineHeight: 18,
+  },
   addButton: {
     width: 58,
     height: 58,
@@ -1,7 +1,7 @@
 import { MapBoxAdapter, MapStyles } from '@/adapters/MapBoxAdapter';
 import { Fonts } from '@/constants/theme';
 import { useThemeColor } from '@/hooks/use-theme-color';
-import { createRnMapboxAdapter, type RnMapboxAdapterInstance } from '@/services/rnMapboxAdapter';
+import { createRnMapboxAdapter, LTS_LINE_COLOR_EXPRESSION, type RnMapboxAdapterInstance } from '@/services/rnMapboxAdapter';
 import type { NetworkSegment, FacilityType } from '@/services/types/NetworkSegment';
 import React, { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
 import { ActivityIndicator, Platform, StyleSheet, Text, View } from 'react-native';
@@ -109,6 +109,8 @@ export interface MapViewComponentProps {
   onMapLongPress?: (coords: { longitude: number; latitude: number }) => void;
   /** GeoJSON point features to render as edit previews (e.g. pending add_node placement). */
   previewFeatures?: GeoJSON.Feature[];
+  /** Color sidewalks and bikeways by Level of Traffic Stress instead of geometry quality */
+  showLTS?: boolean;
 }
 
 // Default center (can be overridden by userPosition or centerPosition)
@@ -138,6 +140,7 @@ export const MapViewComponent = forwardRef<MapViewComponentRef, MapViewComponent
     onMapTap,
     onMapLongPress,
     previewFeatures,
+    showLTS = false,
   }, ref) => {
     const mapRef = useRef<any>(null);
     const [selectedFeature, setSelectedFeature] = useState<Feature | null>(null);
@@ -230,11 +233,15 @@ export const MapViewComponent = forwardRef<MapViewComponentRef, MapViewComponent
     const trafficCalmingFeatures: GeoJSON.Feature[] = [];
 
     for (const seg of segments) {
+      // LTS level per facility (set by DataRangerService.queryNearbySegments)
+      const ltsFor = (facility: FacilityType) =>
+        seg.lts?.facilities.find((f) => f.facility === facility)?.lts ?? null;
+
       // Street centerline
       if (seg.street.geometry) {
         streetFeatures.push({
           type: 'Feature',
-          properties: { streetGridId: seg.streetGridId, facilityType: 'street', name: seg.street.name },
+          properties: { streetGridId: seg.streetGridId, facilityType: 'street', name: seg.street.name, lts: ltsFor('street') },
           geometry: seg.street.geometry,
         });
       }
@@ -251,6 +258,7 @@ export const MapViewComponent = forwardRef<MapViewComponentRef, MapViewComponent
               facilityType: `sidewalk_${side}`,
               color,
               presence: sw.presence,
+              lts: ltsFor(`sidewalk_${side}`),
             },
             geometry: sw.geometry,
           });
@@ -291,7 +299,7 @@ export const MapViewComponent = forwardRef<MapViewComponentRef, MapViewComponent
           const color = bw.buffered === 'yes' ? '#90ee90' : '#006400';
           bikewayFeatures.push({
             type: 'Feature',
-            properties: { streetGridId: seg.streetGridId, facilityType: key, color },
+            properties: { streetGridId: seg.streetGridId, facilityType: key, color, lts: ltsFor(key) },
             geometry: bw.geometry,
           });
         }
@@ -323,7 +331,7 @@ export const MapViewComponent = forwardRef<MapViewComponentRef, MapViewComponent
         if (cw?.geometry) {
           crosswalkFeatures.push({
             type: 'Feature',
-            properties: { streetGridId: seg.streetGridId, facilityType: pos },
+            properties: { streetGridId: seg.streetGridId, facilityType: pos, lts: ltsFor(pos) },
             geometry: cw.geometry,
           });
         }
@@ -534,7 +542,7 @@ export const MapViewComponent = forwardRef<MapViewComponentRef, MapViewComponent
             <MapboxGL.LineLayer
               id="segment-sidewalks-layer"
               style={{
-                lineColor: ['get', 'color'],
+                lineColor: showLTS ? LTS_LINE_COLOR_EXPRESSION : ['get', 'color'],
                 lineWidth: 2,
                 lineCap: 'round',
                 lineJoin: 'round',
@@ -556,7 +564,7 @@ export const MapViewComponent = forwardRef<MapViewComponentRef, MapViewComponent
             <MapboxGL.LineLayer
               id="segment-bikeways-layer"
               style={{
-                lineColor: ['get', 'color'],
+                lineColor: showLTS ? LTS_LINE_COLOR_EXPRESSION : ['get', 'color'],
                 lineWidth: 2,
                 lineCap: 'round',
                 lineJoin: 'round',
@@ -0,0 +1,352 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, Modal, Pressable, ScrollView, StyleSheet, Switch, TouchableOpacity, View } from 'react-native';
+
+import { MobilityProfile, MobilitySettings } from '@/adapters/DatabaseAdapter';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Fonts } from '@/constants/theme';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { LTSService } from '@/services/LTSService';
+import { MIN_CALIBRATION_SAMPLES } from '@/services/utils/levelOfTrafficStress';
+import {
+  applyComfort,
+  DEFAULT_COMFORT,
+  getDefaultMobilitySettings,
+  MAX_COMFORT,
+  MIN_COMFORT,
+  resolveMobilitySettings,
+  SMOOTH_SURFACES,
+} from '@/services/utils/mobilityProfiles';
+
+/**
+ * Mobility Profile Modal
+ * Edits the mobility profile for one travel mode.
+ *
+ * Features:
+ * - Comfort level (1-10) that scales the mode defaults
+ * - Per-setting overrides: max incline, minimum width, smooth surfaces only,
+ *   curb ramps required, street riding and max street speed
+ * - Reset to defaults (clears overrides, comfort back to 5)
+ * - Calibrate the mode's traffic stress model from the user's rated trips
+ */
+
+const SPEED_OPTIONS = [15, 20, 25, 30, 35];
+const INCLINE_STEP = 0.5;
+const WIDTH_STEP = 0.05;
+
+interface MobilityProfileModalProps {
+  visible: boolean;
+  mode: string;
+  profile: MobilityProfile;
+  onSave: (profile: MobilityProfile) => void;
+  onClose: () => void;
+}
+
+export function MobilityProfileModal({ visible, mode, profile, onSave, onClose }: MobilityProfileModalProps) {
+  // Draft starts from the stored profile; the parent mounts the modal per edit
+  const [draft, setDraft] = useState<MobilityProfile>(profile);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+
+  const tintColor = useThemeColor({}, 'tint');
+  const iconColor = useThemeColor({}, 'icon');
+  const backgroundColor = useThemeColor({}, 'background');
+  const buttonPrimaryColor = useThemeColor({}, 'buttonPrimary');
+  const buttonTextColor = useThemeColor({}, 'buttonText');
+
+  const effective = resolveMobilitySettings(mode, draft);
+  const comfortSeeded = applyComfort(getDefaultMobilitySettings(mode), draft.comfort);
+
+  // Store a value as an override only if it differs from the comfort-scaled default
+  const setSetting = <K extends keyof MobilitySettings>(key: K, value: MobilitySettings[K]) => {
+    setDraft((prev) => {
+      const overrides = { ...prev.overrides };
+      if (JSON.stringify(comfortSeeded[key]) === JSON.stringify(value)) {
+        delete overrides[key];
+      } else {
+        overrides[key] = value;
+      }
+      return { ...prev, overrides };
+    });
+  };
+
+  const handleReset = () => {
+    setDraft({ comfort: DEFAULT_COMFORT, overrides: {} });
+  };
+
+  const handleCalibrate = async () => {
+    setIsCalibrating(true);
+    try {
+      const result = await LTSService.calibrateFromTrips(mode);
+      Alert.alert(
+        'Traffic Stress Model',
+        result.sampleCount >= MIN_CALIBRATION_SAMPLES
+          ? `Calibrated from ${result.sampleCount} matched segments from your ${mode} trips.`
+          : `Not enough matched ${mode} trips yet (${result.sampleCount} segments). Using default weights.`,
+      );
+    } catch (error) {
+      console.error('LTS calibration failed:', error);
+      Alert.alert('Error', 'Failed to calibrate from your trips. Please try again.');
+    } finally {
+      setIsCalibrating(false);
+    }
+  };
+
+  const renderStepper = (label: string, value: string, onDecrease: () => void, onIncrease: () => void) => (
+    <View style={styles.settingRow}>
+      <ThemedText style={styles.settingLabel}>{label}</ThemedText>
+      <View style={styles.stepper}>
+        <Pressable onPress={onDecrease} accessibilityLabel={`Decrease ${label}`} accessibilityRole="button">
+          <Ionicons name="remove-circle-outline" size={28} color={tintColor} />
+        </Pressable>
+        <ThemedText style={styles.stepperValue}>{value}</ThemedText>
+        <Pressable onPress={onIncrease} accessibilityLabel={`Increase ${label}`} accessibilityRole="button">
+          <Ionicons name="add-circle-outline" size={28} color={tintColor} />
+        </Pressable>
+      </View>
+    </View>
+  );
+
+  const renderSwitch = (label: string, value: boolean, onChange: (value: boolean) => void) => (
+    <View style={styles.settingRow}>
+      <ThemedText style={styles.settingLabel}>{label}</ThemedText>
+      <Switch
+        value={value}
+        onValueChange={onChange}
+        trackColor={{ false: '#767577', true: tintColor }}
+        thumbColor={value ? '#fff' : '#f4f3f4'}
+      />
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <ThemedView style={[styles.modalContent, { backgroundColor }]}>
+          <View style={styles.modalHeader}>
+            <ThemedText type="subtitle">{mode} Profile</ThemedText>
+            <Pressable onPress={onClose}>
+              <ThemedText type="link">Cancel</ThemedText>
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.modalBody}>
+            {/* Comfort Level */}
+            <View style={styles.labelRow}>
+              <ThemedText style={styles.label}>Comfort Level</ThemedText>
+              <ThemedText style={[styles.comfortValue, { color: tintColor }]}>{draft.comfort}/10</ThemedText>
+            </View>
+            <View style={styles.sliderContainer}>
+              {Array.from({ length: MAX_COMFORT - MIN_COMFORT + 1 }, (_, i) => i + MIN_COMFORT).map((value) => (
+                <TouchableOpacity
+                  key={value}
+                  style={[
+                    styles.sliderButton,
+                    { backgroundColor: draft.comfort >= value ? tintColor : backgroundColor, borderColor: iconColor },
+                  ]}
+                  onPress={() => setDraft((prev) => ({ ...prev, comfort: value }))}
+                  activeOpacity={0.7}
+                >
+                  <ThemedText
+                    style={styles.sliderButtonText}
+                    lightColor={draft.comfort >= value ? '#fff' : undefined}
+                    darkColor={draft.comfort >= value ? '#000' : undefined}
+                  >
+                    {value}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <ThemedText style={[styles.hint, { color: iconColor }]}>
+              Lower comfort avoids steeper, narrower and busier routes.
+            </ThemedText>
+
+            {/* Limits */}
+            {renderStepper(
+              'Max incline',
+              `${effective.maxInclinePct.toFixed(1)}%`,
+              () => setSetting('maxInclinePct', Math.max(INCLINE_STEP, effective.maxInclinePct - INCLINE_STEP)),
+              () => setSetting('maxInclinePct', effective.maxInclinePct + INCLINE_STEP),
+            )}
+            {renderStepper(
+              'Min sidewalk width',
+              `${effective.minWidthM.toFixed(2)} m`,
+              () => setSetting('minWidthM', Math.max(0, Math.round((effective.minWidthM - WIDTH_STEP) * 100) / 100)),
+              () => setSetting('minWidthM', Math.round((effective.minWidthM + WIDTH_STEP) * 100) / 100),
+            )}
+            {renderSwitch('Smooth surfaces only', effective.acceptableSurfaces !== null, (value) =>
+              setSetting('acceptableSurfaces', value ? SMOOTH_SURFACES : null),
+            )}
+            {renderSwitch('Curb ramps required', effective.missingCurbRampsBlock, (value) =>
+              setSetting('missingCurbRampsBlock', value),
+            )}
+
+            {/* Street traffic tolerance */}
+            {renderSwitch('Ride in the street', effective.allowStreet, (value) => setSetting('allowStreet', value))}
+            {effective.allowStreet && (
+              <View style={styles.speedSection}>
+                <ThemedText style={styles.settingLabel}>Max street speed</ThemedText>
+                <View style={styles.chipRow}>
+                  {SPEED_OPTIONS.map((speed) => {
+                    const isSelected = effective.maxStreetSpeedMph === speed;
+                    return (
+                      <TouchableOpacity
+                        key={speed}
+                        style={[
+                          styles.chip,
+                          { borderColor: isSelected ? tintColor : iconColor },
+                          isSelected && { backgroundColor: tintColor },
+                        ]}
+                        onPress={() => setSetting('maxStreetSpeedMph', speed)}
+                        activeOpacity={0.7}
+                      >
+                        <ThemedText
+                          style={styles.chipText}
+                          lightColor={isSelected ? '#fff' : undefined}
+                          darkColor={isSelected ? '#000' : undefined}
+                        >
+                          {speed} mph
+                        </ThemedText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+
+            <Pressable style={styles.resetButton} onPress={handleReset}>
+              <ThemedText type="link">Reset to defaults</ThemedText>
+            </Pressable>
+
+            <Pressable style={styles.resetButton} onPress={handleCalibrate} disabled={isCalibrating}>
+              {isCalibrating ? (
+                <ActivityIndicator color={tintColor} />
+              ) : (
+                <ThemedText type="link">Calibrate traffic stress from my trips</ThemedText>
+              )}
+            </Pressable>
+          </ScrollView>
+
+          <Pressable style={[styles.button, { backgroundColor: buttonPrimaryColor }]} onPress={() => onSave(draft)}>
+            <ThemedText style={[styles.buttonText, { color: buttonTextColor }]}>Save</ThemedText>
+          </Pressable>
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 40,
+    maxHeight: '85%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  modalBody: {
+    marginBottom: 20,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 16,
+    fontFamily: Fonts.semiBold,
+    fontWeight: '800',
+  },
+  comfortValue: {
+    fontSize: 18,
+    fontFamily: Fonts.bold,
+    fontWeight: '900',
+  },
+  sliderContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 4,
+  },
+  sliderButton: {
+    flex: 1,
+    aspectRatio: 1,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minWidth: 28,
+  },
+  sliderButtonText: {
+    fontSize: 12,
+    fontFamily: Fonts.semiBold,
+    fontWeight: '800',
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  settingLabel: {
+    flex: 1,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepperValue: {
+    minWidth: 64,
+    textAlign: 'center',
+    fontFamily: Fonts.semiBold,
+  },
+  speedSection: {
+    paddingVertical: 10,
+    gap: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  chipText: {
+    fontSize: 14,
+    fontFamily: Fonts.regular,
+  },
+  resetButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  button: {
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontWeight: '800',
+  },
+});
@@ -0,0 +1,283 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, Modal, Pressable, ScrollView, StyleSheet, Switch, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Fonts } from '@/constants/theme';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { ExportService } from '@/services/ExportService';
+import { TripExportFormat } from '@/services/utils/tripExport';
+import { mediumImpact } from '@/utils/haptics';
+
+/**
+ * Trip Export Modal
+ * Exports the user's own trips and hands the file to the share sheet.
+ *
+ * Features:
+ * - Trip selection (all selected by default; hidden for a single trip)
+ * - Format: GPX, GeoJSON or CSV
+ * - Opt-in to include unclipped routes (trips pending anonymization and
+ *   raw copies still cached on this device); clipped geometry otherwise
+ */
+
+export interface TripExportOption {
+  tripId: string;
+  label: string;
+  pending?: boolean; // Still in the sync queue — geometry not clipped yet
+}
+
+interface TripExportModalProps {
+  visible: boolean;
+  trips: TripExportOption[];
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { value: TripExportFormat; label: string }[] = [
+  { value: 'gpx', label: 'GPX' },
+  { value: 'geojson', label: 'GeoJSON' },
+  { value: 'csv', label: 'CSV' },
+];
+
+export function TripExportModal({ visible, trips, onClose }: TripExportModalProps) {
+  // Selection starts from all trips; the parent mounts the modal per export
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set(trips.map((t) => t.tripId)));
+  const [format, setFormat] = useState<TripExportFormat>('gpx');
+  const [includeUnclipped, setIncludeUnclipped] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const tintColor = useThemeColor({}, 'tint');
+  const iconColor = useThemeColor({}, 'icon');
+  const backgroundColor = useThemeColor({}, 'background');
+  const buttonPrimaryColor = useThemeColor({}, 'buttonPrimary');
+  const buttonTextColor = useThemeColor({}, 'buttonText');
+
+  const allSelected = selectedIds.size === trips.length;
+  const selectedPending = trips.filter((t) => t.pending && selectedIds.has(t.tripId)).length;
+
+  const toggleTrip = (tripId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(tripId)) next.delete(tripId);
+      else next.add(tripId);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(trips.map((t) => t.tripId)));
+  };
+
+  const handleExport = async () => {
+    mediumImpact();
+    setIsExporting(true);
+    try {
+      const result = await ExportService.exportTrips(
+        allSelected && trips.length > 1 ? 'all' : [...selectedIds],
+        { format, includeUnclipped },
+      );
+      if (result.skippedPendingCount > 0) {
+        Alert.alert(
+          'Some Trips Not Exported',
+          `${result.skippedPendingCount} trip(s) are still waiting to be anonymized and were left out. Include unclipped routes to export them.`,
+        );
+      }
+      onClose();
+    } catch (error) {
+      console.error('Trip export failed:', error);
+      Alert.alert('Export Failed', error instanceof Error ? error.message : 'Failed to export trips. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <ThemedView style={[styles.modalContent, { backgroundColor }]}>
+          <View style={styles.modalHeader}>
+            <ThemedText type="subtitle">{trips.length === 1 ? 'Export Trip' : 'Export Trips'}</ThemedText>
+            <Pressable onPress={onClose}>
+              <ThemedText type="link">Cancel</ThemedText>
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.modalBody}>
+            {/* Format */}
+            <ThemedText style={styles.label}>Format</ThemedText>
+            <View style={styles.chipRow}>
+              {FORMAT_OPTIONS.map((option) => {
+                const isSelected = format === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.chip,
+                      { borderColor: isSelected ? tintColor : iconColor },
+                      isSelected && { backgroundColor: tintColor },
+                    ]}
+                    onPress={() => setFormat(option.value)}
+                    activeOpacity={0.7}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected: isSelected }}
+                  >
+                    <ThemedText
+                      style={styles.chipText}
+                      lightColor={isSelected ? '#fff' : undefined}
+                      darkColor={isSelected ? '#000' : undefined}
+                    >
+                      {option.label}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {/* Privacy */}
+            <View style={styles.settingRow}>
+              <ThemedText style={styles.settingLabel}>Include unclipped routes</ThemedText>
+              <Switch
+                value={includeUnclipped}
+                onValueChange={setIncludeUnclipped}
+                trackColor={{ false: '#767577', true: tintColor }}
+                thumbColor={includeUnclipped ? '#fff' : '#f4f3f4'}
+              />
+            </View>
+            <ThemedText style={[styles.hint, { color: iconColor }]}>
+              {includeUnclipped
+                ? 'Routes recorded on this device that have not been anonymized yet will include your exact start and end locations.'
+                : 'Routes are exported with the start and end census blocks removed, as stored on the server.'}
+              {!includeUnclipped && selectedPending > 0 && ` ${selectedPending} pending trip(s) will be left out.`}
+            </ThemedText>
+
+            {/* Trip selection */}
+            {trips.length > 1 && (
+              <>
+                <View style={styles.labelRow}>
+                  <ThemedText style={styles.label}>Trips</ThemedText>
+                  <Pressable onPress={toggleAll}>
+                    <ThemedText type="link">{allSelected ? 'Select none' : 'Select all'}</ThemedText>
+                  </Pressable>
+                </View>
+                {trips.map((trip) => {
+                  const isSelected = selectedIds.has(trip.tripId);
+                  return (
+                    <Pressable
+                      key={trip.tripId}
+                      style={styles.tripRow}
+                      onPress={() => toggleTrip(trip.tripId)}
+                      accessibilityRole="checkbox"
+                      accessibilityState={{ checked: isSelected }}
+                    >
+                      <Ionicons name={isSelected ? 'checkbox' : 'square-outline'} size={24} color={tintColor} />
+                      <ThemedText style={styles.settingLabel}>{trip.label}</ThemedText>
+                      {trip.pending && <Ionicons name="cloud-upload-outline" size={18} color={iconColor} />}
+                    </Pressable>
+                  );
+                })}
+              </>
+            )}
+          </ScrollView>
+
+          <Pressable
+            style={[styles.button, { backgroundColor: buttonPrimaryColor }, selectedIds.size === 0 && styles.buttonDisabled]}
+            onPress={handleExport}
+            disabled={isExporting || selectedIds.size === 0}
+          >
+            {isExporting ? (
+              <ActivityIndicator color={buttonTextColor} />
+            ) : (
+              <ThemedText style={[styles.buttonText, { color: buttonTextColor }]}>
+                {trips.length === 1 ? 'Export' : `Export ${selectedIds.size} Trip(s)`}
+              </ThemedText>
+            )}
+          </Pressable>
+        </ThemedView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 40,
+    maxHeight: '85%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  modalBody: {
+    marginBottom: 20,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontFamily: Fonts.semiBold,
+    fontWeight: '800',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  chipText: {
+    fontSize: 14,
+    fontFamily: Fonts.regular,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    marginTop: 8,
+  },
+  settingLabel: {
+    flex: 1,
+  },
+  hint: {
+    fontSize: 12,
+    marginBottom: 12,
+  },
+  tripRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  button: {
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontWeight: '800',
+  },
+});
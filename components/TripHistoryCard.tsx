@@ -21,6 +21,7 @@ import { HistoryService } from '@/services/HistoryService';
  * - In DataRanger mode: shows features rated or segments corrected count
  * - Props-based styling for card vs drawer format
  * - Card variant shows polyline route preview in bottom half
+ * - Pending badge for trips still in the sync queue, and whether they are anonymized yet
  */
 
 const POLYLINE_HEIGHT = 80;
@@ -31,13 +32,19 @@ interface TripHistoryCardProps {
   onPress: () => void;
   showDataRangerStats?: boolean;
   variant?: 'card' | 'drawer';
+  /** Set for trips still in the sync queue: 'offline' if recorded without connectivity */
+  syncState?: 'offline' | 'queued';
+  /** Queued trip already clipped on-device */
+  anonymized?: boolean;
 }
 
 export function TripHistoryCard({
   trip,
   onPress,
   showDataRangerStats = false,
-  variant = 'card'
+  variant = 'card',
+  syncState,
+  anonymized = false,
 }: TripHistoryCardProps) {
   const backgroundColor = useThemeColor({}, 'background');
   const tintColor = useThemeColor({}, 'tint');
@@ -162,6 +169,11 @@ export function TripHistoryCard({
   const dayTypeLabel = formatDayType(trip.weekday);
   const isDrawer = variant === 'drawer';
   const modeColor = getModeColor(trip.mode);
+  const syncLabel = syncState === 'offline'
+    ? `Recorded offline · ${anonymized ? 'Anonymized' : 'Pending anonymization'}`
+    : syncState === 'queued'
+      ? `Pending sync · ${anonymized ? 'Anonymized' : 'Pending anonymization'}`
+      : null;
 
   return (
     <Pressable
@@ -173,7 +185,9 @@ export function TripHistoryCard({
         pressed && styles.pressed,
       ]}
       accessibilityRole="button"
-      accessibilityLabel={`${trip.purpose} trip, ${trip.mode}, ${timeOfDayLabel} on ${dayTypeLabel}, ${formatDuration(trip.durationS ?? 0)} duration`}
+      accessibilityLabel={syncLabel
+        ? `${trip.purpose} trip, ${trip.mode}, ${syncLabel}, ${formatDuration(trip.durationS ?? 0)} duration`
+        : `${trip.purpose} trip, ${trip.mode}, ${timeOfDayLabel} on ${dayTypeLabel}, ${formatDuration(trip.durationS ?? 0)} duration`}
     >
       <View style={styles.header}>
         <View style={styles.modeContainer}>
@@ -184,9 +198,23 @@ export function TripHistoryCard({
             <ThemedText type="defaultSemiBold" style={styles.mode}>
               {trip.mode} • {trip.purpose}
             </ThemedText>
-            <ThemedText style={styles.dateTime}>
-              {timeOfDayLabel} • {dayTypeLabel}
-            </ThemedText>
+            {syncLabel ? (
+              <View style={styles.syncBadge}>
+                <Ionicons
+                  name={syncState === 'offline' ? 'cloud-offline-outline' : 'cloud-upload-outline'}
+                  size={12}
+                  color={tintColor}
+                  style={styles.statIcon}
+                />
+                <ThemedText style={[styles.dateTime, { color: tintColor, opacity: 1 }]}>
+                  {syncLabel}
+                </ThemedText>
+              </View>
+            ) : (
+              <ThemedText style={styles.dateTime}>
+                {timeOfDayLabel} • {dayTypeLabel}
+              </ThemedText>
+            )}
           </View>
         </View>
         <Ionicons name="chevron-forward" size={20} color={iconColor} />
@@ -322,6 +350,10 @@ const styles = StyleSheet.create({
     fontFamily: Fonts.regular,
     opacity: 0.7,
   },
+  syncBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   statsContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
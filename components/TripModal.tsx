@@ -7,6 +7,8 @@
  * - Trip Purpose input
  * - Start Trip button (activates trip recording)
  * - Orphaned trip detection and resume/end options
+ * - Import mode: the same mode/comfort/purpose fields for a trip imported
+ *   from a GPX/GeoJSON file
  *
  * Props:
  * - visible: boolean to control modal visibility
@@ -14,12 +16,14 @@
  * - onStartTrip: callback with trip parameters when user starts trip
  * - onResumeTrip: callback when user resumes an orphaned trip
  * - onEndOrphanedTrip: callback when user ends an orphaned trip
+ * - importMode: collect trip details for imported tracks (onStartTrip receives them)
  */
 
 import { Colors, Fonts } from '@/constants/theme';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { OrphanedTripInfo, TripService } from '@/services/TripService';
+import { haversineDistance } from '@/services/utils/geoDistance';
 import { mediumImpact, selectionFeedback, successNotification, warningNotification } from '@/utils/haptics';
 import React, { useEffect, useState } from 'react';
 import {
@@ -54,9 +58,13 @@ export interface TripModalProps {
   postTripMode?: boolean;
   /** Called when user completes the post-trip survey */
   onPostTripComplete?: (result: PostTripResult) => void;
+  /** When true, collects details for imported tracks instead of starting a trip */
+  importMode?: boolean;
+  /** Number of tracks being imported (import mode title/button) */
+  importTrackCount?: number;
 }
 
-export function TripModal({ visible, onClose, onStartTrip, onResumeTrip, onEndOrphanedTrip, postTripMode, onPostTripComplete }: TripModalProps) {
+export function TripModal({ visible, onClose, onStartTrip, onResumeTrip, onEndOrphanedTrip, postTripMode, onPostTripComplete, importMode, importTrackCount = 1 }: TripModalProps) {
   const { user } = useAuth();
   const { colorScheme } = useTheme();
   const colors = Colors[colorScheme];
@@ -77,12 +85,12 @@ export function TripModal({ visible, onClose, onStartTrip, onResumeTrip, onEndOr
   // Get user's mode list, default to common modes if not available
   const modeList = user?.modeList || ['wheelchair', 'skateboard', 'walking', 'scooter', 'assisted walking'];
 
-  // Check for orphaned trips when modal becomes visible (skip in post-trip mode)
+  // Check for orphaned trips when modal becomes visible (skip in post-trip and import modes)
   useEffect(() => {
-    if (visible && !postTripMode) {
+    if (visible && !postTripMode && !importMode) {
       checkForOrphanedTrips();
     }
-  }, [visible, postTripMode]);
+  }, [visible, postTripMode, importMode]);
 
   const checkForOrphanedTrips = async () => {
     setIsCheckingOrphans(true);
@@ -212,15 +220,7 @@ export function TripModal({ visible, onClose, onStartTrip, onResumeTrip, onEndOr
       const [lon1, lat1] = coordinates[i];
       const [lon2, lat2] = coordinates[i + 1];
 
-      // Haversine formula (simplified)
-      const R = 6371000; // Earth's radius in meters
-      const dLat = (lat2 - lat1) * Math.PI / 180;
-      const dLon = (lon2 - lon1) * Math.PI / 180;
-      const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-                Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-                Math.sin(dLon/2) * Math.sin(dLon/2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-      totalMeters += R * c;
+      totalMeters += haversineDistance(lat1, lon1, lat2, lon2);
     }
 
     return (totalMeters / 1609.34).toFixed(2); // Convert to miles
@@ -243,11 +243,13 @@ export function TripModal({ visible, onClose, onStartTrip, onResumeTrip, onEndOr
             <ThemedText style={styles.title}>
               {postTripMode
                 ? 'Trip Complete'
-                : isCheckingOrphans
-                  ? 'Checking...'
-                  : orphanedTrip
-                    ? 'Trip In Progress'
-                    : 'Start New Trip'}
+                : importMode
+                  ? (importTrackCount > 1 ? `Import ${importTrackCount} Trips` : 'Import Trip')
+                  : isCheckingOrphans
+                    ? 'Checking...'
+                    : orphanedTrip
+                      ? 'Trip In Progress'
+                      : 'Start New Trip'}
             </ThemedText>
             {!postTripMode && (
               <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
@@ -621,7 +623,7 @@ export function TripModal({ visible, onClose, onStartTrip, onResumeTrip, onEndOr
                   activeOpacity={0.8}
                 >
                   <ThemedText style={[styles.startButtonText, { color: (selectedMode && purpose) ? colors.buttonText : (colorScheme === 'dark' ? '#000000' : '#FFFFFF') }]}>
-                    Start Trip
+                    {importMode ? 'Import' : 'Start Trip'}
                   </ThemedText>
                 </TouchableOpacity>
               </View>
@@ -1,4 +1,7 @@
 import { DataRangerService } from '@/services/DataRangerService';
+import { OutboxService } from '@/services/OutboxService';
+import { RegionPackService } from '@/services/RegionPackService';
+import { DownloadProgress } from '@/services/utils/downloadProgress';
 import React, { createContext, ReactNode, useContext, useEffect, useRef, useState } from 'react';
 import { InteractionManager } from 'react-native';
 import { useAuth } from './AuthContext';
@@ -9,12 +12,20 @@ import { useAuth } from './AuthContext';
 // Manages DataRanger mode state and proximity network initialization.
 // When DataRanger mode is enabled, downloads and caches the proximity
 // parquet from Supabase Storage, checking for updates on app launch.
+// Also exposes how many DataRanger writes are still waiting in the outbox,
+// region pack download progress, and which packs failed checksum or
+// schema verification.
 
 interface DataRangerContextType {
   isDataRangerMode: boolean;
   isInitializing: boolean;
   isReady: boolean;
   error: string | null;
+  integrityErrors: Record<string, string>; // Pack id → why its download was refused
+  downloads: DownloadProgress[]; // Region pack downloads running or paused
+  pendingWriteCount: number; // Ratings and edits not yet uploaded
+  failedWriteCount: number; // Writes that reached the retry limit
+  retryPendingWrites: () => Promise<void>;
 }
 
 const DataRangerContext = createContext<DataRangerContextType | undefined>(undefined);
@@ -24,11 +35,49 @@ export function DataRangerProvider({ children }: { children: ReactNode }) {
   const [isInitializing, setIsInitializing] = useState(false);
   const [isReady, setIsReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [integrityErrors, setIntegrityErrors] = useState<Record<string, string>>({});
+  const [downloads, setDownloads] = useState<DownloadProgress[]>([]);
+  const [pendingWriteCount, setPendingWriteCount] = useState(0);
+  const [failedWriteCount, setFailedWriteCount] = useState(0);
   const taskRef = useRef<ReturnType<typeof InteractionManager.runAfterInteractions> | null>(null);
 
   // DataRanger mode comes from user profile
   const isDataRangerMode = user?.dataRangerMode ?? false;
 
+  // Flush queued writes for any signed-in user, even with DataRanger mode
+  // turned off, so edits made earlier are not stranded on the device
+  useEffect(() => {
+    if (!user) return;
+
+    OutboxService.initialize().catch((err) => {
+      console.error('[DataRangerContext] Outbox initialization error:', err);
+    });
+    const unsubscribe = OutboxService.subscribe((status) => {
+      setPendingWriteCount(status.pendingCount);
+      setFailedWriteCount(status.failedCount);
+    });
+
+    return unsubscribe;
+  }, [user]);
+
+  // A pack that fails verification keeps its previous build (if any);
+  // the error stays until the pack installs cleanly or is removed
+  useEffect(() => {
+    return RegionPackService.onPackChange((change) => {
+      setIntegrityErrors((current) => {
+        if (change.kind === 'failed') return { ...current, [change.packId]: change.error.message };
+        if (!(change.packId in current)) return current;
+        const next = { ...current };
+        delete next[change.packId];
+        return next;
+      });
+    });
+  }, []);
+
+  useEffect(() => {
+    return RegionPackService.onDownloadProgress(setDownloads);
+  }, []);
+
   useEffect(() => {
     // Cancel any pending deferred task when dependencies change
     taskRef.current?.cancel();
@@ -85,6 +134,11 @@ export function DataRangerProvider({ children }: { children: ReactNode }) {
         isInitializing,
         isReady,
         error,
+        integrityErrors,
+        downloads,
+        pendingWriteCount,
+        failedWriteCount,
+        retryPendingWrites: () => OutboxService.retry(),
       }}
     >
       {children}
@@ -29,6 +29,7 @@ interface MapState {
   onFeaturePress?: (feature: Feature) => void;
   segments: NetworkSegment[];
   previewFeatures: GeoJSON.Feature[];
+  showLTS: boolean;
   userPosition: [number, number] | null;
   onSegmentPress?: (segment: NetworkSegment, facilityType: FacilityType) => void;
   onMapTap?: (coords: { longitude: number; latitude: number }) => void;
@@ -59,6 +60,7 @@ const DEFAULT_MAP_STATE: MapState = {
   onFeaturePress: undefined,
   segments: [],
   previewFeatures: [],
+  showLTS: false,
   userPosition: null,
   onSegmentPress: undefined,
   onMapTap: undefined,
@@ -6,6 +6,20 @@
  * This script uploads curb_ramps.geojson and sidewalks.geojson to Supabase Storage
  * and updates the asset_metadata table with version information.
  * 
+ * For the proximity network, set PROXIMITY_CELLS_DIR to the pipeline's
+ * per-cell output (one <col>_<row>.parquet per grid cell plus
+ * grid_origin.json) to also publish cell chunks and a manifest, so the
+ * app can fetch only the cells that changed.
+ *
+ * Assets with a regionPackId also bump that pack's version and size in
+ * the region_packs catalog, which is what the app checks for updates.
+ * Each file's SHA-256 and schema version are recorded alongside, so the
+ * app can verify what it downloaded.
+ *
+ * Census block polygons for each pack go in the pack's asset folder as
+ * census_blocks.geojson, where the app downloads them to clip trips
+ * on-device. Set CENSUS_BLOCKS_PATH to the GeoJSON from BlocksToJSON.py.
+ *
  * Usage:
  *   node scripts/upload-dataranger-assets.js
  * 
@@ -17,6 +31,7 @@
  */
 
 const { createClient } = require('@supabase/supabase-js');
+const crypto = require('crypto');
 const fs = require('fs');
 const path = require('path');
 require('dotenv').config();
@@ -32,11 +47,67 @@ const ASSETS = [
     name: 'ProximityNetwork',
     localPath: process.env.PROXIMITY_PARQUET_PATH || 'C:/Dev/Proximity/Output/San_Francisco_County_California_USA_network.parquet',
     remotePath: 'San_Francisco_County_California_USA_network.parquet',
+    cellsDir: process.env.PROXIMITY_CELLS_DIR,
+    remoteCellsFolder: 'San_Francisco_County_California_USA_network',
+    regionPackId: 'san-francisco-ca',
+    // Matches PARQUET_SCHEMA_VERSION in services/utils/parquetIntegrity.ts
+    schemaVersion: parseInt(process.env.PROXIMITY_SCHEMA_VERSION || '1', 10),
     contentType: 'application/octet-stream',
     description: 'Proximity graph network parquet — all segment/feature data (streets, sidewalks, bikeways, curb ramps)',
   },
+  {
+    name: 'CensusBlocks_san-francisco-ca',
+    localPath: process.env.CENSUS_BLOCKS_PATH || 'assets/data/Blocks.geojson',
+    remotePath: 'San_Francisco_County_California_USA_network/census_blocks.geojson',
+    contentType: 'application/geo+json',
+    description: 'Census block polygons (GEOID20) for on-device trip clipping in the San Francisco region pack',
+  },
 ];
 
+/**
+ * Upload per-cell chunks by content hash and the manifest listing them.
+ * Chunks already in storage are skipped, so only changed cells are uploaded.
+ */
+async function uploadCellChunks(supabase, asset, version) {
+  const cellsDir = path.resolve(asset.cellsDir);
+  const origin = JSON.parse(fs.readFileSync(path.join(cellsDir, 'grid_origin.json'), 'utf8'));
+  const cellFiles = fs.readdirSync(cellsDir).filter((name) => /^-?\d+_-?\d+\.parquet$/.test(name));
+
+  const cells = {};
+  let uploaded = 0;
+  for (const name of cellFiles) {
+    const buffer = fs.readFileSync(path.join(cellsDir, name));
+    const sha256 = crypto.createHash('sha256').update(buffer).digest('hex');
+    cells[name.replace('.parquet', '')] = { sha256, bytes: buffer.length };
+
+    const { error } = await supabase.storage
+      .from(BUCKET_NAME)
+      .upload(`${asset.remoteCellsFolder}/cells/${sha256}.parquet`, buffer, {
+        contentType: 'application/octet-stream',
+        upsert: false, // Same hash, same content
+      });
+    if (!error) {
+      uploaded++;
+    } else if (!/exists/i.test(error.message)) {
+      throw new Error(`Chunk upload failed for ${name}: ${error.message}`);
+    }
+  }
+
+  const manifest = { version, grid_origin: origin, cells };
+  const { error: manifestError } = await supabase.storage
+    .from(BUCKET_NAME)
+    .upload(`${asset.remoteCellsFolder}/manifest.json`, JSON.stringify(manifest), {
+      contentType: 'application/json',
+      upsert: true,
+      cacheControl: '60',
+    });
+  if (manifestError) {
+    throw new Error(`Manifest upload failed: ${manifestError.message}`);
+  }
+
+  console.log(`   ✅ Uploaded ${uploaded} new of ${cellFiles.length} cell chunks and the manifest`);
+}
+
 async function uploadAssets() {
   // Validate environment
   if (!SUPABASE_URL || !SUPABASE_KEY) {
@@ -64,11 +135,13 @@ async function uploadAssets() {
       // Read file
       const fileBuffer = fs.readFileSync(fullPath);
       const fileSizeBytes = fileBuffer.length;
+      const sha256 = crypto.createHash('sha256').update(fileBuffer).digest('hex');
       const fileSizeMB = (fileSizeBytes / 1024 / 1024).toFixed(2);
 
       console.log(`📦 Uploading ${asset.name}...`);
       console.log(`   File: ${asset.localPath}`);
       console.log(`   Size: ${fileSizeMB} MB`);
+      console.log(`   SHA-256: ${sha256}`);
 
       // Upload to Supabase Storage
       const { data: uploadData, error: uploadError } = await supabase.storage
@@ -85,13 +158,22 @@ async function uploadAssets() {
 
       console.log(`   ✅ Uploaded to storage: ${asset.remotePath}`);
 
+      // The manifest goes up before the metadata, so clients that see the
+      // new version can find it
+      const version = new Date().toISOString();
+      if (asset.cellsDir) {
+        await uploadCellChunks(supabase, asset, version);
+      }
+
       // Update asset_metadata table
       const { error: metadataError } = await supabase
         .from('asset_metadata')
         .upsert({
           asset_name: asset.name,
-          last_updated: new Date().toISOString(),
+          last_updated: version,
           file_size_bytes: fileSizeBytes,
+          sha256,
+          schema_version: asset.schemaVersion ?? null,
           description: asset.description,
         });
 
@@ -101,6 +183,24 @@ async function uploadAssets() {
         console.log(`   ✅ Updated metadata table`);
       }
 
+      if (asset.regionPackId) {
+        const { error: packError } = await supabase
+          .from('region_packs')
+          .update({
+            last_updated: version,
+            size_bytes: fileSizeBytes,
+            sha256,
+            schema_version: asset.schemaVersion ?? null,
+          })
+          .eq('id', asset.regionPackId);
+
+        if (packError) {
+          console.error(`   ⚠️  Region pack update failed: ${packError.message}`);
+        } else {
+          console.log(`   ✅ Updated region pack ${asset.regionPackId}`);
+        }
+      }
+
       console.log('');
     } catch (error) {
       console.error(`   ❌ Error processing ${asset.name}:`, error.message);
@@ -0,0 +1,173 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+
+import { DataService, RegionPack } from '@/adapters/DatabaseAdapter';
+import {
+  buildCensusBlockIndex,
+  CensusBlockIndex,
+  CensusBlocksUnavailableError,
+  EndpointArea,
+  findBlockForPoint,
+  generalizeBlock,
+  parseCensusBlocks,
+} from '@/services/utils/censusBlocks';
+import { getPacksForBbox } from '@/services/utils/regionPacks';
+
+// ═══════════════════════════════════════════════════════════
+// CENSUS BLOCK SERVICE
+// ═══════════════════════════════════════════════════════════
+// Resolves which census block contains a point, on the device. SyncService
+// uses it to find a trip's origin and destination blocks for clipping, so
+// exact start and end points are never sent to the server, and the region
+// a trip starts in, whose time zone and holiday calendar its start time is
+// binned in.
+//
+// Blocks are published per region pack, as census_blocks.geojson in the
+// pack's asset folder. The file for a region is downloaded the first time
+// a point in it is looked up — the request names the region, never the
+// point — and kept under census_blocks/<packId>.geojson. The region pack
+// catalog is cached too, so lookups in downloaded regions work offline.
+// These files are kept whether or not DataRanger mode is on, and apart
+// from the proximity packs.
+
+// --- Constants ---
+
+const BLOCKS_DIR = 'census_blocks';
+const BLOCKS_ASSET_PATH = 'census_blocks.geojson'; // Within the pack's asset folder
+const STORAGE_KEY_CATALOG = '@census/regionCatalog';
+
+// --- Census Block Service Class ---
+
+class CensusBlockServiceClass {
+  private catalog: RegionPack[] | null = null;
+  private indexes: Map<string, CensusBlockIndex> = new Map();
+  // Joined by concurrent lookups, so a region is never downloaded twice at once
+  private loading: Map<string, Promise<CensusBlockIndex>> = new Map();
+
+  /**
+   * The census block containing a WGS-84 point — or, with `minBlocks`
+   * above 1, the block group or tract around it holding at least that
+   * many blocks. Null if no published region covers the point.
+   *
+   * @throws CensusBlocksUnavailableError if the region's blocks aren't on
+   *   the device and can't be downloaded now
+   */
+  async findArea(lon: number, lat: number, minBlocks: number = 1): Promise<EndpointArea | null> {
+    const packs = getPacksForBbox(await this.getCatalog(), { minLon: lon, minLat: lat, maxLon: lon, maxLat: lat });
+    for (const pack of packs) {
+      const index = await this.getIndex(pack);
+      const block = findBlockForPoint(index, lon, lat);
+      if (block) return generalizeBlock(index, block, minBlocks);
+    }
+    return null;
+  }
+
+  /**
+   * The region pack covering a WGS-84 point, for its time zone and
+   * holiday calendar. Null if no published region covers the point.
+   *
+   * @throws CensusBlocksUnavailableError if the region catalog has never
+   *   been downloaded
+   */
+  async findRegion(lon: number, lat: number): Promise<RegionPack | null> {
+    const [pack] = getPacksForBbox(await this.getCatalog(), { minLon: lon, minLat: lat, maxLon: lon, maxLat: lat });
+    if (!pack) return null;
+    // Catalogs cached before time zones were published lack the fields
+    return { ...pack, timeZone: pack.timeZone ?? null, holidayCalendar: pack.holidayCalendar ?? null };
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // Catalog
+  // ═══════════════════════════════════════════════════════════
+
+  /**
+   * Region packs, fetched once per launch and cached for offline use.
+   */
+  private async getCatalog(): Promise<RegionPack[]> {
+    if (this.catalog) return this.catalog;
+
+    try {
+      this.catalog = await DataService.getRegionPacks();
+      await AsyncStorage.setItem(STORAGE_KEY_CATALOG, JSON.stringify(this.catalog));
+      return this.catalog;
+    } catch (error) {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY_CATALOG);
+      if (!stored) {
+        throw new CensusBlocksUnavailableError('Region catalog has not been downloaded yet');
+      }
+      console.log('[CensusBlockService] Using cached region catalog:', error);
+      // Not kept, so the next lookup tries the server again
+      return JSON.parse(stored) as RegionPack[];
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // Block files
+  // ═══════════════════════════════════════════════════════════
+
+  private getIndex(pack: RegionPack): Promise<CensusBlockIndex> {
+    const index = this.indexes.get(pack.id);
+    if (index) return Promise.resolve(index);
+
+    const pending = this.loading.get(pack.id);
+    if (pending) return pending;
+
+    const load = this.loadIndex(pack)
+      .then((loaded) => {
+        this.indexes.set(pack.id, loaded);
+        return loaded;
+      })
+      .finally(() => {
+        this.loading.delete(pack.id);
+      });
+    this.loading.set(pack.id, load);
+    return load;
+  }
+
+  /**
+   * Read a region's blocks from disk, downloading them first if needed.
+   * A region whose catalog entry says it publishes no blocks gets an empty
+   * index; a missing file in any other region is an outage, not a sign that
+   * its trips can go unclipped.
+   */
+  private async loadIndex(pack: RegionPack): Promise<CensusBlockIndex> {
+    // Catalogs cached before the flag was published lack it
+    if (pack.hasCensusBlocks === false) {
+      return buildCensusBlockIndex([]);
+    }
+
+    const file = new File(Paths.document, BLOCKS_DIR, `${pack.id}.geojson`);
+
+    if (file.exists) {
+      try {
+        return buildCensusBlockIndex(parseCensusBlocks(JSON.parse(await file.text())));
+      } catch (error) {
+        console.warn(`[CensusBlockService] Census blocks for ${pack.id} unreadable, downloading again:`, error);
+        file.delete();
+      }
+    }
+
+    let resp: Response;
+    try {
+      resp = await fetch(DataService.getProximityFileUrl(pack.assetName, BLOCKS_ASSET_PATH));
+    } catch (error) {
+      throw new CensusBlocksUnavailableError(`Census blocks for ${pack.id} could not be downloaded: ${error}`);
+    }
+    if (!resp.ok) {
+      throw new CensusBlocksUnavailableError(`HTTP ${resp.status} downloading census blocks for ${pack.id}`);
+    }
+
+    const text = await resp.text();
+    const blocks = parseCensusBlocks(JSON.parse(text));
+
+    const directory = new Directory(Paths.document, BLOCKS_DIR);
+    if (!directory.exists) directory.create({ intermediates: true });
+    file.write(text);
+
+    console.log(`[CensusBlockService] Downloaded ${blocks.length} census blocks for ${pack.id}`);
+    return buildCensusBlockIndex(blocks);
+  }
+}
+
+// Export singleton instance
+export const CensusBlockService = new CensusBlockServiceClass();
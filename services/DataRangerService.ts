@@ -1,12 +1,20 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { File, Paths } from 'expo-file-system';
 
 import { DataService, RatedFeature, FeatureEdit } from '@/adapters/DatabaseAdapter';
 import { Feature } from '@/components/MapViewComponent';
-import type { NetworkSegment, SegmentEdit, FacilityType, CurbRampSlot, GeometryEditPayload, GeometryEditRecord } from '@/services/types/NetworkSegment';
+import type { NetworkSegment, SegmentEdit, CurbRampSlot, GeometryEditPayload, GeometryEditRecord, SegmentLTS } from '@/services/types/NetworkSegment';
+import { OutboxService } from '@/services/OutboxService';
+import { FileAsyncBuffer, RegionPackChange, RegionPackService, RegionPackState } from '@/services/RegionPackService';
 import type { MapAdapter } from '@/services/rnMapboxAdapter';
+import { getLTSWeights, LTSWeights, scoreSegmentLTS } from '@/services/utils/levelOfTrafficStress';
+import { amendGeometryEdit, ConflictResolution, EditConflict, mergeConflicts, rebaseGeometryEdit } from '@/services/utils/editConflicts';
+import { EditHistory, EditHistorySnapshot } from '@/services/utils/editHistory';
+import { applyEditOverlay, isSegmentEditInBuild } from '@/services/utils/editOverlay';
+import { haversineDistance } from '@/services/utils/geoDistance';
 import { SegmentSpatialGrid } from '@/services/utils/SegmentSpatialGrid';
+import { hasTopologyErrors, TopologyIssue, TopologyValidationError, validateGeometryEdit } from '@/services/utils/topologyValidation';
 import { getRenderColumns, rowToNetworkSegment } from '@/services/utils/parquetToSegments';
+import { BBox, packCellKey } from '@/services/utils/regionPacks';
 import { bboxToGridCells } from '@/services/utils/wgs84ToUtm';
 import { canGradeTrip } from '@/utils/timeValidation';
 
@@ -16,9 +24,43 @@ import { canGradeTrip } from '@/utils/timeValidation';
 // Manages proximity network segments, curb ramp querying, rating
 // orchestration, and segment correction for DataRanger mode.
 //
-// All feature and segment data comes from the Proximity parquet
-// downloaded from Supabase Storage. Curb ramps are extracted as
-// point features from segments with segment_type === 'curb_ramp'.
+// All feature and segment data comes from the Proximity parquets of the
+// region packs the user has installed (RegionPackService). Cells are read
+// on demand from every pack covering the viewport. Curb ramps are
+// extracted as point features from segments with segment_type === 'curb_ramp'.
+//
+// The user's pending segment and geometry edits are kept on-device and
+// replayed over every loaded cell (utils/editOverlay), so the segments
+// served here are the parquet plus the user's not-yet-applied work.
+// Geometry edits are checked against that view before they are queued
+// (utils/topologyValidation).
+//
+// Edits the server rejects or flags as conflicting are kept in a conflict
+// inbox on-device until the user re-applies, amends or withdraws them
+// (utils/editConflicts); resolutions go out through the outbox.
+//
+// Edits made during a trip (attribute, geometry, ratings, new points) are
+// recorded in a per-trip undo/redo history. Undo reverts the overlay and
+// retracts the queued write, or queues a compensating one if it was sent.
+
+// --- Types ---
+
+/** An undoable DataRanger edit, as recorded in the trip's edit history. */
+export type EditCommand =
+  | { kind: 'segment_edit'; edit: SegmentEdit & { id: string; createdAt: string } }
+  | { kind: 'geometry_edit'; record: GeometryEditRecord }
+  | {
+      kind: 'rating';
+      rating: Omit<RatedFeature, 'id' | 'imageUrl'>;
+      previousRating: number | null; // Shown on the marker before this rating
+      outboxId: string;
+      imageItemId?: string; // Photos aren't re-attached on redo
+    };
+
+export interface EditHistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+}
 
 // --- Error Messages ---
 
@@ -32,6 +74,8 @@ const ERROR_MESSAGES = {
   NOT_INITIALIZED: 'DataRanger service is not initialized',
   FEATURE_QUERY_FAILED: 'Failed to query nearby features',
   GRADING_WINDOW_EXPIRED: 'Features can only be graded within 6 hours of trip completion',
+  CONFLICT_TARGET_GONE: 'The features this edit changed are no longer in the network. Amend or withdraw it instead.',
+  CONFLICT_NOT_AMENDABLE: 'This edit can only be re-applied or withdrawn',
 };
 
 // --- DataRanger Service ---
@@ -43,21 +87,18 @@ class DataRangerServiceClass {
   private readonly MAX_RESULTS = 50;
   private readonly DEFAULT_RADIUS_M = 50;
 
-  // Storage paths
-  private readonly PARQUET_FILE_NAME = 'proximity_network.parquet';
-  private readonly GRID_INDEX_FILE_NAME = 'proximity_grid_index.json';
-  private readonly PROXIMITY_VERSION_KEY = '@proximity/version';
+  // Storage keys
   private readonly PENDING_GEOMETRY_EDITS_KEY = '@dataranger/pendingGeometryEdits';
+  private readonly PENDING_SEGMENT_EDITS_KEY = '@dataranger/pendingSegmentEdits';
+  private readonly EDIT_HISTORY_KEY = '@dataranger/editHistory';
+  private readonly PENDING_FEATURE_EDITS_KEY = '@dataranger/pendingFeatureEdits';
+  private readonly EDIT_CONFLICTS_KEY = '@dataranger/editConflicts';
 
-  // Chunked read batch size — keeps per-call allocation under ~4 MB
-  private readonly INDEX_BUILD_BATCH_SIZE = 2000;
-
-  // Parquet state (lazy loading)
-  private parquetFile: InstanceType<typeof File> | null = null;
-  private gridOrigin: { x: number; y: number; cellSize: number } | null = null;
-  private gridCellIndex: Map<string, Set<number>> | null = null; // "col_row" → row group indices
+  // Parquet state (lazy loading); cells are keyed by packCellKey()
   private loadedCells: Map<string, NetworkSegment[]> = new Map();
   private loadingCells: Set<string> = new Set();
+  private unsubscribePackChanges: (() => void) | null = null;
+  private unsubscribeWriteSent: (() => void) | null = null;
   private segments: NetworkSegment[] = [];
   private segmentIndex: SegmentSpatialGrid | null = null;
   private segmentMap: Map<string, NetworkSegment> = new Map();
@@ -66,6 +107,22 @@ class DataRangerServiceClass {
   // instead of each allocating a 124MB ArrayBuffer, which would cause Android OOM.
   private initializingPromise: Promise<void> | null = null;
 
+  // Level of Traffic Stress model applied to queried segments
+  private ltsMode: string = 'walking';
+  private ltsWeights: LTSWeights = getLTSWeights('walking');
+  private ltsCache: Map<string, SegmentLTS> = new Map(); // streetGridId → score for current model
+
+  // Edit overlay: the user's edits not yet applied to the parquet
+  private pendingSegmentEdits: SegmentEdit[] = [];
+  private pendingGeometryEdits: GeometryEditRecord[] = [];
+
+  // Undo/redo for the current trip
+  private editHistory: EditHistory<EditCommand> = new EditHistory();
+  private editHistoryTripId: string | null = null;
+  private editHistoryLoading: Promise<void> | null = null;
+  private editHistoryListeners: Set<(state: EditHistoryState) => void> = new Set();
+  private isUndoingOrRedoing: boolean = false;
+
   // Track ratings for current trip: cris_id → userRating
   private ratedFeatures: Map<string, number> = new Map();
   private currentTripId: string | null = null;
@@ -81,8 +138,8 @@ class DataRangerServiceClass {
   }
 
   /**
-   * Initialize the proximity network: download parquet if needed, read metadata,
-   * and build a grid cell index from the street_grid_id column.
+   * Initialize the proximity network: open the installed region packs
+   * (see RegionPackService) and load the edit overlay.
    * Does NOT parse full segment rows — those are loaded on demand.
    */
   async initializeProximity(checkForUpdates: boolean = false): Promise<void> {
@@ -111,49 +168,28 @@ class DataRangerServiceClass {
     try {
       console.log('[DataRangerService] Initializing (metadata only)...');
 
-      // Ensure parquet file exists on disk (download if needed)
-      this.parquetFile = await this.ensureParquetFile();
-      console.log('[DataRangerService] Parquet file ready, reading metadata...');
-
-      // Read metadata to get grid origin (reads only the footer from disk)
-      const { parquetMetadataAsync } = await import('hyparquet/src/index.js');
-      const metaBuffer = this.createFileAsyncBuffer();
-      let metadata;
-      try {
-        metadata = await parquetMetadataAsync(metaBuffer);
-      } finally {
-        metaBuffer.close();
-      }
-
-      // Extract grid origin from key-value metadata
-      const originKv = metadata.key_value_metadata?.find(
-        (kv: { key: unknown }) => String(kv.key ?? '') === 'proximity_grid_origin'
-      );
-      if (originKv) {
-        const raw = originKv.value as string | Uint8Array | undefined;
-        const jsonStr = raw instanceof Uint8Array ? new TextDecoder().decode(raw) : (raw ?? '');
-        const parsed = JSON.parse(jsonStr) as { x: number; y: number; cell_size?: number; cellSize?: number };
-        // Parquet stores it as snake_case `cell_size`; normalize to camelCase.
-        this.gridOrigin = { x: parsed.x, y: parsed.y, cellSize: parsed.cell_size ?? parsed.cellSize ?? 500 };
-        console.log('[DataRangerService] Grid origin:', this.gridOrigin);
-      } else {
-        throw new Error('Parquet missing proximity_grid_origin metadata — re-run the pipeline and re-upload.');
+      // Opens installed region packs (downloading the default one on first run)
+      await RegionPackService.initialize();
+      if (!this.unsubscribePackChanges) {
+        this.unsubscribePackChanges = RegionPackService.onPackChange((change) => {
+          this.handlePackChange(change).catch(err =>
+            console.warn('[DataRangerService] Failed to apply region pack change:', err)
+          );
+        });
       }
 
-      // Try loading cached grid cell index from disk first
-      const cachedIndex = await this.loadGridCellIndexFromDisk();
-      if (cachedIndex) {
-        this.gridCellIndex = cachedIndex;
-        console.log(`[DataRangerService] Loaded cached grid index: ${cachedIndex.size} cells`);
-      } else {
-        // Build from parquet in small batches to avoid large single allocations
-        await this.buildGridCellIndex();
-        // Persist to disk so subsequent launches skip the expensive build
-        await this.saveGridCellIndexToDisk();
+      await this.loadEditOverlay();
+      if (!this.unsubscribeWriteSent) {
+        this.unsubscribeWriteSent = OutboxService.onWriteSent((item) => {
+          if (item.write.kind !== 'segment_edit') return;
+          this.markSegmentEditSent(item.id).catch(err =>
+            console.warn('[DataRangerService] Failed to record sent segment edit:', err)
+          );
+        });
       }
 
       this.isInitialized = true;
-      console.log(`[DataRangerService] Initialized: ${this.gridCellIndex?.size ?? 0} grid cells indexed`);
+      console.log(`[DataRangerService] Initialized: ${RegionPackService.getPackStates().length} region pack(s) open`);
 
       if (checkForUpdates) {
         this.checkAndUpdateProximity().catch(err =>
@@ -173,280 +209,63 @@ class DataRangerServiceClass {
   }
 
   /**
-   * Create an AsyncBuffer backed by on-disk file reads via FileHandle.
-   * Reads only the requested byte ranges — never loads the full parquet into JS heap.
+   * Load grid cells that overlap the given bounding box from each
+   * installed region pack covering it. Skips cells already loaded.
+   * Returns when all needed cells are ready.
    */
-  private createFileAsyncBuffer() {
-    const file = this.parquetFile!;
-    // Keep ONE file handle open for the lifetime of the buffer instead of
-    // open/close per slice. Each slice() typically reads a small column page;
-    // a 200-column row group triggers hundreds of slices and the syscall
-    // overhead from open/close was freezing the JS thread for seconds.
-    const handle = file.open();
-    const fileSize = handle.size!;
-
-    return {
-      byteLength: fileSize,
-      slice(start: number, end?: number): Promise<ArrayBuffer> {
-        const len = (end ?? fileSize) - start;
-        handle.offset = start;
-        const bytes = handle.readBytes(len);
-        return Promise.resolve(bytes.buffer);
-      },
-      close() {
-        try { handle.close(); } catch { /* ignore */ }
-      },
-    };
-  }
-
-  /**
-   * Ensure the parquet file exists on disk and is valid.
-   * Downloads from Supabase on first run; subsequent launches use the cached file.
-   * Returns a File handle — the file is NEVER loaded entirely into JS heap.
-   */
-  private async ensureParquetFile(): Promise<InstanceType<typeof File>> {
-    const file = new File(Paths.document, this.PARQUET_FILE_NAME);
-    if (file.exists) {
-      console.log('[DataRangerService] Parquet file found in cache, validating...');
-      if (this.isParquetValid(file)) {
-        return file;
-      }
-      console.warn('[DataRangerService] Cached parquet invalid or truncated, re-downloading');
-      try { file.delete(); this.deleteGridIndexCache(); } catch { /* ignore */ }
-    }
-
-    return this.downloadParquet(file);
-  }
-
-  private isParquetValid(file: InstanceType<typeof File>): boolean {
-    try {
-      const handle = file.open();
-      try {
-        const fileSize = handle.size ?? 0;
-        console.log(`[DataRangerService] Cached file size: ${(fileSize / 1024 / 1024).toFixed(1)} MB`);
-
-        // Minimum viable parquet is several MB for this dataset.
-        // A partial download will be much smaller than the real file.
-        if (fileSize < 5 * 1024 * 1024) {
-          console.warn('[DataRangerService] File too small, likely truncated download');
-          return false;
-        }
-
-        // Check PAR1 magic at header (bytes 0-3)
-        const header = handle.readBytes(4);
-        const headerOk = header[0] === 0x50 && header[1] === 0x41 && header[2] === 0x52 && header[3] === 0x31;
-
-        // Check PAR1 magic at footer (last 4 bytes) — truncated downloads fail here
-        handle.offset = fileSize - 4;
-        const footer = handle.readBytes(4);
-        const footerOk = footer[0] === 0x50 && footer[1] === 0x41 && footer[2] === 0x52 && footer[3] === 0x31;
-
-        console.log(`[DataRangerService] PAR1 header=${headerOk} footer=${footerOk}`);
-        return headerOk && footerOk;
-      } finally {
-        handle.close();
-      }
-    } catch (err) {
-      console.warn('[DataRangerService] Parquet validation error:', err);
-      return false;
-    }
-  }
-
-  private async downloadParquet(file: InstanceType<typeof File>): Promise<InstanceType<typeof File>> {
-    const url = DataService.getProximityAssetUrl();
-    console.log('[DataRangerService] Downloading parquet (chunked):', url);
-
-    // Resolve total size upfront so we can issue Range requests.
-    const head = await fetch(url, { method: 'HEAD' });
-    const totalSize = parseInt(head.headers.get('content-length') ?? '0', 10);
-    if (!totalSize) throw new Error('Server did not return Content-Length for parquet');
-    console.log(`[DataRangerService] Parquet size: ${(totalSize / 1024 / 1024).toFixed(1)} MB`);
-
-    // Chunked Range download — each fetch allocates only CHUNK bytes in the
-    // JS heap. After writeBytes the Uint8Array is unreferenced and Hermes can
-    // GC it before the next chunk arrives, keeping peak heap well under 10 MB.
-    const CHUNK = 4 * 1024 * 1024; // 4 MB per request
-    file.write(new Uint8Array(0)); // create/truncate destination
-    const handle = file.open();
-    let written = 0;
-    try {
-      while (written < totalSize) {
-        const end = Math.min(written + CHUNK - 1, totalSize - 1);
-        const resp = await fetch(url, { headers: { Range: `bytes=${written}-${end}` } });
-        if (resp.status !== 206 && resp.status !== 200) {
-          throw new Error(`HTTP ${resp.status} on range ${written}-${end}`);
-        }
-        const chunk = new Uint8Array(await resp.arrayBuffer());
-        handle.writeBytes(chunk);
-        written += chunk.byteLength;
-        console.log(`[DataRangerService] ${(written / 1024 / 1024).toFixed(1)}/${(totalSize / 1024 / 1024).toFixed(1)} MB`);
-      }
-    } finally {
-      handle.close();
-    }
-
-    if (!this.isParquetValid(file)) {
-      try { file.delete(); this.deleteGridIndexCache(); } catch { /* ignore */ }
-      throw new Error('Parquet download incomplete or corrupt — please retry');
-    }
-
-    await AsyncStorage.setItem(this.PROXIMITY_VERSION_KEY, new Date().toISOString());
-    console.log(`[DataRangerService] Parquet cached: ${(file.size / 1024 / 1024).toFixed(1)} MB`);
-    return file;
-  }
-
-  private async buildGridCellIndex(): Promise<void> {
-    const { parquetMetadataAsync, parquetRead } = await import('hyparquet/src/index.js');
-    const asyncBuffer = this.createFileAsyncBuffer();
-    try {
-      const metadata = await parquetMetadataAsync(asyncBuffer);
-      const rowGroups = metadata.row_groups ?? [];
-
-      this.gridCellIndex = new Map(); // cellKey → Set<rowGroupIndex>
-
-      // Compute cumulative row offsets so we can use rowStart/rowEnd per group.
-      let globalRowOffset = 0;
-      for (let rgIdx = 0; rgIdx < rowGroups.length; rgIdx++) {
-        const groupRows = Number(rowGroups[rgIdx].num_rows);
-        const rgStart = globalRowOffset;
-        globalRowOffset += groupRows;
-
-        const cellsInGroup = new Set<string>();
-
-        // Read street_grid_id in small batches to keep peak allocation low.
-        // Parquet column chunks are stored per row group, but requesting a
-        // smaller rowStart/rowEnd range lets hyparquet decompress only the
-        // pages that overlap the range, avoiding a single 100 MB+ allocation.
-        for (let batchStart = rgStart; batchStart < rgStart + groupRows; batchStart += this.INDEX_BUILD_BATCH_SIZE) {
-          const batchEnd = Math.min(batchStart + this.INDEX_BUILD_BATCH_SIZE, rgStart + groupRows);
-
-          await new Promise<void>((resolve, reject) => {
-            parquetRead({
-              file: asyncBuffer,
-              metadata,
-              columns: ['street_grid_id'],
-              rowStart: batchStart,
-              rowEnd: batchEnd,
-              onChunk: (chunk: any) => {
-                const data: unknown[] = chunk.columnData ?? [];
-                for (const v of data) {
-                  if (typeof v !== 'string') continue;
-                  const parts = v.split('_');
-                  if (parts.length >= 2) {
-                    cellsInGroup.add(`${parts[0]}_${parts[1]}`);
-                  }
-                }
-              },
-            }).then(resolve).catch(reject);
-          });
-        }
-
-        for (const cellKey of cellsInGroup) {
-          const existing = this.gridCellIndex.get(cellKey);
-          if (existing) {
-            existing.add(rgIdx);
-          } else {
-            this.gridCellIndex.set(cellKey, new Set([rgIdx]));
-          }
-        }
-      }
-
-      console.log(`[DataRangerService] Grid cell index built: ${this.gridCellIndex.size} cells across ${rowGroups.length} row groups`);
-    } finally {
-      asyncBuffer.close();
-    }
-  }
-
-  /**
-   * Save the grid cell index to a JSON file on disk so subsequent launches
-   * can skip the expensive parquet column scan.
-   */
-  private async saveGridCellIndexToDisk(): Promise<void> {
-    if (!this.gridCellIndex) return;
-    try {
-      // Serialize Map<string, Set<number>> → Record<string, number[]>
-      const obj: Record<string, number[]> = {};
-      for (const [key, rgSet] of this.gridCellIndex) {
-        obj[key] = [...rgSet];
-      }
-      const file = new File(Paths.document, this.GRID_INDEX_FILE_NAME);
-      file.write(JSON.stringify(obj));
-      console.log(`[DataRangerService] Grid index cached to disk (${this.gridCellIndex.size} cells)`);
-    } catch (err) {
-      console.warn('[DataRangerService] Failed to cache grid index:', err);
-    }
-  }
-
-  /**
-   * Load the cached grid cell index from disk.
-   * Returns null if the cache file doesn't exist or is corrupt.
-   */
-  private async loadGridCellIndexFromDisk(): Promise<Map<string, Set<number>> | null> {
-    try {
-      const file = new File(Paths.document, this.GRID_INDEX_FILE_NAME);
-      if (!file.exists) return null;
-
-      const handle = file.open();
-      const bytes = handle.readBytes(handle.size!);
-      handle.close();
-
-      const text = new TextDecoder().decode(bytes);
-      const obj: Record<string, number[]> = JSON.parse(text);
-
-      const map = new Map<string, Set<number>>();
-      for (const [key, arr] of Object.entries(obj)) {
-        map.set(key, new Set(arr));
-      }
-      return map;
-    } catch (err) {
-      console.warn('[DataRangerService] Failed to load cached grid index:', err);
-      return null;
+  async loadGridCellsForBbox(bbox: BBox): Promise<void> {
+    let loaded = false;
+    // One pack at a time, so only one parquet is open
+    for (const state of RegionPackService.getPackStatesForBbox(bbox)) {
+      loaded = (await this.loadPackCells(state, bbox)) || loaded;
     }
-  }
+    if (!loaded) return;
 
-  /**
-   * Delete the cached grid cell index file from disk.
-   */
-  private deleteGridIndexCache(): void {
-    try {
-      const file = new File(Paths.document, this.GRID_INDEX_FILE_NAME);
-      if (file.exists) file.delete();
-    } catch { /* ignore */ }
+    this.rebuildIndex();
+    console.log(`[DataRangerService] Loaded cells. Spatial index: ${this.segmentIndex?.getStats().totalSegments ?? 0} segments`);
   }
 
   /**
-   * Load grid cells that overlap the given bounding box.
-   * Skips cells already loaded. Returns when all needed cells are ready.
+   * Read one pack's cells in the bounding box into loadedCells.
+   *
+   * @returns true if any cells were loaded
    */
-  async loadGridCellsForBbox(bbox: { minLon: number; minLat: number; maxLon: number; maxLat: number }): Promise<void> {
-    if (!this.gridOrigin || !this.gridCellIndex || !this.parquetFile) return;
+  private async loadPackCells(state: RegionPackState, bbox: BBox): Promise<boolean> {
+    const { pack, gridOrigin, gridCellIndex, manifest } = state;
+    const range = bboxToGridCells(bbox, { x: gridOrigin.x, y: gridOrigin.y }, gridOrigin.cellSize, state.projection);
+    const key = (cellKey: string) => packCellKey(pack.id, cellKey);
 
-    const range = bboxToGridCells(bbox, { x: this.gridOrigin.x, y: this.gridOrigin.y }, this.gridOrigin.cellSize);
-
-    // Collect which row groups we need and which cell keys to load
+    // Collect which row groups we need and which cell keys to load.
+    // Cells patched by a delta update are read from their chunk instead.
     const neededRowGroups = new Set<number>();
     const cellsToLoad: string[] = [];
+    const chunkCells: string[] = [];
 
     for (let col = range.minCol; col <= range.maxCol; col++) {
       for (let row = range.minRow; row <= range.maxRow; row++) {
         const cellKey = `${col}_${row}`;
-        if (this.loadedCells.has(cellKey) || this.loadingCells.has(cellKey)) continue;
-        const rgs = this.gridCellIndex.get(cellKey);
+        if (this.loadedCells.has(key(cellKey)) || this.loadingCells.has(key(cellKey))) continue;
+        if (manifest?.chunks[cellKey]) {
+          cellsToLoad.push(cellKey);
+          chunkCells.push(cellKey);
+          continue;
+        }
+        const rgs = gridCellIndex.get(cellKey);
         if (!rgs) continue;
         cellsToLoad.push(cellKey);
         for (const rg of rgs) neededRowGroups.add(rg);
       }
     }
 
-    if (cellsToLoad.length === 0) return;
+    if (cellsToLoad.length === 0) return false;
 
-    console.log(`[DataRangerService] Loading ${cellsToLoad.length} grid cells from ${neededRowGroups.size} row groups`);
-    for (const cellKey of cellsToLoad) this.loadingCells.add(cellKey);
+    console.log(`[DataRangerService] Loading ${cellsToLoad.length} grid cells of ${pack.id} from ${neededRowGroups.size} row groups`);
+    for (const cellKey of cellsToLoad) this.loadingCells.add(key(cellKey));
 
-    let asyncBuffer: ReturnType<DataRangerServiceClass['createFileAsyncBuffer']> | null = null;
+    let asyncBuffer: FileAsyncBuffer | null = null;
     try {
       const { parquetMetadataAsync, parquetReadObjects } = await import('hyparquet/src/index.js');
-      asyncBuffer = this.createFileAsyncBuffer();
+      asyncBuffer = RegionPackService.createFileAsyncBuffer(state.parquetFile);
       const columns = getRenderColumns();
       const neededCellSet = new Set(cellsToLoad);
 
@@ -489,26 +308,39 @@ class DataRangerServiceClass {
           const segment = rowToNetworkSegment(row as Record<string, unknown>);
           if (!segment) continue;
 
-          const existing = this.loadedCells.get(cellKey);
+          const existing = this.loadedCells.get(key(cellKey));
           if (existing) {
             existing.push(segment);
           } else {
-            this.loadedCells.set(cellKey, [segment]);
+            this.loadedCells.set(key(cellKey), [segment]);
           }
-          this.segmentMap.set(segment.streetGridId, segment);
         }
       }
 
-      for (const cellKey of cellsToLoad) {
-        this.loadingCells.delete(cellKey);
-        if (!this.loadedCells.has(cellKey)) this.loadedCells.set(cellKey, []);
+      // Each chunk holds exactly one cell's rows
+      for (const cellKey of chunkCells) {
+        const chunkFile = RegionPackService.getChunkFile(pack.id, manifest!.chunks[cellKey]);
+        const chunkBuffer = RegionPackService.createFileAsyncBuffer(chunkFile);
+        try {
+          const rows = await parquetReadObjects({ file: chunkBuffer, columns });
+          const segments = rows
+            .map((row) => rowToNetworkSegment(row as Record<string, unknown>))
+            .filter((segment): segment is NetworkSegment => segment !== null);
+          this.loadedCells.set(key(cellKey), segments);
+        } finally {
+          chunkBuffer.close();
+        }
       }
 
-      this.rebuildIndex();
-      console.log(`[DataRangerService] Loaded cells. Spatial index: ${this.segmentIndex?.getStats().totalSegments ?? 0} segments`);
+      for (const cellKey of cellsToLoad) {
+        this.loadingCells.delete(key(cellKey));
+        if (!this.loadedCells.has(key(cellKey))) this.loadedCells.set(key(cellKey), []);
+      }
+      return true;
     } catch (err) {
-      for (const cellKey of cellsToLoad) this.loadingCells.delete(cellKey);
-      console.warn('[DataRangerService] loadGridCellsForBbox failed:', err);
+      for (const cellKey of cellsToLoad) this.loadingCells.delete(key(cellKey));
+      console.warn(`[DataRangerService] Loading cells of ${pack.id} failed:`, err);
+      return false;
     } finally {
       asyncBuffer?.close();
     }
@@ -542,45 +374,52 @@ class DataRangerServiceClass {
     this.segmentIndex = new SegmentSpatialGrid(segments, 0.001);
   }
 
+  /**
+   * Rebuild the merged view (loaded cells + edit overlay) and its spatial index.
+   */
   private rebuildIndex(): void {
-    this.segments = [];
+    const base: NetworkSegment[] = [];
     for (const cellSegments of this.loadedCells.values()) {
-      this.segments.push(...cellSegments);
+      base.push(...cellSegments);
+    }
+    this.segments = applyEditOverlay(base, this.pendingSegmentEdits, this.pendingGeometryEdits);
+    this.segmentMap.clear();
+    for (const seg of this.segments) {
+      this.segmentMap.set(seg.streetGridId, seg);
     }
     this.segmentIndex = new SegmentSpatialGrid(this.segments, 0.001);
   }
 
   private async checkAndUpdateProximity(): Promise<void> {
     try {
-      const serverVersion = await DataService.checkAssetUpdates('ProximityNetwork');
-      if (!serverVersion) return;
-
-      const localVersion = await AsyncStorage.getItem(this.PROXIMITY_VERSION_KEY);
-      if (!localVersion || new Date(serverVersion) > new Date(localVersion)) {
-        console.log('[DataRangerService] Proximity update available, re-downloading...');
-        // Clear cached files and re-initialize
-        const file = new File(Paths.document, this.PARQUET_FILE_NAME);
-        if (file.exists) file.delete();
-        this.deleteGridIndexCache();
-
-        // Reset state and re-initialize
-        this.parquetFile = null;
-        this.gridOrigin = null;
-        this.gridCellIndex = null;
-        this.loadedCells.clear();
-        this.loadingCells.clear();
-        this.segments = [];
-        this.segmentIndex = null;
-        this.segmentMap.clear();
-        this.isInitialized = false;
-
-        await this.initializeProximity(false);
-      }
+      await RegionPackService.checkForUpdates();
     } catch (error) {
       console.warn('[DataRangerService] Failed to check proximity updates:', error);
     }
   }
 
+  /**
+   * Drop loaded cells a pack change made stale; they reload on the next query.
+   */
+  private async handlePackChange(change: RegionPackChange): Promise<void> {
+    if (change.kind === 'failed') return; // The pack's previous build is still loaded
+
+    if (change.kind === 'updated') {
+      // Attribute edits have no server status; the new build includes
+      // everything the outbox delivered before it was built
+      await this.dropSegmentEditsBefore(change.version);
+    }
+
+    const prefix = packCellKey(change.packId, '');
+    for (const key of [...this.loadedCells.keys()]) {
+      if (!key.startsWith(prefix)) continue;
+      if (change.kind === 'updated' && change.cells && !change.cells.includes(key.slice(prefix.length))) continue;
+      this.loadedCells.delete(key);
+    }
+    this.queryCache.clear();
+    this.rebuildIndex();
+  }
+
   // ═══════════════════════════════════════════════════════════
   // FEATURE QUERIES (curb ramps from proximity segments)
   // ═══════════════════════════════════════════════════════════
@@ -606,7 +445,7 @@ class DataRangerServiceClass {
       const cached = this.queryCache.get(cacheKey);
 
       if (cached) {
-        const distance = this.calculateDistance(
+        const distance = haversineDistance(
           cached.location.lat,
           cached.location.lon,
           lat,
@@ -630,7 +469,7 @@ class DataRangerServiceClass {
           for (const ramp of sidewalk.curbRamps) {
             if (!ramp.geometry || !ramp.id) continue;
             const [rampLon, rampLat] = ramp.geometry.coordinates;
-            if (this.calculateDistance(lat, lon, rampLat, rampLon) <= radius) {
+            if (haversineDistance(lat, lon, rampLat, rampLon) <= radius) {
               mapFeatures.push(this.curbRampToFeature(ramp, seg.streetGridId));
             }
           }
@@ -690,6 +529,7 @@ class DataRangerServiceClass {
 
   /**
    * Query nearby network segments within radius of user position.
+   * Each returned segment carries its `lts` score for the current LTS model.
    *
    * NOTE: Cells must be pre-loaded by the caller via loadGridCellsNearPoint()
    * or loadGridCellsForBbox(). This method only queries already-loaded segments.
@@ -698,7 +538,33 @@ class DataRangerServiceClass {
     if (!this.isInitialized || !this.segmentIndex) {
       return [];
     }
-    return this.segmentIndex.queryNearby(lat, lon, radiusM);
+    const segments = this.segmentIndex.queryNearby(lat, lon, radiusM);
+    for (const segment of segments) {
+      segment.lts = this.getSegmentLTS(segment);
+    }
+    return segments;
+  }
+
+  /**
+   * Set the mode (and optionally calibrated weights) used to score
+   * segments returned by queryNearbySegments.
+   */
+  setLTSModel(mode: string, weights?: LTSWeights): void {
+    this.ltsMode = mode.toLowerCase();
+    this.ltsWeights = weights ?? getLTSWeights(mode);
+    this.ltsCache.clear();
+  }
+
+  /**
+   * Level of Traffic Stress for a segment under the current model (cached).
+   */
+  getSegmentLTS(segment: NetworkSegment): SegmentLTS {
+    let lts = this.ltsCache.get(segment.streetGridId);
+    if (!lts) {
+      lts = scoreSegmentLTS(segment, this.ltsMode, this.ltsWeights);
+      this.ltsCache.set(segment.streetGridId, lts);
+    }
+    return lts;
   }
 
   /**
@@ -708,60 +574,45 @@ class DataRangerServiceClass {
     return this.segmentMap.get(streetGridId) ?? null;
   }
 
+  /**
+   * All segments currently loaded in memory (from previously loaded cells).
+   */
+  getLoadedSegments(): NetworkSegment[] {
+    return Array.from(this.segmentMap.values());
+  }
+
   /**
    * Submit an attribute edit for a segment facility.
-   * Writes to Supabase and updates the in-memory segment.
+   * Queues the write in the outbox and adds it to the edit overlay.
    */
   async submitSegmentEdit(edit: SegmentEdit): Promise<void> {
-    // Write to Supabase
-    await DataService.writeSegmentEdit({
-      tripId: edit.tripId,
-      userId: edit.userId,
-      streetGridId: edit.streetGridId,
-      facilityType: edit.facilityType,
-      fieldName: edit.fieldName,
-      oldValue: edit.oldValue,
-      newValue: edit.newValue,
-    });
-
-    // Update in-memory segment
-    const segment = this.segmentMap.get(edit.streetGridId);
-    if (segment) {
-      this.applyEditToSegment(segment, edit);
-      if (this.segmentIndex) {
-        this.segmentIndex.updateSegment(segment);
-      }
-    }
-
-    // Invalidate query cache
-    this.queryCache.clear();
+    const stored = await this.queueSegmentEdit(edit);
+    await this.recordEdit(edit.tripId, { kind: 'segment_edit', edit: stored });
   }
 
-  private applyEditToSegment(segment: NetworkSegment, edit: SegmentEdit): void {
-    const facility = this.getFacilityFromSegment(segment, edit.facilityType);
-    if (facility && edit.fieldName in facility) {
-      const numericFields = ['width', 'incline', 'lanes', 'laneWidth'];
-      if (numericFields.includes(edit.fieldName)) {
-        (facility as any)[edit.fieldName] = parseFloat(edit.newValue);
-      } else {
-        (facility as any)[edit.fieldName] = edit.newValue;
-      }
-    }
-  }
+  private async queueSegmentEdit(edit: SegmentEdit): Promise<SegmentEdit & { id: string; createdAt: string }> {
+    // Queue for Supabase (sent once the trip has synced)
+    const id = await OutboxService.enqueue(
+      {
+        kind: 'segment_edit',
+        edit: {
+          tripId: edit.tripId,
+          userId: edit.userId,
+          streetGridId: edit.streetGridId,
+          facilityType: edit.facilityType,
+          fieldName: edit.fieldName,
+          oldValue: edit.oldValue,
+          newValue: edit.newValue,
+        },
+      },
+      { tripId: edit.tripId }
+    );
 
-  private getFacilityFromSegment(segment: NetworkSegment, facilityType: FacilityType): Record<string, unknown> | null {
-    switch (facilityType) {
-      case 'street': return segment.street as any;
-      case 'sidewalk_left': return segment.sidewalkLeft as any;
-      case 'sidewalk_right': return segment.sidewalkRight as any;
-      case 'crosswalk_start': return segment.crosswalkStart as any;
-      case 'crosswalk_end': return segment.crosswalkEnd as any;
-      case 'bikeway_left_1': return segment.bikewayLeft1 as any;
-      case 'bikeway_left_2': return segment.bikewayLeft2 as any;
-      case 'bikeway_right_1': return segment.bikewayRight1 as any;
-      case 'bikeway_right_2': return segment.bikewayRight2 as any;
-      default: return null;
-    }
+    const stored = { ...edit, id, createdAt: new Date().toISOString() };
+    this.pendingSegmentEdits = [...this.pendingSegmentEdits, stored];
+    await AsyncStorage.setItem(this.PENDING_SEGMENT_EDITS_KEY, JSON.stringify(this.pendingSegmentEdits));
+    this.refreshEditOverlay();
+    return stored;
   }
 
   /**
@@ -783,8 +634,8 @@ class DataRangerServiceClass {
   // ═══════════════════════════════════════════════════════════
 
   /**
-   * Rate a feature. Persists to Supabase via DataService.
-   * Checks for existing rating and updates instead of creating duplicate.
+   * Rate a feature. Queues the rating (and photo) in the outbox for Supabase.
+   * An existing rating for the feature in this trip is updated rather than duplicated.
    * Validates 6-hour grading window for completed trips.
    */
   async rateFeature(
@@ -813,33 +664,9 @@ class DataRangerServiceClass {
         throw new Error(ERROR_MESSAGES.GRADING_WINDOW_EXPIRED);
       }
 
-      let imageUrl: string | undefined;
-
-      if (imageUri) {
-        try {
-          imageUrl = await DataService.uploadFeatureImage(
-            userId,
-            imageUri,
-            feature.id,
-          );
-        } catch (error) {
-          console.error('[DataRangerService] Failed to upload image:', error);
-        }
-      }
-
-      // Check if rating already exists for this feature in this trip
-      const existingRatings = await DataService.getRatingsForTrip(tripId);
-      const existingRating = existingRatings.find(r => r.crisId === feature.id);
-
-      if (existingRating) {
-        console.log(`[DataRangerService] Updating existing rating for feature ${feature.id}`);
-        await DataService.updateRating(existingRating.crisId, tripId, {
-          userRating: rating,
-          ...(imageUrl && { imageUrl }),
-        });
-      } else {
-        console.log(`[DataRangerService] Creating new rating for feature ${feature.id}`);
-        await DataService.writeRating({
+      const previousRating = this.ratedFeatures.get(feature.id) ?? null;
+      const command = await this.queueRating(
+        {
           userId,
           tripId,
           crisId: feature.id,
@@ -848,12 +675,11 @@ class DataRangerServiceClass {
           lat: lat,
           long: lon,
           timeStamp: new Date().toISOString(),
-          imageUrl,
-        });
-      }
-
-      this.ratedFeatures.set(feature.id, rating);
-      this.queryCache.clear();
+        },
+        previousRating,
+        imageUri,
+      );
+      await this.recordEdit(tripId, command);
     } catch (error: any) {
       if (error.message && Object.values(ERROR_MESSAGES).includes(error.message)) {
         throw error;
@@ -863,6 +689,32 @@ class DataRangerServiceClass {
     }
   }
 
+  private async queueRating(
+    rating: Omit<RatedFeature, 'id' | 'imageUrl'>,
+    previousRating: number | null,
+    imageUri?: string,
+  ): Promise<Extract<EditCommand, { kind: 'rating' }>> {
+    const { tripId } = rating;
+
+    // The photo is uploaded first; the rating waits for it and picks up its URL
+    const imageItemId = imageUri
+      ? await OutboxService.enqueue(
+          { kind: 'image_upload', userId: rating.userId, imageUri, featureId: rating.crisId },
+          { tripId }
+        )
+      : undefined;
+
+    // Re-rating a feature in the same trip updates the existing row when sent
+    const outboxId = await OutboxService.enqueue(
+      { kind: 'rating', rating, imageItemId },
+      { tripId, dependsOn: imageItemId ? [imageItemId] : [] }
+    );
+
+    this.ratedFeatures.set(rating.crisId, rating.userRating);
+    this.queryCache.clear();
+    return { kind: 'rating', rating, previousRating, outboxId, imageItemId };
+  }
+
   /**
    * Load existing ratings for a trip (e.g., when resuming).
    */
@@ -936,15 +788,48 @@ class DataRangerServiceClass {
   // GEOMETRY EDITS (topology-altering operations)
   // ═══════════════════════════════════════════════════════════
 
-  async submitGeometryEdit(edit: GeometryEditPayload, tripId: string, userId: string): Promise<string> {
-    const { id } = await DataService.writeGeometryEdit({
-      tripId,
-      userId,
-      editType: edit.editType,
-      streetGridId: edit.streetGridId,
-      payload: edit.payload as unknown as Record<string, unknown>,
-      coord: edit.coord,
+  /**
+   * Check a geometry edit against the loaded segments (pending edits
+   * included) before it is submitted.
+   */
+  validateGeometryEdit(edit: GeometryEditPayload): TopologyIssue[] {
+    return validateGeometryEdit(edit, {
+      segments: this.segments,
+      getSegmentPairInfo: (seg1Id, seg2Id) => this.getSegmentPairInfo(seg1Id, seg2Id),
     });
+  }
+
+  /**
+   * Queue a geometry edit. Throws TopologyValidationError, without queueing
+   * anything, if the edit would break the loaded network.
+   */
+  async submitGeometryEdit(edit: GeometryEditPayload, tripId: string, userId: string): Promise<string> {
+    const issues = this.validateGeometryEdit(edit);
+    if (hasTopologyErrors(issues)) {
+      throw new TopologyValidationError(issues);
+    }
+
+    const record = await this.queueGeometryEdit(edit, tripId, userId);
+    await this.recordEdit(tripId, { kind: 'geometry_edit', record });
+    return record.id;
+  }
+
+  private async queueGeometryEdit(edit: GeometryEditPayload, tripId: string, userId: string): Promise<GeometryEditRecord> {
+    // The outbox ID becomes the row ID, so the cached record matches the server
+    const id = await OutboxService.enqueue(
+      {
+        kind: 'geometry_edit',
+        edit: {
+          tripId,
+          userId,
+          editType: edit.editType,
+          streetGridId: edit.streetGridId,
+          payload: edit.payload as unknown as Record<string, unknown>,
+          coord: edit.coord,
+        },
+      },
+      { tripId }
+    );
 
     // Cache locally for map preview
     const pending = await this.loadPendingGeometryEdits();
@@ -959,8 +844,9 @@ class DataRangerServiceClass {
     pending.push(record);
     await AsyncStorage.setItem(this.PENDING_GEOMETRY_EDITS_KEY, JSON.stringify(pending));
 
-    this.queryCache.clear();
-    return id;
+    this.pendingGeometryEdits = pending;
+    this.refreshEditOverlay();
+    return record;
   }
 
   async getPendingGeometryEdits(): Promise<GeometryEditRecord[]> {
@@ -972,15 +858,20 @@ class DataRangerServiceClass {
     if (pending.length === 0) return [];
 
     const statuses = await DataService.getGeometryEditStatuses(pending.map(e => e.id));
-    const statusMap = new Map(statuses.map(s => [s.id, s.status]));
+    const statusMap = new Map(statuses.map(s => [s.id, s]));
 
     const conflicts: GeometryEditRecord[] = [];
     const stillPending: GeometryEditRecord[] = [];
+    const detectedAt = new Date().toISOString();
+    const inbox: EditConflict[] = [];
 
     for (const edit of pending) {
-      const serverStatus = statusMap.get(edit.id) ?? 'pending';
+      const server = statusMap.get(edit.id);
+      const serverStatus = server?.status ?? 'pending';
       if (serverStatus === 'conflict' || serverStatus === 'rejected') {
-        conflicts.push({ ...edit, status: serverStatus as GeometryEditRecord['status'] });
+        const conflict = { ...edit, status: serverStatus as GeometryEditRecord['status'] };
+        conflicts.push(conflict);
+        inbox.push({ source: 'geometry_edit', edit: conflict, status: serverStatus, reason: server?.statusReason ?? null, detectedAt });
       } else if (serverStatus === 'pending') {
         stillPending.push(edit);
       }
@@ -988,6 +879,15 @@ class DataRangerServiceClass {
     }
 
     await AsyncStorage.setItem(this.PENDING_GEOMETRY_EDITS_KEY, JSON.stringify(stillPending));
+    if (inbox.length > 0) {
+      await this.addEditConflicts(inbox);
+    }
+
+    // Applied, rejected and conflicting edits leave the overlay
+    if (stillPending.length !== pending.length) {
+      this.pendingGeometryEdits = stillPending;
+      this.refreshEditOverlay();
+    }
     return conflicts;
   }
 
@@ -1000,6 +900,77 @@ class DataRangerServiceClass {
     }
   }
 
+  // ═══════════════════════════════════════════════════════════
+  // EDIT OVERLAY (pending edits replayed over loaded cells)
+  // ═══════════════════════════════════════════════════════════
+
+  /**
+   * Get pending attribute edits, oldest first.
+   */
+  getPendingSegmentEdits(): SegmentEdit[] {
+    return [...this.pendingSegmentEdits];
+  }
+
+  private async loadEditOverlay(): Promise<void> {
+    try {
+      const raw = await AsyncStorage.getItem(this.PENDING_SEGMENT_EDITS_KEY);
+      this.pendingSegmentEdits = raw ? JSON.parse(raw) : [];
+    } catch {
+      this.pendingSegmentEdits = [];
+    }
+    this.pendingGeometryEdits = await this.loadPendingGeometryEdits();
+    console.log(
+      `[DataRangerService] Edit overlay: ${this.pendingSegmentEdits.length} attribute, ${this.pendingGeometryEdits.length} geometry edit(s)`
+    );
+  }
+
+  private async dropSegmentEditsBefore(version: string): Promise<void> {
+    await OutboxService.initialize();
+    const builtAt = new Date(version).getTime();
+    const queuedIds = new Set(OutboxService.getPendingItems().map((item) => item.id));
+    const sentAt = new Date().toISOString();
+
+    let changed = false;
+    const remaining: SegmentEdit[] = [];
+    for (const edit of this.pendingSegmentEdits) {
+      if (isSegmentEditInBuild(edit, queuedIds, builtAt)) {
+        changed = true;
+      } else if (edit.id && !queuedIds.has(edit.id) && !edit.sentAt) {
+        // Sent before this service was listening; it was delivered by now at
+        // the latest, so the next build after this one includes it
+        remaining.push({ ...edit, sentAt });
+        changed = true;
+      } else {
+        remaining.push(edit);
+      }
+    }
+    if (!changed) return;
+
+    this.pendingSegmentEdits = remaining;
+    await AsyncStorage.setItem(this.PENDING_SEGMENT_EDITS_KEY, JSON.stringify(remaining));
+  }
+
+  private async markSegmentEditSent(id: string): Promise<void> {
+    const sentAt = new Date().toISOString();
+    let found = false;
+    this.pendingSegmentEdits = this.pendingSegmentEdits.map((edit) => {
+      if (edit.id !== id) return edit;
+      found = true;
+      return { ...edit, sentAt };
+    });
+    if (!found) return;
+    await AsyncStorage.setItem(this.PENDING_SEGMENT_EDITS_KEY, JSON.stringify(this.pendingSegmentEdits));
+  }
+
+  /**
+   * Re-apply the overlay after pending edits change.
+   */
+  private refreshEditOverlay(): void {
+    this.rebuildIndex();
+    this.ltsCache.clear();
+    this.queryCache.clear();
+  }
+
   /**
    * Submit a brand-new segment drawn from GPS trip polyline.
    * The geometry is a LineString extracted from the trip between start/end indices.
@@ -1053,7 +1024,7 @@ class DataRangerServiceClass {
   // ═══════════════════════════════════════════════════════════
 
   /**
-   * Submit a feature edit (rating or correction) to Supabase and cache locally.
+   * Queue a feature edit (rating or correction) for Supabase and cache locally.
    */
   async submitFeatureEdit(
     edit: {
@@ -1085,22 +1056,25 @@ class DataRangerServiceClass {
       featureType: edit.featureType,
     };
 
-    await DataService.writeFeatureEdit(featureEdit);
+    await this.queueFeatureEdit(featureEdit);
+  }
+
+  private async queueFeatureEdit(featureEdit: Omit<FeatureEdit, 'id' | 'createdAt'>): Promise<string> {
+    const id = await OutboxService.enqueue({ kind: 'feature_edit', edit: featureEdit }, { tripId: featureEdit.tripId });
 
     // Cache locally for offline display
-    const cacheKey = '@dataranger/pendingFeatureEdits';
-    const existing = await AsyncStorage.getItem(cacheKey);
+    const existing = await AsyncStorage.getItem(this.PENDING_FEATURE_EDITS_KEY);
     const edits = existing ? JSON.parse(existing) : [];
-    edits.push({ ...featureEdit, createdAt: new Date().toISOString(), status: 'pending' });
-    await AsyncStorage.setItem(cacheKey, JSON.stringify(edits));
+    edits.push({ ...featureEdit, id, createdAt: new Date().toISOString(), status: 'pending' });
+    await AsyncStorage.setItem(this.PENDING_FEATURE_EDITS_KEY, JSON.stringify(edits));
+    return id;
   }
 
   /**
    * Get locally cached pending feature edits for display on home screen.
    */
   async getPendingFeatureEdits(): Promise<any[]> {
-    const cacheKey = '@dataranger/pendingFeatureEdits';
-    const raw = await AsyncStorage.getItem(cacheKey);
+    const raw = await AsyncStorage.getItem(this.PENDING_FEATURE_EDITS_KEY);
     return raw ? JSON.parse(raw) : [];
   }
 
@@ -1108,28 +1082,35 @@ class DataRangerServiceClass {
    * Sync feature edit statuses from server, remove applied ones from local cache.
    */
   async syncFeatureEditStatuses(): Promise<{ conflicts: any[] }> {
-    const cacheKey = '@dataranger/pendingFeatureEdits';
-    const raw = await AsyncStorage.getItem(cacheKey);
+    const raw = await AsyncStorage.getItem(this.PENDING_FEATURE_EDITS_KEY);
     if (!raw) return { conflicts: [] };
 
     const localEdits = JSON.parse(raw);
     const serverEdits = await DataService.getUserFeatureEdits();
 
-    const serverMap = new Map(serverEdits.map((e: any) => [e.streetGridId + e.editType, e]));
-    const conflicts: any[] = [];
+    // Edits cached before they carried their row ID are matched by feature and type
+    const serverById = new Map(serverEdits.map((e) => [e.id, e]));
+    const serverByKey = new Map(serverEdits.map((e) => [e.streetGridId + e.editType, e]));
+    const conflicts: FeatureEdit[] = [];
     const stillPending: any[] = [];
+    const detectedAt = new Date().toISOString();
+    const inbox: EditConflict[] = [];
 
     for (const local of localEdits) {
-      const server = serverMap.get(local.streetGridId + local.editType);
+      const server = local.id ? serverById.get(local.id) : serverByKey.get(local.streetGridId + local.editType);
       if (!server || server.status === 'pending') {
         stillPending.push(local);
-      } else if (server.status === 'conflict') {
+      } else if ((server.status === 'conflict' || server.status === 'rejected') && server.id) {
         conflicts.push(server);
+        inbox.push({ source: 'feature_edit', edit: { ...server, id: server.id }, status: server.status, reason: server.statusReason ?? null, detectedAt });
       }
       // 'applied' edits drop out of local cache
     }
 
-    await AsyncStorage.setItem(cacheKey, JSON.stringify(stillPending));
+    await AsyncStorage.setItem(this.PENDING_FEATURE_EDITS_KEY, JSON.stringify(stillPending));
+    if (inbox.length > 0) {
+      await this.addEditConflicts(inbox);
+    }
     return { conflicts };
   }
 
@@ -1213,6 +1194,290 @@ class DataRangerServiceClass {
     return null;
   }
 
+  // ═══════════════════════════════════════════════════════════
+  // CONFLICT INBOX (rejected and conflicting edits)
+  // ═══════════════════════════════════════════════════════════
+
+  /**
+   * Get rejected and conflicting edits waiting for the user, oldest first.
+   */
+  async getEditConflicts(): Promise<EditConflict[]> {
+    try {
+      const raw = await AsyncStorage.getItem(this.EDIT_CONFLICTS_KEY);
+      return raw ? JSON.parse(raw) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Check pending geometry and feature edits with the server, then return
+   * the conflict inbox.
+   */
+  async syncEditConflicts(): Promise<EditConflict[]> {
+    await this.syncGeometryEditStatuses();
+    await this.syncFeatureEditStatuses();
+    return this.getEditConflicts();
+  }
+
+  /**
+   * Resolve an edit from the conflict inbox.
+   *
+   * - reapply: submit the edit again, rebased on the current network
+   * - amend: submit it again with its main point moved to `amendedCoord`
+   * - withdraw: drop it
+   *
+   * The old edit is marked superseded (or withdrawn) on the server once
+   * any replacement has been sent. Throws TopologyValidationError if the
+   * replacement would break the network.
+   */
+  async resolveEditConflict(editId: string, resolution: ConflictResolution, amendedCoord?: [number, number]): Promise<void> {
+    const conflict = (await this.getEditConflicts()).find((c) => c.edit.id === editId);
+    if (!conflict) return;
+
+    if (resolution === 'withdraw') {
+      await OutboxService.enqueue({
+        kind: conflict.source === 'geometry_edit' ? 'geometry_edit_resolve' : 'feature_edit_resolve',
+        editId,
+        resolution: { status: 'withdrawn' },
+      });
+    } else if (conflict.source === 'geometry_edit') {
+      const { editType, streetGridId, payload, coord, tripId, userId } = conflict.edit;
+      const base: GeometryEditPayload = { editType, streetGridId, payload, coord };
+      let next: GeometryEditPayload | null;
+      if (resolution === 'amend') {
+        next = amendedCoord ? amendGeometryEdit(base, amendedCoord) : null;
+        if (!next) throw new Error(ERROR_MESSAGES.CONFLICT_NOT_AMENDABLE);
+      } else {
+        next = rebaseGeometryEdit(base, this.segments);
+        if (!next) throw new Error(ERROR_MESSAGES.CONFLICT_TARGET_GONE);
+      }
+
+      const issues = this.validateGeometryEdit(next);
+      if (hasTopologyErrors(issues)) {
+        throw new TopologyValidationError(issues);
+      }
+
+      const record = await this.queueGeometryEdit(next, tripId, userId);
+      await OutboxService.enqueue(
+        { kind: 'geometry_edit_resolve', editId, resolution: { status: 'superseded', supersededBy: record.id } },
+        { dependsOn: [record.id] }
+      );
+    } else {
+      if (resolution === 'amend') throw new Error(ERROR_MESSAGES.CONFLICT_NOT_AMENDABLE);
+
+      const { id: _id, createdAt: _createdAt, status: _status, statusReason: _reason, ...edit } = conflict.edit;
+      const replacementId = await this.queueFeatureEdit(edit);
+      await OutboxService.enqueue(
+        { kind: 'feature_edit_resolve', editId, resolution: { status: 'superseded', supersededBy: replacementId } },
+        { dependsOn: [replacementId] }
+      );
+    }
+
+    await this.removeEditConflict(editId);
+    console.log(`[DataRangerService] Resolved ${conflict.source} ${editId}: ${resolution}`);
+  }
+
+  private async addEditConflicts(conflicts: EditConflict[]): Promise<void> {
+    const inbox = mergeConflicts(await this.getEditConflicts(), conflicts);
+    await AsyncStorage.setItem(this.EDIT_CONFLICTS_KEY, JSON.stringify(inbox));
+  }
+
+  private async removeEditConflict(editId: string): Promise<void> {
+    const inbox = (await this.getEditConflicts()).filter((c) => c.edit.id !== editId);
+    await AsyncStorage.setItem(this.EDIT_CONFLICTS_KEY, JSON.stringify(inbox));
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // EDIT HISTORY (undo/redo for the current trip)
+  // ═══════════════════════════════════════════════════════════
+
+  getEditHistoryState(): EditHistoryState {
+    return { canUndo: this.editHistory.canUndo(), canRedo: this.editHistory.canRedo() };
+  }
+
+  /**
+   * Subscribe to undo/redo availability. The listener is called immediately.
+   *
+   * @returns Unsubscribe function
+   */
+  subscribeEditHistory(listener: (state: EditHistoryState) => void): () => void {
+    this.editHistoryListeners.add(listener);
+    listener(this.getEditHistoryState());
+    return () => {
+      this.editHistoryListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Revert the most recent edit of the current trip.
+   *
+   * @returns The reverted edit, or null if there was nothing to undo
+   */
+  async undo(): Promise<EditCommand | null> {
+    await this.editHistoryLoading;
+    const command = this.editHistory.peekUndo();
+    if (!command || this.isUndoingOrRedoing) return null;
+
+    this.isUndoingOrRedoing = true;
+    try {
+      await this.revertEdit(command);
+      this.editHistory.commitUndo();
+      await this.saveEditHistory();
+      console.log(`[DataRangerService] Undid ${command.kind}`);
+      return command;
+    } finally {
+      this.isUndoingOrRedoing = false;
+    }
+  }
+
+  /**
+   * Re-apply the most recently undone edit.
+   *
+   * @returns The re-applied edit, or null if there was nothing to redo
+   */
+  async redo(): Promise<EditCommand | null> {
+    await this.editHistoryLoading;
+    const command = this.editHistory.peekRedo();
+    if (!command || this.isUndoingOrRedoing) return null;
+
+    this.isUndoingOrRedoing = true;
+    try {
+      const reapplied = await this.reapplyEdit(command);
+      this.editHistory.commitRedo(reapplied);
+      await this.saveEditHistory();
+      console.log(`[DataRangerService] Redid ${command.kind}`);
+      return reapplied;
+    } finally {
+      this.isUndoingOrRedoing = false;
+    }
+  }
+
+  /**
+   * Undo a write: retract it from the outbox if it hasn't been sent,
+   * otherwise queue a compensating write behind it.
+   */
+  private async revertEdit(command: EditCommand): Promise<void> {
+    switch (command.kind) {
+      case 'segment_edit': {
+        const { edit } = command;
+        if (!(await OutboxService.cancel(edit.id))) {
+          await OutboxService.enqueue({ kind: 'segment_edit_delete', editId: edit.id }, { tripId: edit.tripId });
+        }
+        this.pendingSegmentEdits = this.pendingSegmentEdits.filter((e) => e.id !== edit.id);
+        await AsyncStorage.setItem(this.PENDING_SEGMENT_EDITS_KEY, JSON.stringify(this.pendingSegmentEdits));
+        this.refreshEditOverlay();
+        return;
+      }
+
+      case 'geometry_edit': {
+        const { record } = command;
+        if (!(await OutboxService.cancel(record.id))) {
+          await OutboxService.enqueue({ kind: 'geometry_edit_withdraw', editId: record.id }, { tripId: record.tripId });
+        }
+        const pending = (await this.loadPendingGeometryEdits()).filter((e) => e.id !== record.id);
+        await AsyncStorage.setItem(this.PENDING_GEOMETRY_EDITS_KEY, JSON.stringify(pending));
+        this.pendingGeometryEdits = pending;
+        this.refreshEditOverlay();
+        return;
+      }
+
+      case 'rating': {
+        const { rating } = command;
+        const retracted = await OutboxService.cancel(command.outboxId);
+        if (command.imageItemId) {
+          await OutboxService.cancel(command.imageItemId);
+        }
+        if (!retracted) {
+          // Restore the trip's earlier rating of this feature, if it had one
+          const earlier = this.editHistory
+            .getDone()
+            .slice(0, -1)
+            .reverse()
+            .find((c): c is Extract<EditCommand, { kind: 'rating' }> =>
+              c.kind === 'rating' && c.rating.crisId === rating.crisId && c.rating.tripId === rating.tripId
+            );
+          await OutboxService.enqueue(
+            earlier
+              ? { kind: 'rating', rating: { ...earlier.rating, timeStamp: new Date().toISOString() } }
+              : { kind: 'rating_delete', crisId: rating.crisId, tripId: rating.tripId },
+            { tripId: rating.tripId }
+          );
+        }
+
+        if (command.previousRating === null) {
+          this.ratedFeatures.delete(rating.crisId);
+        } else {
+          this.ratedFeatures.set(rating.crisId, command.previousRating);
+        }
+        this.queryCache.clear();
+        return;
+      }
+    }
+  }
+
+  private async reapplyEdit(command: EditCommand): Promise<EditCommand> {
+    switch (command.kind) {
+      case 'segment_edit': {
+        const { id: _id, createdAt: _createdAt, ...edit } = command.edit;
+        return { kind: 'segment_edit', edit: await this.queueSegmentEdit(edit) };
+      }
+
+      case 'geometry_edit': {
+        const { editType, streetGridId, payload, coord, tripId, userId } = command.record;
+        return { kind: 'geometry_edit', record: await this.queueGeometryEdit({ editType, streetGridId, payload, coord }, tripId, userId) };
+      }
+
+      case 'rating':
+        return this.queueRating(
+          { ...command.rating, timeStamp: new Date().toISOString() },
+          this.ratedFeatures.get(command.rating.crisId) ?? null,
+        );
+    }
+  }
+
+  /**
+   * Add an edit to the current trip's history (edits to other trips aren't undoable).
+   */
+  private async recordEdit(tripId: string, command: EditCommand): Promise<void> {
+    await this.editHistoryLoading;
+    if (tripId !== this.editHistoryTripId) return;
+
+    this.editHistory.record(command);
+    await this.saveEditHistory();
+  }
+
+  private async loadEditHistory(tripId: string): Promise<void> {
+    try {
+      const raw = await AsyncStorage.getItem(this.EDIT_HISTORY_KEY);
+      const stored = raw ? (JSON.parse(raw) as { tripId: string } & EditHistorySnapshot<EditCommand>) : null;
+      // Resuming the same trip (e.g. after an app restart) keeps its history
+      this.editHistory = new EditHistory(stored?.tripId === tripId ? stored : undefined);
+    } catch (error) {
+      console.warn('[DataRangerService] Failed to load edit history:', error);
+      this.editHistory = new EditHistory();
+    }
+    this.notifyEditHistory();
+  }
+
+  private async saveEditHistory(): Promise<void> {
+    this.notifyEditHistory();
+    if (!this.editHistoryTripId) return;
+    try {
+      await AsyncStorage.setItem(
+        this.EDIT_HISTORY_KEY,
+        JSON.stringify({ tripId: this.editHistoryTripId, ...this.editHistory.toJSON() })
+      );
+    } catch (error) {
+      console.warn('[DataRangerService] Failed to save edit history:', error);
+    }
+  }
+
+  private notifyEditHistory(): void {
+    const state = this.getEditHistoryState();
+    this.editHistoryListeners.forEach((listener) => listener(state));
+  }
+
   // ═══════════════════════════════════════════════════════════
   // TRIP LIFECYCLE
   // ═══════════════════════════════════════════════════════════
@@ -1221,12 +1486,24 @@ class DataRangerServiceClass {
     this.currentTripId = tripId;
     this.ratedFeatures.clear();
     this.queryCache.clear();
+
+    this.editHistoryTripId = tripId;
+    this.editHistoryLoading = this.loadEditHistory(tripId);
   }
 
   endTrip(): void {
     this.currentTripId = null;
     this.ratedFeatures.clear();
     this.queryCache.clear();
+
+    // Edits become final once the trip ends
+    this.editHistoryTripId = null;
+    this.editHistory = new EditHistory();
+    this.editHistoryLoading = null;
+    this.notifyEditHistory();
+    AsyncStorage.removeItem(this.EDIT_HISTORY_KEY).catch((error) =>
+      console.warn('[DataRangerService] Failed to clear edit history:', error)
+    );
   }
 
   async getUserRatingCount(): Promise<number> {
@@ -1262,15 +1539,8 @@ class DataRangerServiceClass {
   // ═══════════════════════════════════════════════════════════
 
   async clearCache(): Promise<void> {
-    try {
-      const file = new File(Paths.document, this.PARQUET_FILE_NAME);
-      if (file.exists) file.delete();
-      this.deleteGridIndexCache();
-      await AsyncStorage.removeItem(this.PROXIMITY_VERSION_KEY);
-      console.log('[DataRangerService] Cache cleared');
-    } catch (error) {
-      console.warn('[DataRangerService] Failed to clear cache:', error);
-    }
+    await RegionPackService.clearAll();
+    console.log('[DataRangerService] Cache cleared');
   }
 
   cleanup(clearCacheOnCleanup: boolean = false): void {
@@ -1282,11 +1552,16 @@ class DataRangerServiceClass {
     this.segments = [];
     this.segmentIndex = null;
     this.segmentMap.clear();
+    this.ltsCache.clear();
+    this.pendingSegmentEdits = [];
+    this.pendingGeometryEdits = [];
     this.loadedCells.clear();
     this.loadingCells.clear();
-    this.parquetFile = null;
-    this.gridOrigin = null;
-    this.gridCellIndex = null;
+    this.unsubscribePackChanges?.();
+    this.unsubscribePackChanges = null;
+    this.unsubscribeWriteSent?.();
+    this.unsubscribeWriteSent = null;
+    RegionPackService.reset();
     this.isInitialized = false;
 
     if (clearCacheOnCleanup) {
@@ -1298,26 +1573,6 @@ class DataRangerServiceClass {
 
   // --- Private helpers ---
 
-  private calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number,
-  ): number {
-    const R = 6371000;
-    const phi1 = (lat1 * Math.PI) / 180;
-    const phi2 = (lat2 * Math.PI) / 180;
-    const dPhi = ((lat2 - lat1) * Math.PI) / 180;
-    const dLambda = ((lon2 - lon1) * Math.PI) / 180;
-
-    const a =
-      Math.sin(dPhi / 2) * Math.sin(dPhi / 2) +
-      Math.cos(phi1) * Math.cos(phi2) * Math.sin(dLambda / 2) * Math.sin(dLambda / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
-  }
-
   private getCacheKey(lat: number, lon: number): string {
     const roundedLat = Math.round(lat * 1000) / 1000;
     const roundedLon = Math.round(lon * 1000) / 1000;
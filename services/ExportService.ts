@@ -0,0 +1,195 @@
+import { File, Paths } from 'expo-file-system';
+import { Platform, Share } from 'react-native';
+
+import { Trip } from '@/adapters/DatabaseAdapter';
+import { HistoryService } from './HistoryService';
+import { SyncService } from './SyncService';
+import {
+  EXPORT_FILE_EXTENSIONS,
+  ExportableTrip,
+  serializeTrips,
+  TripExportFormat,
+} from './utils/tripExport';
+
+// ═══════════════════════════════════════════════════════════
+// EXPORT SERVICE
+// ═══════════════════════════════════════════════════════════
+// Exports the user's own trips as GPX, GeoJSON or CSV and hands the file
+// to the system share sheet.
+//
+// Follows the same privacy model as the rest of the app: by default only
+// the stored (census block clipped) geometry is exported, and trips still
+// in the sync queue are exported only if they were clipped on-device.
+// With includeUnclipped the raw locally cached recording is used where
+// one exists, and every queued trip is included.
+
+// --- Types ---
+
+export interface TripExportOptions {
+  format: TripExportFormat;
+  includeUnclipped?: boolean; // Explicit opt-in to raw, unclipped local geometry
+}
+
+export interface TripExportResult {
+  fileUri: string;
+  exportedCount: number;
+  skippedPendingCount: number; // Queued trips left out because they are not clipped yet
+  shared: boolean; // false if the user dismissed the share sheet
+}
+
+// Queued trips aren't binned until the server writes them
+type ExportSource = Omit<Trip, 'timeOfDay' | 'weekday'> & Partial<Pick<Trip, 'timeOfDay' | 'weekday'>>;
+
+// --- Export Service Class ---
+
+class ExportServiceClass {
+  /**
+   * Export trips and open the share sheet.
+   *
+   * @param tripIds - Trip IDs (server or queue IDs) to export, or 'all'
+   * @throws If there are no trips to export
+   */
+  async exportTrips(tripIds: string[] | 'all', options: TripExportOptions): Promise<TripExportResult> {
+    const includeUnclipped = options.includeUnclipped ?? false;
+    const { trips, skippedPendingCount } = await this.collectTrips(tripIds, includeUnclipped);
+
+    if (trips.length === 0) {
+      throw new Error(
+        skippedPendingCount > 0
+          ? 'These trips are still waiting to be anonymized. Include unclipped routes to export them.'
+          : 'No trips to export',
+      );
+    }
+
+    const content = serializeTrips(trips, options.format);
+    const file = new File(Paths.cache, this.fileName(trips, options.format));
+    file.write(content);
+
+    console.log('[ExportService] Wrote export:', {
+      format: options.format,
+      trips: trips.length,
+      skippedPendingCount,
+      includeUnclipped,
+    });
+
+    const shared = await this.share(file, content);
+    return { fileUri: file.uri, exportedCount: trips.length, skippedPendingCount, shared };
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // Trip collection
+  // ═══════════════════════════════════════════════════════════
+
+  private async collectTrips(
+    tripIds: string[] | 'all',
+    includeUnclipped: boolean,
+  ): Promise<{ trips: ExportableTrip[]; skippedPendingCount: number }> {
+    await SyncService.initialize();
+    const queued = SyncService.getQueuedTrips();
+    const queuedIds = new Set(queued.map((item) => item.queueId));
+    const wanted = tripIds === 'all' ? null : new Set(tripIds);
+
+    const trips: ExportableTrip[] = [];
+    let skippedPendingCount = 0;
+
+    // Queued trips hold the raw recording until their census blocks are on the device
+    for (const item of queued) {
+      if (wanted && !wanted.has(item.queueId)) continue;
+      if (!includeUnclipped && !item.anonymized) {
+        skippedPendingCount++;
+        continue;
+      }
+
+      let source: ExportSource = { ...item.tripData, tripId: item.queueId };
+      let clipped = !!item.anonymized;
+      if (includeUnclipped && clipped) {
+        const cached = await SyncService.getCachedRawTrip(item.queueId);
+        if (cached) {
+          source = { ...source, geometry: cached.trip.geometry, relativeTimes: cached.trip.relativeTimes };
+          clipped = false;
+        }
+      }
+
+      const trip = this.toExportable(source, clipped);
+      if (trip) trips.push(trip);
+    }
+
+    let stored: Trip[];
+    if (wanted) {
+      const ids = [...wanted].filter((id) => !queuedIds.has(id));
+      stored = (await Promise.all(ids.map((id) => HistoryService.getTrip(id)))).filter(
+        (trip): trip is Trip => trip !== null,
+      );
+    } else {
+      stored = await HistoryService.getUserTrips({ status: 'completed' });
+    }
+
+    for (const storedTrip of stored) {
+      let source = storedTrip;
+      let clipped = true;
+
+      if (includeUnclipped) {
+        const cached = await SyncService.getCachedRawTrip(storedTrip.tripId);
+        if (cached) {
+          source = { ...storedTrip, geometry: cached.trip.geometry, relativeTimes: cached.trip.relativeTimes };
+          clipped = false;
+        }
+      }
+
+      const trip = this.toExportable(source, clipped);
+      if (trip) trips.push(trip);
+    }
+
+    return { trips, skippedPendingCount };
+  }
+
+  private toExportable(trip: ExportSource, clipped: boolean): ExportableTrip | null {
+    const coordinates = HistoryService.decodePolyline(trip.geometry);
+    if (coordinates.length < 2) {
+      console.warn('[ExportService] Skipping trip without usable geometry:', trip.tripId);
+      return null;
+    }
+
+    return {
+      tripId: trip.tripId,
+      mode: trip.mode,
+      comfort: trip.comfort,
+      purpose: trip.purpose,
+      timeOfDay: trip.timeOfDay ?? null,
+      weekday: trip.weekday ?? null,
+      durationS: trip.durationS ?? null,
+      distanceMi: trip.distanceMi ?? null,
+      reachedDest: trip.reachedDest ?? null,
+      coordinates,
+      relativeTimes: trip.relativeTimes ?? null,
+      clipped,
+    };
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // File & sharing
+  // ═══════════════════════════════════════════════════════════
+
+  private fileName(trips: ExportableTrip[], format: TripExportFormat): string {
+    const base =
+      trips.length === 1
+        ? `rolltracks-trip-${trips[0].tripId.slice(0, 8)}`
+        : `rolltracks-trips-${new Date().toISOString().slice(0, 10)}`;
+    return `${base}.${EXPORT_FILE_EXTENSIONS[format]}`;
+  }
+
+  /**
+   * Open the system share sheet. iOS shares the file itself; Android's
+   * Share API only accepts text, so the file contents are shared instead.
+   */
+  private async share(file: File, content: string): Promise<boolean> {
+    const result = await Share.share(
+      Platform.OS === 'ios' ? { url: file.uri, title: file.name } : { message: content, title: file.name },
+      { dialogTitle: 'Export trips', subject: file.name },
+    );
+    return result.action === Share.sharedAction;
+  }
+}
+
+// Export singleton instance
+export const ExportService = new ExportServiceClass();
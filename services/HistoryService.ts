@@ -1,5 +1,6 @@
 import { DataService, Trip, TripSummary } from '@/adapters/DatabaseAdapter';
 import * as polyline from '@mapbox/polyline';
+import { SyncService } from './SyncService';
 
 // ═══════════════════════════════════════════════════════════
 // HISTORY SERVICE
@@ -18,6 +19,18 @@ export interface HistoryOverview {
   totalDuration: number;
 }
 
+/**
+ * A trip that is still in the SyncService queue. Its geometry is clipped
+ * if `anonymized`; otherwise it is the raw recording, waiting for its
+ * census blocks.
+ */
+export interface PendingTripSummary extends TripSummary {
+  comfort: number; // As entered when the trip was recorded
+  recordedOffline: boolean; // Recorded without connectivity (vs. an upload that failed)
+  anonymized: boolean; // Clipped on-device already
+  queuedAt: string | null;
+}
+
 class HistoryServiceClass {
   /**
    * Decode an encoded polyline string to GeoJSON LineString coordinates
@@ -52,6 +65,37 @@ class HistoryServiceClass {
     }
   }
 
+  /**
+   * Get trips still waiting in the sync queue, newest first.
+   * Reads local storage only, so it works while offline.
+   */
+  async getPendingTripSummaries(): Promise<PendingTripSummary[]> {
+    try {
+      await SyncService.initialize();
+    } catch (error) {
+      console.error('[HistoryService] Failed to initialize sync queue:', error);
+      return [];
+    }
+
+    return SyncService.getQueuedTrips()
+      .map((item): PendingTripSummary => ({
+        tripId: item.queueId,
+        mode: item.tripData.mode,
+        purpose: item.tripData.purpose,
+        comfort: item.tripData.comfort,
+        timeOfDay: 'midday', // Placeholder, binned server-side once synced
+        weekday: 1,
+        durationS: item.tripData.durationS ?? 0,
+        distanceMi: item.tripData.distanceMi ?? 0,
+        reachedDest: item.tripData.reachedDest,
+        geometry: item.tripData.geometry,
+        recordedOffline: item.recordedOffline ?? false,
+        anonymized: item.anonymized ?? false,
+        queuedAt: item.queuedAt ?? null,
+      }))
+      .reverse();
+  }
+
   /**
    * Get full trip data for a specific trip (Trip Summary screen)
    * Includes polyline geometry for MapView display
@@ -0,0 +1,58 @@
+import { File } from 'expo-file-system';
+
+import { ImportedTrack, parseTripFile } from './utils/parseTripFile';
+
+// ═══════════════════════════════════════════════════════════
+// IMPORT SERVICE
+// ═══════════════════════════════════════════════════════════
+// Lets users bring in trips recorded by other trackers. Opens the system
+// file picker and parses GPX / GeoJSON tracks; the chosen track is saved
+// with TripService.importTrip, so it is cleaned, census-block clipped and
+// time-binned exactly like a trip recorded in the app.
+
+// --- Types ---
+
+export interface PickedTripFile {
+  fileName: string;
+  tracks: ImportedTrack[];
+}
+
+// --- Import Service Class ---
+
+class ImportServiceClass {
+  /**
+   * Let the user pick a GPX or GeoJSON file and parse its tracks.
+   *
+   * @returns The parsed tracks, or null if the user cancelled the picker
+   * @throws If the file can't be read or contains no usable tracks
+   */
+  async pickTripFile(): Promise<PickedTripFile | null> {
+    let picked: Awaited<ReturnType<typeof File.pickFileAsync>>;
+    try {
+      picked = await File.pickFileAsync();
+    } catch (error) {
+      if (error instanceof Error && /cancel/i.test(error.message)) {
+        return null;
+      }
+      throw error;
+    }
+    const pickedFile = Array.isArray(picked) ? picked[0] : picked;
+    if (!pickedFile) return null;
+
+    const file = new File(pickedFile.uri);
+
+    const content = await file.text();
+    const tracks = parseTripFile(content, file.name);
+
+    console.log('[ImportService] Parsed trip file:', {
+      fileName: file.name,
+      tracks: tracks.length,
+      timed: tracks.filter((t) => t.startTime !== null).length,
+    });
+
+    return { fileName: file.name, tracks };
+  }
+}
+
+// Export singleton instance
+export const ImportService = new ImportServiceClass();
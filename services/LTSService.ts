@@ -0,0 +1,105 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { DataRangerService } from './DataRangerService';
+import { HistoryService } from './HistoryService';
+import {
+  buildCalibrationSamples,
+  calibrateLTSWeights,
+  CalibrationResult,
+  getLTSWeights,
+  LTSWeights,
+} from './utils/levelOfTrafficStress';
+
+// ═══════════════════════════════════════════════════════════
+// LTS SERVICE
+// ═══════════════════════════════════════════════════════════
+// Selects the Level of Traffic Stress model used to score segments and
+// calibrates its weights from the user's own trips.
+//
+// Calibration uses completed trips of one mode that were map-matched on
+// upload (Trip.matchedSegments) and pairs each matched facility with the
+// trip's comfort rating. Calibrated weights are stored on-device per mode;
+// they never leave the device.
+
+// --- Constants ---
+
+const WEIGHTS_KEY_PREFIX = '@lts/weights/';
+
+// --- LTS Service Class ---
+
+class LTSServiceClass {
+  /**
+   * Weights for a mode: calibrated weights if stored, otherwise model defaults.
+   */
+  async getWeights(mode: string): Promise<LTSWeights> {
+    try {
+      const raw = await AsyncStorage.getItem(this.weightsKey(mode));
+      if (raw) return { ...getLTSWeights(mode), ...(JSON.parse(raw) as Partial<LTSWeights>) };
+    } catch (error) {
+      console.warn('[LTSService] Failed to read calibrated weights:', error);
+    }
+    return getLTSWeights(mode);
+  }
+
+  /**
+   * Score queried segments with the model for this mode.
+   */
+  async activateMode(mode: string): Promise<void> {
+    const weights = await this.getWeights(mode);
+    DataRangerService.setLTSModel(mode, weights);
+    console.log('[LTSService] Active LTS model:', mode);
+  }
+
+  /**
+   * Calibrate a mode's weights from the user's map-matched trips and store them.
+   * Loads the proximity cells each trip passes through so matched segments
+   * can be looked up.
+   *
+   * @returns The fitted weights (model defaults if there were too few samples)
+   */
+  async calibrateFromTrips(mode: string): Promise<CalibrationResult> {
+    const trips = (await HistoryService.getUserTrips({ status: 'completed' })).filter(
+      (trip) => trip.mode.toLowerCase() === mode.toLowerCase() && trip.matchedSegments?.length,
+    );
+
+    await DataRangerService.initializeProximity();
+    if (DataRangerService.isProximityReady()) {
+      for (const trip of trips) {
+        const coords = HistoryService.decodePolyline(trip.geometry);
+        if (coords.length === 0) continue;
+        const bbox = { minLon: Infinity, minLat: Infinity, maxLon: -Infinity, maxLat: -Infinity };
+        for (const [lon, lat] of coords) {
+          bbox.minLon = Math.min(bbox.minLon, lon);
+          bbox.minLat = Math.min(bbox.minLat, lat);
+          bbox.maxLon = Math.max(bbox.maxLon, lon);
+          bbox.maxLat = Math.max(bbox.maxLat, lat);
+        }
+        await DataRangerService.loadGridCellsForBbox(bbox);
+      }
+    }
+
+    const samples = buildCalibrationSamples(trips, (id) => DataRangerService.getSegmentById(id));
+    const result = calibrateLTSWeights(getLTSWeights(mode), samples);
+
+    await AsyncStorage.setItem(this.weightsKey(mode), JSON.stringify(result.weights));
+    DataRangerService.setLTSModel(mode, result.weights);
+
+    console.log('[LTSService] Calibrated weights:', { mode, trips: trips.length, samples: result.sampleCount });
+    return result;
+  }
+
+  /**
+   * Discard calibrated weights for a mode and revert to model defaults.
+   */
+  async resetCalibration(mode: string): Promise<void> {
+    await AsyncStorage.removeItem(this.weightsKey(mode));
+    DataRangerService.setLTSModel(mode);
+  }
+
+  private weightsKey(mode: string): string {
+    return `${WEIGHTS_KEY_PREFIX}${mode.toLowerCase()}`;
+  }
+}
+
+// Export singleton instance
+export const LTSService = new LTSServiceClass();
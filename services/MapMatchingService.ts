@@ -0,0 +1,88 @@
+import { DataRangerService } from './DataRangerService';
+import { mapMatchTrip, MapMatchResult } from './utils/mapMatchTrip';
+
+// ═══════════════════════════════════════════════════════════
+// MAP MATCHING SERVICE
+// ═══════════════════════════════════════════════════════════
+// Snaps recorded trips onto the Proximity NetworkSegment graph so each
+// trip can be stored with the sequence of streetGridIds and facilities
+// (sidewalk, crosswalk, bikeway, street) it used. Called by SyncService
+// on the clipped geometry just before upload.
+//
+// Requires the proximity parquet to be on disk; grid cells along the
+// route are loaded on demand through DataRangerService.
+
+// --- Constants ---
+
+const CELL_LOAD_SPACING_M = 100; // Load grid cells around a point every ~100 m along the route
+const CELL_LOAD_RADIUS_M = 80; // Matches DataRangerService.loadGridCellsNearPoint default
+const MIN_MATCHED_RATIO = 0.5; // Below this the match is too sparse to be useful
+
+// --- Map Matching Service Class ---
+
+class MapMatchingServiceClass {
+  /**
+   * Map-match trip coordinates ([lon, lat] order).
+   * Returns null if the proximity network isn't available or too little of
+   * the trip falls on the loaded network.
+   */
+  async matchTrip(coordinates: [number, number][]): Promise<MapMatchResult | null> {
+    if (coordinates.length < 2) return null;
+
+    if (!DataRangerService.isProximityReady()) {
+      console.log('[MapMatchingService] Proximity network not loaded, skipping map matching');
+      return null;
+    }
+
+    try {
+      await this.loadCellsAlongRoute(coordinates);
+
+      const result = mapMatchTrip(coordinates, (lat, lon, radiusM) =>
+        DataRangerService.queryNearbySegments(lat, lon, radiusM),
+      );
+
+      console.log('[MapMatchingService] Matched trip:', {
+        points: coordinates.length,
+        segments: result.segments.length,
+        matchedRatio: result.matchedRatio.toFixed(2),
+      });
+
+      if (result.matchedRatio < MIN_MATCHED_RATIO) {
+        console.log('[MapMatchingService] Too few points on the network, discarding match');
+        return null;
+      }
+
+      return result;
+    } catch (error) {
+      console.error('[MapMatchingService] Map matching failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Load grid cells around points spaced along the route, rather than the
+   * whole bbox, so long diagonal trips don't pull in thousands of segments.
+   */
+  private async loadCellsAlongRoute(coordinates: [number, number][]): Promise<void> {
+    let last: [number, number] | null = null;
+
+    for (let i = 0; i < coordinates.length; i++) {
+      const coord = coordinates[i];
+      const isLast = i === coordinates.length - 1;
+      if (last && !isLast && this.distanceMeters(last, coord) < CELL_LOAD_SPACING_M) continue;
+
+      await DataRangerService.loadGridCellsNearPoint(coord[1], coord[0], CELL_LOAD_RADIUS_M);
+      last = coord;
+    }
+  }
+
+  private distanceMeters(a: [number, number], b: [number, number]): number {
+    const cosLat = Math.cos((((a[1] + b[1]) / 2) * Math.PI) / 180);
+    const dx = (b[0] - a[0]) * 111320 * cosLat;
+    const dy = (b[1] - a[1]) * 111320;
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+}
+
+// Export singleton instance
+export const MapMatchingService = new MapMatchingServiceClass();
@@ -0,0 +1,526 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState, NetInfoSubscription } from '@react-native-community/netinfo';
+import * as Crypto from 'expo-crypto';
+import { Directory, File, Paths } from 'expo-file-system';
+
+import { DataService, EditResolution, FeatureEdit, IDataService, RatedFeature } from '../adapters/DatabaseAdapter';
+import { SyncService } from './SyncService';
+import { TripService } from './TripService';
+import {
+  droppedOutboxEntries,
+  MAX_OUTBOX_ATTEMPTS,
+  nextOutboxEntry,
+  nextOutboxRetryAt,
+  OutboxEntry,
+  outboxRetryDelayMs,
+} from './utils/outboxQueue';
+
+// ═══════════════════════════════════════════════════════════
+// OUTBOX SERVICE
+// ═══════════════════════════════════════════════════════════
+// Durable, ordered queue for every DataRanger write: ratings, feature
+// images, segment edits, geometry edits and feature edits. Writes are
+// stored before any network call, so mapping works without signal and
+// nothing is lost if the app closes.
+//
+// Each item's ID is its idempotency key: it becomes the row's primary key
+// (or the image file name), so a retry after a lost response can't create
+// a duplicate. Edits made during a trip wait until SyncService has uploaded
+// the trip and are sent with its server ID, or are discarded if its privacy
+// level drops it; a rating with a photo waits for the photo upload.
+// Ordering rules live in utils/outboxQueue.
+//
+// Undo retracts a write that hasn't been sent yet with cancel(); one that
+// has is reversed by queueing a compensating write (the *_delete and
+// *_withdraw kinds) behind it. Resolving a rejected or conflicting edit
+// from the conflict inbox is queued the same way (the *_resolve kinds).
+
+// --- Constants ---
+
+const STORAGE_KEY_OUTBOX = '@dataranger/outbox';
+const OUTBOX_IMAGE_DIR = 'outbox_images';
+
+// --- Types ---
+
+type SegmentEditWrite = Parameters<IDataService['writeSegmentEdit']>[0];
+type GeometryEditWrite = Parameters<IDataService['writeGeometryEdit']>[0];
+
+export type OutboxWrite =
+  | { kind: 'image_upload'; userId: string; imageUri: string; featureId: string }
+  | { kind: 'rating'; rating: Omit<RatedFeature, 'id'>; imageItemId?: string }
+  | { kind: 'segment_edit'; edit: SegmentEditWrite }
+  | { kind: 'geometry_edit'; edit: GeometryEditWrite }
+  | { kind: 'feature_edit'; edit: Omit<FeatureEdit, 'id' | 'createdAt'> }
+  | { kind: 'rating_delete'; crisId: string; tripId: string }
+  | { kind: 'segment_edit_delete'; editId: string }
+  | { kind: 'geometry_edit_withdraw'; editId: string }
+  | { kind: 'geometry_edit_resolve'; editId: string; resolution: EditResolution }
+  | { kind: 'feature_edit_resolve'; editId: string; resolution: EditResolution };
+
+export interface OutboxItem extends OutboxEntry {
+  write: OutboxWrite;
+  error: string | null; // Last error message
+  createdAt: string;
+}
+
+export interface OutboxStatus {
+  pendingCount: number; // Writes not yet on the server (including failed ones)
+  failedCount: number; // Writes that reached the retry limit; sent again by retry()
+  isProcessing: boolean;
+}
+
+// --- Outbox Service Class ---
+
+class OutboxServiceClass {
+  private items: OutboxItem[] = [];
+  private isInitialized: boolean = false;
+  private initializingPromise: Promise<void> | null = null;
+  private isProcessing: boolean = false;
+  private sendingId: string | null = null; // Item currently on the wire; can't be cancelled
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private netInfoUnsubscribe: NetInfoSubscription | null = null;
+  private tripSyncedUnsubscribe: (() => void) | null = null;
+  private tripDroppedUnsubscribe: (() => void) | null = null;
+  private listeners: Set<(status: OutboxStatus) => void> = new Set();
+  private sentListeners: Set<(item: OutboxItem) => void> = new Set();
+
+  // ═══════════════════════════════════════════════════════════
+  // Initialization
+  // ═══════════════════════════════════════════════════════════
+
+  /**
+   * Load the outbox from storage and start sending.
+   * Safe to call more than once.
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+    if (!this.initializingPromise) {
+      this.initializingPromise = this.doInitialize();
+    }
+    return this.initializingPromise;
+  }
+
+  private async doInitialize(): Promise<void> {
+    // Trip ID resolution needs SyncService's queue and synced-ID map
+    await SyncService.initialize();
+
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEY_OUTBOX);
+      this.items = data ? (JSON.parse(data) as OutboxItem[]) : [];
+    } catch (error) {
+      console.error('[OutboxService] Failed to load outbox from storage:', error);
+      this.items = [];
+    }
+
+    this.isInitialized = true;
+    this.initializingPromise = null;
+
+    // Send whenever connectivity returns or a trip with waiting edits syncs
+    this.netInfoUnsubscribe = NetInfo.addEventListener((state: NetInfoState) => {
+      if (state.isConnected && state.isInternetReachable !== false && this.items.length > 0) {
+        this.processOutbox();
+      }
+    });
+    this.tripSyncedUnsubscribe = SyncService.onTripSynced(() => {
+      this.processOutbox();
+    });
+    this.tripDroppedUnsubscribe = SyncService.onTripDropped(() => {
+      this.discardDroppedTripWrites().catch((error) =>
+        console.error('[OutboxService] Failed to discard writes for a dropped trip:', error)
+      );
+    });
+
+    console.log(`[OutboxService] Initialized with ${this.items.length} pending write(s)`);
+    this.notify();
+    this.processOutbox();
+  }
+
+  /**
+   * Stop listening for connectivity and trip sync events.
+   */
+  cleanup(): void {
+    this.netInfoUnsubscribe?.();
+    this.netInfoUnsubscribe = null;
+    this.tripSyncedUnsubscribe?.();
+    this.tripSyncedUnsubscribe = null;
+    this.tripDroppedUnsubscribe?.();
+    this.tripDroppedUnsubscribe = null;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // Public API - Called by DataRangerService
+  // ═══════════════════════════════════════════════════════════
+
+  /**
+   * Store a write and try to send it.
+   * Resolves once the write is stored, not when it reaches the server.
+   *
+   * @param write - The write to send
+   * @param options.tripId - Trip the write belongs to (sent after that trip syncs)
+   * @param options.dependsOn - Outbox items that must be sent first
+   * @returns The item ID, which is also the ID of the row it creates
+   */
+  async enqueue(
+    write: OutboxWrite,
+    options: { tripId?: string; dependsOn?: string[] } = {}
+  ): Promise<string> {
+    await this.initialize();
+
+    const id = Crypto.randomUUID();
+    const stored = write.kind === 'image_upload'
+      ? { ...write, imageUri: this.persistImage(write.imageUri, id) }
+      : write;
+
+    this.items.push({
+      id,
+      write: stored,
+      tripId: options.tripId ?? null,
+      dependsOn: options.dependsOn ?? [],
+      attempts: 0,
+      nextAttemptAt: null,
+      error: null,
+      createdAt: new Date().toISOString(),
+    });
+    await this.saveToStorage();
+    this.notify();
+
+    console.log(`[OutboxService] Queued ${write.kind}:`, id);
+    this.processOutbox();
+    return id;
+  }
+
+  /**
+   * Remove a write that hasn't been sent yet.
+   *
+   * @returns true if the write was retracted, false if it was already sent
+   *          (or is being sent) and needs a compensating write instead
+   */
+  async cancel(id: string): Promise<boolean> {
+    await this.initialize();
+
+    const item = this.items.find((other) => other.id === id);
+    if (!item || this.sendingId === id) {
+      return false;
+    }
+
+    if (item.write.kind === 'image_upload') {
+      this.deleteImage(item.write.imageUri);
+    }
+    this.items = this.items.filter((other) => other.id !== id);
+    await this.saveToStorage();
+    this.notify();
+
+    console.log(`[OutboxService] Cancelled ${item.write.kind}:`, id);
+    return true;
+  }
+
+  /**
+   * Get the number of pending and failed writes.
+   */
+  getStatus(): OutboxStatus {
+    return {
+      pendingCount: this.items.length,
+      failedCount: this.items.filter((item) => item.attempts >= MAX_OUTBOX_ATTEMPTS).length,
+      isProcessing: this.isProcessing,
+    };
+  }
+
+  /**
+   * Get the writes still waiting to be sent, oldest first.
+   */
+  getPendingItems(): OutboxItem[] {
+    return [...this.items]; // Return copy to prevent external mutation
+  }
+
+  /**
+   * Subscribe to outbox status changes. The listener is called immediately.
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (status: OutboxStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to writes reaching the server, called once per sent item.
+   *
+   * @returns Unsubscribe function
+   */
+  onWriteSent(listener: (item: OutboxItem) => void): () => void {
+    this.sentListeners.add(listener);
+    return () => {
+      this.sentListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send everything now, including writes that reached the retry limit.
+   */
+  async retry(): Promise<void> {
+    await this.initialize();
+    for (const item of this.items) {
+      item.attempts = 0;
+      item.nextAttemptAt = null;
+    }
+    await this.saveToStorage();
+    await this.processOutbox();
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // Processing
+  // ═══════════════════════════════════════════════════════════
+
+  /**
+   * Send writes one at a time, in outbox order, until none can be sent.
+   */
+  private async processOutbox(): Promise<void> {
+    if (!this.isInitialized || this.isProcessing || this.items.length === 0) {
+      return;
+    }
+    await this.discardDroppedTripWrites();
+
+    // Don't spend retry attempts while offline; the network listener resumes sending
+    const network = await NetInfo.fetch();
+    if (!network.isConnected || network.isInternetReachable === false) {
+      return;
+    }
+
+    this.isProcessing = true;
+    this.notify();
+
+    try {
+      let next = nextOutboxEntry(this.items, Date.now(), (tripId) => this.resolveTripId(tripId));
+      while (next) {
+        const { entry: item, tripId } = next;
+        this.sendingId = item.id;
+        try {
+          await this.send(item, tripId);
+          await this.complete(item);
+        } catch (error) {
+          await this.fail(item, error);
+        } finally {
+          this.sendingId = null;
+        }
+        next = nextOutboxEntry(this.items, Date.now(), (id) => this.resolveTripId(id));
+      }
+    } finally {
+      this.isProcessing = false;
+      this.notify();
+      this.scheduleRetry();
+    }
+  }
+
+  /**
+   * Server ID for a trip, or null while it is being recorded or waiting to
+   * sync (or was dropped, until its writes are discarded).
+   */
+  private resolveTripId(tripId: string): string | null {
+    if (TripService.getCurrentTripData()?.metadata.tripId === tripId || SyncService.isTripDropped(tripId)) {
+      return null;
+    }
+    return SyncService.resolveTripId(tripId);
+  }
+
+  /**
+   * Remove the writes of trips the privacy level dropped; they would
+   * otherwise wait forever for a server ID.
+   */
+  private async discardDroppedTripWrites(): Promise<void> {
+    const dropped = droppedOutboxEntries(this.items, (tripId) => SyncService.isTripDropped(tripId))
+      .filter((item) => item.id !== this.sendingId);
+    if (dropped.length === 0) return;
+
+    for (const item of dropped) {
+      if (item.write.kind === 'image_upload') {
+        this.deleteImage(item.write.imageUri);
+      }
+    }
+    const droppedIds = new Set(dropped.map((item) => item.id));
+    this.items = this.items.filter((item) => !droppedIds.has(item.id));
+    await this.saveToStorage();
+    this.notify();
+    console.log(`[OutboxService] Discarded ${dropped.length} write(s) for dropped trips`);
+  }
+
+  /**
+   * Send a single write, using the item ID as its idempotency key.
+   */
+  private async send(item: OutboxItem, tripId: string | null): Promise<void> {
+    const { write } = item;
+
+    switch (write.kind) {
+      case 'image_upload': {
+        const imageUrl = await DataService.uploadFeatureImage(write.userId, write.imageUri, write.featureId, item.id);
+        // Hand the URL to the rating waiting on this photo
+        for (const other of this.items) {
+          if (other.write.kind === 'rating' && other.write.imageItemId === item.id) {
+            other.write.rating.imageUrl = imageUrl;
+          }
+        }
+        this.deleteImage(write.imageUri);
+        return;
+      }
+
+      case 'rating': {
+        const rating = { ...write.rating, tripId: tripId ?? write.rating.tripId };
+        // Re-rating a feature in the same trip updates the existing row
+        const existingRatings = await DataService.getRatingsForTrip(rating.tripId);
+        const existing = existingRatings.find((r) => r.crisId === rating.crisId);
+        if (existing) {
+          await DataService.updateRating(rating.crisId, rating.tripId, {
+            userRating: rating.userRating,
+            ...(rating.imageUrl && { imageUrl: rating.imageUrl }),
+          });
+        } else {
+          await DataService.writeRating({ ...rating, id: item.id });
+        }
+        return;
+      }
+
+      case 'segment_edit':
+        await DataService.writeSegmentEdit({ ...write.edit, id: item.id, tripId: tripId ?? write.edit.tripId });
+        return;
+
+      case 'geometry_edit':
+        await DataService.writeGeometryEdit({ ...write.edit, id: item.id, tripId: tripId ?? write.edit.tripId });
+        return;
+
+      case 'feature_edit':
+        await DataService.writeFeatureEdit({ ...write.edit, id: item.id, tripId: tripId ?? write.edit.tripId });
+        return;
+
+      case 'rating_delete':
+        await DataService.deleteRating(write.crisId, tripId ?? write.tripId);
+        return;
+
+      case 'segment_edit_delete':
+        await DataService.deleteSegmentEdit(write.editId);
+        return;
+
+      case 'geometry_edit_withdraw':
+        await DataService.withdrawGeometryEdit(write.editId);
+        return;
+
+      case 'geometry_edit_resolve':
+        await DataService.resolveGeometryEdit(write.editId, write.resolution);
+        return;
+
+      case 'feature_edit_resolve':
+        await DataService.resolveFeatureEdit(write.editId, write.resolution);
+        return;
+    }
+  }
+
+  /**
+   * Remove a sent item and release the items waiting on it.
+   */
+  private async complete(item: OutboxItem): Promise<void> {
+    this.items = this.items.filter((other) => other.id !== item.id);
+    await this.saveToStorage();
+    this.notify();
+    this.sentListeners.forEach((listener) => listener(item));
+    console.log(`[OutboxService] Sent ${item.write.kind}:`, item.id);
+  }
+
+  /**
+   * Record a failed attempt and schedule the next one with backoff.
+   */
+  private async fail(item: OutboxItem, error: unknown): Promise<void> {
+    item.attempts += 1;
+    item.error = error instanceof Error ? error.message : 'Send failed';
+    item.nextAttemptAt = new Date(Date.now() + outboxRetryDelayMs(item.attempts)).toISOString();
+
+    console.warn(
+      `[OutboxService] Failed to send ${item.write.kind} ${item.id} (attempt ${item.attempts}/${MAX_OUTBOX_ATTEMPTS}):`,
+      item.error
+    );
+
+    // A photo that keeps failing shouldn't hold its rating back forever;
+    // the rating is saved without it, as it was before the outbox
+    if (item.write.kind === 'image_upload' && item.attempts >= MAX_OUTBOX_ATTEMPTS) {
+      console.error('[OutboxService] Giving up on image upload:', item.id);
+      this.deleteImage(item.write.imageUri);
+      this.items = this.items.filter((other) => other.id !== item.id);
+    }
+
+    await this.saveToStorage();
+    this.notify();
+  }
+
+  /**
+   * Wake up when the earliest backoff delay has passed.
+   */
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const retryAt = nextOutboxRetryAt(this.items);
+    if (retryAt === null) return;
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.processOutbox();
+    }, Math.max(1000, retryAt - Date.now()));
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // Storage
+  // ═══════════════════════════════════════════════════════════
+
+  private async saveToStorage(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY_OUTBOX, JSON.stringify(this.items));
+    } catch (error) {
+      console.error('[OutboxService] Failed to save outbox to storage:', error);
+      throw new Error('Failed to save outbox to storage');
+    }
+  }
+
+  /**
+   * Copy a picked photo out of the image picker's cache, which the OS may
+   * clear before the upload happens.
+   */
+  private persistImage(imageUri: string, id: string): string {
+    try {
+      const directory = new Directory(Paths.document, OUTBOX_IMAGE_DIR);
+      if (!directory.exists) {
+        directory.create();
+      }
+      const extension = imageUri.split('.').pop() || 'jpg';
+      const target = new File(directory, `${id}.${extension}`);
+      new File(imageUri).copy(target);
+      return target.uri;
+    } catch (error) {
+      console.warn('[OutboxService] Failed to copy image, uploading from original location:', error);
+      return imageUri;
+    }
+  }
+
+  private deleteImage(imageUri: string): void {
+    if (!imageUri.includes(OUTBOX_IMAGE_DIR)) return;
+    try {
+      const file = new File(imageUri);
+      if (file.exists) file.delete();
+    } catch (error) {
+      console.warn('[OutboxService] Failed to delete uploaded image copy:', error);
+    }
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach((listener) => listener(status));
+  }
+}
+
+// Export singleton instance
+export const OutboxService = new OutboxServiceClass();
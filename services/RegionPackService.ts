@@ -0,0 +1,1308 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import * as Battery from 'expo-battery';
+import * as Crypto from 'expo-crypto';
+import { Directory, File, Paths } from 'expo-file-system';
+
+import { DataService, RegionPack } from '@/adapters/DatabaseAdapter';
+import {
+  canResumeDownload,
+  DEFAULT_DOWNLOAD_POLICY,
+  DownloadPausedError,
+  DownloadPauseReason,
+  DownloadPolicy,
+  DownloadProgress,
+  estimateSecondsRemaining,
+  getDownloadPauseReason,
+  nextTransferRate,
+  PartialDownload,
+} from '@/services/utils/downloadProgress';
+import { GridProjection, parseGridProjection } from '@/services/utils/gridProjection';
+import {
+  applyManifestDiff,
+  diffManifests,
+  getChunkPath,
+  InstalledManifest,
+  isSameGrid,
+  parseManifest,
+  shouldDownloadFull,
+  toHex,
+} from '@/services/utils/proximityManifest';
+import {
+  assertChecksum,
+  assertRequiredColumns,
+  isSchemaSupported,
+  ParquetIntegrityError,
+  ParquetSchemaElement,
+} from '@/services/utils/parquetIntegrity';
+import { getAllColumns } from '@/services/utils/parquetToSegments';
+import { BBox, getPacksForBbox, getPackUtmZone, isPackOutdated } from '@/services/utils/regionPacks';
+import { Sha256 } from '@/services/utils/sha256';
+
+// ═══════════════════════════════════════════════════════════
+// REGION PACK SERVICE
+// ═══════════════════════════════════════════════════════════
+// Manages the proximity network on disk as region packs: downloadable
+// areas listed in the region_packs catalog, each with its own parquet,
+// grid cell index and grid projection. DataRangerService reads cells from
+// whichever installed packs cover the viewport.
+//
+// Each pack lives in its own folder (proximity_packs/<id>/) holding the
+// parquet, the cached grid cell index, the installed cell manifest and
+// any cell chunks patched in by delta updates (utils/proximityManifest).
+// Parquet files are read through file handles, never loaded whole into
+// the JS heap.
+//
+// Downloads are verified before they replace anything: the SHA-256 from
+// the catalog, the PAR1 magic bytes and the columns parquetToSegments
+// reads (utils/parquetIntegrity). A file that fails is downloaded again;
+// if it still fails, the pack keeps its previous build and listeners get
+// a 'failed' change.
+//
+// Parquet downloads are resumable (utils/downloadProgress): the offset and
+// ETag are saved after every Range request, and a download cut short
+// continues on the next launch or when connectivity returns. Downloads
+// pause while offline and, if the user chose, on cellular or low battery.
+//
+// On first run the San Francisco pack is installed, or adopted from the
+// files of the single city-wide parquet earlier versions downloaded.
+
+// --- Types ---
+
+export interface InstalledRegionPack extends RegionPack {
+  version: string; // Build on the device
+  installedAt: string;
+  parquetSha256: string | null; // Of the parquet on disk, checked at download; null if never hashed
+}
+
+/** An installed pack opened for reading. */
+export interface RegionPackState {
+  pack: InstalledRegionPack;
+  parquetFile: InstanceType<typeof File>;
+  gridOrigin: { x: number; y: number; cellSize: number };
+  projection: GridProjection; // Grid coordinates of gridOrigin and cell keys
+  gridCellIndex: Map<string, Set<number>>; // "col_row" → row group indices in the parquet
+  manifest: InstalledManifest | null; // Cells patched since the parquet
+}
+
+export interface RegionPackUsage {
+  pack: InstalledRegionPack;
+  diskBytes: number;
+}
+
+export type RegionPackChange =
+  | { kind: 'installed' | 'removed'; packId: string }
+  | { kind: 'updated'; packId: string; version: string; cells: string[] | null } // null: whole pack replaced
+  | { kind: 'failed'; packId: string; error: ParquetIntegrityError };
+
+export type FileAsyncBuffer = ReturnType<RegionPackServiceClass['createFileAsyncBuffer']>;
+
+// --- Constants ---
+
+const PACKS_DIR = 'proximity_packs';
+const PARQUET_FILE_NAME = 'network.parquet';
+const DOWNLOAD_FILE_NAME = 'network.parquet.download'; // Until verified
+const GRID_INDEX_FILE_NAME = 'grid_index.json';
+const MANIFEST_FILE_NAME = 'manifest.json';
+const CELL_CHUNKS_DIR = 'cells';
+const STORAGE_KEY_INSTALLED_PACKS = '@proximity/installedPacks';
+const STORAGE_KEY_PARTIAL_DOWNLOADS = '@proximity/partialDownloads';
+const STORAGE_KEY_DOWNLOAD_POLICY = '@proximity/downloadPolicy';
+
+// Chunked read batch size — keeps per-call allocation under ~4 MB
+const INDEX_BUILD_BATCH_SIZE = 2000;
+
+// A download that fails verification is retried once before giving up
+const MAX_DOWNLOAD_ATTEMPTS = 2;
+
+// Hashing reads the parquet back in pieces this size
+const HASH_CHUNK_BYTES = 4 * 1024 * 1024;
+
+// Installed on first run; matches the row seeded in the region_packs migration
+const DEFAULT_REGION_PACK: RegionPack = {
+  id: 'san-francisco-ca',
+  name: 'San Francisco',
+  jurisdiction: 'San Francisco County, California',
+  bbox: { minLon: -122.5149, minLat: 37.7081, maxLon: -122.3569, maxLat: 37.8324 },
+  utmZone: 10,
+  utmHemisphere: 'N',
+  assetName: 'San_Francisco_County_California_USA_network',
+  sizeBytes: 0,
+  lastUpdated: '2026-03-17T00:00:00Z',
+  sha256: null,
+  schemaVersion: null,
+  timeZone: 'America/Los_Angeles',
+  holidayCalendar: 'us-federal',
+  hasCensusBlocks: true,
+};
+
+// Single-parquet layout from before region packs
+const LEGACY_FILES = {
+  parquet: 'proximity_network.parquet',
+  gridIndex: 'proximity_grid_index.json',
+  manifest: 'proximity_manifest.json',
+  chunks: 'proximity_cells',
+  versionKey: '@proximity/version',
+};
+
+// --- Region Pack Service Class ---
+
+class RegionPackServiceClass {
+  private installed: InstalledRegionPack[] = [];
+  private states: Map<string, RegionPackState> = new Map();
+  private isInitialized: boolean = false;
+  // Joined by concurrent callers, so a pack is never downloaded twice at once
+  private initializingPromise: Promise<void> | null = null;
+  private installing: Map<string, Promise<void>> = new Map(); // Installs and full re-downloads
+  private listeners: Set<(change: RegionPackChange) => void> = new Set();
+  private partialDownloads: Record<string, PartialDownload> = {};
+  private downloads: Map<string, DownloadProgress> = new Map();
+  private downloadListeners: Set<(downloads: DownloadProgress[]) => void> = new Set();
+  private downloadPolicy: DownloadPolicy = DEFAULT_DOWNLOAD_POLICY;
+  private conditionUnsubscribes: (() => void)[] = [];
+
+  // ═══════════════════════════════════════════════════════════
+  // Initialization
+  // ═══════════════════════════════════════════════════════════
+
+  /**
+   * Open every installed pack (reading metadata and grid indexes only).
+   * On first run, installs the default pack. Safe to call more than once.
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+    if (!this.initializingPromise) {
+      this.initializingPromise = this.doInitialize().finally(() => {
+        this.initializingPromise = null;
+      });
+    }
+    return this.initializingPromise;
+  }
+
+  private async doInitialize(): Promise<void> {
+    await this.loadDownloadState();
+    const stored = await AsyncStorage.getItem(STORAGE_KEY_INSTALLED_PACKS);
+
+    if (stored === null) {
+      // First run: nothing chosen yet
+      this.installed = [];
+      const adopted = await this.adoptLegacyInstall();
+      if (!adopted) {
+        try {
+          await this.downloadPack(DEFAULT_REGION_PACK);
+        } catch (err) {
+          // Installed by resumeDownloads() once conditions allow
+          if (!(err instanceof DownloadPausedError)) throw err;
+          console.log(`[RegionPackService] Default pack download paused (${err.reason})`);
+        }
+      }
+    } else {
+      // Records saved before checksums, time zones or the census block flag were published lack those fields
+      this.installed = (JSON.parse(stored) as InstalledRegionPack[]).map((pack) => ({
+        ...pack,
+        sha256: pack.sha256 ?? null,
+        schemaVersion: pack.schemaVersion ?? null,
+        timeZone: pack.timeZone ?? null,
+        holidayCalendar: pack.holidayCalendar ?? null,
+        hasCensusBlocks: pack.hasCensusBlocks ?? true,
+        parquetSha256: pack.parquetSha256 ?? null,
+      }));
+    }
+
+    // One pack at a time; each index build reads its parquet in batches
+    for (const pack of this.installed) {
+      if (this.states.has(pack.id)) continue;
+      try {
+        this.states.set(pack.id, await this.openPack(pack));
+      } catch (err) {
+        console.warn(`[RegionPackService] Failed to open pack ${pack.id}:`, err);
+        this.notifyIfIntegrityError(pack.id, err);
+      }
+    }
+
+    this.isInitialized = true;
+    console.log(`[RegionPackService] Initialized: ${this.states.size} of ${this.installed.length} pack(s) open`);
+
+    this.watchDownloadConditions();
+    this.resumeDownloads().catch((err) => {
+      console.warn('[RegionPackService] Failed to resume downloads:', err);
+    });
+  }
+
+  /**
+   * Forget opened packs (files stay on disk). Saved partial downloads
+   * resume after the next initialize().
+   */
+  reset(): void {
+    this.conditionUnsubscribes.forEach((unsubscribe) => unsubscribe());
+    this.conditionUnsubscribes = [];
+    this.states.clear();
+    this.installed = [];
+    this.partialDownloads = {};
+    this.downloads.clear();
+    this.notifyDownloads();
+    this.isInitialized = false;
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // Public API
+  // ═══════════════════════════════════════════════════════════
+
+  /** Installed packs that opened successfully. */
+  getPackStates(): RegionPackState[] {
+    return [...this.states.values()];
+  }
+
+  /** Installed packs whose area overlaps the bounding box (e.g. the viewport). */
+  getPackStatesForBbox(bbox: BBox): RegionPackState[] {
+    return getPacksForBbox(this.installed, bbox)
+      .map((pack) => this.states.get(pack.id))
+      .filter((state): state is RegionPackState => state !== undefined);
+  }
+
+  /** Packs available for download. */
+  async getCatalog(): Promise<RegionPack[]> {
+    return DataService.getRegionPacks();
+  }
+
+  /**
+   * Installed packs with the disk space each uses.
+   */
+  getInstalledPacks(): RegionPackUsage[] {
+    return this.installed.map((pack) => ({
+      pack,
+      diskBytes: this.getDirectorySize(this.getPackDirectory(pack.id)),
+    }));
+  }
+
+  isInstalling(packId: string): boolean {
+    return this.installing.has(packId);
+  }
+
+  /**
+   * Download a pack and open it. Resolves when the pack is ready to read.
+   */
+  async installRegionPack(pack: RegionPack): Promise<void> {
+    await this.initialize();
+    if (this.states.has(pack.id)) return;
+
+    return this.trackDownload(pack.id, async () => {
+      const installed = await this.downloadPack(pack);
+      this.states.set(pack.id, await this.openPack(installed));
+      this.notify({ kind: 'installed', packId: pack.id });
+    });
+  }
+
+  /**
+   * Delete a pack's files, or the part downloaded so far. Its cells
+   * disappear from the map.
+   */
+  async removeRegionPack(packId: string): Promise<void> {
+    this.states.delete(packId);
+    this.installed = this.installed.filter((pack) => pack.id !== packId);
+    await this.saveInstalledPacks();
+    await this.clearPartialDownload(packId);
+    this.setProgress(packId, null);
+
+    try {
+      const directory = this.getPackDirectory(packId);
+      if (directory.exists) directory.delete();
+    } catch (err) {
+      console.warn(`[RegionPackService] Failed to delete pack ${packId}:`, err);
+    }
+    this.notify({ kind: 'removed', packId });
+  }
+
+  /**
+   * Bring installed packs up to date with the catalog. Changed cells are
+   * fetched on their own where the pack publishes a manifest; otherwise
+   * the pack's parquet is downloaded again.
+   */
+  async checkForUpdates(): Promise<void> {
+    await this.initialize();
+
+    let catalog: RegionPack[];
+    try {
+      catalog = await this.getCatalog();
+    } catch (err) {
+      console.warn('[RegionPackService] Failed to fetch region pack catalog:', err);
+      return;
+    }
+
+    for (const installed of [...this.installed]) {
+      const latest = catalog.find((pack) => pack.id === installed.id);
+      if (!latest) continue;
+      if (!isPackOutdated(installed.version, latest)) {
+        await this.verifyInstalledParquet(installed, latest);
+        continue;
+      }
+
+      try {
+        const cells = await this.applyDeltaUpdate(installed, latest);
+        if (cells) {
+          this.notify({ kind: 'updated', packId: installed.id, version: latest.lastUpdated, cells });
+          continue;
+        }
+
+        console.log(`[RegionPackService] Update available for ${installed.id}, re-downloading...`);
+        await this.replacePack(latest);
+      } catch (err) {
+        console.warn(`[RegionPackService] Failed to update pack ${installed.id}:`, err);
+      }
+    }
+  }
+
+  /**
+   * Delete every pack. The next initialize() starts over as a first run.
+   */
+  async clearAll(): Promise<void> {
+    try {
+      const directory = new Directory(Paths.document, PACKS_DIR);
+      if (directory.exists) directory.delete();
+      this.deleteLegacyFiles();
+      await AsyncStorage.multiRemove([STORAGE_KEY_INSTALLED_PACKS, STORAGE_KEY_PARTIAL_DOWNLOADS, LEGACY_FILES.versionKey]);
+      this.reset();
+      console.log('[RegionPackService] All packs deleted');
+    } catch (error) {
+      console.warn('[RegionPackService] Failed to delete packs:', error);
+    }
+  }
+
+  /**
+   * Subscribe to packs being installed, updated or removed.
+   *
+   * @returns Unsubscribe function
+   */
+  onPackChange(listener: (change: RegionPackChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // Download Progress
+  // ═══════════════════════════════════════════════════════════
+
+  /** Parquet downloads running, verifying or paused part way through. */
+  getDownloads(): DownloadProgress[] {
+    return [...this.downloads.values()];
+  }
+
+  /**
+   * Subscribe to download progress. The listener is called immediately
+   * with the current downloads.
+   *
+   * @returns Unsubscribe function
+   */
+  onDownloadProgress(listener: (downloads: DownloadProgress[]) => void): () => void {
+    this.downloadListeners.add(listener);
+    listener(this.getDownloads());
+    return () => {
+      this.downloadListeners.delete(listener);
+    };
+  }
+
+  getDownloadPolicy(): DownloadPolicy {
+    return this.downloadPolicy;
+  }
+
+  async setDownloadPolicy(policy: DownloadPolicy): Promise<void> {
+    this.downloadPolicy = policy;
+    await AsyncStorage.setItem(STORAGE_KEY_DOWNLOAD_POLICY, JSON.stringify(policy));
+    await this.resumeDownloads();
+  }
+
+  /**
+   * Continue downloads saved part way through, if conditions allow. Runs
+   * after initialize() and whenever connectivity or the battery changes.
+   */
+  async resumeDownloads(): Promise<void> {
+    if (!this.isInitialized) return;
+    const pending = Object.values(this.partialDownloads).filter(({ pack }) => !this.installing.has(pack.id));
+    if (pending.length === 0 || (await this.getPauseReason()) !== null) return;
+
+    for (const { pack } of pending) {
+      try {
+        if (this.installed.some((installed) => installed.id === pack.id)) {
+          await this.replacePack(pack);
+        } else {
+          await this.installRegionPack(pack);
+        }
+      } catch (err) {
+        console.warn(`[RegionPackService] Failed to resume download of ${pack.id}:`, err);
+      }
+    }
+  }
+
+  /**
+   * Create an AsyncBuffer backed by on-disk file reads via FileHandle.
+   * Reads only the requested byte ranges — never loads the full parquet into JS heap.
+   */
+  createFileAsyncBuffer(file: InstanceType<typeof File>) {
+    // Keep ONE file handle open for the lifetime of the buffer instead of
+    // open/close per slice. Each slice() typically reads a small column page;
+    // a 200-column row group triggers hundreds of slices and the syscall
+    // overhead from open/close was freezing the JS thread for seconds.
+    const handle = file.open();
+    const fileSize = handle.size!;
+
+    return {
+      byteLength: fileSize,
+      slice(start: number, end?: number): Promise<ArrayBuffer> {
+        const len = (end ?? fileSize) - start;
+        handle.offset = start;
+        const bytes = handle.readBytes(len);
+        return Promise.resolve(bytes.buffer);
+      },
+      close() {
+        try { handle.close(); } catch { /* ignore */ }
+      },
+    };
+  }
+
+  /** The downloaded chunk serving a patched cell. */
+  getChunkFile(packId: string, sha256: string): InstanceType<typeof File> {
+    return new File(this.getPackDirectory(packId), CELL_CHUNKS_DIR, `${sha256}.parquet`);
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // Opening packs
+  // ═══════════════════════════════════════════════════════════
+
+  /**
+   * Download a pack's new build and swap it in for the open one.
+   */
+  private replacePack(latest: RegionPack): Promise<void> {
+    return this.trackDownload(latest.id, async () => {
+      const updated = await this.downloadPack(latest);
+      this.states.delete(latest.id);
+      this.states.set(latest.id, await this.openPack(updated));
+      this.notify({ kind: 'updated', packId: latest.id, version: latest.lastUpdated, cells: null });
+    });
+  }
+
+  /**
+   * Run a pack download unless one is already in flight, which callers
+   * join instead.
+   */
+  private trackDownload(packId: string, download: () => Promise<void>): Promise<void> {
+    const pending = this.installing.get(packId);
+    if (pending) return pending;
+
+    const run = download()
+      .catch((err) => {
+        this.notifyIfIntegrityError(packId, err);
+        throw err;
+      })
+      .finally(() => {
+        this.installing.delete(packId);
+      });
+    this.installing.set(packId, run);
+    return run;
+  }
+
+  /**
+   * Read a pack's grid origin and cell index. Re-downloads the parquet if
+   * the file on disk is missing or truncated.
+   */
+  private async openPack(pack: InstalledRegionPack): Promise<RegionPackState> {
+    let parquetFile = new File(this.getPackDirectory(pack.id), PARQUET_FILE_NAME);
+    if (!parquetFile.exists || !this.isParquetValid(parquetFile)) {
+      console.warn(`[RegionPackService] Parquet for ${pack.id} missing or invalid, re-downloading`);
+      pack = await this.downloadPack(pack);
+      parquetFile = new File(this.getPackDirectory(pack.id), PARQUET_FILE_NAME);
+    }
+
+    let metadata = await this.readGridMetadata(parquetFile);
+    try {
+      assertRequiredColumns(metadata.schema, getAllColumns(), `${pack.name} network`);
+    } catch (err) {
+      // downloadPack checks the same columns, so this only runs once
+      console.warn(`[RegionPackService] Parquet for ${pack.id} unreadable, re-downloading:`, err);
+      pack = await this.downloadPack(pack);
+      metadata = await this.readGridMetadata(parquetFile);
+    }
+
+    const { gridOrigin, projection } = metadata;
+    const manifest = await this.loadManifest(pack.id);
+    const state: RegionPackState = {
+      pack,
+      parquetFile,
+      gridOrigin,
+      // Parquets without projection metadata are gridded in the pack's catalog zone
+      projection: projection ?? getPackUtmZone(pack),
+      gridCellIndex: new Map(),
+      manifest,
+    };
+
+    // Try the cached index first; building it scans the whole parquet
+    const cachedIndex = this.loadGridCellIndex(pack.id);
+    if (cachedIndex) {
+      state.gridCellIndex = cachedIndex;
+      if (this.patchGridCellIndex(state)) this.saveGridCellIndex(state);
+    } else {
+      await this.buildGridCellIndex(state);
+      this.patchGridCellIndex(state);
+      this.saveGridCellIndex(state);
+    }
+
+    console.log(`[RegionPackService] Opened ${pack.id}: ${state.gridCellIndex.size} grid cells indexed`);
+    return state;
+  }
+
+  /**
+   * Read the schema, grid origin and projection from the parquet's footer.
+   * The projection is null in parquets that predate it.
+   */
+  private async readGridMetadata(parquetFile: InstanceType<typeof File>): Promise<
+    Pick<RegionPackState, 'gridOrigin'> & { projection: GridProjection | null; schema: ParquetSchemaElement[] }
+  > {
+    // Reads only the footer from disk
+    const { parquetMetadataAsync } = await import('hyparquet/src/index.js');
+    const metaBuffer = this.createFileAsyncBuffer(parquetFile);
+    let metadata;
+    try {
+      metadata = await parquetMetadataAsync(metaBuffer);
+    } finally {
+      metaBuffer.close();
+    }
+
+    const readJson = (key: string): unknown => {
+      const kv = metadata.key_value_metadata?.find((entry: { key: unknown }) => String(entry.key ?? '') === key);
+      if (!kv) return undefined;
+      const raw = kv.value as string | Uint8Array | undefined;
+      return JSON.parse(raw instanceof Uint8Array ? new TextDecoder().decode(raw) : (raw ?? ''));
+    };
+
+    const origin = readJson('proximity_grid_origin') as { x: number; y: number; cell_size?: number; cellSize?: number } | undefined;
+    if (!origin) {
+      throw new Error('Parquet missing proximity_grid_origin metadata — re-run the pipeline and re-upload.');
+    }
+    const projection = readJson('proximity_grid_projection');
+
+    return {
+      // Parquet stores it as snake_case `cell_size`; normalize to camelCase.
+      gridOrigin: { x: origin.x, y: origin.y, cellSize: origin.cell_size ?? origin.cellSize ?? 500 },
+      projection: projection === undefined ? null : parseGridProjection(projection),
+      schema: metadata.schema,
+    };
+  }
+
+  private isParquetValid(file: InstanceType<typeof File>): boolean {
+    try {
+      const handle = file.open();
+      try {
+        const fileSize = handle.size ?? 0;
+        console.log(`[RegionPackService] Cached file size: ${(fileSize / 1024 / 1024).toFixed(1)} MB`);
+
+        // Even a small pack is several hundred KB; a download cut off
+        // early is smaller.
+        if (fileSize < 64 * 1024) {
+          console.warn('[RegionPackService] File too small, likely truncated download');
+          return false;
+        }
+
+        // Check PAR1 magic at header (bytes 0-3)
+        const header = handle.readBytes(4);
+        const headerOk = header[0] === 0x50 && header[1] === 0x41 && header[2] === 0x52 && header[3] === 0x31;
+
+        // Check PAR1 magic at footer (last 4 bytes) — truncated downloads fail here
+        handle.offset = fileSize - 4;
+        const footer = handle.readBytes(4);
+        const footerOk = footer[0] === 0x50 && footer[1] === 0x41 && footer[2] === 0x52 && footer[3] === 0x31;
+
+        console.log(`[RegionPackService] PAR1 header=${headerOk} footer=${footerOk}`);
+        return headerOk && footerOk;
+      } finally {
+        handle.close();
+      }
+    } catch (err) {
+      console.warn('[RegionPackService] Parquet validation error:', err);
+      return false;
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // Downloads
+  // ═══════════════════════════════════════════════════════════
+
+  /**
+   * Download a pack's parquet and manifest into its folder, replacing any
+   * previous build, and record it as installed. The previous build stays
+   * in place until the new parquet has been verified.
+   *
+   * @throws ParquetIntegrityError if the parquet still fails verification
+   *   after a retry, or needs a newer app
+   */
+  private async downloadPack(pack: RegionPack): Promise<InstalledRegionPack> {
+    if (!isSchemaSupported(pack.schemaVersion)) {
+      throw new ParquetIntegrityError(
+        'unsupported_schema',
+        `${pack.name} was built for a newer version of the app (schema v${pack.schemaVersion}). Update the app to download it.`
+      );
+    }
+
+    const directory = this.getPackDirectory(pack.id);
+    if (!directory.exists) directory.create({ intermediates: true });
+    const download = new File(directory, DOWNLOAD_FILE_NAME);
+
+    let parquetSha256: string | null = null;
+    for (let attempt = 1; parquetSha256 === null; attempt++) {
+      try {
+        parquetSha256 = await this.downloadParquet(pack, download);
+        if (pack.sha256) assertChecksum(parquetSha256, pack.sha256, `${pack.name} network`);
+        const { schema } = await this.readGridMetadata(download);
+        assertRequiredColumns(schema, getAllColumns(), `${pack.name} network`);
+      } catch (err) {
+        parquetSha256 = null;
+        if (!(err instanceof ParquetIntegrityError)) {
+          // Paused or cut off: what was written resumes later
+          const saved = this.partialDownloads[pack.id];
+          if (saved) {
+            this.setProgress(pack.id, {
+              status: 'paused',
+              pauseReason: err instanceof DownloadPausedError ? err.reason : null,
+              bytesWritten: saved.bytesWritten,
+              totalBytes: saved.totalBytes,
+              bytesPerSecond: null,
+              secondsRemaining: null,
+            }, pack);
+          } else {
+            this.setProgress(pack.id, null);
+          }
+          throw err;
+        }
+
+        if (download.exists) download.delete();
+        await this.clearPartialDownload(pack.id);
+        this.setProgress(pack.id, null);
+        // A bad transfer may not repeat; a file missing columns will
+        if (err.reason === 'missing_columns' || attempt >= MAX_DOWNLOAD_ATTEMPTS) throw err;
+        console.warn(`[RegionPackService] ${pack.id} parquet failed verification, retrying:`, err);
+      }
+    }
+    this.setProgress(pack.id, null);
+
+    const manifest = await this.fetchBaseManifest(pack);
+
+    // Old index, manifest and chunks belong to the old build
+    for (const entry of directory.list()) {
+      if (entry.name !== DOWNLOAD_FILE_NAME) entry.delete();
+    }
+    download.move(new File(directory, PARQUET_FILE_NAME));
+    if (manifest) this.saveManifest(pack.id, manifest);
+
+    const installed: InstalledRegionPack = {
+      ...pack,
+      version: manifest?.version ?? pack.lastUpdated,
+      installedAt: new Date().toISOString(),
+      parquetSha256,
+    };
+    this.installed = [...this.installed.filter((p) => p.id !== pack.id), installed];
+    await this.saveInstalledPacks();
+    return installed;
+  }
+
+  /**
+   * Download the pack's parquet to `file`, hashing it as it's written.
+   * Continues a download saved part way through if the server still has
+   * the same file. Progress is saved after every Range request.
+   *
+   * @returns The file's SHA-256 as lowercase hex
+   * @throws DownloadPausedError if conditions pause the download
+   * @throws ParquetIntegrityError if the download is short or not a parquet
+   */
+  private async downloadParquet(pack: RegionPack, file: InstanceType<typeof File>): Promise<string> {
+    const url = DataService.getProximityAssetUrl(pack.assetName);
+    console.log('[RegionPackService] Downloading parquet (chunked):', url);
+
+    // Resolve total size upfront so we can issue Range requests.
+    const head = await fetch(url, { method: 'HEAD' });
+    const totalSize = parseInt(head.headers.get('content-length') ?? '0', 10);
+    if (!totalSize) throw new Error('Server did not return Content-Length for parquet');
+    const etag = head.headers.get('etag');
+    console.log(`[RegionPackService] Parquet size: ${(totalSize / 1024 / 1024).toFixed(1)} MB`);
+
+    // Bytes already on disk are hashed again; the hasher's state isn't saved
+    let hash: Sha256;
+    let written = 0;
+    const saved = this.partialDownloads[pack.id];
+    if (saved && file.exists && canResumeDownload(saved, pack, { etag, totalBytes: totalSize })) {
+      written = Math.min(saved.bytesWritten, file.size);
+      this.setProgress(pack.id, { status: 'verifying', pauseReason: null, bytesWritten: written, totalBytes: totalSize }, pack);
+      hash = await this.hashFile(file, written);
+      console.log(`[RegionPackService] Resuming ${pack.id} at ${(written / 1024 / 1024).toFixed(1)} MB`);
+    } else {
+      hash = new Sha256();
+      file.write(new Uint8Array(0)); // create/truncate destination
+    }
+    let partial: PartialDownload = { pack, etag, totalBytes: totalSize, bytesWritten: written };
+    await this.savePartialDownload(partial);
+
+    // Chunked Range download — each fetch allocates only CHUNK bytes in the
+    // JS heap. After writeBytes the Uint8Array is unreferenced and Hermes can
+    // GC it before the next chunk arrives, keeping peak heap well under 10 MB.
+    const CHUNK = 4 * 1024 * 1024; // 4 MB per request
+    const handle = file.open();
+    handle.offset = written;
+    let bytesPerSecond: number | null = null;
+    try {
+      while (written < totalSize) {
+        const pauseReason = await this.getPauseReason();
+        if (pauseReason) throw new DownloadPausedError(pauseReason);
+        this.setProgress(pack.id, {
+          status: 'downloading',
+          pauseReason: null,
+          bytesWritten: written,
+          totalBytes: totalSize,
+          bytesPerSecond,
+          secondsRemaining: estimateSecondsRemaining(totalSize - written, bytesPerSecond),
+        }, pack);
+
+        const end = Math.min(written + CHUNK - 1, totalSize - 1);
+        const startedAt = Date.now();
+        // With If-Range, a file replaced since the HEAD comes back whole (200)
+        const resp = await fetch(url, {
+          headers: { Range: `bytes=${written}-${end}`, ...(etag ? { 'If-Range': etag } : {}) },
+        });
+        if (resp.status === 200 && written > 0) {
+          await this.clearPartialDownload(pack.id);
+          throw new Error('Parquet changed on the server during download — please retry');
+        }
+        if (resp.status !== 206 && resp.status !== 200) {
+          throw new Error(`HTTP ${resp.status} on range ${written}-${end}`);
+        }
+        const chunk = new Uint8Array(await resp.arrayBuffer());
+        if (chunk.byteLength === 0) break; // Server stopped short; caught below
+        handle.writeBytes(chunk);
+        hash.update(chunk);
+        written += chunk.byteLength;
+        bytesPerSecond = nextTransferRate(bytesPerSecond, chunk.byteLength, Date.now() - startedAt);
+
+        partial = { ...partial, bytesWritten: written };
+        await this.savePartialDownload(partial);
+        console.log(`[RegionPackService] ${(written / 1024 / 1024).toFixed(1)}/${(totalSize / 1024 / 1024).toFixed(1)} MB`);
+      }
+    } finally {
+      handle.close();
+    }
+
+    // Complete or not, these bytes can't be resumed from
+    await this.clearPartialDownload(pack.id);
+    this.setProgress(pack.id, { status: 'verifying', bytesWritten: written, bytesPerSecond: null, secondsRemaining: null }, pack);
+
+    if (written !== totalSize || !this.isParquetValid(file)) {
+      throw new ParquetIntegrityError(
+        'truncated',
+        `${pack.name} network download was incomplete (${written} of ${totalSize} bytes) or is not a parquet file`
+      );
+    }
+    console.log(`[RegionPackService] Parquet cached: ${(file.size / 1024 / 1024).toFixed(1)} MB`);
+    return hash.hex();
+  }
+
+  /**
+   * Hash an installed parquet that was never verified — adopted from an
+   * earlier app version, or downloaded before the catalog had checksums.
+   * Re-downloads it if it isn't the published build. Skipped once delta
+   * updates have patched the pack, since the base parquet is then older
+   * than the catalog's.
+   */
+  private async verifyInstalledParquet(installed: InstalledRegionPack, latest: RegionPack): Promise<void> {
+    const state = this.states.get(installed.id);
+    if (installed.parquetSha256 || !latest.sha256 || !state) return;
+    if (Object.keys(state.manifest?.chunks ?? {}).length > 0) return;
+
+    try {
+      const digest = (await this.hashFile(state.parquetFile, state.parquetFile.size)).hex();
+      if (digest === latest.sha256.toLowerCase()) {
+        this.installed = this.installed.map((p) => (p.id === installed.id ? { ...p, parquetSha256: digest } : p));
+        await this.saveInstalledPacks();
+        return;
+      }
+
+      console.warn(`[RegionPackService] Installed parquet for ${installed.id} does not match the catalog, re-downloading`);
+      await this.replacePack(latest);
+    } catch (err) {
+      console.warn(`[RegionPackService] Failed to verify pack ${installed.id}:`, err);
+    }
+  }
+
+  /**
+   * Hash the first `length` bytes of a file, read a few MB at a time.
+   * The hasher is returned unfinished so a resumed download can carry on
+   * feeding it.
+   */
+  private async hashFile(file: InstanceType<typeof File>, length: number): Promise<Sha256> {
+    const hash = new Sha256();
+    const handle = file.open();
+    try {
+      const size = Math.min(length, handle.size ?? 0);
+      for (let offset = 0; offset < size; offset += HASH_CHUNK_BYTES) {
+        handle.offset = offset;
+        hash.update(handle.readBytes(Math.min(HASH_CHUNK_BYTES, size - offset)));
+        // Yield so hashing a large parquet doesn't block the JS thread
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    } finally {
+      handle.close();
+    }
+    return hash;
+  }
+
+  /**
+   * The manifest of a freshly downloaded parquet, so the next update can
+   * be a delta. Without one, updates are full downloads.
+   */
+  private async fetchBaseManifest(pack: RegionPack): Promise<InstalledManifest | null> {
+    try {
+      const remote = parseManifest(await this.fetchJson(DataService.getProximityManifestUrl(pack.assetName)));
+      return { ...remote, chunks: {} };
+    } catch (err) {
+      console.log(`[RegionPackService] No manifest for ${pack.id}, updates will be full downloads:`, err);
+      return null;
+    }
+  }
+
+  private async fetchJson(url: string): Promise<unknown> {
+    const resp = await fetch(url, { cache: 'no-store' });
+    if (!resp.ok) throw new Error(`HTTP ${resp.status} fetching ${url}`);
+    return resp.json();
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // Delta updates (per-cell parquet chunks)
+  // ═══════════════════════════════════════════════════════════
+
+  /**
+   * Update only the grid cells that changed in the pack's new build.
+   * Chunks are downloaded and verified before anything on disk changes,
+   * so a failed update leaves the installed pack as it was.
+   *
+   * @returns The cells that changed, or null if a full re-download is needed
+   */
+  private async applyDeltaUpdate(installed: InstalledRegionPack, latest: RegionPack): Promise<string[] | null> {
+    const state = this.states.get(installed.id);
+    if (!state?.manifest) return null;
+
+    try {
+      const remote = parseManifest(await this.fetchJson(DataService.getProximityManifestUrl(latest.assetName)));
+      // A manifest older than the build means it hasn't been published yet
+      if (new Date(remote.version) < new Date(latest.lastUpdated) || !isSameGrid(state.manifest, remote)) return null;
+
+      const diff = diffManifests(state.manifest, remote);
+      if (shouldDownloadFull(diff, remote)) {
+        console.log(`[RegionPackService] Delta of ${(diff.downloadBytes / 1024 / 1024).toFixed(1)} MB is too large, re-downloading`);
+        return null;
+      }
+
+      const fetchKeys = [...diff.added, ...diff.changed];
+      console.log(`[RegionPackService] Delta update for ${installed.id}: ${fetchKeys.length} cells to fetch, ${diff.removed.length} removed (${(diff.downloadBytes / 1024).toFixed(0)} KB)`);
+      for (const cellKey of fetchKeys) {
+        await this.downloadChunk(latest, remote.cells[cellKey].sha256);
+      }
+
+      // Patch the on-disk index, then switch over
+      state.manifest = applyManifestDiff(state.manifest, remote, diff);
+      this.saveManifest(installed.id, state.manifest);
+      this.patchGridCellIndex(state);
+      this.saveGridCellIndex(state);
+
+      state.pack = { ...installed, ...latest, version: remote.version };
+      this.installed = this.installed.map((pack) => (pack.id === installed.id ? state.pack : pack));
+      await this.saveInstalledPacks();
+      this.deleteUnusedChunks(state);
+
+      console.log(`[RegionPackService] Delta update applied to ${installed.id} (${remote.version})`);
+      return [...fetchKeys, ...diff.removed];
+    } catch (err) {
+      console.warn('[RegionPackService] Delta update failed, falling back to full download:', err);
+      return null;
+    }
+  }
+
+  private async downloadChunk(pack: RegionPack, sha256: string): Promise<void> {
+    const file = this.getChunkFile(pack.id, sha256);
+    if (file.exists) return; // Chunks are stored by hash
+
+    const resp = await fetch(DataService.getProximityFileUrl(pack.assetName, getChunkPath(sha256)));
+    if (!resp.ok) throw new Error(`HTTP ${resp.status} fetching cell chunk ${sha256}`);
+    const bytes = new Uint8Array(await resp.arrayBuffer());
+
+    const digest = toHex(await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, bytes));
+    if (digest !== sha256) throw new Error(`Cell chunk ${sha256} failed verification`);
+
+    const directory = new Directory(this.getPackDirectory(pack.id), CELL_CHUNKS_DIR);
+    if (!directory.exists) directory.create();
+    file.write(bytes);
+  }
+
+  /**
+   * Delete chunk files the pack's manifest no longer refers to.
+   */
+  private deleteUnusedChunks(state: RegionPackState): void {
+    try {
+      const directory = new Directory(this.getPackDirectory(state.pack.id), CELL_CHUNKS_DIR);
+      if (!directory.exists) return;
+      const inUse = new Set(Object.values(state.manifest?.chunks ?? {}).map((sha) => `${sha}.parquet`));
+      for (const entry of directory.list()) {
+        if (entry instanceof File && !inUse.has(entry.name)) entry.delete();
+      }
+    } catch (err) {
+      console.warn('[RegionPackService] Failed to clean up cell chunks:', err);
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // Grid cell index
+  // ═══════════════════════════════════════════════════════════
+
+  private async buildGridCellIndex(state: RegionPackState): Promise<void> {
+    const { parquetMetadataAsync, parquetRead } = await import('hyparquet/src/index.js');
+    const asyncBuffer = this.createFileAsyncBuffer(state.parquetFile);
+    try {
+      const metadata = await parquetMetadataAsync(asyncBuffer);
+      const rowGroups = metadata.row_groups ?? [];
+
+      const index = new Map<string, Set<number>>(); // cellKey → Set<rowGroupIndex>
+
+      // Compute cumulative row offsets so we can use rowStart/rowEnd per group.
+      let globalRowOffset = 0;
+      for (let rgIdx = 0; rgIdx < rowGroups.length; rgIdx++) {
+        const groupRows = Number(rowGroups[rgIdx].num_rows);
+        const rgStart = globalRowOffset;
+        globalRowOffset += groupRows;
+
+        const cellsInGroup = new Set<string>();
+
+        // Read street_grid_id in small batches to keep peak allocation low.
+        // Parquet column chunks are stored per row group, but requesting a
+        // smaller rowStart/rowEnd range lets hyparquet decompress only the
+        // pages that overlap the range, avoiding a single 100 MB+ allocation.
+        for (let batchStart = rgStart; batchStart < rgStart + groupRows; batchStart += INDEX_BUILD_BATCH_SIZE) {
+          const batchEnd = Math.min(batchStart + INDEX_BUILD_BATCH_SIZE, rgStart + groupRows);
+
+          await new Promise<void>((resolve, reject) => {
+            parquetRead({
+              file: asyncBuffer,
+              metadata,
+              columns: ['street_grid_id'],
+              rowStart: batchStart,
+              rowEnd: batchEnd,
+              onChunk: (chunk: any) => {
+                const data: unknown[] = chunk.columnData ?? [];
+                for (const v of data) {
+                  if (typeof v !== 'string') continue;
+                  const parts = v.split('_');
+                  if (parts.length >= 2) {
+                    cellsInGroup.add(`${parts[0]}_${parts[1]}`);
+                  }
+                }
+              },
+            }).then(resolve).catch(reject);
+          });
+        }
+
+        for (const cellKey of cellsInGroup) {
+          const existing = index.get(cellKey);
+          if (existing) {
+            existing.add(rgIdx);
+          } else {
+            index.set(cellKey, new Set([rgIdx]));
+          }
+        }
+      }
+
+      state.gridCellIndex = index;
+      console.log(`[RegionPackService] Grid cell index built: ${index.size} cells across ${rowGroups.length} row groups`);
+    } finally {
+      asyncBuffer.close();
+    }
+  }
+
+  /**
+   * Remove cells that no longer come from the parquet (patched or removed
+   * by a delta update) from the grid cell index.
+   *
+   * @returns true if the index changed
+   */
+  private patchGridCellIndex(state: RegionPackState): boolean {
+    const manifest = state.manifest;
+    if (!manifest) return false;
+
+    let changed = false;
+    for (const cellKey of [...state.gridCellIndex.keys()]) {
+      if (manifest.chunks[cellKey] || !manifest.cells[cellKey]) {
+        state.gridCellIndex.delete(cellKey);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Save the grid cell index to a JSON file so subsequent launches can
+   * skip the expensive parquet column scan.
+   */
+  private saveGridCellIndex(state: RegionPackState): void {
+    try {
+      // Serialize Map<string, Set<number>> → Record<string, number[]>
+      const obj: Record<string, number[]> = {};
+      for (const [key, rgSet] of state.gridCellIndex) {
+        obj[key] = [...rgSet];
+      }
+      new File(this.getPackDirectory(state.pack.id), GRID_INDEX_FILE_NAME).write(JSON.stringify(obj));
+    } catch (err) {
+      console.warn('[RegionPackService] Failed to cache grid index:', err);
+    }
+  }
+
+  /**
+   * Load the cached grid cell index. Returns null if the cache file
+   * doesn't exist or is corrupt.
+   */
+  private loadGridCellIndex(packId: string): Map<string, Set<number>> | null {
+    try {
+      const file = new File(this.getPackDirectory(packId), GRID_INDEX_FILE_NAME);
+      if (!file.exists) return null;
+
+      const handle = file.open();
+      const bytes = handle.readBytes(handle.size!);
+      handle.close();
+
+      const obj: Record<string, number[]> = JSON.parse(new TextDecoder().decode(bytes));
+      const map = new Map<string, Set<number>>();
+      for (const [key, arr] of Object.entries(obj)) {
+        map.set(key, new Set(arr));
+      }
+      return map;
+    } catch (err) {
+      console.warn('[RegionPackService] Failed to load cached grid index:', err);
+      return null;
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // Storage
+  // ═══════════════════════════════════════════════════════════
+
+  private getPackDirectory(packId: string): Directory {
+    return new Directory(Paths.document, PACKS_DIR, packId);
+  }
+
+  private getDirectorySize(directory: Directory): number {
+    try {
+      if (!directory.exists) return 0;
+      return directory.list().reduce(
+        (sum, entry) => sum + (entry instanceof File ? entry.size ?? 0 : this.getDirectorySize(entry)),
+        0
+      );
+    } catch {
+      return 0;
+    }
+  }
+
+  private saveManifest(packId: string, manifest: InstalledManifest): void {
+    new File(this.getPackDirectory(packId), MANIFEST_FILE_NAME).write(JSON.stringify(manifest));
+  }
+
+  private async loadManifest(packId: string): Promise<InstalledManifest | null> {
+    try {
+      const file = new File(this.getPackDirectory(packId), MANIFEST_FILE_NAME);
+      if (!file.exists) return null;
+      return JSON.parse(await file.text()) as InstalledManifest;
+    } catch (err) {
+      console.warn('[RegionPackService] Failed to load pack manifest:', err);
+      return null;
+    }
+  }
+
+  private async saveInstalledPacks(): Promise<void> {
+    await AsyncStorage.setItem(STORAGE_KEY_INSTALLED_PACKS, JSON.stringify(this.installed));
+  }
+
+  /**
+   * Load saved partial downloads (shown as paused until they resume) and
+   * the user's download policy.
+   */
+  private async loadDownloadState(): Promise<void> {
+    const [partials, policy] = await Promise.all([
+      AsyncStorage.getItem(STORAGE_KEY_PARTIAL_DOWNLOADS),
+      AsyncStorage.getItem(STORAGE_KEY_DOWNLOAD_POLICY),
+    ]);
+    this.partialDownloads = partials ? JSON.parse(partials) : {};
+    this.downloadPolicy = policy ? { ...DEFAULT_DOWNLOAD_POLICY, ...JSON.parse(policy) } : DEFAULT_DOWNLOAD_POLICY;
+
+    for (const saved of Object.values(this.partialDownloads)) {
+      this.setProgress(saved.pack.id, {
+        status: 'paused',
+        bytesWritten: saved.bytesWritten,
+        totalBytes: saved.totalBytes,
+      }, saved.pack);
+    }
+  }
+
+  private async savePartialDownload(partial: PartialDownload): Promise<void> {
+    this.partialDownloads = { ...this.partialDownloads, [partial.pack.id]: partial };
+    await AsyncStorage.setItem(STORAGE_KEY_PARTIAL_DOWNLOADS, JSON.stringify(this.partialDownloads));
+  }
+
+  private async clearPartialDownload(packId: string): Promise<void> {
+    if (!(packId in this.partialDownloads)) return;
+    const partials = { ...this.partialDownloads };
+    delete partials[packId];
+    this.partialDownloads = partials;
+    await AsyncStorage.setItem(STORAGE_KEY_PARTIAL_DOWNLOADS, JSON.stringify(partials));
+  }
+
+  /**
+   * Move the single city-wide parquet from earlier versions into the
+   * default pack's folder instead of downloading it again.
+   *
+   * @returns true if there was one to adopt
+   */
+  private async adoptLegacyInstall(): Promise<boolean> {
+    const legacyParquet = new File(Paths.document, LEGACY_FILES.parquet);
+    if (!legacyParquet.exists) return false;
+
+    try {
+      const directory = this.getPackDirectory(DEFAULT_REGION_PACK.id);
+      directory.create({ intermediates: true, idempotent: true });
+
+      legacyParquet.move(new File(directory, PARQUET_FILE_NAME));
+      const moves: [File | Directory, File | Directory][] = [
+        [new File(Paths.document, LEGACY_FILES.gridIndex), new File(directory, GRID_INDEX_FILE_NAME)],
+        [new File(Paths.document, LEGACY_FILES.manifest), new File(directory, MANIFEST_FILE_NAME)],
+        [new Directory(Paths.document, LEGACY_FILES.chunks), new Directory(directory, CELL_CHUNKS_DIR)],
+      ];
+      for (const [from, to] of moves) {
+        if (from.exists) from.move(to);
+      }
+
+      const version = await AsyncStorage.getItem(LEGACY_FILES.versionKey);
+      this.installed = [{
+        ...DEFAULT_REGION_PACK,
+        version: version ?? new Date(0).toISOString(), // Unknown build: take the next update
+        installedAt: new Date().toISOString(),
+        parquetSha256: null, // Hashed on the next update check
+      }];
+      await this.saveInstalledPacks();
+      await AsyncStorage.removeItem(LEGACY_FILES.versionKey);
+      console.log('[RegionPackService] Adopted city-wide parquet as the default pack');
+      return true;
+    } catch (err) {
+      console.warn('[RegionPackService] Failed to adopt city-wide parquet, downloading again:', err);
+      this.deleteLegacyFiles();
+      return false;
+    }
+  }
+
+  private deleteLegacyFiles(): void {
+    for (const name of [LEGACY_FILES.parquet, LEGACY_FILES.gridIndex, LEGACY_FILES.manifest]) {
+      try {
+        const file = new File(Paths.document, name);
+        if (file.exists) file.delete();
+      } catch { /* ignore */ }
+    }
+    try {
+      const chunks = new Directory(Paths.document, LEGACY_FILES.chunks);
+      if (chunks.exists) chunks.delete();
+    } catch { /* ignore */ }
+  }
+
+  private notify(change: RegionPackChange): void {
+    this.listeners.forEach((listener) => listener(change));
+  }
+
+  private notifyIfIntegrityError(packId: string, err: unknown): void {
+    if (err instanceof ParquetIntegrityError) this.notify({ kind: 'failed', packId, error: err });
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // Download Conditions
+  // ═══════════════════════════════════════════════════════════
+
+  /** Why downloads should wait right now, or null if they can run. */
+  private async getPauseReason(): Promise<DownloadPauseReason | null> {
+    const network = await NetInfo.fetch();
+    let battery = { batteryLevel: -1, isCharging: false, lowPowerMode: false };
+    try {
+      const power = await Battery.getPowerStateAsync();
+      battery = {
+        batteryLevel: power.batteryLevel,
+        isCharging: power.batteryState === Battery.BatteryState.CHARGING || power.batteryState === Battery.BatteryState.FULL,
+        lowPowerMode: power.lowPowerMode,
+      };
+    } catch {
+      // Battery state isn't available on every platform
+    }
+
+    return getDownloadPauseReason({
+      isConnected: network.isConnected !== false && network.isInternetReachable !== false,
+      isCellular: network.type === 'cellular',
+      ...battery,
+    }, this.downloadPolicy);
+  }
+
+  /**
+   * Resume paused downloads when connectivity or the battery changes.
+   */
+  private watchDownloadConditions(): void {
+    if (this.conditionUnsubscribes.length > 0) return;
+    const resume = () => {
+      this.resumeDownloads().catch((err) => {
+        console.warn('[RegionPackService] Failed to resume downloads:', err);
+      });
+    };
+
+    this.conditionUnsubscribes.push(NetInfo.addEventListener(resume));
+    try {
+      for (const subscription of [
+        Battery.addBatteryStateListener(resume),
+        Battery.addLowPowerModeListener(resume),
+      ]) {
+        this.conditionUnsubscribes.push(() => subscription.remove());
+      }
+    } catch {
+      // Battery events aren't available on every platform
+    }
+  }
+
+  /**
+   * Update a pack's download progress (null removes it). A pack without
+   * progress yet needs its catalog entry.
+   */
+  private setProgress(packId: string, update: Partial<DownloadProgress> | null, pack?: RegionPack): void {
+    const current = this.downloads.get(packId);
+    if (update === null) {
+      if (!current) return;
+      this.downloads.delete(packId);
+    } else if (current) {
+      this.downloads.set(packId, { ...current, ...update });
+    } else if (pack) {
+      this.downloads.set(packId, {
+        packId,
+        packName: pack.name,
+        status: 'downloading',
+        pauseReason: null,
+        bytesWritten: 0,
+        totalBytes: pack.sizeBytes,
+        bytesPerSecond: null,
+        secondsRemaining: null,
+        ...update,
+      });
+    } else {
+      return;
+    }
+    this.notifyDownloads();
+  }
+
+  private notifyDownloads(): void {
+    const downloads = this.getDownloads();
+    this.downloadListeners.forEach((listener) => listener(downloads));
+  }
+}
+
+// Export singleton instance
+export const RegionPackService = new RegionPackServiceClass();
@@ -0,0 +1,110 @@
+import { MobilityProfile } from '@/adapters/DatabaseAdapter';
+import { Polyline } from '@/components/MapViewComponent';
+import { DataRangerService } from './DataRangerService';
+import {
+  buildRouteGraph,
+  findAccessibleRoute,
+  getRouteOptions,
+  RouteResult,
+} from './utils/accessibleRouting';
+
+// ═══════════════════════════════════════════════════════════
+// ROUTING SERVICE
+// ═══════════════════════════════════════════════════════════
+// Plans accessible routes over the Proximity NetworkSegment graph.
+// Sidewalks, crosswalks (gated by curb ramps) and, for modes that can
+// ride in the street, low-traffic streets are costed per mode and
+// searched with Dijkstra (see utils/accessibleRouting).
+//
+// Works offline: the graph is built from the cached proximity parquet,
+// loading only the grid cells around the origin and destination.
+
+// --- Constants ---
+
+const MAX_ROUTE_DISTANCE_M = 5000; // Straight-line cap; keeps cell loading and the graph small
+const BBOX_PADDING_M = 300; // Extra area around origin/destination so detours are reachable
+const ROUTE_COLOR = '#00B8D4';
+const ROUTE_POLYLINE_ID = 'accessible-route';
+
+// --- Routing Service Class ---
+
+class RoutingServiceClass {
+  /**
+   * Compute an accessible route between two points ([lon, lat] order).
+   *
+   * @param profile - The user's mobility profile for the mode; mode defaults if omitted
+   * @returns The route, or null if the network isn't available or no route exists
+   * @throws Error if the points are further apart than the routing cap
+   */
+  async computeRoute(
+    origin: [number, number],
+    destination: [number, number],
+    mode: string,
+    profile?: MobilityProfile | null,
+  ): Promise<RouteResult | null> {
+    if (this.distanceMeters(origin, destination) > MAX_ROUTE_DISTANCE_M) {
+      throw new Error(`Destination is more than ${MAX_ROUTE_DISTANCE_M / 1000} km away`);
+    }
+
+    await DataRangerService.initializeProximity();
+    if (!DataRangerService.isProximityReady()) {
+      console.log('[RoutingService] Proximity network not available, cannot route');
+      return null;
+    }
+
+    const bbox = this.paddedBbox(origin, destination);
+    await DataRangerService.loadGridCellsForBbox(bbox);
+
+    const segments = DataRangerService.getLoadedSegments().filter((segment) =>
+      segment.street.geometry.coordinates.some(
+        ([lon, lat]) => lon >= bbox.minLon && lon <= bbox.maxLon && lat >= bbox.minLat && lat <= bbox.maxLat,
+      ),
+    );
+
+    const graph = buildRouteGraph(segments, getRouteOptions(mode, profile));
+    const route = findAccessibleRoute(graph, origin, destination);
+
+    console.log('[RoutingService] Route computed:', {
+      mode,
+      segments: segments.length,
+      edges: graph.edges.length,
+      found: route !== null,
+      distanceM: route ? Math.round(route.distanceM) : null,
+    });
+
+    return route;
+  }
+
+  /**
+   * Convert a route to a polyline for MapViewComponent.
+   */
+  toPolyline(route: RouteResult): Polyline {
+    return {
+      id: ROUTE_POLYLINE_ID,
+      coordinates: route.coordinates,
+      color: ROUTE_COLOR,
+      width: 6,
+    };
+  }
+
+  private paddedBbox(a: [number, number], b: [number, number]) {
+    const padLat = BBOX_PADDING_M / 111320;
+    const padLon = padLat / Math.cos((((a[1] + b[1]) / 2) * Math.PI) / 180);
+    return {
+      minLon: Math.min(a[0], b[0]) - padLon,
+      minLat: Math.min(a[1], b[1]) - padLat,
+      maxLon: Math.max(a[0], b[0]) + padLon,
+      maxLat: Math.max(a[1], b[1]) + padLat,
+    };
+  }
+
+  private distanceMeters(a: [number, number], b: [number, number]): number {
+    const cosLat = Math.cos((((a[1] + b[1]) / 2) * Math.PI) / 180);
+    const dx = (b[0] - a[0]) * 111320 * cosLat;
+    const dy = (b[1] - a[1]) * 111320;
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+}
+
+// Export singleton instance
+export const RoutingService = new RoutingServiceClass();
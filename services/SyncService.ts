@@ -1,8 +1,15 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import NetInfo, { NetInfoState, NetInfoSubscription } from '@react-native-community/netinfo';
 import * as polyline from '@mapbox/polyline';
-import { DataService, Trip } from '../adapters/DatabaseAdapter';
-import { clipTripToBlocks } from './utils/clipTripGeometry';
+import { DataService, NewTrip, Trip } from '../adapters/DatabaseAdapter';
+import { CensusBlockService } from './CensusBlockService';
+import { MapMatchingService } from './MapMatchingService';
+import {
+  anonymizeTrip,
+  buildAnonymizationPipeline,
+  DEFAULT_PRIVACY_LEVEL,
+  getPrivacySettings,
+} from './utils/anonymizeTrip';
 
 // ═══════════════════════════════════════════════════════════
 // SYNC SERVICE
@@ -10,10 +17,20 @@ import { clipTripToBlocks } from './utils/clipTripGeometry';
 // Receives data from Trip Service and hands it to Supabase Adapter.
 // Provides write buffer for interrupted trips - if connectivity is lost
 // mid-trip, stores data locally until sync is possible.
+// Trips are anonymized on-device before they are queued: the pipeline for
+// the trip's privacy level (utils/anonymizeTrip) clips it to the census
+// areas around its origin and destination (CensusBlockService) and, at
+// higher levels, trims and jitters it further. A trip whose blocks aren't
+// on the device yet is queued raw and anonymized when it uploads; a trip
+// the pipeline drops (its endpoints can't be hidden) is kept on the device
+// only.
 
 // --- Constants ---
 
 const STORAGE_KEY_SYNC_QUEUE = '@rolltracks/sync_queue';
+const STORAGE_KEY_SYNCED_TRIP_IDS = '@rolltracks/synced_trip_ids'; // Local trip ID → server trip ID
+const STORAGE_KEY_DROPPED_TRIP_IDS = '@rolltracks/dropped_trip_ids'; // Local IDs of trips the privacy level dropped
+export const LOCAL_TRIP_ID_PREFIX = 'trip_'; // IDs TripService gives trips before they reach the server
 const SYNC_RETRY_DELAY_MS = 30000; // 30 seconds between retry attempts (increased from 5s)
 const MAX_RETRY_ATTEMPTS = 10; // Max retries before marking as failed (increased from 3)
 
@@ -21,10 +38,19 @@ const MAX_RETRY_ATTEMPTS = 10; // Max retries before marking as failed (increase
 
 export interface QueuedTrip {
   queueId: string; // Unique ID for this queue item
-  tripData: Omit<Trip, 'tripId'>; // Trip data to be uploaded
+  tripData: NewTrip; // Trip data to be uploaded
   attempts: number; // Number of upload attempts
   lastAttempt: string | null; // Timestamp of last attempt
   error: string | null; // Last error message
+  recordedOffline?: boolean; // Trip was recorded without connectivity
+  anonymized?: boolean; // tripData has already been through the anonymization pipeline
+  queuedAt?: string; // Timestamp the trip was added to the queue
+}
+
+export interface SyncTripOptions {
+  localTripId?: string; // Reuse the local trip ID as the queue ID so cached data can be found by it
+  recordedOffline?: boolean; // Flag the queued trip as recorded offline (pending anonymization)
+  deferUpload?: boolean; // Skip the immediate upload attempt (device is known to be offline)
 }
 
 export interface SyncStatus {
@@ -57,6 +83,10 @@ class SyncServiceClass {
   private isInitialized: boolean = false;
   private netInfoUnsubscribe: NetInfoSubscription | null = null;
   private wasDisconnected: boolean = false;
+  private syncedTripIds: Record<string, string> = {};
+  private droppedTripIds: Set<string> = new Set();
+  private tripSyncedListeners: Set<(localTripId: string, serverTripId: string) => void> = new Set();
+  private tripDroppedListeners: Set<(localTripId: string) => void> = new Set();
 
   // ═══════════════════════════════════════════════════════════
   // Initialization
@@ -72,6 +102,8 @@ class SyncServiceClass {
     }
 
     await this.loadQueueFromStorage();
+    await this.loadSyncedTripIds();
+    await this.loadDroppedTripIds();
     
     // TODO: Re-enable cleanup after debugging startup issue
     // One-time cleanup: Remove any items with parse errors or invalid geometry
@@ -158,12 +190,72 @@ class SyncServiceClass {
     }
   }
 
+  /**
+   * Load the local → server trip ID map from persistent storage.
+   */
+  private async loadSyncedTripIds(): Promise<void> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEY_SYNCED_TRIP_IDS);
+      this.syncedTripIds = data ? JSON.parse(data) : {};
+    } catch (error) {
+      console.error('[SyncService] Failed to load synced trip IDs:', error);
+      this.syncedTripIds = {};
+    }
+  }
+
+  /**
+   * Load the IDs of dropped trips from persistent storage.
+   */
+  private async loadDroppedTripIds(): Promise<void> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEY_DROPPED_TRIP_IDS);
+      this.droppedTripIds = new Set(data ? (JSON.parse(data) as string[]) : []);
+    } catch (error) {
+      console.error('[SyncService] Failed to load dropped trip IDs:', error);
+      this.droppedTripIds = new Set();
+    }
+  }
+
+  /**
+   * Remember that the privacy level dropped a local trip and notify
+   * listeners, so writes made during the trip are discarded instead of
+   * waiting for a server ID that will never exist.
+   */
+  private async recordDroppedTrip(localTripId: string): Promise<void> {
+    this.droppedTripIds.add(localTripId);
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY_DROPPED_TRIP_IDS, JSON.stringify([...this.droppedTripIds]));
+    } catch (error) {
+      console.error('[SyncService] Failed to save dropped trip IDs:', error);
+    }
+    this.tripDroppedListeners.forEach((listener) => listener(localTripId));
+  }
+
+  /**
+   * Remember the server ID a local trip was saved under and notify listeners,
+   * so writes made during the trip can be sent with the server ID.
+   */
+  private async recordSyncedTrip(localTripId: string, serverTripId: string): Promise<void> {
+    this.syncedTripIds[localTripId] = serverTripId;
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY_SYNCED_TRIP_IDS, JSON.stringify(this.syncedTripIds));
+    } catch (error) {
+      console.error('[SyncService] Failed to save synced trip IDs:', error);
+    }
+    this.tripSyncedListeners.forEach((listener) => listener(localTripId, serverTripId));
+  }
+
   /**
    * Add a trip to the sync queue.
    * This is called by TripService when a trip ends.
    */
-  private async addToQueue(tripData: Omit<Trip, 'tripId'>): Promise<string> {
-    const queueId = `queue_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  private async addToQueue(
+    tripData: NewTrip,
+    options: SyncTripOptions = {},
+    anonymized: boolean = false
+  ): Promise<string> {
+    const queueId = options.localTripId
+      ?? `queue_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 
     const queuedTrip: QueuedTrip = {
       queueId,
@@ -171,6 +263,9 @@ class SyncServiceClass {
       attempts: 0,
       lastAttempt: null,
       error: null,
+      recordedOffline: options.recordedOffline ?? false,
+      anonymized,
+      queuedAt: new Date().toISOString(),
     };
 
     this.syncQueue.push(queuedTrip);
@@ -210,28 +305,69 @@ class SyncServiceClass {
   // ═══════════════════════════════════════════════════════════
 
   /**
-   * Queue a trip for sync and attempt immediate upload.
+   * Anonymize a trip, queue it for sync and attempt immediate upload.
    * If upload fails, trip remains in queue for later retry.
+   * With `deferUpload` the upload is skipped entirely; the trip is synced
+   * when connectivity is restored. Anonymizing doesn't need connectivity
+   * once the trip's census blocks are on the device. A trip the privacy
+   * level drops is never queued; only its raw local copy is kept.
    *
    * @param tripData - Trip data to be synced
-   * @returns The saved Trip with database-generated tripId, or null if queued for later
+   * @param options - Queue ID / offline recording options
+   * @returns The saved Trip with database-generated tripId, or null if queued for later (or dropped)
    */
-  async syncTrip(tripData: Omit<Trip, 'tripId'>): Promise<Trip | null> {
+  async syncTrip(
+    tripData: NewTrip,
+    options: SyncTripOptions = {}
+  ): Promise<Trip | null> {
     // Ensure service is initialized
     if (!this.isInitialized) {
       await this.initialize();
     }
 
+    // Anonymize before queueing, so the queue holds exact endpoints only when it must
+    let queuedData = tripData;
+    let anonymized = false;
+    try {
+      const anonymizedData = await this.anonymizeTripData(tripData);
+      if (!anonymizedData) {
+        const localTripId = options.localTripId ?? `dropped_${Date.now()}`;
+        await this.cacheRawTrip(localTripId, this.toLocalTrip(tripData, localTripId), false);
+        await this.recordDroppedTrip(localTripId);
+        return null;
+      }
+      queuedData = anonymizedData;
+      anonymized = true;
+    } catch (error) {
+      console.log('[SyncService] Census blocks unavailable, anonymization deferred until upload:', error);
+    }
+
     // Add to queue first (for safety in case upload fails)
-    const queueId = await this.addToQueue(tripData);
+    const queueId = await this.addToQueue(queuedData, options, anonymized);
+
+    if (options.deferUpload) {
+      console.log('[SyncService] Offline, deferring upload for', queueId);
+      this.wasDisconnected = true; // Ensure the network listener triggers a sync on reconnect
+      await this.cacheRawTrip(queueId, this.toLocalTrip(tripData, queueId), false);
+      return null;
+    }
 
     // Attempt immediate upload
     try {
-      const savedTrip = await this.uploadTrip(queueId, tripData);
-
-      // Success - remove from queue
-      await this.removeFromQueue(queueId);
+      const savedTrip = await this.uploadTrip(queueId, queuedData, anonymized);
+
+      // Success - record the outcome before leaving the queue, so the trip
+      // never looks unknown to OutboxService in between
+      if (!savedTrip) {
+        // Dropped by the privacy level at upload; keep the raw copy on the device
+        await this.cacheRawTrip(queueId, this.toLocalTrip(tripData, queueId), false);
+        await this.recordDroppedTrip(queueId);
+        await this.removeFromQueue(queueId);
+        return null;
+      }
       this.lastSuccessfulSync = new Date().toISOString();
+      await this.recordSyncedTrip(queueId, savedTrip.tripId);
+      await this.removeFromQueue(queueId);
 
       console.log('[SyncService] Trip synced successfully:', savedTrip.tripId);
       
@@ -249,12 +385,8 @@ class SyncServiceClass {
 
       console.warn('[SyncService] Upload failed, trip queued for retry:', error);
 
-      // Cache with queue ID for display even though not synced
-      const tempTrip: Trip = {
-        ...tripData,
-        tripId: queueId, // Use queue ID as temporary trip ID
-      };
-      await this.cacheRawTrip(queueId, tempTrip, false);
+      // Cache with queue ID (as temporary trip ID) for display even though not synced
+      await this.cacheRawTrip(queueId, this.toLocalTrip(tripData, queueId), false);
 
       // Schedule retry
       this.scheduleRetry();
@@ -311,6 +443,62 @@ class SyncServiceClass {
     return [...this.syncQueue]; // Return copy to prevent external mutation
   }
 
+  /**
+   * Check whether a trip (by local/queue ID) is still waiting to be synced.
+   */
+  isTripPending(queueId: string): boolean {
+    return this.syncQueue.some(item => item.queueId === queueId);
+  }
+
+  /**
+   * Whether the privacy level dropped a local trip, so it never reaches the server.
+   */
+  isTripDropped(tripId: string): boolean {
+    return this.droppedTripIds.has(tripId);
+  }
+
+  /**
+   * Resolve a trip ID to the one stored on the server.
+   * Returns the server ID for a local trip that has synced, null while the
+   * trip is still waiting in the queue or is a local ID with no known
+   * outcome, and the ID unchanged otherwise (already a server ID).
+   */
+  resolveTripId(tripId: string): string | null {
+    if (this.syncedTripIds[tripId]) {
+      return this.syncedTripIds[tripId];
+    }
+    if (this.isTripPending(tripId) || tripId.startsWith(LOCAL_TRIP_ID_PREFIX)) {
+      return null;
+    }
+    return tripId;
+  }
+
+  /**
+   * Subscribe to trips being uploaded.
+   * The listener receives the local trip (queue) ID and the server trip ID.
+   *
+   * @returns Unsubscribe function
+   */
+  onTripSynced(listener: (localTripId: string, serverTripId: string) => void): () => void {
+    this.tripSyncedListeners.add(listener);
+    return () => {
+      this.tripSyncedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to trips the privacy level dropped instead of uploading.
+   * The listener receives the local trip (queue) ID.
+   *
+   * @returns Unsubscribe function
+   */
+  onTripDropped(listener: (localTripId: string) => void): () => void {
+    this.tripDroppedListeners.add(listener);
+    return () => {
+      this.tripDroppedListeners.delete(listener);
+    };
+  }
+
   /**
    * Get detailed information about queued trips for debugging.
    * Returns queue items with their error messages and attempt counts.
@@ -382,6 +570,14 @@ class SyncServiceClass {
   // Raw GPS Cache Management
   // ═══════════════════════════════════════════════════════════
 
+  /**
+   * A trip that hasn't been written yet, as a Trip for local display.
+   * The bins are placeholders until writeTrip bins its startTime.
+   */
+  private toLocalTrip(tripData: NewTrip, tripId: string): Trip {
+    return { ...tripData, tripId, timeOfDay: 'midday', weekday: 1 };
+  }
+
   /**
    * Cache raw GPS data for a trip on first view of trip summary screen.
    * This preserves the original unclipped geometry so users can see their
@@ -476,98 +672,112 @@ class SyncServiceClass {
   // ═══════════════════════════════════════════════════════════
 
   /**
-   * Upload a single trip to the database via DataService.
-   */
-  /**
-   * Attempt to clip the trip geometry client-side using census block lookups.
-   * Returns a mutated copy of tripData with clipped geometry and od_geoids set,
-   * or the original tripData unchanged if clipping is not possible.
+   * Run the trip through the anonymization pipeline for its privacy level,
+   * with origin and destination areas looked up on-device. Returns a copy
+   * of tripData with the anonymized geometry, relative times and od_geoids,
+   * plus the origin region's time zone and holiday calendar for binning
+   * (the origin is gone once clipped). Null if the trip is dropped: its
+   * geometry can't be decoded into a route, or the pipeline dropped it
+   * (endpoints couldn't be hidden).
+   *
+   * @throws CensusBlocksUnavailableError if the blocks aren't on the device
+   *   and can't be downloaded now
    */
-  private async clipTripData(tripData: Omit<Trip, 'tripId'>): Promise<Omit<Trip, 'tripId'>> {
+  private async anonymizeTripData(tripData: NewTrip): Promise<NewTrip | null> {
     const encoded = tripData.geometry;
-    if (!encoded || typeof encoded !== 'string') return tripData;
-
-    // Decode polyline: @mapbox/polyline returns [lat, lon][]
-    let latLonPairs: [number, number][];
-    try {
-      latLonPairs = polyline.decode(encoded) as [number, number][];
-    } catch {
-      console.warn('[SyncService] Failed to decode polyline for clipping, uploading as-is');
-      return tripData;
+    const lonLatCoords = encoded && typeof encoded === 'string' ? this.decodeToLonLat(encoded) : [];
+    if (lonLatCoords.length < 2) {
+      // Nothing to clip, so nothing that could be uploaded safely
+      console.warn('[SyncService] Failed to decode polyline for anonymization, dropping trip');
+      return null;
     }
 
-    if (latLonPairs.length < 2) return tripData;
-
-    // Polyline is [lat, lon]; convert to [lon, lat] for GeoJSON / PostGIS RPC
-    const [startLat, startLon] = latLonPairs[0];
-    const [endLat, endLon] = latLonPairs[latLonPairs.length - 1];
+    const privacyLevel = tripData.privacyLevel ?? DEFAULT_PRIVACY_LEVEL;
+    const settings = getPrivacySettings(privacyLevel);
 
-    // Look up census blocks for origin and destination
-    const [originBlock, destBlock] = await Promise.all([
-      DataService.getBlockForPoint(startLon, startLat),
-      DataService.getBlockForPoint(endLon, endLat),
+    // Look up the areas around origin and destination
+    const [startLon, startLat] = lonLatCoords[0];
+    const [endLon, endLat] = lonLatCoords[lonLatCoords.length - 1];
+    const [origin, destination, region] = await Promise.all([
+      CensusBlockService.findArea(startLon, startLat, settings.endpointK),
+      CensusBlockService.findArea(endLon, endLat, settings.endpointK),
+      CensusBlockService.findRegion(startLon, startLat),
     ]);
 
-    if (!originBlock || !destBlock) {
-      // Unmatched trip — upload full geometry without od_geoids
-      console.log(`[SyncService] OD blocks not found (origin=${!!originBlock}, dest=${!!destBlock}), uploading full geometry`);
-      return tripData;
-    }
-
-    console.log(`[SyncService] Clipping trip to blocks: origin=${originBlock.geoid}, dest=${destBlock.geoid}`);
-
-    // Convert to [lon, lat] for clipping
-    const lonLatCoords = latLonPairs.map(([lat, lon]) => [lon, lat] as [number, number]);
-    const { coordinates: clipped, trimmedFromStart, trimmedFromEnd } = clipTripToBlocks(
+    const relativeTimes = tripData.relativeTimes && tripData.relativeTimes.length === lonLatCoords.length
+      ? tripData.relativeTimes
+      : null;
+    const anonymized = anonymizeTrip(
       lonLatCoords,
-      originBlock.polygon,
-      destBlock.polygon,
+      relativeTimes,
+      buildAnonymizationPipeline(settings),
+      { origin, destination, random: Math.random },
     );
 
-    if (clipped.length < 2) {
-      // Trip too short after clipping (e.g. entirely within one block) — upload full
-      console.warn('[SyncService] Trip too short after clipping, uploading full geometry with od_geoids');
-      return {
-        ...tripData,
-        odGeoids: [originBlock.geoid, destBlock.geoid],
-      };
-    }
-
-    // Re-encode clipped coordinates: polyline.encode expects [lat, lon][]
-    const clippedLatLon = clipped.map(([lon, lat]) => [lat, lon] as [number, number]);
-    const clippedEncoded = polyline.encode(clippedLatLon);
-
-    // Clip relativeTimes to match trimmed coordinates
-    let clippedRelativeTimes = tripData.relativeTimes;
-    if (tripData.relativeTimes && tripData.relativeTimes.length === latLonPairs.length) {
-      clippedRelativeTimes = tripData.relativeTimes.slice(
-        trimmedFromStart,
-        tripData.relativeTimes.length - trimmedFromEnd,
-      );
+    if (!anonymized) {
+      console.log(`[SyncService] Trip dropped at ${privacyLevel} privacy (origin=${!!origin}, dest=${!!destination})`);
+      return null;
     }
 
-    console.log(`[SyncService] Clipped ${trimmedFromStart} points from start, ${trimmedFromEnd} from end`);
+    console.log(
+      `[SyncService] Anonymized at ${privacyLevel}: ${lonLatCoords.length} → ${anonymized.coordinates.length} points, ` +
+      `od_geoids=${anonymized.odGeoids?.join('/') ?? 'none'}`
+    );
+
+    // Re-encode: polyline.encode expects [lat, lon][]
+    const latLon = anonymized.coordinates.map(([lon, lat]) => [lat, lon] as [number, number]);
 
     return {
       ...tripData,
-      geometry: clippedEncoded,
-      relativeTimes: clippedRelativeTimes,
-      odGeoids: [originBlock.geoid, destBlock.geoid],
+      geometry: polyline.encode(latLon),
+      relativeTimes: anonymized.relativeTimes ?? undefined, // None if they couldn't be aligned with the route
+      odGeoids: anonymized.odGeoids ?? tripData.odGeoids,
+      privacyLevel,
+      timeZone: region?.timeZone ?? null,
+      holidayCalendar: region?.holidayCalendar ?? null,
     };
   }
 
+  /**
+   * Decode an encoded polyline to [lon, lat] coordinates (empty on failure).
+   */
+  private decodeToLonLat(encoded: string): [number, number][] {
+    try {
+      return (polyline.decode(encoded) as [number, number][]).map(([lat, lon]) => [lon, lat]);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Upload a single trip to the database via DataService, anonymizing it
+   * first unless it was anonymized when queued.
+   *
+   * @returns The saved Trip, or null if the privacy level dropped it
+   */
   private async uploadTrip(
     queueId: string,
-    tripData: Omit<Trip, 'tripId'>
-  ): Promise<Trip> {
+    tripData: NewTrip,
+    anonymized: boolean = false
+  ): Promise<Trip | null> {
     try {
       console.log(`[SyncService] Attempting upload for ${queueId}`);
 
-      // Clip geometry client-side before upload
-      const clippedData = await this.clipTripData(tripData);
+      // Never upload unanonymized: if the blocks still aren't available this
+      // throws and the trip stays queued
+      const anonymizedData = anonymized ? tripData : await this.anonymizeTripData(tripData);
+      if (!anonymizedData) {
+        console.log(`[SyncService] ${queueId} dropped by its privacy level, not uploading`);
+        return null;
+      }
+
+      // Map-match the anonymized geometry so the stored path never reveals
+      // segments inside the origin/destination areas
+      const match = await MapMatchingService.matchTrip(this.decodeToLonLat(anonymizedData.geometry));
+      const uploadData = { ...anonymizedData, matchedSegments: match?.segments ?? null };
 
       // Call DataService to write to Supabase
-      const savedTrip = await DataService.writeTrip(clippedData);
+      const savedTrip = await DataService.writeTrip(uploadData);
 
       console.log(`[SyncService] Upload successful for ${queueId}, server trip_id: ${savedTrip.tripId}`);
       return savedTrip;
@@ -625,12 +835,21 @@ class SyncServiceClass {
           throw new Error('Invalid geometry format - must be valid GeoJSON LineString');
         }
 
-        const savedTrip = await this.uploadTrip(item.queueId, item.tripData);
+        const savedTrip = await this.uploadTrip(item.queueId, item.tripData, item.anonymized);
 
         // Success - remove from queue
         itemsToRemove.push(item.queueId);
+        if (!savedTrip) {
+          // Dropped by the privacy level; the raw copy stays on the device only
+          await this.recordDroppedTrip(item.queueId);
+          continue;
+        }
         this.lastSuccessfulSync = new Date().toISOString();
 
+        // The raw (unclipped) copy was only kept while the trip was pending
+        await this.clearCachedRawTrip(item.queueId);
+        await this.recordSyncedTrip(item.queueId, savedTrip.tripId);
+
         console.log('[SyncService] Successfully uploaded:', savedTrip.tripId);
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : 'Upload failed';
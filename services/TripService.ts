@@ -3,9 +3,12 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import NetInfo from '@react-native-community/netinfo';
 import Constants from 'expo-constants';
 import { Platform } from 'react-native';
-import { Trip } from '../adapters/DatabaseAdapter';
+import { NewTrip, PrivacyLevel } from '../adapters/DatabaseAdapter';
 import { GPSCoordinate, NativeAdapter, NativeAdapterError } from '../adapters/NativeAdapter';
-import { SyncService } from './SyncService';
+import { LOCAL_TRIP_ID_PREFIX, SyncService } from './SyncService';
+import { cleanTrack, DEFAULT_TRACK_FILTERS, TrackFilter, TrackPoint } from './utils/cleanGPSTrack';
+import { ImportedTrack } from './utils/parseTripFile';
+import { DEFAULT_STOP_DETECTION_CONFIG, detectStop, StopDetectionConfig, StopDetectionResult } from './utils/stopDetection';
 
 // ═══════════════════════════════════════════════════════════
 // TRIP SERVICE
@@ -13,6 +16,9 @@ import { SyncService } from './SyncService';
 // Manages trip lifecycle: starting, pausing, resuming, and ending trips.
 // Receives GPS data from GPS Adapter, compiles it into GeoJSON LineString,
 // and provides trip data to screens for display.
+// Records in the background when "Always" location permission is granted,
+// falling back to a foreground watch otherwise. Background recording keeps
+// running across JS reloads and is picked up again by recoverActiveTrip.
 // Maintains persistent trip state in AsyncStorage for orphaned trip detection.
 
 // --- Constants ---
@@ -35,13 +41,18 @@ export interface TripMetadata {
   devicePlatform: string; // Device platform (ios, android, web)
   deviceOsVersion: string; // OS version (e.g., "iOS 17.2", "Android 14")
   appVersion: string; // App version from package.json
+  recordedOffline?: boolean; // True if any part of the trip was recorded without connectivity
+  privacyLevel?: PrivacyLevel; // User's anonymization level at trip start; absent in trips saved by older versions
 }
 
 export interface ActiveTripData {
   metadata: TripMetadata;
-  coordinates: Array<[number, number]>; // [longitude, latitude] for GeoJSON
+  coordinates: [number, number][]; // [longitude, latitude] for GeoJSON
   relativeTimes: number[]; // Seconds since trip start for each coordinate
+  accuracies?: (number | null)[]; // Reported accuracy (m) for each coordinate; absent in trips saved by older versions
   lastCoordinate: { latitude: number; longitude: number } | null;
+  lastTimestamp?: number; // Device time (ms) of the last recorded point; later points only
+  recordingSinceS?: number; // Seconds since trip start when recording last (re)started, for stop detection
 }
 
 export interface TripSummaryData {
@@ -66,6 +77,9 @@ export interface OrphanedTripInfo {
 class TripServiceClass {
   private activeTripData: ActiveTripData | null = null;
   private isRecording: boolean = false;
+  private isBackgroundRecording: boolean = false;
+  private trackFilters: TrackFilter[] = DEFAULT_TRACK_FILTERS;
+  private stopDetectionConfig: StopDetectionConfig = DEFAULT_STOP_DETECTION_CONFIG;
 
   // ═══════════════════════════════════════════════════════════
   // Device Info Utilities
@@ -146,20 +160,25 @@ class TripServiceClass {
 
   /**
    * Verify prerequisites before starting a trip.
-   * Throws error if prerequisites not met.
+   * Throws error if GPS is unavailable. Connectivity is not required —
+   * trips recorded offline are clipped on-device where the census blocks
+   * have been downloaded, and queued by SyncService until the device is
+   * back online.
+   *
+   * @returns Whether the device currently has internet access
    */
-  async verifyPrerequisites(): Promise<void> {
-    // Check GPS first (more critical)
+  async verifyPrerequisites(): Promise<{ isOnline: boolean }> {
     const gpsActive = await this.checkGPSActive();
     if (!gpsActive) {
       throw new Error('GPS is not active. Please enable location services and grant permissions.');
     }
 
-    // Check internet connection
-    const hasInternet = await this.checkInternetConnection();
-    if (!hasInternet) {
-      throw new Error('No internet connection. Please connect to the internet to start a trip.');
+    const isOnline = await this.checkInternetConnection();
+    if (!isOnline) {
+      console.log('[TripService] Offline — trip will be recorded locally and synced later');
     }
+
+    return { isOnline };
   }
 
   // ═══════════════════════════════════════════════════════════
@@ -227,24 +246,26 @@ class TripServiceClass {
    * @param mode - Travel mode (wheelchair, skateboard, etc.)
    * @param comfort - Comfort level for this mode (1-10)
    * @param purpose - Trip purpose
+   * @param privacyLevel - How strongly the trip is anonymized before upload
    * @returns Trip ID of the newly created trip
    */
   async startTrip(
     userId: string,
     mode: string,
     comfort: number,
-    purpose: string
+    purpose: string,
+    privacyLevel?: PrivacyLevel
   ): Promise<string> {
     // Check if there's already an active trip
     if (this.activeTripData) {
       throw new Error('A trip is already in progress. Please end the current trip first.');
     }
 
-    // Verify prerequisites
-    await this.verifyPrerequisites();
+    // Verify prerequisites (GPS required, connectivity optional)
+    const { isOnline } = await this.verifyPrerequisites();
 
     // Generate trip ID and initialize metadata
-    const tripId = `trip_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    const tripId = `${LOCAL_TRIP_ID_PREFIX}${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
     const startTimestamp = Date.now(); // Unix timestamp in milliseconds
     const startTime = new Date(startTimestamp).toISOString(); // ISO string for binning
 
@@ -262,10 +283,14 @@ class TripServiceClass {
         startTimestamp,
         status: 'active',
         ...deviceInfo,
+        recordedOffline: !isOnline,
+        privacyLevel,
       },
       coordinates: [],
       relativeTimes: [], // Relative time in seconds for each coordinate
+      accuracies: [],
       lastCoordinate: null,
+      recordingSinceS: 0,
     };
 
     // Save initial state to persistent storage
@@ -317,12 +342,21 @@ class TripServiceClass {
     }
 
     // Verify prerequisites before resuming
-    await this.verifyPrerequisites();
+    const { isOnline } = await this.verifyPrerequisites();
 
     // Update status
     this.activeTripData.metadata.status = 'active';
+    this.activeTripData.recordingSinceS = Math.round(
+      (Date.now() - this.activeTripData.metadata.startTimestamp) / 1000
+    );
+    if (!isOnline) {
+      this.activeTripData.metadata.recordedOffline = true;
+    }
     await this.saveActiveTripState();
 
+    // Record points still buffered from before the pause; starting updates clears the buffer
+    await this.drainBackgroundPoints();
+
     // Restart GPS tracking
     await this.startGPSTracking();
 
@@ -345,18 +379,94 @@ class TripServiceClass {
     // Stop GPS tracking if still active
     await this.stopGPSTracking();
 
-    const { metadata, coordinates, relativeTimes } = this.activeTripData;
+    const { metadata } = this.activeTripData;
 
     // Ensure we have a valid tripId
     if (!metadata.tripId) {
       throw new Error('Trip ID is missing. Cannot save trip.');
     }
 
-    // Calculate duration from relative times (last recorded time)
-    const durationS = relativeTimes.length > 0
-      ? relativeTimes[relativeTimes.length - 1]
+    const summary = await this.saveCompletedTrip(this.activeTripData, reachedDest);
+
+    // Clear active trip state (a queued trip is safely stored in the SyncService queue)
+    await this.clearActiveTripState();
+
+    console.log('[TripService] Trip ended:', metadata.tripId);
+
+    return summary;
+  }
+
+  /**
+   * Save a track recorded by another app as a completed trip.
+   * Goes through the same cleaning, anonymization and time binning
+   * as a trip recorded here. The track's absolute start time is used only
+   * for binning.
+   *
+   * @param track - Parsed GPX/GeoJSON track (see utils/parseTripFile)
+   * @returns Summary of the imported trip
+   * @throws If the track has no timestamps (its time of day can't be binned)
+   */
+  async importTrip(
+    userId: string,
+    track: ImportedTrack,
+    mode: string,
+    comfort: number,
+    purpose: string,
+    privacyLevel?: PrivacyLevel
+  ): Promise<TripSummaryData> {
+    if (!track.startTime || !track.relativeTimes) {
+      throw new Error('This track has no timestamps, so it can\'t be imported.');
+    }
+
+    const tripId = `import_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+
+    const summary = await this.saveCompletedTrip({
+      metadata: {
+        tripId,
+        userId,
+        mode,
+        comfort,
+        purpose,
+        startTime: track.startTime,
+        ...this.getDeviceInfo(),
+        devicePlatform: 'import', // Recorded by another app, not on this device
+        privacyLevel,
+      },
+      coordinates: track.coordinates,
+      relativeTimes: track.relativeTimes,
+    });
+
+    console.log('[TripService] Trip imported:', { tripId, name: track.name, points: track.coordinates.length });
+
+    return summary;
+  }
+
+  /**
+   * Clean, measure and encode a finished track and hand it to Sync Service.
+   * Shared by endTrip and importTrip.
+   */
+  private async saveCompletedTrip(
+    tripData: {
+      metadata: Omit<TripMetadata, 'status' | 'startTimestamp'>;
+      coordinates: [number, number][];
+      relativeTimes: number[];
+      accuracies?: (number | null)[];
+    },
+    reachedDest?: boolean
+  ): Promise<TripSummaryData> {
+    const { metadata } = tripData;
+
+    // Calculate duration from raw relative times (last recorded time),
+    // so filtering a noisy final fix doesn't shorten the trip
+    const rawTimes = tripData.relativeTimes;
+    const durationS = rawTimes.length > 0
+      ? rawTimes[rawTimes.length - 1]
       : 0;
 
+    // Clean the track before distance calculation and encoding
+    const { coordinates, relativeTimes, rawPointCount, cleanedPointCount } =
+      this.cleanActiveTrack(tripData);
+
     // Calculate distance in miles
     const distanceMi = this.calculateTotalDistance(coordinates);
 
@@ -373,7 +483,7 @@ class TripServiceClass {
 
     // Prepare trip data for database
     // Pass startTime for binning (DatabaseAdapter will bin it into timeOfDay and weekday)
-    const tripData: Omit<Trip, 'tripId' | 'timeOfDay' | 'weekday'> & { startTime: string } = {
+    const tripRecord: NewTrip = {
       userId: metadata.userId,
       mode: metadata.mode,
       comfort: metadata.comfort,
@@ -385,25 +495,32 @@ class TripServiceClass {
       reachedDest,
       geometry: encodedPolyline, // Store encoded polyline string
       relativeTimes, // Store relative timestamps for speed analysis
+      rawPointCount,
+      cleanedPointCount,
       devicePlatform: metadata.devicePlatform,
       deviceOsVersion: metadata.deviceOsVersion,
       appVersion: metadata.appVersion,
+      privacyLevel: metadata.privacyLevel ?? null, // Anonymization level, applied by SyncService
     };
 
+    // When offline, skip the immediate upload; SyncService still clips the
+    // trip now if its census blocks are on the device.
+    const isOnline = await this.checkInternetConnection();
+    const recordedOffline = !isOnline || !!metadata.recordedOffline;
+
     try {
       // Write to database via Sync Service
       // SyncService handles queueing and retry logic if connectivity fails
-      const savedTrip = await SyncService.syncTrip(tripData);
+      const savedTrip = await SyncService.syncTrip(tripRecord, {
+        localTripId: metadata.tripId,
+        recordedOffline,
+        deferUpload: !isOnline,
+      });
 
       if (savedTrip) {
         // Trip was synced immediately
         console.log('[TripService] Trip saved to database:', savedTrip.tripId);
 
-        // Clear active trip state
-        await this.clearActiveTripState();
-
-        console.log('[TripService] Trip ended:', metadata.tripId);
-
         return {
           tripId: savedTrip.tripId,
           mode: metadata.mode,
@@ -416,17 +533,11 @@ class TripServiceClass {
         };
       } else {
         // Trip was queued for later sync due to connectivity issues
-        console.log('[TripService] Trip queued for sync (no connectivity)');
-
-        // Clear active trip state even though not yet synced
-        // The trip data is safely stored in SyncService queue
-        await this.clearActiveTripState();
-
-        console.log('[TripService] Trip ended and queued:', metadata.tripId);
+        console.log(`[TripService] Trip queued for sync (${isOnline ? 'upload failed' : 'recorded offline'})`);
 
         // Return summary with temporary ID and placeholder bins
         return {
-          tripId: metadata.tripId, // Use temporary ID until synced
+          tripId: metadata.tripId, // Local ID doubles as the queue ID until synced
           mode: metadata.mode,
           purpose: metadata.purpose,
           timeOfDay: 'midday', // Placeholder, will be binned when synced
@@ -442,6 +553,51 @@ class TripServiceClass {
     }
   }
 
+  // ═══════════════════════════════════════════════════════════
+  // Track Cleaning
+  // ═══════════════════════════════════════════════════════════
+
+  /**
+   * Replace the track-filtering pipeline used by endTrip.
+   * Pass DEFAULT_TRACK_FILTERS plus kalmanSmoother() to enable smoothing.
+   */
+  setTrackFilters(filters: TrackFilter[]): void {
+    this.trackFilters = filters;
+  }
+
+  /**
+   * Run the recorded points through the track-filtering pipeline.
+   * Returns cleaned [lon, lat] coordinates and matching relative times.
+   */
+  private cleanActiveTrack(tripData: Pick<ActiveTripData, 'coordinates' | 'relativeTimes' | 'accuracies'>): {
+    coordinates: [number, number][];
+    relativeTimes: number[];
+    rawPointCount: number;
+    cleanedPointCount: number;
+  } {
+    const points: TrackPoint[] = tripData.coordinates.map(([lon, lat], i) => ({
+      lon,
+      lat,
+      t: tripData.relativeTimes[i] ?? 0,
+      accuracy: tripData.accuracies?.[i] ?? null,
+    }));
+
+    const result = cleanTrack(points, this.trackFilters);
+
+    console.log('[TripService] Track cleaned:', {
+      rawPointCount: result.rawPointCount,
+      cleanedPointCount: result.cleanedPointCount,
+      removedByFilter: result.removedByFilter,
+    });
+
+    return {
+      coordinates: result.points.map((p) => [p.lon, p.lat] as [number, number]),
+      relativeTimes: result.points.map((p) => p.t),
+      rawPointCount: result.rawPointCount,
+      cleanedPointCount: result.cleanedPointCount,
+    };
+  }
+
   // ═══════════════════════════════════════════════════════════
   // GPS Tracking
   // ═══════════════════════════════════════════════════════════
@@ -455,21 +611,31 @@ class TripServiceClass {
       return;
     }
 
+    const options = {
+      distanceInterval: 5, // Update every 5 meters
+      timeInterval: 1000, // Or every 1 second
+    };
+
     try {
-      await NativeAdapter.startWatchingPosition(
-        (coordinate: GPSCoordinate) => {
+      // Prefer background recording; without "Always" permission the trip is
+      // only recorded while the app is open
+      const background = await NativeAdapter.requestBackgroundPermissions();
+      if (background) {
+        await NativeAdapter.startBackgroundLocationUpdates(background, () => {
+          this.drainBackgroundPoints();
+        }, options);
+      } else {
+        await NativeAdapter.startWatchingPosition((coordinate: GPSCoordinate) => {
           this.handleGPSUpdate(coordinate);
-        },
-        {
-          distanceInterval: 5, // Update every 5 meters
-          timeInterval: 1000, // Or every 1 second
-        }
-      );
+        }, options);
+      }
 
       this.isRecording = true;
-      console.log('[TripService] GPS tracking started.');
+      this.isBackgroundRecording = background;
+      console.log('[TripService] GPS tracking started:', background ? 'background' : 'foreground');
     } catch (error) {
       this.isRecording = false;
+      this.isBackgroundRecording = false;
       if (error instanceof NativeAdapterError) {
         throw error;
       }
@@ -485,39 +651,84 @@ class TripServiceClass {
       return;
     }
 
-    await NativeAdapter.stopWatchingPosition();
+    if (this.isBackgroundRecording) {
+      await NativeAdapter.stopBackgroundLocationUpdates();
+      // Record points buffered since the last batch, including any written while stopping
+      await this.drainBackgroundPoints();
+    } else {
+      await NativeAdapter.stopWatchingPosition();
+    }
     this.isRecording = false;
+    this.isBackgroundRecording = false;
     console.log('[TripService] GPS tracking stopped.');
   }
 
+  /**
+   * Record points buffered by the background location task.
+   * While the trip is paused they are left in the buffer until it resumes.
+   */
+  private async drainBackgroundPoints(): Promise<void> {
+    if (this.activeTripData?.metadata.status !== 'active') {
+      return;
+    }
+    const points = await NativeAdapter.drainBackgroundLocations();
+    if (points.length > 0) {
+      await this.handleGPSBatch(points);
+    }
+  }
+
   /**
    * Handle GPS coordinate updates during trip recording.
-   * Calculates relative time (seconds since trip start) for each GPS point.
    */
   private async handleGPSUpdate(coordinate: GPSCoordinate): Promise<void> {
+    await this.handleGPSBatch([coordinate]);
+  }
+
+  /**
+   * Append GPS points to the active trip and save its state once.
+   * Calculates relative time (seconds since trip start) from each point's own
+   * timestamp, so points delivered late in a background batch keep their times.
+   */
+  private async handleGPSBatch(coordinates: GPSCoordinate[]): Promise<void> {
     if (!this.activeTripData || this.activeTripData.metadata.status !== 'active') {
       return;
     }
 
-    // Calculate relative time in seconds since trip start
-    const currentTimestamp = Date.now();
-    const relativeTimeSeconds = Math.round(
-      (currentTimestamp - this.activeTripData.metadata.startTimestamp) / 1000
-    );
+    const trip = this.activeTripData;
+    let added = 0;
 
-    // Add coordinate to trip data (GeoJSON format: [longitude, latitude])
-    this.activeTripData.coordinates.push([coordinate.longitude, coordinate.latitude]);
-    this.activeTripData.relativeTimes.push(relativeTimeSeconds);
+    for (const coordinate of coordinates) {
+      // Skip points already recorded (e.g. re-delivered after a reload)
+      if (trip.lastTimestamp !== undefined && coordinate.timestamp <= trip.lastTimestamp) {
+        continue;
+      }
 
-    // Update last coordinate
-    this.activeTripData.lastCoordinate = {
-      latitude: coordinate.latitude,
-      longitude: coordinate.longitude,
-    };
+      // Calculate relative time in seconds since trip start
+      const relativeTimeSeconds = Math.max(
+        0,
+        Math.round((coordinate.timestamp - trip.metadata.startTimestamp) / 1000)
+      );
 
-    // Save updated state periodically (every coordinate for safety)
-    // In production, you might want to throttle this for performance
-    await this.saveActiveTripState();
+      // Add coordinate to trip data (GeoJSON format: [longitude, latitude])
+      trip.coordinates.push([coordinate.longitude, coordinate.latitude]);
+      trip.relativeTimes.push(relativeTimeSeconds);
+      if (trip.accuracies) {
+        trip.accuracies.push(coordinate.accuracy);
+      }
+
+      // Update last coordinate
+      trip.lastCoordinate = {
+        latitude: coordinate.latitude,
+        longitude: coordinate.longitude,
+      };
+      trip.lastTimestamp = coordinate.timestamp;
+      added++;
+    }
+
+    // Save updated state after every batch for safety
+    if (added > 0) {
+      await this.saveActiveTripState();
+    }
   }
 
   // ═══════════════════════════════════════════════════════════
@@ -531,7 +742,7 @@ class TripServiceClass {
    * @param coordinates - Array of [longitude, latitude] pairs
    * @returns Total distance in miles
    */
-  private calculateTotalDistance(coordinates: Array<[number, number]>): number {
+  private calculateTotalDistance(coordinates: [number, number][]): number {
     if (coordinates.length < 2) {
       return 0;
     }
@@ -598,6 +809,79 @@ class TripServiceClass {
     return this.activeTripData !== null;
   }
 
+  // ═══════════════════════════════════════════════════════════
+  // Stop Detection
+  // ═══════════════════════════════════════════════════════════
+
+  /**
+   * Override stop detection thresholds (see utils/stopDetection).
+   * Unspecified values keep their defaults.
+   */
+  setStopDetectionConfig(config: Partial<StopDetectionConfig>): void {
+    this.stopDetectionConfig = { ...DEFAULT_STOP_DETECTION_CONFIG, ...config };
+  }
+
+  /**
+   * Classify whether the active trip has come to a prolonged stop, so the
+   * Active Trip Screen can suggest pausing or ending it.
+   * Returns null unless a trip is actively recording.
+   */
+  getMotionState(): StopDetectionResult | null {
+    if (!this.activeTripData || this.activeTripData.metadata.status !== 'active') {
+      return null;
+    }
+
+    const { coordinates, relativeTimes, accuracies, metadata, recordingSinceS } = this.activeTripData;
+    const points: TrackPoint[] = coordinates.map(([lon, lat], i) => ({
+      lon,
+      lat,
+      t: relativeTimes[i] ?? 0,
+      accuracy: accuracies?.[i] ?? null,
+    }));
+    const nowS = Math.round((Date.now() - metadata.startTimestamp) / 1000);
+
+    return detectStop(points, nowS, this.stopDetectionConfig, recordingSinceS ?? 0);
+  }
+
+  // ═══════════════════════════════════════════════════════════
+  // Trip Recovery
+  // ═══════════════════════════════════════════════════════════
+
+  /**
+   * Pick up an active trip whose background recording kept running while
+   * the app was closed or the JS runtime restarted. Points recorded in the
+   * meantime are added to the trip and recording continues as before.
+   * Call this before checkForOrphanedTrip when the app opens.
+   *
+   * @returns True if an active trip is being recorded (recovered or already in memory)
+   */
+  async recoverActiveTrip(): Promise<boolean> {
+    if (this.activeTripData && this.isRecording) {
+      return true;
+    }
+
+    const savedTripData = await this.loadActiveTripState();
+    if (!savedTripData || savedTripData.metadata.status !== 'active') {
+      return false;
+    }
+    if (!(await NativeAdapter.isBackgroundLocationActive())) {
+      return false;
+    }
+
+    this.activeTripData = savedTripData;
+    this.isRecording = true;
+    this.isBackgroundRecording = true;
+    NativeAdapter.attachBackgroundLocationListener(() => {
+      this.drainBackgroundPoints();
+    });
+    await this.drainBackgroundPoints();
+
+    console.log('[TripService] Recovered background trip:', savedTripData.metadata.tripId, {
+      points: savedTripData.coordinates.length,
+    });
+    return true;
+  }
+
   // ═══════════════════════════════════════════════════════════
   // Orphaned Trip Detection
   // ═══════════════════════════════════════════════════════════
@@ -605,7 +889,9 @@ class TripServiceClass {
   /**
    * Check for orphaned trips when app/home screen opens.
    * An orphaned trip is one that was left in active or paused state
-   * but is no longer being tracked (e.g., app was force-closed).
+   * but is no longer being tracked (e.g., app was force-closed while
+   * recording in the foreground only). Active trips whose background
+   * recording is still running are recovered instead (see recoverActiveTrip).
    *
    * For active orphaned trips:
    * - If user is within 200m of last point: return for potential resumption
@@ -617,6 +903,11 @@ class TripServiceClass {
    * @returns OrphanedTripInfo if an orphaned trip exists, null otherwise
    */
   async checkForOrphanedTrip(): Promise<OrphanedTripInfo | null> {
+    // Still being recorded, so not orphaned
+    if (await this.recoverActiveTrip()) {
+      return null;
+    }
+
     // Load trip state from storage
     const savedTripData = await this.loadActiveTripState();
 
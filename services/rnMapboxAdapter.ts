@@ -27,6 +27,31 @@ const LAYER_IDS = {
   TRAFFIC_CALMING: 'segment-calm-layer',
 } as const;
 
+// --- Level of Traffic Stress color ramp ---
+
+/** Colors for LTS 1 (low stress) → 4 (high stress). */
+export const LTS_COLORS: Record<1 | 2 | 3 | 4, string> = {
+  1: '#1a9850',
+  2: '#a6d96a',
+  3: '#fdae61',
+  4: '#d73027',
+};
+const LTS_UNSCORED_COLOR = '#9e9e9e';
+
+/**
+ * Mapbox style expression coloring line features by their `lts` property.
+ * Features without a score render gray.
+ */
+export const LTS_LINE_COLOR_EXPRESSION = [
+  'match',
+  ['get', 'lts'],
+  1, LTS_COLORS[1],
+  2, LTS_COLORS[2],
+  3, LTS_COLORS[3],
+  4, LTS_COLORS[4],
+  LTS_UNSCORED_COLOR,
+];
+
 // Hull layers that may contain polygon features with node_id properties.
 const HULL_LAYER_IDS: string[] = [LAYER_IDS.HULLS];
 
@@ -146,6 +146,27 @@ export interface NetworkSegment {
 
   // Read-only metadata (public_data_id_* columns)
   publicDataIds: Record<string, string | null>;
+
+  // Computed on query, not a parquet column (see utils/levelOfTrafficStress)
+  lts?: SegmentLTS;
+}
+
+// --- Level of Traffic Stress ---
+
+/** 1 = comfortable for most riders of the mode, 4 = high stress / unusable. */
+export type LTSLevel = 1 | 2 | 3 | 4;
+
+export interface FacilityLTS {
+  facility: FacilityType;
+  score: number;                      // continuous stress, 1.0–4.0
+  lts: LTSLevel;
+}
+
+export interface SegmentLTS {
+  mode: string;
+  score: number;                      // lowest-stress travel facility (crosswalks excluded)
+  lts: LTSLevel;
+  facilities: FacilityLTS[];
 }
 
 // --- Segment edits ---
@@ -172,6 +193,7 @@ export interface SegmentEdit {
   oldValue: string | null;
   newValue: string;
   createdAt?: string;
+  sentAt?: string; // When the outbox delivered it (edit overlay only)
 }
 
 // --- Geometry edits (topology-altering operations) ---
@@ -8,29 +8,7 @@
 
 import type { LineString } from 'geojson';
 import type { NetworkSegment } from '@/services/types/NetworkSegment';
-
-const EARTH_RADIUS_M = 6371000;
-
-/**
- * Compute Haversine distance in meters between two coordinates.
- */
-function haversineDistance(
-  lat1: number, lon1: number,
-  lat2: number, lon2: number,
-): number {
-  const phi1 = (lat1 * Math.PI) / 180;
-  const phi2 = (lat2 * Math.PI) / 180;
-  const dPhi = ((lat2 - lat1) * Math.PI) / 180;
-  const dLambda = ((lon2 - lon1) * Math.PI) / 180;
-
-  const a =
-    Math.sin(dPhi / 2) * Math.sin(dPhi / 2) +
-    Math.cos(phi1) * Math.cos(phi2) *
-    Math.sin(dLambda / 2) * Math.sin(dLambda / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return EARTH_RADIUS_M * c;
-}
+import { haversineDistance } from '@/services/utils/geoDistance';
 
 /**
  * Compute minimum distance from a point to a LineString.
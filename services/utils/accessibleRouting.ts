@@ -0,0 +1,629 @@
+// ═══════════════════════════════════════════════════════════
+// ACCESSIBLE ROUTING
+// ═══════════════════════════════════════════════════════════
+// Builds a pedestrian graph from loaded NetworkSegments and finds the
+// lowest-cost route between two points with Dijkstra.
+//
+// Graph:
+//   - Sidewalk edges: each sidewalk side between its start and end.
+//   - Crosswalk edges: crosswalk geometry, joined to the sidewalk ends
+//     it touches. Curb ramps at those ends gate the crossing.
+//   - Street edges: street centerline, only if the mode allows riding
+//     in the street and the street's traffic is tolerable.
+//   - Connector edges: join graph vertices within CORNER_SNAP_M of each
+//     other (sidewalks meeting at a corner, street ↔ sidewalk ends).
+//
+// Costs are metres of travel scaled by multipliers for surface, width,
+// incline, crossing control and street traffic; attributes outside the
+// RouteCostOptions limits make an edge impassable.
+//
+// Coordinates throughout are [longitude, latitude] (GeoJSON order).
+
+import type { LineString, MultiLineString } from 'geojson';
+import type { MobilityProfile, MobilitySettings } from '@/adapters/DatabaseAdapter';
+import type { CrosswalkData, NetworkSegment, SidewalkData } from '@/services/types/NetworkSegment';
+import { haversineDistance } from '@/services/utils/geoDistance';
+import { resolveMobilitySettings, SMOOTH_SURFACES } from '@/services/utils/mobilityProfiles';
+
+// --- Types ---
+
+/** Mobility limits for the mode being routed (see utils/mobilityProfiles). */
+export interface RouteCostOptions extends MobilitySettings {
+  /** Travel mode the route is for (wheelchair, skateboard, ...). */
+  mode: string;
+}
+
+export type RouteEdgeKind = 'sidewalk' | 'crosswalk' | 'street' | 'connector';
+
+export interface RouteStep {
+  kind: RouteEdgeKind;
+  streetGridId: string | null;
+  facilityId: string | null;
+  distanceM: number;
+}
+
+export interface RouteResult {
+  /** Route geometry in [lon, lat] order. */
+  coordinates: [number, number][];
+  distanceM: number;
+  /** Weighted cost (metre-equivalents). */
+  cost: number;
+  steps: RouteStep[];
+  /** Human-readable caveats (street use, missing ramps, unknown data). */
+  warnings: string[];
+}
+
+interface Edge {
+  id: number;
+  from: number;
+  to: number;
+  kind: RouteEdgeKind;
+  coords: [number, number][];
+  lengthM: number;
+  cost: number;
+  streetGridId: string | null;
+  facilityId: string | null;
+  missingRamp: boolean;
+}
+
+export interface RouteGraph {
+  vertices: [number, number][];
+  edges: Edge[];
+  adjacency: Map<number, number[]>; // vertex → edge ids
+}
+
+// --- Constants ---
+
+const CORNER_SNAP_M = 8; // Sidewalk ends closer than this are treated as the same corner
+const STREET_ACCESS_SNAP_M = 20; // Street nodes connect to sidewalk ends within this distance
+const MISSING_RAMP_PENALTY_M = 150; // Cost added per crossing end without a curb ramp
+const UNKNOWN_PRESENCE_MULTIPLIER = 1.3;
+const BASE_STREET_MULTIPLIER = 2.5; // Prefer sidewalks over the street even when the street is allowed
+
+const ROUGH_SURFACES = ['sett', 'cobblestone', 'unhewn_cobblestone', 'gravel', 'fine_gravel', 'compacted', 'unpaved', 'dirt', 'ground', 'grass', 'wood'];
+const FLUSH_KERBS = ['flush', 'lowered', 'no'];
+
+/** Route options for a mode, from the user's mobility profile if given. */
+export function getRouteOptions(mode: string, profile?: MobilityProfile | null): RouteCostOptions {
+  return { mode, ...resolveMobilitySettings(mode, profile) };
+}
+
+// ═══════════════════════════════════════════════════════════
+// Geometry helpers
+// ═══════════════════════════════════════════════════════════
+
+function distanceMeters(a: [number, number], b: [number, number]): number {
+  return haversineDistance(a[1], a[0], b[1], b[0]);
+}
+
+function lineLength(coords: [number, number][]): number {
+  let total = 0;
+  for (let i = 0; i < coords.length - 1; i++) total += distanceMeters(coords[i], coords[i + 1]);
+  return total;
+}
+
+/** Flatten a (Multi)LineString into one coordinate chain (parts joined end to end). */
+function flattenLine(geometry: LineString | MultiLineString | null | undefined): [number, number][] {
+  if (!geometry) return [];
+  if (geometry.type === 'LineString') return geometry.coordinates as [number, number][];
+  return (geometry.coordinates as [number, number][][]).flat();
+}
+
+/**
+ * Project a point onto a polyline. Returns the snapped point, its distance
+ * and the polyline split at the snapped point.
+ */
+function splitLineAtPoint(
+  point: [number, number],
+  line: [number, number][],
+): { distanceM: number; before: [number, number][]; after: [number, number][] } {
+  const cosLat = Math.cos((point[1] * Math.PI) / 180);
+  let best = { distanceM: Infinity, index: 0, snapped: line[0] };
+
+  for (let i = 0; i < line.length - 1; i++) {
+    const [ax, ay] = line[i];
+    const [bx, by] = line[i + 1];
+    const dx = (bx - ax) * cosLat;
+    const dy = by - ay;
+    const lenSq = dx * dx + dy * dy;
+    let t = lenSq === 0 ? 0 : (((point[0] - ax) * cosLat) * dx + (point[1] - ay) * dy) / lenSq;
+    t = Math.max(0, Math.min(1, t));
+    const snapped: [number, number] = [ax + t * (bx - ax), ay + t * (by - ay)];
+    const d = distanceMeters(point, snapped);
+    if (d < best.distanceM) best = { distanceM: d, index: i, snapped };
+  }
+
+  return {
+    distanceM: best.distanceM,
+    before: [...line.slice(0, best.index + 1), best.snapped],
+    after: [best.snapped, ...line.slice(best.index + 1)],
+  };
+}
+
+function normalizeSurface(surface: unknown): string | null {
+  if (surface === null || surface === undefined) return null;
+  return String(surface).toLowerCase();
+}
+
+// ═══════════════════════════════════════════════════════════
+// Edge costs
+// ═══════════════════════════════════════════════════════════
+
+/** Multiplier for a surface value, or null if the surface is unacceptable. */
+function surfaceMultiplier(surface: unknown, options: RouteCostOptions): number | null {
+  const value = normalizeSurface(surface);
+  if (!value) return 1.1; // Unknown surface — small penalty
+
+  // Multi-valued surfaces are stored as stringified lists; judge by the worst value
+  const values = value.replace(/[[\]'"]/g, '').split(/[,;]/).map((v) => v.trim()).filter(Boolean);
+  if (options.acceptableSurfaces && values.some((v) => !options.acceptableSurfaces!.includes(v))) {
+    return null;
+  }
+  if (values.some((v) => ROUGH_SURFACES.includes(v))) return 1.8;
+  if (values.every((v) => SMOOTH_SURFACES.includes(v))) return 1;
+  return 1.2;
+}
+
+/** Multiplier for a grade (%), or null if steeper than allowed. */
+function inclineMultiplier(incline: number | null, options: RouteCostOptions): number | null {
+  if (incline === null || incline === undefined || Number.isNaN(incline)) return 1;
+  const grade = Math.abs(incline);
+  if (grade > options.maxInclinePct) return null;
+  const ratio = grade / options.maxInclinePct;
+  return 1 + 2 * ratio * ratio;
+}
+
+function sidewalkCost(
+  sidewalk: SidewalkData,
+  segment: NetworkSegment,
+  lengthM: number,
+  options: RouteCostOptions,
+): number | null {
+  const presence = sidewalk.presence?.toLowerCase() ?? null;
+  if (presence === 'no' || presence === 'none') return null;
+
+  if (sidewalk.width !== null && sidewalk.width < options.minWidthM) return null;
+
+  const surface = surfaceMultiplier(sidewalk.surface, options);
+  const incline = inclineMultiplier(sidewalk.incline ?? segment.street.incline, options);
+  if (surface === null || incline === null) return null;
+
+  const presenceMultiplier = presence === null ? UNKNOWN_PRESENCE_MULTIPLIER : 1;
+  const widthMultiplier = sidewalk.width === null ? 1.05 : 1;
+  return lengthM * surface * incline * presenceMultiplier * widthMultiplier;
+}
+
+function streetCost(segment: NetworkSegment, lengthM: number, options: RouteCostOptions): number | null {
+  if (!options.allowStreet) return null;
+
+  const highway = segment.street.highway?.toLowerCase() ?? null;
+  if (highway && options.avoidHighways.includes(highway)) return null;
+
+  const maxspeed = segment.street.maxspeed;
+  if (maxspeed !== null && maxspeed > options.maxStreetSpeedMph) return null;
+
+  const surface = surfaceMultiplier(segment.street.surface, options);
+  const incline = inclineMultiplier(segment.street.incline, options);
+  if (surface === null || incline === null) return null;
+
+  const speedMultiplier = maxspeed === null ? 1.2 : 1 + Math.max(0, maxspeed - 15) / 20;
+  const laneMultiplier = segment.street.lanes && segment.street.lanes > 2 ? 1.5 : 1;
+  return lengthM * BASE_STREET_MULTIPLIER * surface * incline * speedMultiplier * laneMultiplier;
+}
+
+function crosswalkMultiplier(crosswalk: CrosswalkData): number {
+  const controlled = crosswalk.controlled?.toLowerCase() === 'yes' || crosswalk.signals?.toLowerCase().startsWith('yes');
+  const marked = crosswalk.marked?.toLowerCase() === 'yes';
+  let multiplier = controlled ? 1 : marked ? 1.4 : 2;
+
+  const condition = crosswalk.condition?.toLowerCase() ?? '';
+  if (['bad', 'very_bad', 'horrible', 'poor'].includes(condition)) multiplier *= 1.5;
+  if (crosswalk.island?.toLowerCase() === 'yes') multiplier *= 0.9;
+  return multiplier;
+}
+
+function hasRampAt(sidewalk: SidewalkData, position: 'start' | 'end'): boolean {
+  return sidewalk.curbRamps.some((r) => r.position === position && r.id !== null);
+}
+
+/** Extra cost for a curb ramp in poor condition (condition scores are 1–10). */
+function rampConditionPenalty(sidewalk: SidewalkData, position: 'start' | 'end'): number {
+  const scores = sidewalk.curbRamps
+    .filter((r) => r.position === position && r.conditionScore !== null)
+    .map((r) => r.conditionScore as number);
+  if (scores.length === 0) return 0;
+  const best = Math.max(...scores);
+  return best < 5 ? (5 - best) * 10 : 0;
+}
+
+// ═══════════════════════════════════════════════════════════
+// Graph construction
+// ═══════════════════════════════════════════════════════════
+
+interface SidewalkEnd {
+  vertex: number;
+  sidewalk: SidewalkData;
+  position: 'start' | 'end';
+}
+
+class GraphBuilder {
+  vertices: [number, number][] = [];
+  edges: Edge[] = [];
+  adjacency: Map<number, number[]> = new Map();
+
+  addVertex(coord: [number, number]): number {
+    this.vertices.push(coord);
+    return this.vertices.length - 1;
+  }
+
+  addEdge(edge: Omit<Edge, 'id'>): void {
+    const id = this.edges.length;
+    this.edges.push({ ...edge, id });
+    for (const v of [edge.from, edge.to]) {
+      const list = this.adjacency.get(v);
+      if (list) list.push(id);
+      else this.adjacency.set(v, [id]);
+    }
+  }
+
+  /** Vertices within radius of a coordinate (linear scan over a small candidate list). */
+  near(coord: [number, number], radiusM: number, candidates: number[]): number[] {
+    return candidates.filter((v) => distanceMeters(this.vertices[v], coord) <= radiusM);
+  }
+}
+
+/**
+ * Build the routing graph from loaded segments for the given options.
+ * Impassable facilities are left out of the graph entirely.
+ */
+export function buildRouteGraph(segments: NetworkSegment[], options: RouteCostOptions): RouteGraph {
+  const g = new GraphBuilder();
+  const sidewalkEnds: SidewalkEnd[] = [];
+  const sidewalkEndsById = new Map<string, SidewalkEnd[]>();
+  const streetNodeVertex = new Map<number, number>();
+
+  // --- Sidewalk edges ---
+  for (const segment of segments) {
+    for (const sidewalk of [segment.sidewalkLeft, segment.sidewalkRight]) {
+      if (!sidewalk) continue;
+      const coords = flattenLine(sidewalk.geometry);
+      if (coords.length < 2) continue;
+
+      const lengthM = lineLength(coords);
+      const cost = sidewalkCost(sidewalk, segment, lengthM, options);
+      if (cost === null) continue;
+
+      const start = g.addVertex(coords[0]);
+      const end = g.addVertex(coords[coords.length - 1]);
+      g.addEdge({
+        from: start, to: end, kind: 'sidewalk', coords, lengthM, cost,
+        streetGridId: segment.streetGridId, facilityId: sidewalk.id, missingRamp: false,
+      });
+
+      const ends: SidewalkEnd[] = [
+        { vertex: start, sidewalk, position: 'start' },
+        { vertex: end, sidewalk, position: 'end' },
+      ];
+      sidewalkEnds.push(...ends);
+      sidewalkEndsById.set(sidewalk.id, ends);
+    }
+  }
+
+  // --- Street edges ---
+  for (const segment of segments) {
+    const coords = segment.street.geometry.coordinates as [number, number][];
+    if (coords.length < 2) continue;
+
+    const lengthM = lineLength(coords);
+    const cost = streetCost(segment, lengthM, options);
+    if (cost === null) continue;
+
+    const vertexFor = (nodeId: number, coord: [number, number]) => {
+      let v = streetNodeVertex.get(nodeId);
+      if (v === undefined) {
+        v = g.addVertex(coord);
+        streetNodeVertex.set(nodeId, v);
+      }
+      return v;
+    };
+
+    g.addEdge({
+      from: vertexFor(segment.startNodeId, coords[0]),
+      to: vertexFor(segment.endNodeId, coords[coords.length - 1]),
+      kind: 'street', coords, lengthM, cost,
+      streetGridId: segment.streetGridId, facilityId: null, missingRamp: false,
+    });
+  }
+
+  // Spatial bucket of sidewalk ends for connector lookups
+  const bucketSize = 0.0005; // ~50 m
+  const buckets = new Map<string, number[]>();
+  const bucketKey = (c: [number, number]) => `${Math.floor(c[0] / bucketSize)}_${Math.floor(c[1] / bucketSize)}`;
+  for (const end of sidewalkEnds) {
+    const key = bucketKey(g.vertices[end.vertex]);
+    const list = buckets.get(key);
+    if (list) list.push(end.vertex);
+    else buckets.set(key, [end.vertex]);
+  }
+  const nearbyEnds = (coord: [number, number]): number[] => {
+    const [bx, by] = [Math.floor(coord[0] / bucketSize), Math.floor(coord[1] / bucketSize)];
+    const out: number[] = [];
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        out.push(...(buckets.get(`${bx + dx}_${by + dy}`) ?? []));
+      }
+    }
+    return out;
+  };
+  const endByVertex = new Map(sidewalkEnds.map((e) => [e.vertex, e]));
+
+  const connect = (a: number, b: number, extraCost: number, missingRamp: boolean) => {
+    const lengthM = distanceMeters(g.vertices[a], g.vertices[b]);
+    g.addEdge({
+      from: a, to: b, kind: 'connector', coords: [g.vertices[a], g.vertices[b]],
+      lengthM, cost: lengthM + extraCost, streetGridId: null, facilityId: null, missingRamp,
+    });
+  };
+
+  // --- Corner connectors between sidewalk ends ---
+  for (const end of sidewalkEnds) {
+    for (const other of g.near(g.vertices[end.vertex], CORNER_SNAP_M, nearbyEnds(g.vertices[end.vertex]))) {
+      if (other > end.vertex && endByVertex.get(other)?.sidewalk !== end.sidewalk) {
+        connect(end.vertex, other, 0, false);
+      }
+    }
+  }
+
+  // --- Crosswalk edges ---
+  for (const segment of segments) {
+    for (const crosswalk of [segment.crosswalkStart, segment.crosswalkEnd]) {
+      const coords = crosswalk?.geometry?.coordinates as [number, number][] | undefined;
+      if (!crosswalk || !coords || coords.length < 2) continue;
+
+      const a = coords[0];
+      const b = coords[coords.length - 1];
+      const isFlush = FLUSH_KERBS.includes(crosswalk.kerb?.toLowerCase() ?? '');
+
+      // Ramp check for a crosswalk end: the nearest sidewalk end it touches
+      const attach = (coord: [number, number]): { vertex: number; rampPenalty: number; missing: boolean } | null => {
+        const candidates = g.near(coord, CORNER_SNAP_M * 2, nearbyEnds(coord))
+          .sort((x, y) => distanceMeters(g.vertices[x], coord) - distanceMeters(g.vertices[y], coord));
+        const vertex = candidates[0];
+        if (vertex === undefined) return null;
+        const end = endByVertex.get(vertex)!;
+        const hasRamp = hasRampAt(end.sidewalk, end.position);
+        if (!hasRamp && !isFlush && options.missingCurbRampsBlock) return null;
+        return {
+          vertex,
+          rampPenalty: (hasRamp || isFlush ? 0 : MISSING_RAMP_PENALTY_M) + rampConditionPenalty(end.sidewalk, end.position),
+          missing: !hasRamp && !isFlush,
+        };
+      };
+
+      const from = attach(a);
+      const to = attach(b);
+      if (!from || !to || from.vertex === to.vertex) continue;
+
+      const lengthM = lineLength(coords);
+      g.addEdge({
+        from: from.vertex, to: to.vertex, kind: 'crosswalk', coords: [g.vertices[from.vertex], ...coords, g.vertices[to.vertex]],
+        lengthM, cost: lengthM * crosswalkMultiplier(crosswalk) + from.rampPenalty + to.rampPenalty,
+        streetGridId: segment.streetGridId, facilityId: crosswalk.id, missingRamp: from.missing || to.missing,
+      });
+    }
+  }
+
+  // --- Street ↔ sidewalk access connectors ---
+  for (const v of streetNodeVertex.values()) {
+    for (const endVertex of g.near(g.vertices[v], STREET_ACCESS_SNAP_M, nearbyEnds(g.vertices[v]))) {
+      const end = endByVertex.get(endVertex)!;
+      const hasRamp = hasRampAt(end.sidewalk, end.position);
+      if (!hasRamp && options.missingCurbRampsBlock) continue;
+      connect(endVertex, v, hasRamp ? 0 : MISSING_RAMP_PENALTY_M, !hasRamp);
+    }
+  }
+
+  return { vertices: g.vertices, edges: g.edges, adjacency: g.adjacency };
+}
+
+// ═══════════════════════════════════════════════════════════
+// Shortest path
+// ═══════════════════════════════════════════════════════════
+
+class MinHeap {
+  private items: { key: number; value: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(value: number, key: number): void {
+    this.items.push({ key, value });
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.items[parent].key <= this.items[i].key) break;
+      [this.items[parent], this.items[i]] = [this.items[i], this.items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { key: number; value: number } | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0 && last) {
+      this.items[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let smallest = i;
+        if (l < this.items.length && this.items[l].key < this.items[smallest].key) smallest = l;
+        if (r < this.items.length && this.items[r].key < this.items[smallest].key) smallest = r;
+        if (smallest === i) break;
+        [this.items[smallest], this.items[i]] = [this.items[i], this.items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+interface EdgeSnap {
+  edge: Edge;
+  split: ReturnType<typeof splitLineAtPoint>;
+}
+
+/**
+ * The routable edge nearest a point, split at the point's projection,
+ * or null if no edge is within maxSnapM.
+ */
+function snapToEdge(graph: RouteGraph, point: [number, number], maxSnapM: number): EdgeSnap | null {
+  let best: EdgeSnap | null = null;
+
+  for (const edge of graph.edges) {
+    if (edge.kind !== 'sidewalk' && edge.kind !== 'street') continue;
+    const split = splitLineAtPoint(point, edge.coords);
+    if (split.distanceM <= maxSnapM && (!best || split.distanceM < best.split.distanceM)) {
+      best = { edge, split };
+    }
+  }
+  return best;
+}
+
+/**
+ * Attach a snapped point to the graph by splitting its edge.
+ * Returns the new vertex.
+ */
+function attachPoint(graph: RouteGraph, { edge, split }: EdgeSnap): number {
+  const vertex = graph.vertices.length;
+  graph.vertices.push(split.after[0]);
+
+  const costPerM = edge.lengthM > 0 ? edge.cost / edge.lengthM : 1;
+  const addPartial = (other: number, coords: [number, number][]) => {
+    const lengthM = lineLength(coords);
+    const id = graph.edges.length;
+    graph.edges.push({ ...edge, id, from: other, to: vertex, coords, lengthM, cost: lengthM * costPerM });
+    graph.adjacency.get(other)?.push(id);
+    const list = graph.adjacency.get(vertex);
+    if (list) list.push(id);
+    else graph.adjacency.set(vertex, [id]);
+  };
+  addPartial(edge.from, split.before);
+  addPartial(edge.to, [...split.after].reverse());
+
+  return vertex;
+}
+
+/**
+ * The part of an edge between two points snapped to it, in travel
+ * direction from the first to the second.
+ */
+function edgeBetween(from: EdgeSnap, to: EdgeSnap, origin: [number, number], destination: [number, number]): Edge {
+  const { edge } = from;
+  const coords = lineLength(from.split.before) <= lineLength(to.split.before)
+    ? splitLineAtPoint(destination, from.split.after).before
+    : [...splitLineAtPoint(origin, to.split.after).before].reverse();
+  const lengthM = lineLength(coords);
+  const costPerM = edge.lengthM > 0 ? edge.cost / edge.lengthM : 1;
+  return { ...edge, coords, lengthM, cost: lengthM * costPerM };
+}
+
+/**
+ * Find the lowest-cost route between two points on the graph.
+ * The graph is extended with temporary vertices for origin and destination,
+ * so build a fresh graph per query.
+ *
+ * @returns The route, or null if either point is off the network or no path exists
+ */
+export function findAccessibleRoute(
+  graph: RouteGraph,
+  origin: [number, number],
+  destination: [number, number],
+  maxSnapM: number = 50,
+): RouteResult | null {
+  const originSnap = snapToEdge(graph, origin, maxSnapM);
+  const destinationSnap = snapToEdge(graph, destination, maxSnapM);
+  if (!originSnap || !destinationSnap) return null;
+
+  // Both on one edge: splitting it twice would route the second split
+  // around the first, so take the stretch between them directly
+  if (originSnap.edge === destinationSnap.edge) {
+    const edge = edgeBetween(originSnap, destinationSnap, origin, destination);
+    return toRouteResult([{ edge, coords: edge.coords }], edge.cost);
+  }
+
+  const start = attachPoint(graph, originSnap);
+  const goal = attachPoint(graph, destinationSnap);
+
+  const dist = new Map<number, number>([[start, 0]]);
+  const via = new Map<number, Edge>();
+  const heap = new MinHeap();
+  heap.push(start, 0);
+
+  while (heap.size > 0) {
+    const { key: d, value: v } = heap.pop()!;
+    if (v === goal) break;
+    if (d > (dist.get(v) ?? Infinity)) continue;
+
+    for (const edgeId of graph.adjacency.get(v) ?? []) {
+      const edge = graph.edges[edgeId];
+      const next = edge.from === v ? edge.to : edge.from;
+      const nd = d + edge.cost;
+      if (nd < (dist.get(next) ?? Infinity)) {
+        dist.set(next, nd);
+        via.set(next, edge);
+        heap.push(next, nd);
+      }
+    }
+  }
+
+  if (!dist.has(goal)) return null;
+
+  // Walk back from the goal, orienting each edge's geometry in travel direction
+  const path: { edge: Edge; coords: [number, number][] }[] = [];
+  let v = goal;
+  while (v !== start) {
+    const edge = via.get(v)!;
+    const forward = edge.to === v;
+    path.push({ edge, coords: forward ? edge.coords : [...edge.coords].reverse() });
+    v = forward ? edge.from : edge.to;
+  }
+  path.reverse();
+
+  return toRouteResult(path, dist.get(goal)!);
+}
+
+/**
+ * Assemble a route from its edges, each with geometry in travel direction.
+ */
+function toRouteResult(path: { edge: Edge; coords: [number, number][] }[], cost: number): RouteResult {
+  const coordinates: [number, number][] = [];
+  for (const { coords } of path) {
+    for (const c of coords) {
+      const last = coordinates[coordinates.length - 1];
+      if (!last || last[0] !== c[0] || last[1] !== c[1]) coordinates.push(c);
+    }
+  }
+
+  const steps: RouteStep[] = path.map(({ edge }) => ({
+    kind: edge.kind,
+    streetGridId: edge.streetGridId,
+    facilityId: edge.facilityId,
+    distanceM: edge.lengthM,
+  }));
+
+  const warnings: string[] = [];
+  const streetM = steps.filter((s) => s.kind === 'street').reduce((sum, s) => sum + s.distanceM, 0);
+  if (streetM > 0) warnings.push(`Uses ${Math.round(streetM)} m of street without a sidewalk`);
+  const missingRamps = path.filter(({ edge }) => edge.missingRamp).length;
+  if (missingRamps > 0) warnings.push(`${missingRamps} crossing(s) without a mapped curb ramp`);
+
+  return {
+    coordinates,
+    distanceM: steps.reduce((sum, s) => sum + s.distanceM, 0),
+    cost,
+    steps,
+    warnings,
+  };
+}
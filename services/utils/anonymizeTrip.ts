@@ -0,0 +1,202 @@
+// ═══════════════════════════════════════════════════════════
+// ANONYMIZE TRIP
+// ═══════════════════════════════════════════════════════════
+// Spatial and temporal privacy pipeline run by SyncService before a trip
+// is queued or uploaded. Each stage is an AnonymizationStep; the pipeline
+// is an ordered list built from the user's privacy level, so stages can
+// be added, removed or tuned like the track filters in cleanGPSTrack.
+//
+// Levels (chosen per user in the profile, recorded on each trip):
+// - standard: clip to the origin/destination census blocks
+// - enhanced: endpoints widened to areas of several blocks, a fixed and a
+//   random distance trimmed beyond them, relative times jittered
+// - strict:   wider areas and trims
+// At every level a trip whose endpoints can't be hidden (no area around
+// either end, or nothing left outside them) is dropped, never uploaded.
+//
+// Coordinates throughout are [longitude, latitude] (GeoJSON order).
+
+import type { PrivacyLevel } from '@/adapters/DatabaseAdapter';
+import type { EndpointArea } from './censusBlocks';
+import { clipTripToBlocks } from './clipTripGeometry';
+import { haversineDistance } from './geoDistance';
+
+// --- Types ---
+
+export interface PrivacySettings {
+  /** Endpoint areas are widened (block → block group → tract) until they hold this many blocks. */
+  endpointK: number;
+  /** Metres trimmed from each end beyond the endpoint areas. */
+  minClipDistanceM: number;
+  /** Up to this many more metres trimmed from each end, drawn independently per end. */
+  maxRandomTruncationM: number;
+  /** Relative times shifted by up to ± this many seconds (order is kept). */
+  timeJitterS: number;
+}
+
+export interface AnonymizedTrip {
+  coordinates: [number, number][];
+  relativeTimes: number[] | null; // Same length as coordinates, or null
+  odGeoids: [string, string] | null;
+}
+
+/** Origin and destination areas, resolved on-device by CensusBlockService. */
+export interface AnonymizationContext {
+  origin: EndpointArea | null;
+  destination: EndpointArea | null;
+  random: () => number; // Uniform in [0, 1)
+}
+
+export interface AnonymizationStep {
+  /** Stable identifier used in logs. */
+  name: string;
+  /** Returns the transformed trip, or null to drop it. */
+  apply(trip: AnonymizedTrip, context: AnonymizationContext): AnonymizedTrip | null;
+}
+
+// --- Constants ---
+
+export const PRIVACY_LEVELS: Record<PrivacyLevel, PrivacySettings> = {
+  standard: { endpointK: 1, minClipDistanceM: 0, maxRandomTruncationM: 0, timeJitterS: 0 },
+  enhanced: { endpointK: 5, minClipDistanceM: 100, maxRandomTruncationM: 100, timeJitterS: 5 },
+  strict: { endpointK: 20, minClipDistanceM: 200, maxRandomTruncationM: 200, timeJitterS: 15 },
+};
+
+export const DEFAULT_PRIVACY_LEVEL: PrivacyLevel = 'standard';
+
+/**
+ * Drop points from each end until `startM` / `endM` metres of the route
+ * are gone. Returns null if fewer than 2 points would remain.
+ */
+function trimEnds(trip: AnonymizedTrip, startM: number, endM: number): AnonymizedTrip | null {
+  const coords = trip.coordinates;
+  const stepM = (i: number, j: number) => haversineDistance(coords[i][1], coords[i][0], coords[j][1], coords[j][0]);
+
+  let start = 0;
+  for (let walked = 0; start < coords.length - 1 && walked < startM; start++) {
+    walked += stepM(start, start + 1);
+  }
+
+  let end = coords.length - 1;
+  for (let walked = 0; end > start && walked < endM; end--) {
+    walked += stepM(end, end - 1);
+  }
+
+  if (end - start < 1) return null;
+  return {
+    ...trip,
+    coordinates: coords.slice(start, end + 1),
+    relativeTimes: trip.relativeTimes?.slice(start, end + 1) ?? null,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════
+// Steps
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Remove the parts of the route inside the origin and destination areas
+ * and record their geoids. Drops a trip without both areas, or one with
+ * fewer than 2 points outside them.
+ */
+export function clipToEndpointAreas(): AnonymizationStep {
+  return {
+    name: 'clip',
+    apply: (trip, { origin, destination }) => {
+      if (!origin || !destination) return null;
+
+      const odGeoids: [string, string] = [origin.geoid, destination.geoid];
+      const { coordinates, trimmedFromStart, trimmedFromEnd } = clipTripToBlocks(
+        trip.coordinates,
+        origin.polygons,
+        destination.polygons,
+      );
+      if (coordinates.length < 2) return null;
+
+      const aligned = trip.relativeTimes && trip.relativeTimes.length === trip.coordinates.length;
+      return {
+        coordinates,
+        relativeTimes: aligned
+          ? trip.relativeTimes!.slice(trimmedFromStart, trip.relativeTimes!.length - trimmedFromEnd)
+          : trip.relativeTimes,
+        odGeoids,
+      };
+    },
+  };
+}
+
+/**
+ * Trim a fixed distance from each end, so the route doesn't start right
+ * at the edge of the origin area. Drops trips shorter than that.
+ */
+export function bufferEnds(distanceM: number): AnonymizationStep {
+  return {
+    name: 'buffer',
+    apply: (trip) => trimEnds(trip, distanceM, distanceM),
+  };
+}
+
+/**
+ * Trim a random distance, up to `maxDistanceM`, from each end, so the
+ * edge of the area can't be recovered from where the route starts.
+ */
+export function randomTruncation(maxDistanceM: number): AnonymizationStep {
+  return {
+    name: 'truncate',
+    apply: (trip, { random }) => trimEnds(trip, random() * maxDistanceM, random() * maxDistanceM),
+  };
+}
+
+/**
+ * Shift each relative time by up to ± `maxJitterS`, keeping them
+ * non-negative and in order.
+ */
+export function jitterRelativeTimes(maxJitterS: number): AnonymizationStep {
+  return {
+    name: 'jitter',
+    apply: (trip, { random }) => {
+      if (!trip.relativeTimes) return trip;
+      let previous = 0;
+      const relativeTimes = trip.relativeTimes.map((t) => {
+        previous = Math.max(previous, t + (random() * 2 - 1) * maxJitterS);
+        return previous;
+      });
+      return { ...trip, relativeTimes };
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════
+// Pipeline
+// ═══════════════════════════════════════════════════════════
+
+export function getPrivacySettings(level: PrivacyLevel | null | undefined): PrivacySettings {
+  return PRIVACY_LEVELS[level ?? DEFAULT_PRIVACY_LEVEL] ?? PRIVACY_LEVELS[DEFAULT_PRIVACY_LEVEL];
+}
+
+export function buildAnonymizationPipeline(settings: PrivacySettings): AnonymizationStep[] {
+  const steps = [clipToEndpointAreas()];
+  if (settings.minClipDistanceM > 0) steps.push(bufferEnds(settings.minClipDistanceM));
+  if (settings.maxRandomTruncationM > 0) steps.push(randomTruncation(settings.maxRandomTruncationM));
+  if (settings.timeJitterS > 0) steps.push(jitterRelativeTimes(settings.timeJitterS));
+  return steps;
+}
+
+/**
+ * Run a route through the pipeline.
+ *
+ * @returns The anonymized trip, or null if a step dropped it
+ */
+export function anonymizeTrip(
+  coordinates: [number, number][],
+  relativeTimes: number[] | null,
+  steps: AnonymizationStep[],
+  context: AnonymizationContext,
+): AnonymizedTrip | null {
+  let trip: AnonymizedTrip | null = { coordinates, relativeTimes, odGeoids: null };
+  for (const step of steps) {
+    trip = step.apply(trip, context);
+    if (!trip) return null;
+  }
+  return trip;
+}
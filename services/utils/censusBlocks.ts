@@ -0,0 +1,169 @@
+// ═══════════════════════════════════════════════════════════
+// CENSUS BLOCKS
+// ═══════════════════════════════════════════════════════════
+// On-device census block lookup for trip clipping (utils/clipTripGeometry).
+// Each region pack publishes the blocks it covers as a GeoJSON file next
+// to its parquet (CensusBlockService keeps them on disk); this module
+// parses that file and indexes the blocks on a lon/lat grid, so the
+// origin and destination blocks are found without sending the exact
+// points anywhere.
+//
+// Coordinates throughout are [longitude, latitude] (GeoJSON order).
+
+import { pointInPolygon } from './clipTripGeometry';
+import type { BBox } from './regionPacks';
+
+// --- Types ---
+
+export interface CensusBlock {
+  geoid: string; // GEOID20
+  polygon: GeoJSON.Polygon;
+  bbox: BBox;
+}
+
+/** Blocks bucketed by the grid cells their bounding boxes overlap. */
+export interface CensusBlockIndex {
+  cellDegrees: number;
+  blocks: CensusBlock[];
+  cells: Map<string, number[]>; // "col_row" → indices into blocks
+}
+
+/**
+ * A block, or the block group or tract around it, that a trip endpoint
+ * is generalized to. `geoid` is the GEOID20 prefix naming the area.
+ */
+export interface EndpointArea {
+  geoid: string;
+  polygons: GeoJSON.Polygon[];
+}
+
+/**
+ * Thrown when a point's region has census blocks but they aren't on the
+ * device and can't be downloaded right now. Clipping waits until they are.
+ */
+export class CensusBlocksUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CensusBlocksUnavailableError';
+  }
+}
+
+// --- Constants ---
+
+// ~1 km cells: a handful of urban blocks each, few cells per rural block
+const DEFAULT_CELL_DEGREES = 0.01;
+
+// GEOID20 prefixes: block (state+county+tract+block), block group, tract
+const AREA_GEOID_LENGTHS = [15, 12, 11];
+
+// ═══════════════════════════════════════════════════════════
+// Parsing
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Read blocks from a GeoJSON FeatureCollection with a GEOID20 property
+ * on each feature. A MultiPolygon block becomes one entry per part, all
+ * with the same geoid. Features without a geoid or polygon are skipped.
+ *
+ * @throws If the input is not a FeatureCollection
+ */
+export function parseCensusBlocks(geojson: unknown): CensusBlock[] {
+  const collection = geojson as GeoJSON.FeatureCollection | null;
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('Census block file is not a GeoJSON FeatureCollection');
+  }
+
+  const blocks: CensusBlock[] = [];
+  for (const feature of collection.features) {
+    const geoid = feature.properties?.GEOID20;
+    if (typeof geoid !== 'string' || !feature.geometry) continue;
+
+    const parts = feature.geometry.type === 'Polygon'
+      ? [feature.geometry.coordinates]
+      : feature.geometry.type === 'MultiPolygon'
+        ? feature.geometry.coordinates
+        : [];
+    for (const rings of parts) {
+      if (!rings[0] || rings[0].length < 4) continue;
+      blocks.push({ geoid, polygon: { type: 'Polygon', coordinates: rings }, bbox: ringBbox(rings[0]) });
+    }
+  }
+  return blocks;
+}
+
+function ringBbox(ring: GeoJSON.Position[]): BBox {
+  const bbox = { minLon: Infinity, minLat: Infinity, maxLon: -Infinity, maxLat: -Infinity };
+  for (const [lon, lat] of ring) {
+    if (lon < bbox.minLon) bbox.minLon = lon;
+    if (lon > bbox.maxLon) bbox.maxLon = lon;
+    if (lat < bbox.minLat) bbox.minLat = lat;
+    if (lat > bbox.maxLat) bbox.maxLat = lat;
+  }
+  return bbox;
+}
+
+// ═══════════════════════════════════════════════════════════
+// Index
+// ═══════════════════════════════════════════════════════════
+
+function cellKey(col: number, row: number): string {
+  return `${col}_${row}`;
+}
+
+export function buildCensusBlockIndex(
+  blocks: CensusBlock[],
+  cellDegrees: number = DEFAULT_CELL_DEGREES,
+): CensusBlockIndex {
+  const cells = new Map<string, number[]>();
+  blocks.forEach((block, i) => {
+    const minCol = Math.floor(block.bbox.minLon / cellDegrees);
+    const maxCol = Math.floor(block.bbox.maxLon / cellDegrees);
+    const minRow = Math.floor(block.bbox.minLat / cellDegrees);
+    const maxRow = Math.floor(block.bbox.maxLat / cellDegrees);
+    for (let col = minCol; col <= maxCol; col++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        const key = cellKey(col, row);
+        const bucket = cells.get(key);
+        if (bucket) bucket.push(i);
+        else cells.set(key, [i]);
+      }
+    }
+  });
+  return { cellDegrees, blocks, cells };
+}
+
+/**
+ * The block containing [lon, lat], or null if no indexed block does.
+ */
+export function findBlockForPoint(index: CensusBlockIndex, lon: number, lat: number): CensusBlock | null {
+  const key = cellKey(Math.floor(lon / index.cellDegrees), Math.floor(lat / index.cellDegrees));
+  for (const i of index.cells.get(key) ?? []) {
+    const block = index.blocks[i];
+    const { bbox } = block;
+    if (lon < bbox.minLon || lon > bbox.maxLon || lat < bbox.minLat || lat > bbox.maxLat) continue;
+    if (pointInPolygon([lon, lat], block.polygon)) return block;
+  }
+  return null;
+}
+
+// ═══════════════════════════════════════════════════════════
+// Generalization
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * The smallest area around a block — the block itself, its block group or
+ * its tract — that holds at least `minBlocks` blocks of the index, so an
+ * endpoint can't be narrowed to fewer than that many. Falls back to the
+ * tract if even that is smaller.
+ */
+export function generalizeBlock(index: CensusBlockIndex, block: CensusBlock, minBlocks: number): EndpointArea {
+  let area: EndpointArea = { geoid: block.geoid, polygons: [block.polygon] };
+  for (const length of AREA_GEOID_LENGTHS) {
+    if (block.geoid.length < length) continue;
+    const prefix = block.geoid.slice(0, length);
+    const members = index.blocks.filter((candidate) => candidate.geoid.startsWith(prefix));
+    area = { geoid: prefix, polygons: members.map((member) => member.polygon) };
+    if (new Set(members.map((member) => member.geoid)).size >= minBlocks) break;
+  }
+  return area;
+}
@@ -0,0 +1,209 @@
+// ═══════════════════════════════════════════════════════════
+// CLEAN GPS TRACK
+// ═══════════════════════════════════════════════════════════
+// Track-filtering pipeline run by TripService.endTrip before distance
+// calculation and polyline encoding. Each stage is a TrackFilter; the
+// pipeline is an ordered list so stages can be added, removed or tuned.
+//
+// Coordinates throughout are [longitude, latitude] (GeoJSON order) and
+// times are seconds since trip start (matching relativeTimes).
+
+import { haversineDistance } from './geoDistance';
+
+export interface TrackPoint {
+  lon: number;
+  lat: number;
+  /** Seconds since trip start. */
+  t: number;
+  /** Horizontal accuracy radius in metres, or null if the device didn't report one. */
+  accuracy: number | null;
+}
+
+export interface TrackFilter {
+  /** Stable identifier used in removal stats and logs. */
+  name: string;
+  apply(points: TrackPoint[]): TrackPoint[];
+}
+
+export interface TrackCleaningResult {
+  points: TrackPoint[];
+  rawPointCount: number;
+  cleanedPointCount: number;
+  /** Points removed per filter (negative if a filter added points). */
+  removedByFilter: Record<string, number>;
+}
+
+// ═══════════════════════════════════════════════════════════
+// Filters
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Drop fixes whose reported accuracy radius exceeds `maxAccuracyM`.
+ * Points without an accuracy value are kept.
+ */
+export function accuracyFilter(maxAccuracyM: number = 30): TrackFilter {
+  return {
+    name: 'accuracy',
+    apply: (points) =>
+      points.filter((p) => p.accuracy === null || p.accuracy <= maxAccuracyM),
+  };
+}
+
+/**
+ * Reject points that imply an impossible speed from the last kept point.
+ * After `maxConsecutiveRejects` rejections in a row the next point is accepted
+ * anyway — a sustained jump is more likely a real gap (tunnel, signal loss)
+ * than a string of outliers.
+ */
+export function speedOutlierFilter(
+  maxSpeedMps: number = 8,
+  maxConsecutiveRejects: number = 3,
+): TrackFilter {
+  return {
+    name: 'speed',
+    apply: (points) => {
+      if (points.length < 2) return points;
+
+      const kept: TrackPoint[] = [points[0]];
+      let rejects = 0;
+
+      for (let i = 1; i < points.length; i++) {
+        const prev = kept[kept.length - 1];
+        const p = points[i];
+        const dt = p.t - prev.t;
+        const dist = haversineDistance(prev.lat, prev.lon, p.lat, p.lon);
+        // Same-second fixes can't yield a speed; allow them if they barely moved
+        const speed = dt > 0 ? dist / dt : dist > maxSpeedMps ? Infinity : 0;
+
+        if (speed <= maxSpeedMps || rejects >= maxConsecutiveRejects) {
+          kept.push(p);
+          rejects = 0;
+        } else {
+          rejects++;
+        }
+      }
+
+      return kept;
+    },
+  };
+}
+
+/**
+ * Collapse runs of points that stay within `radiusM` of the run's first point
+ * (a stop) into the run's centroid, emitted at the run's first and last time
+ * so dwell time is preserved in relativeTimes without adding jitter distance.
+ */
+export function stopJitterFilter(radiusM: number = 8): TrackFilter {
+  return {
+    name: 'stopJitter',
+    apply: (points) => {
+      const out: TrackPoint[] = [];
+      let i = 0;
+
+      while (i < points.length) {
+        const anchor = points[i];
+        let j = i + 1;
+        while (j < points.length && haversineDistance(anchor.lat, anchor.lon, points[j].lat, points[j].lon) <= radiusM) {
+          j++;
+        }
+
+        const run = points.slice(i, j);
+        if (run.length <= 2) {
+          out.push(...run);
+        } else {
+          const lon = run.reduce((s, p) => s + p.lon, 0) / run.length;
+          const lat = run.reduce((s, p) => s + p.lat, 0) / run.length;
+          const first = run[0];
+          const last = run[run.length - 1];
+          out.push({ lon, lat, t: first.t, accuracy: first.accuracy });
+          out.push({ lon, lat, t: last.t, accuracy: last.accuracy });
+        }
+        i = j;
+      }
+
+      return out;
+    },
+  };
+}
+
+/**
+ * Constant-position Kalman smoother. Uncertainty grows by `processNoiseMps`
+ * per second between fixes; each fix is weighted by its reported accuracy
+ * (`defaultAccuracyM` when missing).
+ */
+export function kalmanSmoother(
+  processNoiseMps: number = 3,
+  defaultAccuracyM: number = 15,
+): TrackFilter {
+  return {
+    name: 'kalman',
+    apply: (points) => {
+      if (points.length === 0) return points;
+
+      let lat = points[0].lat;
+      let lon = points[0].lon;
+      let variance = Math.pow(points[0].accuracy ?? defaultAccuracyM, 2);
+      let lastT = points[0].t;
+      const out: TrackPoint[] = [{ ...points[0] }];
+
+      for (let i = 1; i < points.length; i++) {
+        const p = points[i];
+        const accuracy = Math.max(p.accuracy ?? defaultAccuracyM, 1);
+        const dt = Math.max(p.t - lastT, 0);
+
+        variance += dt * processNoiseMps * processNoiseMps;
+        const gain = variance / (variance + accuracy * accuracy);
+        lat += gain * (p.lat - lat);
+        lon += gain * (p.lon - lon);
+        variance = (1 - gain) * variance;
+        lastT = p.t;
+
+        out.push({ lon, lat, t: p.t, accuracy: Math.sqrt(variance) });
+      }
+
+      return out;
+    },
+  };
+}
+
+/** Default pipeline. Kalman smoothing is opt-in. */
+export const DEFAULT_TRACK_FILTERS: TrackFilter[] = [
+  accuracyFilter(),
+  speedOutlierFilter(),
+  stopJitterFilter(),
+];
+
+// ═══════════════════════════════════════════════════════════
+// Pipeline
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Run `points` through each filter in order. A filter that would leave fewer
+ * than 2 points (from an input of 2 or more) is skipped so a noisy trip is
+ * never cleaned away entirely.
+ */
+export function cleanTrack(
+  points: TrackPoint[],
+  filters: TrackFilter[] = DEFAULT_TRACK_FILTERS,
+): TrackCleaningResult {
+  const removedByFilter: Record<string, number> = {};
+  let current = points;
+
+  for (const filter of filters) {
+    const next = filter.apply(current);
+    if (next.length < 2 && current.length >= 2) {
+      console.warn(`[cleanGPSTrack] Skipping ${filter.name} filter (would leave ${next.length} point(s))`);
+      removedByFilter[filter.name] = 0;
+      continue;
+    }
+    removedByFilter[filter.name] = current.length - next.length;
+    current = next;
+  }
+
+  return {
+    points: current,
+    rawPointCount: points.length,
+    cleanedPointCount: current.length,
+    removedByFilter,
+  };
+}
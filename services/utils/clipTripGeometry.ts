@@ -33,38 +33,50 @@ export function pointInPolygon(point: [number, number], polygon: GeoJSON.Polygon
 export interface ClipResult {
   /** Clipped coordinates in [lon, lat] order. Empty if fewer than 2 points remain. */
   coordinates: [number, number][];
-  /** Number of points trimmed from the start (inside origin block). */
+  /** Number of points trimmed from the start (up to the last one inside the origin block). */
   trimmedFromStart: number;
-  /** Number of points trimmed from the end (inside destination block). */
+  /** Number of points trimmed from the end (from the first one inside the destination block). */
   trimmedFromEnd: number;
 }
 
+function pointInAny(point: [number, number], polygons: GeoJSON.Polygon | GeoJSON.Polygon[]): boolean {
+  return Array.isArray(polygons)
+    ? polygons.some((polygon) => pointInPolygon(point, polygon))
+    : pointInPolygon(point, polygons);
+}
+
 /**
- * Walk inward from both ends of the route, dropping points that fall inside
- * the origin block (from the start) or the destination block (from the end).
- * Stops at the first point that is outside the respective block.
+ * Keep the run of the route between its last point inside the origin block
+ * and its first point, after that, inside the destination block. Either may
+ * also be an area of several blocks. A route that loops back into an area
+ * loses everything up to (or from) the loop, so no kept point is inside
+ * either block; a single line can't skip a run in the middle.
  *
  * If the remaining segment has fewer than 2 points (e.g. a very short trip
  * entirely within one block), returns an empty coordinates array — the caller
- * should treat this as an unclippable trip and upload the original geometry.
+ * should treat this as a trip whose endpoints can't be hidden and keep it
+ * off the server.
  *
  * @param coords  Full route in [lon, lat] order.
- * @param originBlock  GeoJSON Polygon of the origin census block.
- * @param destBlock    GeoJSON Polygon of the destination census block.
+ * @param originBlock  GeoJSON Polygon(s) of the origin census block or area.
+ * @param destBlock    GeoJSON Polygon(s) of the destination census block or area.
  */
 export function clipTripToBlocks(
   coords: [number, number][],
-  originBlock: GeoJSON.Polygon,
-  destBlock: GeoJSON.Polygon,
+  originBlock: GeoJSON.Polygon | GeoJSON.Polygon[],
+  destBlock: GeoJSON.Polygon | GeoJSON.Polygon[],
 ): ClipResult {
   let start = 0;
-  while (start < coords.length && pointInPolygon(coords[start], originBlock)) {
-    start++;
+  for (let i = 0; i < coords.length; i++) {
+    if (pointInAny(coords[i], originBlock)) start = i + 1;
   }
 
   let end = coords.length - 1;
-  while (end >= start && pointInPolygon(coords[end], destBlock)) {
-    end--;
+  for (let i = start; i < coords.length; i++) {
+    if (pointInAny(coords[i], destBlock)) {
+      end = i - 1;
+      break;
+    }
   }
 
   const trimmedFromStart = start;
@@ -0,0 +1,127 @@
+// ═══════════════════════════════════════════════════════════
+// DOWNLOAD PROGRESS
+// ═══════════════════════════════════════════════════════════
+// Bookkeeping for resumable region pack downloads. RegionPackService
+// saves how far each parquet download got, with the ETag and size the
+// server reported, after every Range request. A later attempt — on the
+// next launch or when connectivity returns — continues from that offset
+// if the server still has the same file, and starts over otherwise.
+//
+// Downloads pause between requests when the device is offline, or, if
+// the user asked for it, on cellular data or low battery.
+
+import type { RegionPack } from '@/adapters/DatabaseAdapter';
+
+// --- Types ---
+
+export type DownloadPauseReason = 'offline' | 'cellular' | 'low_battery';
+
+export interface DownloadPolicy {
+  pauseOnCellular: boolean;
+  pauseOnLowBattery: boolean;
+}
+
+/** Device state the policy is checked against. */
+export interface DownloadConditions {
+  isConnected: boolean;
+  isCellular: boolean;
+  batteryLevel: number; // 0–1, or -1 if unknown
+  isCharging: boolean;
+  lowPowerMode: boolean;
+}
+
+/** A parquet download saved part way through. */
+export interface PartialDownload {
+  pack: RegionPack; // Catalog entry being downloaded
+  etag: string | null;
+  totalBytes: number;
+  bytesWritten: number;
+}
+
+export interface DownloadProgress {
+  packId: string;
+  packName: string;
+  status: 'downloading' | 'paused' | 'verifying';
+  pauseReason: DownloadPauseReason | null; // Null while paused until the next attempt
+  bytesWritten: number;
+  totalBytes: number;
+  bytesPerSecond: number | null; // Null until the first request completes
+  secondsRemaining: number | null;
+}
+
+/** Thrown between Range requests when the policy pauses a download. */
+export class DownloadPausedError extends Error {
+  constructor(public readonly reason: DownloadPauseReason) {
+    super(`Download paused: ${reason.replace('_', ' ')}`);
+    this.name = 'DownloadPausedError';
+  }
+}
+
+// --- Constants ---
+
+export const DEFAULT_DOWNLOAD_POLICY: DownloadPolicy = {
+  pauseOnCellular: false,
+  pauseOnLowBattery: true,
+};
+
+/** Below this charge, unplugged, counts as low battery. */
+export const LOW_BATTERY_LEVEL = 0.2;
+
+// Weight of the latest request in the transfer rate
+const RATE_SMOOTHING = 0.3;
+
+// ═══════════════════════════════════════════════════════════
+// Policy
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Why a download should wait, or null if it can run now.
+ */
+export function getDownloadPauseReason(conditions: DownloadConditions, policy: DownloadPolicy): DownloadPauseReason | null {
+  if (!conditions.isConnected) return 'offline';
+  if (policy.pauseOnCellular && conditions.isCellular) return 'cellular';
+  if (policy.pauseOnLowBattery) {
+    const low = conditions.batteryLevel >= 0 && conditions.batteryLevel < LOW_BATTERY_LEVEL && !conditions.isCharging;
+    if (low || conditions.lowPowerMode) return 'low_battery';
+  }
+  return null;
+}
+
+// ═══════════════════════════════════════════════════════════
+// Resuming
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Whether a saved download is of the file the server has now. The size
+ * and the catalog build must match, and the ETag too when either side
+ * has one; the checksum after download catches anything else.
+ */
+export function canResumeDownload(
+  saved: PartialDownload,
+  pack: RegionPack,
+  remote: { etag: string | null; totalBytes: number }
+): boolean {
+  if (saved.pack.id !== pack.id || saved.pack.lastUpdated !== pack.lastUpdated) return false;
+  if (saved.totalBytes !== remote.totalBytes || saved.bytesWritten > saved.totalBytes) return false;
+  if ((saved.etag ?? remote.etag) !== null && saved.etag !== remote.etag) return false;
+  return saved.bytesWritten > 0;
+}
+
+// ═══════════════════════════════════════════════════════════
+// Rate
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Transfer rate after a request of `bytes` took `elapsedMs`, smoothed so
+ * the time remaining doesn't jump with every request.
+ */
+export function nextTransferRate(previous: number | null, bytes: number, elapsedMs: number): number | null {
+  if (elapsedMs <= 0) return previous;
+  const rate = (bytes * 1000) / elapsedMs;
+  return previous === null ? rate : previous + RATE_SMOOTHING * (rate - previous);
+}
+
+export function estimateSecondsRemaining(remainingBytes: number, bytesPerSecond: number | null): number | null {
+  if (!bytesPerSecond || bytesPerSecond <= 0) return null;
+  return Math.ceil(Math.max(0, remainingBytes) / bytesPerSecond);
+}
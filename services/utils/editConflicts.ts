@@ -0,0 +1,323 @@
+// ═══════════════════════════════════════════════════════════
+// EDIT CONFLICTS
+// ═══════════════════════════════════════════════════════════
+// Helpers for the conflict inbox: edits the server pipeline rejected or
+// flagged as conflicting, which the user can re-apply, amend or withdraw.
+//
+// Re-applying rebases a geometry edit on the network as it is now: the
+// parts of its payload that describe the old geometry (the node's old
+// position, the segments attached to it, where a split falls on the
+// line) are read again from the loaded segments. An edit whose target
+// no longer exists can't be re-applied, only amended or withdrawn.
+//
+// Payloads arrive either in the typed shapes from types/NetworkSegment
+// or as raw @proximity/shared changesets (snake_case); both are read and
+// each is written back in the shape it came in.
+//
+// Coordinates throughout are [longitude, latitude] (GeoJSON order).
+
+import type { FeatureEdit } from '@/adapters/DatabaseAdapter';
+import type {
+  GeometryEditPayload,
+  GeometryEditPayloadData,
+  GeometryEditRecord,
+  GeometryEditType,
+  NetworkSegment,
+} from '@/services/types/NetworkSegment';
+
+// --- Types ---
+
+interface ConflictBase {
+  status: 'rejected' | 'conflict';
+  reason: string | null; // From the pipeline, if it gave one
+  detectedAt: string;
+}
+
+export type EditConflict =
+  | (ConflictBase & { source: 'geometry_edit'; edit: GeometryEditRecord })
+  | (ConflictBase & { source: 'feature_edit'; edit: FeatureEdit & { id: string } });
+
+export type ConflictResolution = 'reapply' | 'amend' | 'withdraw';
+
+/** What the edit proposed, for drawing next to the current network. */
+export interface ProposedGeometry {
+  points: [number, number][];
+  lines: [number, number][][];
+}
+
+type Coord = [number, number];
+
+// --- Constants ---
+
+const EDIT_TYPE_LABELS: Record<GeometryEditType, string> = {
+  move_endpoint: 'Moved node',
+  add_node: 'New point feature',
+  toggle_curb_ramp: 'Curb ramp change',
+  split_segment: 'Split segment',
+  merge_segments: 'Merged segments',
+  draw_crosswalk: 'New crosswalk',
+  draw_segment: 'New segment',
+  delete_point: 'Deleted point',
+  delete_hull: 'Deleted area',
+  edit_hull: 'Edited area',
+};
+
+const FEATURE_EDIT_LABELS: Record<FeatureEdit['editType'], string> = {
+  rating: 'Rating',
+  attribute_correction: 'Attribute correction',
+  geometry_correction: 'Geometry correction',
+};
+
+/** Geometry edits whose main point the user can move when amending. */
+const AMENDABLE_EDIT_TYPES: GeometryEditType[] = ['move_endpoint', 'add_node', 'split_segment', 'toggle_curb_ramp'];
+
+// ═══════════════════════════════════════════════════════════
+// Inbox
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Add newly reported conflicts to the inbox. A conflict already in the
+ * inbox is updated in place (its status or reason may have changed).
+ */
+export function mergeConflicts(inbox: EditConflict[], incoming: EditConflict[]): EditConflict[] {
+  const byId = new Map(incoming.map((c) => [c.edit.id, c]));
+  const updated = inbox.map((c) => {
+    const next = byId.get(c.edit.id);
+    return next ? { ...next, detectedAt: c.detectedAt } : c;
+  });
+  const known = new Set(inbox.map((c) => c.edit.id));
+  return [...updated, ...incoming.filter((c) => !known.has(c.edit.id))];
+}
+
+export function getConflictTitle(conflict: EditConflict): string {
+  return conflict.source === 'geometry_edit'
+    ? EDIT_TYPE_LABELS[conflict.edit.editType] ?? conflict.edit.editType
+    : FEATURE_EDIT_LABELS[conflict.edit.editType] ?? conflict.edit.editType;
+}
+
+/**
+ * Why the edit didn't go through, in words for the user.
+ */
+export function explainConflict(conflict: EditConflict): string {
+  if (conflict.reason) return conflict.reason;
+  return conflict.status === 'conflict'
+    ? 'The network changed here after you made this edit, so it no longer applies cleanly.'
+    : 'This edit was reviewed and not accepted.';
+}
+
+export function canAmend(conflict: EditConflict): boolean {
+  return conflict.source === 'geometry_edit' && AMENDABLE_EDIT_TYPES.includes(conflict.edit.editType);
+}
+
+/**
+ * Segments the edit refers to, so their current state can be shown.
+ */
+export function getConflictStreetGridIds(conflict: EditConflict): string[] {
+  if (conflict.source === 'feature_edit') return [conflict.edit.streetGridId];
+
+  const { edit } = conflict;
+  const payload = read(edit.payload);
+  const ids = [
+    edit.streetGridId,
+    payload.streetGridId,
+    ...(payload.segmentIds ?? []),
+    payload.surviving_seg_id,
+    payload.consumed_seg_id,
+    ...(payload.rubberBandSegments ?? payload.rubber_band_segments ?? []),
+    payload.ramp_a?.segment_id,
+    payload.ramp_b?.segment_id,
+  ];
+  return [...new Set(ids.filter((id): id is string => typeof id === 'string' && id.length > 0))];
+}
+
+export function getProposedGeometry(conflict: EditConflict): ProposedGeometry {
+  if (conflict.source === 'feature_edit') {
+    const { geometry, coord } = conflict.edit;
+    if (geometry?.type === 'LineString') return { points: [], lines: [geometry.coordinates as Coord[]] };
+    if (geometry?.type === 'Point') return { points: [geometry.coordinates as Coord], lines: [] };
+    return { points: [coord], lines: [] };
+  }
+
+  const { edit } = conflict;
+  const payload = read(edit.payload);
+  switch (edit.editType) {
+    case 'draw_segment':
+    case 'draw_crosswalk': {
+      const line: Coord[] | undefined = payload.geometry?.coordinates ?? payload.coordinates;
+      if (line && line.length >= 2) return { points: [], lines: [line] };
+      break;
+    }
+    case 'edit_hull': {
+      const ring: Coord[] | undefined = payload.geometry?.coordinates?.[0];
+      if (ring && ring.length >= 2) return { points: [], lines: [ring] };
+      break;
+    }
+  }
+
+  const point = getMainPoint(edit) ?? edit.coord;
+  return { points: isPlaceholderCoord(point) ? [] : [point], lines: [] };
+}
+
+// ═══════════════════════════════════════════════════════════
+// Re-apply and amend
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Rebase a geometry edit on the current network.
+ *
+ * @returns The edit to submit again, or null if what it targets is gone
+ */
+export function rebaseGeometryEdit(edit: GeometryEditPayload, segments: NetworkSegment[]): GeometryEditPayload | null {
+  const byId = new Map(segments.map((s) => [s.streetGridId, s]));
+  const payload = read(edit.payload);
+
+  switch (edit.editType) {
+    case 'move_endpoint': {
+      const nodeId = payload.nodeId ?? payload.node_id;
+      const attached = segments.filter((s) => String(s.startNodeId) === String(nodeId) || String(s.endNodeId) === String(nodeId));
+      if (attached.length === 0) return null;
+
+      const ids = attached.map((s) => s.streetGridId);
+      if ('rubber_band_segments' in payload) {
+        return withPayload(edit, { ...payload, rubber_band_segments: ids }, ids[0]);
+      }
+      const first = attached[0];
+      const coords = first.street.geometry.coordinates;
+      const current = (String(first.startNodeId) === String(nodeId) ? coords[0] : coords[coords.length - 1]) as Coord;
+      return withPayload(edit, { ...payload, oldCoord: [current[0], current[1]], rubberBandSegments: ids }, ids[0]);
+    }
+
+    case 'split_segment': {
+      const segment = byId.get(payload.streetGridId ?? edit.streetGridId);
+      if (!segment || !payload.splitPoint) return null;
+      const splitPoint = nearestPointOnLine(segment.street.geometry.coordinates as Coord[], payload.splitPoint);
+      return withPayload(edit, { ...payload, splitPoint }, segment.streetGridId, splitPoint);
+    }
+
+    case 'merge_segments': {
+      const ids: string[] = payload.segmentIds ?? [payload.surviving_seg_id, payload.consumed_seg_id];
+      return ids.every((id) => byId.has(id)) ? edit : null;
+    }
+
+    case 'toggle_curb_ramp': {
+      const segment = byId.get(payload.streetGridId);
+      const sidewalk = payload.side === 'left' ? segment?.sidewalkLeft : segment?.sidewalkRight;
+      return sidewalk ? edit : null;
+    }
+
+    case 'draw_crosswalk': {
+      const rampIds = [payload.fromRampId, payload.toRampId].filter((id) => id !== undefined);
+      if (rampIds.length > 0) {
+        const ramps = new Set(segments.flatMap((s) => [
+          ...(s.sidewalkLeft?.curbRamps ?? []),
+          ...(s.sidewalkRight?.curbRamps ?? []),
+        ].map((r) => r.id)));
+        return rampIds.every((id) => ramps.has(id)) ? edit : null;
+      }
+      return [payload.ramp_a?.segment_id, payload.ramp_b?.segment_id].every((id) => byId.has(id)) ? edit : null;
+    }
+
+    default:
+      // Draws and point edits carry absolute geometry; nothing to rebase
+      return edit;
+  }
+}
+
+/**
+ * Move the edit's main point (the moved node, new feature, split point
+ * or ramp position) to `coord`.
+ *
+ * @returns The amended edit, or null if this edit type can't be amended
+ */
+export function amendGeometryEdit(edit: GeometryEditPayload, coord: [number, number]): GeometryEditPayload | null {
+  const payload = read(edit.payload);
+
+  switch (edit.editType) {
+    case 'move_endpoint':
+      return 'new_x' in payload
+        ? withPayload(edit, { ...payload, new_x: coord[0], new_y: coord[1] }, edit.streetGridId, coord)
+        : withPayload(edit, { ...payload, newCoord: coord }, edit.streetGridId, coord);
+
+    case 'add_node':
+      return 'x' in payload
+        ? withPayload(edit, { ...payload, x: coord[0], y: coord[1] }, edit.streetGridId, coord)
+        : withPayload(edit, { ...payload, coord }, edit.streetGridId, coord);
+
+    case 'split_segment':
+      return withPayload(edit, { ...payload, splitPoint: coord }, edit.streetGridId, coord);
+
+    case 'toggle_curb_ramp':
+      return withPayload(edit, { ...payload, coord }, edit.streetGridId, coord);
+
+    default:
+      return null;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════
+
+function read(payload: GeometryEditPayloadData): Record<string, any> {
+  return payload as unknown as Record<string, any>;
+}
+
+function withPayload(
+  edit: GeometryEditPayload,
+  payload: Record<string, unknown>,
+  streetGridId: string | undefined,
+  coord: Coord = edit.coord,
+): GeometryEditPayload {
+  return { ...edit, streetGridId, payload: payload as unknown as GeometryEditPayloadData, coord };
+}
+
+function getMainPoint(edit: GeometryEditPayload): Coord | null {
+  const payload = read(edit.payload);
+  switch (edit.editType) {
+    case 'move_endpoint':
+      return payload.newCoord ?? (payload.new_x !== undefined ? [payload.new_x, payload.new_y] : null);
+    case 'add_node':
+    case 'delete_point':
+      return payload.coord ?? (payload.x !== undefined ? [payload.x, payload.y] : null);
+    case 'split_segment':
+      return payload.splitPoint ?? null;
+    case 'toggle_curb_ramp':
+      return payload.coord ?? null;
+    default:
+      return null;
+  }
+}
+
+/** Edits without a location are stored at [0, 0]. */
+function isPlaceholderCoord(coord: Coord): boolean {
+  return coord[0] === 0 && coord[1] === 0;
+}
+
+/**
+ * Closest point on a polyline. Longitude is scaled by cos(latitude) so
+ * the projection is close to metric over a street's length.
+ */
+function nearestPointOnLine(coords: Coord[], target: Coord): Coord {
+  const kx = Math.cos((target[1] * Math.PI) / 180);
+  let best = { coord: coords[0], distSq: Infinity };
+
+  for (let i = 0; i < coords.length - 1; i++) {
+    const [ax, ay] = coords[i];
+    const [bx, by] = coords[i + 1];
+    const dx = (bx - ax) * kx;
+    const dy = by - ay;
+    const lenSq = dx * dx + dy * dy;
+    const t = lenSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, (((target[0] - ax) * kx) * dx + (target[1] - ay) * dy) / lenSq));
+    const coord: Coord = [ax + (bx - ax) * t, ay + (by - ay) * t];
+    const ex = (coord[0] - target[0]) * kx;
+    const ey = coord[1] - target[1];
+    const distSq = ex * ex + ey * ey;
+    if (distSq < best.distSq) {
+      best = { coord, distSq };
+    }
+  }
+
+  return best.coord;
+}
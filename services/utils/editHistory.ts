@@ -0,0 +1,87 @@
+// ═══════════════════════════════════════════════════════════
+// EDIT HISTORY
+// ═══════════════════════════════════════════════════════════
+// Undo/redo stacks for a DataRanger editing session. Commands are opaque
+// here; DataRangerService decides how to revert and re-apply them.
+//
+// Undoing and redoing are two-step so a command only moves between the
+// stacks once the caller has actually reverted (or re-applied) it:
+// peekUndo() → revert → commitUndo(). Re-applying an edit gives it new
+// IDs, so commitRedo() takes the updated command.
+
+// --- Types ---
+
+export interface EditHistorySnapshot<T> {
+  done: T[]; // Oldest first; the last entry is undone next
+  undone: T[]; // Oldest first; the last entry is redone next
+}
+
+// --- Constants ---
+
+export const MAX_EDIT_HISTORY = 50;
+
+// ═══════════════════════════════════════════════════════════
+// History
+// ═══════════════════════════════════════════════════════════
+
+export class EditHistory<T> {
+  private done: T[];
+  private undone: T[];
+
+  constructor(snapshot: EditHistorySnapshot<T> = { done: [], undone: [] }, private readonly limit: number = MAX_EDIT_HISTORY) {
+    this.done = [...snapshot.done];
+    this.undone = [...snapshot.undone];
+  }
+
+  /**
+   * Record a new command. Clears the redo stack; the oldest command is
+   * forgotten once the history is full.
+   */
+  record(command: T): void {
+    this.done.push(command);
+    this.undone = [];
+    if (this.done.length > this.limit) {
+      this.done.splice(0, this.done.length - this.limit);
+    }
+  }
+
+  peekUndo(): T | null {
+    return this.done[this.done.length - 1] ?? null;
+  }
+
+  peekRedo(): T | null {
+    return this.undone[this.undone.length - 1] ?? null;
+  }
+
+  /** Move the last command to the redo stack after it has been reverted. */
+  commitUndo(): void {
+    const command = this.done.pop();
+    if (command !== undefined) {
+      this.undone.push(command);
+    }
+  }
+
+  /** Move the next redo command back, replaced by its re-applied form. */
+  commitRedo(reapplied: T): void {
+    if (this.undone.pop() !== undefined) {
+      this.done.push(reapplied);
+    }
+  }
+
+  /** Commands still in effect, oldest first. */
+  getDone(): T[] {
+    return [...this.done];
+  }
+
+  canUndo(): boolean {
+    return this.done.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.undone.length > 0;
+  }
+
+  toJSON(): EditHistorySnapshot<T> {
+    return { done: [...this.done], undone: [...this.undone] };
+  }
+}
@@ -0,0 +1,412 @@
+// ═══════════════════════════════════════════════════════════
+// EDIT OVERLAY
+// ═══════════════════════════════════════════════════════════
+// Replays a user's pending edits on top of the segments loaded from the
+// Proximity parquet, so their work stays on the map until the server
+// pipeline folds it into a new parquet.
+//
+// Edits are replayed oldest first and never mutate the base segments:
+// every touched segment is copied, so the overlay can be rebuilt from
+// scratch whenever edits are added or dropped. An edit whose target
+// segment isn't loaded is skipped; it applies once that cell loads.
+//
+// Reflected locally:
+// - attribute edits (SegmentEdit)
+// - move_endpoint, split_segment, merge_segments, draw_segment
+// - toggle_curb_ramp
+// Other geometry edits (add_node, draw_crosswalk, hull edits) have no
+// NetworkSegment representation and are previewed as markers only.
+//
+// Coordinates throughout are [longitude, latitude] (GeoJSON order).
+
+import type { LineString, Point } from 'geojson';
+
+import type {
+  CurbRampSlot,
+  DrawSegmentPayload,
+  FacilityType,
+  GeometryEditRecord,
+  MergeSegmentsPayload,
+  MoveEndpointPayload,
+  NetworkSegment,
+  SegmentEdit,
+  SplitSegmentPayload,
+  ToggleRampPayload,
+} from '@/services/types/NetworkSegment';
+
+// --- Constants ---
+
+/** Segment field holding each editable facility. */
+const FACILITY_KEYS: Record<Exclude<FacilityType, 'curb_ramp'>, keyof NetworkSegment> = {
+  street: 'street',
+  sidewalk_left: 'sidewalkLeft',
+  sidewalk_right: 'sidewalkRight',
+  crosswalk_start: 'crosswalkStart',
+  crosswalk_end: 'crosswalkEnd',
+  bikeway_left_1: 'bikewayLeft1',
+  bikeway_left_2: 'bikewayLeft2',
+  bikeway_right_1: 'bikewayRight1',
+  bikeway_right_2: 'bikewayRight2',
+};
+
+const NUMERIC_FIELDS = ['width', 'incline', 'lanes', 'laneWidth'];
+
+/** Endpoints closer than this (degrees, ~1 m) are the same node. */
+const ENDPOINT_TOLERANCE = 0.00001;
+
+/** Prefix for segments that only exist locally (split halves, drawn segments). */
+export const LOCAL_SEGMENT_PREFIX = 'local_';
+
+type Coord = [number, number];
+
+// ═══════════════════════════════════════════════════════════
+// Overlay
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Merge pending edits into the loaded segments.
+ *
+ * @param base - Segments as loaded from the parquet (not modified)
+ * @param segmentEdits - Pending attribute edits
+ * @param geometryEdits - Pending geometry edits
+ * @returns The merged view: base segments with edits applied, in base order,
+ *          followed by segments created by edits
+ */
+export function applyEditOverlay(
+  base: NetworkSegment[],
+  segmentEdits: SegmentEdit[],
+  geometryEdits: GeometryEditRecord[],
+): NetworkSegment[] {
+  if (segmentEdits.length === 0 && geometryEdits.length === 0) return base;
+
+  const segments = new Map(base.map((s) => [s.streetGridId, s]));
+
+  // Nodes created locally get negative IDs
+  let lastNodeId = 0;
+  const nextNodeId = () => --lastNodeId;
+
+  const timeline = [
+    ...segmentEdits.map((edit) => ({ at: edit.createdAt ?? '', apply: () => applyAttributeEdit(segments, edit) })),
+    ...geometryEdits.map((edit) => ({ at: edit.createdAt, apply: () => applyGeometryEdit(segments, edit, nextNodeId) })),
+  ];
+  // Stable sort keeps submission order for edits with the same timestamp
+  timeline.sort((a, b) => (a.at < b.at ? -1 : a.at > b.at ? 1 : 0));
+  for (const step of timeline) {
+    step.apply();
+  }
+
+  return [...segments.values()];
+}
+
+/**
+ * Whether a parquet build already contains an attribute edit, so the
+ * overlay can drop it. Only edits the outbox delivered before the build
+ * qualify; one still queued (or failing) isn't on the server yet, however
+ * long ago it was made.
+ *
+ * @param edit - Pending attribute edit
+ * @param queuedIds - IDs of the writes still in the outbox
+ * @param builtAt - Build time of the new parquet (ms since epoch)
+ */
+export function isSegmentEditInBuild(edit: SegmentEdit, queuedIds: Set<string>, builtAt: number): boolean {
+  if (!edit.id || queuedIds.has(edit.id) || !edit.sentAt) return false;
+  return new Date(edit.sentAt).getTime() <= builtAt;
+}
+
+// ═══════════════════════════════════════════════════════════
+// Attribute edits
+// ═══════════════════════════════════════════════════════════
+
+function applyAttributeEdit(segments: Map<string, NetworkSegment>, edit: SegmentEdit): void {
+  const segment = segments.get(edit.streetGridId);
+  if (!segment || edit.facilityType === 'curb_ramp') return;
+
+  const key = FACILITY_KEYS[edit.facilityType];
+  const facility = segment[key] as Record<string, unknown> | null;
+  if (!facility || !(edit.fieldName in facility)) return;
+
+  const value = NUMERIC_FIELDS.includes(edit.fieldName) ? parseFloat(edit.newValue) : edit.newValue;
+  segments.set(segment.streetGridId, { ...segment, [key]: { ...facility, [edit.fieldName]: value } });
+}
+
+// ═══════════════════════════════════════════════════════════
+// Geometry edits
+// ═══════════════════════════════════════════════════════════
+
+function applyGeometryEdit(
+  segments: Map<string, NetworkSegment>,
+  edit: GeometryEditRecord,
+  nextNodeId: () => number,
+): void {
+  switch (edit.editType) {
+    case 'move_endpoint':
+      moveEndpoint(segments, edit.payload as MoveEndpointPayload);
+      break;
+    case 'split_segment':
+      splitSegment(segments, edit.payload as SplitSegmentPayload, edit.id, nextNodeId);
+      break;
+    case 'merge_segments':
+      mergeSegments(segments, edit.payload as MergeSegmentsPayload);
+      break;
+    case 'draw_segment':
+      drawSegment(segments, edit.payload as DrawSegmentPayload, edit.id, nextNodeId);
+      break;
+    case 'toggle_curb_ramp':
+      toggleCurbRamp(segments, edit.payload as ToggleRampPayload, edit.id);
+      break;
+  }
+}
+
+function moveEndpoint(segments: Map<string, NetworkSegment>, payload: MoveEndpointPayload): void {
+  const ids = payload.rubberBandSegments.length > 0
+    ? payload.rubberBandSegments
+    : [...segments.values()]
+        .filter((s) => s.startNodeId === payload.nodeId || s.endNodeId === payload.nodeId)
+        .map((s) => s.streetGridId);
+
+  for (const id of ids) {
+    const segment = segments.get(id);
+    if (!segment) continue;
+
+    const coords = segment.street.geometry.coordinates.map((c) => [c[0], c[1]] as Coord);
+    const movesStart = segment.startNodeId === payload.nodeId || sameCoord(coords[0], payload.oldCoord);
+    const movesEnd = segment.endNodeId === payload.nodeId || sameCoord(coords[coords.length - 1], payload.oldCoord);
+    if (!movesStart && !movesEnd) continue;
+
+    if (movesStart) coords[0] = payload.newCoord;
+    if (movesEnd) coords[coords.length - 1] = payload.newCoord;
+    segments.set(id, {
+      ...segment,
+      street: { ...segment.street, geometry: lineString(coords) },
+      ...(movesStart && { startNodeGeometry: point(payload.newCoord) }),
+      ...(movesEnd && { endNodeGeometry: point(payload.newCoord) }),
+    });
+  }
+}
+
+/**
+ * Split the street centerline at the point nearest `splitPoint`. Facility
+ * attributes are copied to both halves; side geometries can't be split
+ * reliably on-device and are left off until the server rebuild.
+ */
+function splitSegment(
+  segments: Map<string, NetworkSegment>,
+  payload: SplitSegmentPayload,
+  editId: string,
+  nextNodeId: () => number,
+): void {
+  const segment = segments.get(payload.streetGridId);
+  if (!segment) return;
+
+  const coords = segment.street.geometry.coordinates.map((c) => [c[0], c[1]] as Coord);
+  if (coords.length < 2) return;
+
+  const { index, coord } = nearestPointOnLine(coords, payload.splitPoint);
+  const before = coords.slice(0, index + 1);
+  const after = coords.slice(index + 1);
+  const first = sameCoord(before[before.length - 1], coord) ? before : [...before, coord];
+  const second = sameCoord(after[0], coord) ? after : [coord, ...after];
+  // Splitting at an end of the street would leave an empty half
+  if (first.length < 2 || second.length < 2) return;
+  const node = point(coord);
+  const nodeId = nextNodeId();
+
+  const half = (suffix: 'a' | 'b', line: Coord[], position: 'start' | 'end'): NetworkSegment => ({
+    ...segment,
+    streetGridId: `${LOCAL_SEGMENT_PREFIX}${editId}_${suffix}`,
+    street: { ...segment.street, geometry: lineString(line) },
+    sidewalkLeft: segment.sidewalkLeft && { ...segment.sidewalkLeft, geometry: null, curbRamps: rampsAt(segment.sidewalkLeft.curbRamps, position) },
+    sidewalkRight: segment.sidewalkRight && { ...segment.sidewalkRight, geometry: null, curbRamps: rampsAt(segment.sidewalkRight.curbRamps, position) },
+    bikewayLeft1: segment.bikewayLeft1 && { ...segment.bikewayLeft1, geometry: null },
+    bikewayLeft2: segment.bikewayLeft2 && { ...segment.bikewayLeft2, geometry: null },
+    bikewayRight1: segment.bikewayRight1 && { ...segment.bikewayRight1, geometry: null },
+    bikewayRight2: segment.bikewayRight2 && { ...segment.bikewayRight2, geometry: null },
+    ...(position === 'start'
+      ? { endNodeId: nodeId, endNodeIsIntersection: false, endNodeGeometry: node, crosswalkEnd: null }
+      : { startNodeId: nodeId, startNodeIsIntersection: false, startNodeGeometry: node, crosswalkStart: null }),
+  });
+
+  segments.delete(segment.streetGridId);
+  segments.set(`${LOCAL_SEGMENT_PREFIX}${editId}_a`, half('a', first, 'start'));
+  segments.set(`${LOCAL_SEGMENT_PREFIX}${editId}_b`, half('b', second, 'end'));
+}
+
+/**
+ * Join two segments that share an endpoint. The merged segment keeps the
+ * first segment's ID and attributes; its ends come from whichever
+ * endpoints aren't shared.
+ */
+function mergeSegments(segments: Map<string, NetworkSegment>, payload: MergeSegmentsPayload): void {
+  const [a, b] = payload.segmentIds.map((id) => segments.get(id));
+  if (!a || !b || a === b) return;
+
+  const aCoords = a.street.geometry.coordinates.map((c) => [c[0], c[1]] as Coord);
+  const bCoords = b.street.geometry.coordinates.map((c) => [c[0], c[1]] as Coord);
+  const aStart = aCoords[0];
+  const aEnd = aCoords[aCoords.length - 1];
+  const bStart = bCoords[0];
+  const bEnd = bCoords[bCoords.length - 1];
+
+  // Ends of b, oriented so `far` is the endpoint not shared with a
+  const bEnds = (reversed: boolean) => reversed
+    ? { id: b.startNodeId, isIntersection: b.startNodeIsIntersection, geometry: b.startNodeGeometry, crosswalk: b.crosswalkStart }
+    : { id: b.endNodeId, isIntersection: b.endNodeIsIntersection, geometry: b.endNodeGeometry, crosswalk: b.crosswalkEnd };
+
+  let merged: NetworkSegment;
+  if (sameCoord(aEnd, bStart) || sameCoord(aEnd, bEnd)) {
+    const reversed = !sameCoord(aEnd, bStart);
+    const tail = reversed ? [...bCoords].reverse() : bCoords;
+    const far = bEnds(reversed);
+    merged = {
+      ...a,
+      street: { ...a.street, geometry: lineString([...aCoords, ...tail.slice(1)]) },
+      endNodeId: far.id,
+      endNodeIsIntersection: far.isIntersection,
+      endNodeGeometry: far.geometry,
+      crosswalkEnd: far.crosswalk,
+    };
+  } else if (sameCoord(aStart, bEnd) || sameCoord(aStart, bStart)) {
+    const reversed = !sameCoord(aStart, bEnd);
+    const head = reversed ? [...bCoords].reverse() : bCoords;
+    // b's far end becomes the merged start; reversing swaps which end that is
+    const far = bEnds(!reversed);
+    merged = {
+      ...a,
+      street: { ...a.street, geometry: lineString([...head, ...aCoords.slice(1)]) },
+      startNodeId: far.id,
+      startNodeIsIntersection: far.isIntersection,
+      startNodeGeometry: far.geometry,
+      crosswalkStart: far.crosswalk,
+    };
+  } else {
+    return;
+  }
+
+  segments.delete(b.streetGridId);
+  segments.set(a.streetGridId, merged);
+}
+
+function drawSegment(
+  segments: Map<string, NetworkSegment>,
+  payload: DrawSegmentPayload,
+  editId: string,
+  nextNodeId: () => number,
+): void {
+  const coords = payload.geometry.coordinates;
+  if (coords.length < 2) return;
+
+  const id = `${LOCAL_SEGMENT_PREFIX}${editId}`;
+  segments.set(id, {
+    streetId: id,
+    streetGridId: id,
+    intersectionReviewFlag: false,
+    startNodeId: nextNodeId(),
+    startNodeIsIntersection: false,
+    endNodeId: nextNodeId(),
+    endNodeIsIntersection: false,
+    normalizedBearing: 0,
+    street: {
+      name: payload.attributes.name ?? null,
+      highway: payload.facilityType,
+      maxspeed: null,
+      oneway: null,
+      lanes: null,
+      laneWidth: null,
+      surface: payload.attributes.surface ?? null,
+      incline: null,
+      geometry: lineString(coords),
+      features: null,
+    },
+    sidewalkLeft: null,
+    sidewalkRight: null,
+    crosswalkStart: null,
+    crosswalkEnd: null,
+    bikewayLeft1: null,
+    bikewayLeft2: null,
+    bikewayRight1: null,
+    bikewayRight2: null,
+    startNodeGeometry: point(coords[0]),
+    endNodeGeometry: point(coords[coords.length - 1]),
+    curbReturnGeometry: null,
+    publicDataIds: {},
+  });
+}
+
+function toggleCurbRamp(segments: Map<string, NetworkSegment>, payload: ToggleRampPayload, editId: string): void {
+  const segment = segments.get(payload.streetGridId);
+  const key = payload.side === 'left' ? 'sidewalkLeft' : 'sidewalkRight';
+  const sidewalk = segment?.[key];
+  if (!segment || !sidewalk) return;
+
+  const isSlot = (r: CurbRampSlot) => r.position === payload.position && r.slotNumber === payload.slotNumber;
+  const existing = sidewalk.curbRamps.find(isSlot);
+  let curbRamps = sidewalk.curbRamps.filter((r) => !isSlot(r));
+
+  if (payload.enabled) {
+    const geometry = payload.coord ? point(payload.coord) : existing?.geometry ?? null;
+    curbRamps = [
+      ...curbRamps,
+      {
+        id: existing?.id ?? `${LOCAL_SEGMENT_PREFIX}${editId}`,
+        position: payload.position,
+        slotNumber: payload.slotNumber,
+        returnloc: existing?.returnloc ?? null,
+        returnposition: existing?.returnposition ?? null,
+        conditionScore: existing?.conditionScore ?? null,
+        geometry,
+      },
+    ];
+  }
+
+  segments.set(segment.streetGridId, { ...segment, [key]: { ...sidewalk, curbRamps } });
+}
+
+// ═══════════════════════════════════════════════════════════
+// Geometry helpers
+// ═══════════════════════════════════════════════════════════
+
+function sameCoord(a: number[] | undefined, b: number[] | undefined): boolean {
+  return !!a && !!b && Math.abs(a[0] - b[0]) < ENDPOINT_TOLERANCE && Math.abs(a[1] - b[1]) < ENDPOINT_TOLERANCE;
+}
+
+function lineString(coordinates: number[][]): LineString {
+  return { type: 'LineString', coordinates };
+}
+
+function point(coordinates: number[]): Point {
+  return { type: 'Point', coordinates };
+}
+
+function rampsAt(ramps: CurbRampSlot[], position: 'start' | 'end'): CurbRampSlot[] {
+  return ramps.filter((r) => r.position === position);
+}
+
+/**
+ * Closest point on a polyline, with the index of the vertex that starts
+ * the containing segment. Longitude is scaled by cos(latitude) so the
+ * projection is close to metric over a street's length.
+ */
+function nearestPointOnLine(coords: Coord[], target: Coord): { index: number; coord: Coord } {
+  const kx = Math.cos((target[1] * Math.PI) / 180);
+  let best = { index: 0, coord: coords[0], distSq: Infinity };
+
+  for (let i = 0; i < coords.length - 1; i++) {
+    const [ax, ay] = coords[i];
+    const [bx, by] = coords[i + 1];
+    const dx = (bx - ax) * kx;
+    const dy = by - ay;
+    const lenSq = dx * dx + dy * dy;
+    const t = lenSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, (((target[0] - ax) * kx) * dx + (target[1] - ay) * dy) / lenSq));
+    const coord: Coord = [ax + (bx - ax) * t, ay + (by - ay) * t];
+    const ex = (coord[0] - target[0]) * kx;
+    const ey = coord[1] - target[1];
+    const distSq = ex * ex + ey * ey;
+    if (distSq < best.distSq) {
+      best = { index: i, coord, distSq };
+    }
+  }
+
+  return { index: best.index, coord: best.coord };
+}
@@ -0,0 +1,171 @@
+// ═══════════════════════════════════════════════════════════
+// GRID PROJECTION
+// ═══════════════════════════════════════════════════════════
+// The projection a proximity network's grid is laid out in. The pipeline
+// records it in the parquet's key-value metadata as
+// `proximity_grid_projection`, next to `proximity_grid_origin`:
+//
+//   {"type": "utm", "zone": 33, "hemisphere": "N"}
+//   {"epsg": 32733}
+//   {"type": "transverse_mercator", "central_meridian": 9,
+//    "latitude_of_origin": 0, "scale_factor": 0.9996,
+//    "false_easting": 500000, "false_northing": 0}
+//
+// Every projection is resolved to a transverse Mercator definition on the
+// WGS84 ellipsoid. Conversions (wgs84ToUtm.ts, utmToWgs84.ts) use Krüger's
+// series to 6th order in n (Karney, "Transverse Mercator with an accuracy
+// of a few nanometers", 2011), which stays accurate to well under a
+// millimetre several zones away from the central meridian, so a grid can
+// extend past its zone's boundaries.
+
+// --- Types ---
+
+export interface UtmZone {
+  zone: number; // 1–60
+  hemisphere: 'N' | 'S';
+}
+
+export interface TransverseMercator {
+  centralMeridian: number; // degrees
+  latitudeOfOrigin: number; // degrees
+  scaleFactor: number;
+  falseEasting: number; // m
+  falseNorthing: number; // m
+}
+
+export type GridProjection = UtmZone | TransverseMercator;
+
+// --- Constants ---
+
+/** Projection of parquets that predate projection metadata (San Francisco). */
+export const UTM_ZONE_10N: UtmZone = { zone: 10, hemisphere: 'N' };
+
+// WGS84 ellipsoid
+const a = 6378137.0; // semi-major axis (m)
+const f = 1 / 298.257223563; // flattening
+const n = f / (2 - f); // third flattening
+
+/** Series coefficients shared by the forward and inverse conversions. */
+export const KRUGER = {
+  e: Math.sqrt(f * (2 - f)), // first eccentricity
+  // Radius of the rectifying sphere
+  A: (a / (1 + n)) * (1 + n ** 2 / 4 + n ** 4 / 64 + n ** 6 / 256),
+  // Conformal → rectifying (forward)
+  alpha: [
+    n / 2 - (2 / 3) * n ** 2 + (5 / 16) * n ** 3 + (41 / 180) * n ** 4 - (127 / 288) * n ** 5 + (7891 / 37800) * n ** 6,
+    (13 / 48) * n ** 2 - (3 / 5) * n ** 3 + (557 / 1440) * n ** 4 + (281 / 630) * n ** 5 - (1983433 / 1935360) * n ** 6,
+    (61 / 240) * n ** 3 - (103 / 140) * n ** 4 + (15061 / 26880) * n ** 5 + (167603 / 181440) * n ** 6,
+    (49561 / 161280) * n ** 4 - (179 / 168) * n ** 5 + (6601661 / 7257600) * n ** 6,
+    (34729 / 80640) * n ** 5 - (3418889 / 1995840) * n ** 6,
+    (212378941 / 319334400) * n ** 6,
+  ],
+  // Rectifying → conformal (inverse)
+  beta: [
+    n / 2 - (2 / 3) * n ** 2 + (37 / 96) * n ** 3 - (1 / 360) * n ** 4 - (81 / 512) * n ** 5 + (96199 / 604800) * n ** 6,
+    (1 / 48) * n ** 2 + (1 / 15) * n ** 3 - (437 / 1440) * n ** 4 + (46 / 105) * n ** 5 - (1118711 / 3870720) * n ** 6,
+    (17 / 480) * n ** 3 - (37 / 840) * n ** 4 - (209 / 4480) * n ** 5 + (5569 / 90720) * n ** 6,
+    (4397 / 161280) * n ** 4 - (11 / 504) * n ** 5 - (830251 / 7257600) * n ** 6,
+    (4583 / 161280) * n ** 5 - (108847 / 3991680) * n ** 6,
+    (20648693 / 638668800) * n ** 6,
+  ],
+};
+
+// ═══════════════════════════════════════════════════════════
+// Projections
+// ═══════════════════════════════════════════════════════════
+
+/** Central meridian of a UTM zone, in degrees. */
+export function utmCentralMeridian(zone: number): number {
+  return zone * 6 - 183;
+}
+
+export function toTransverseMercator(projection: GridProjection): TransverseMercator {
+  if (!('zone' in projection)) return projection;
+  return {
+    centralMeridian: utmCentralMeridian(projection.zone),
+    latitudeOfOrigin: 0,
+    scaleFactor: 0.9996,
+    falseEasting: 500000,
+    falseNorthing: projection.hemisphere === 'S' ? 10000000 : 0,
+  };
+}
+
+/**
+ * Conformal latitude τ′ (as a tangent) for a geodetic latitude tangent τ.
+ */
+export function conformalTan(tau: number): number {
+  const { e } = KRUGER;
+  const sigma = Math.sinh(e * Math.atanh((e * tau) / Math.sqrt(1 + tau * tau)));
+  return tau * Math.sqrt(1 + sigma * sigma) - sigma * Math.sqrt(1 + tau * tau);
+}
+
+/**
+ * Northing of the latitude of origin on the central meridian, before
+ * false northing — subtracted so the origin latitude maps to zero.
+ */
+export function originNorthing(tm: TransverseMercator): number {
+  if (tm.latitudeOfOrigin === 0) return 0;
+  const xiPrime = Math.atan(conformalTan(Math.tan(tm.latitudeOfOrigin * (Math.PI / 180))));
+  const xi = KRUGER.alpha.reduce((sum, alpha, j) => sum + alpha * Math.sin(2 * (j + 1) * xiPrime), xiPrime);
+  return tm.scaleFactor * KRUGER.A * xi;
+}
+
+// ═══════════════════════════════════════════════════════════
+// Metadata
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Read the `proximity_grid_projection` metadata written by the pipeline.
+ * Both snake_case and camelCase keys are accepted.
+ *
+ * @throws Error if the projection is malformed or unsupported
+ */
+export function parseGridProjection(json: unknown): GridProjection {
+  const raw = json as Record<string, any> | null;
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Grid projection is not an object');
+  }
+
+  const epsg = raw.epsg ?? parseEpsg(raw.crs);
+  if (epsg !== undefined) {
+    // WGS 84 / UTM: EPSG:326zz north, EPSG:327zz south
+    const code = Number(epsg);
+    const zone = code % 100;
+    if ((Math.floor(code / 100) !== 326 && Math.floor(code / 100) !== 327) || zone < 1 || zone > 60) {
+      throw new Error(`Grid projection EPSG:${epsg} is not a WGS 84 UTM zone`);
+    }
+    return { zone, hemisphere: Math.floor(code / 100) === 327 ? 'S' : 'N' };
+  }
+
+  const type = String(raw.type ?? '').toLowerCase();
+  if (type === 'utm') {
+    const zone = Number(raw.zone);
+    const hemisphere = String(raw.hemisphere ?? 'N').toUpperCase();
+    if (!Number.isInteger(zone) || zone < 1 || zone > 60 || (hemisphere !== 'N' && hemisphere !== 'S')) {
+      throw new Error(`Grid projection has an invalid UTM zone: ${raw.zone}${raw.hemisphere ?? ''}`);
+    }
+    return { zone, hemisphere };
+  }
+
+  if (type === 'transverse_mercator' || type === 'tmerc') {
+    const tm: TransverseMercator = {
+      centralMeridian: Number(raw.central_meridian ?? raw.centralMeridian),
+      latitudeOfOrigin: Number(raw.latitude_of_origin ?? raw.latitudeOfOrigin ?? 0),
+      scaleFactor: Number(raw.scale_factor ?? raw.scaleFactor ?? 1),
+      falseEasting: Number(raw.false_easting ?? raw.falseEasting ?? 0),
+      falseNorthing: Number(raw.false_northing ?? raw.falseNorthing ?? 0),
+    };
+    if (!Object.values(tm).every(Number.isFinite) || Math.abs(tm.centralMeridian) > 180
+      || Math.abs(tm.latitudeOfOrigin) >= 90 || tm.scaleFactor <= 0) {
+      throw new Error('Grid projection has an invalid transverse Mercator definition');
+    }
+    return tm;
+  }
+
+  throw new Error(`Grid projection type "${raw.type}" is not supported`);
+}
+
+function parseEpsg(crs: unknown): number | undefined {
+  const match = typeof crs === 'string' ? /^EPSG:(\d+)$/i.exec(crs.trim()) : null;
+  return match ? Number(match[1]) : undefined;
+}
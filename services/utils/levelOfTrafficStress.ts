@@ -0,0 +1,361 @@
+// ═══════════════════════════════════════════════════════════
+// LEVEL OF TRAFFIC STRESS
+// ═══════════════════════════════════════════════════════════
+// Scores each facility of a NetworkSegment (street, sidewalks, bikeways,
+// crosswalks) on a 1–4 Level of Traffic Stress scale for a travel mode.
+//
+// Each facility is reduced to a vector of stress factors (roughly 0–1,
+// 0 = no stress contribution). The score is a weighted sum:
+//   score = clamp(1 + Σ weight[f] · factor[f], 1, 4)
+// Weights differ per mode — wheelchair users are most sensitive to
+// incline, curb ramps and width; skateboarders to surface; everyone to
+// riding in mixed traffic.
+//
+// Weights can be calibrated per user from recorded trips: each
+// map-matched run (Trip.matchedSegments) gives the factors of the
+// facility used, and the trip's comfort rating (1–10) gives a target
+// stress. Calibration is ridge regression pulled toward the mode
+// defaults, so a handful of trips nudges rather than replaces them.
+
+import type { TripSegmentMatch } from '@/adapters/DatabaseAdapter';
+import type {
+  BikewayData,
+  CrosswalkData,
+  FacilityLTS,
+  FacilityType,
+  LTSLevel,
+  NetworkSegment,
+  SegmentLTS,
+  SidewalkData,
+} from '@/services/types/NetworkSegment';
+
+// --- Types ---
+
+export type StressFactor =
+  | 'speed'      // Posted speed of adjacent/mixed traffic
+  | 'volume'     // Lanes and road class as a proxy for traffic volume
+  | 'exposure'   // Sharing the roadway (street) or riding next to it unseparated
+  | 'incline'
+  | 'surface'
+  | 'width'      // Shortfall from a comfortable width
+  | 'curbRamps'  // Missing curb ramps at the facility ends
+  | 'crossing';  // Uncontrolled, unmarked or poor-condition crossings
+
+export type StressFactors = Record<StressFactor, number>;
+export type LTSWeights = Record<StressFactor, number>;
+
+export interface CalibrationSample {
+  factors: StressFactors;
+  /** Trip comfort rating, 1 (uncomfortable) – 10 (very comfortable). */
+  comfort: number;
+  /** Relative weight of the sample (e.g. number of trip points in the run). */
+  weight: number;
+}
+
+export interface CalibrationResult {
+  weights: LTSWeights;
+  sampleCount: number;
+}
+
+// --- Constants ---
+
+export const STRESS_FACTORS: StressFactor[] = [
+  'speed', 'volume', 'exposure', 'incline', 'surface', 'width', 'curbRamps', 'crossing',
+];
+
+const DEFAULT_SPEED_MPH = 25; // Assumed when maxspeed is missing
+const COMFORTABLE_WIDTH_M = 1.5;
+const UNKNOWN_WIDTH_FACTOR = 0.3;
+const STEEP_INCLINE_PCT = 10; // Incline factor reaches 1 here
+
+const ROUGH_SURFACES = ['sett', 'cobblestone', 'unhewn_cobblestone', 'gravel', 'fine_gravel', 'compacted', 'unpaved', 'dirt', 'ground', 'grass', 'wood'];
+const SMOOTH_SURFACES = ['paved', 'asphalt', 'concrete', 'concrete:plates', 'paving_stones'];
+const ARTERIAL_HIGHWAYS = ['primary', 'primary_link', 'secondary', 'secondary_link', 'trunk', 'trunk_link'];
+const COLLECTOR_HIGHWAYS = ['tertiary', 'tertiary_link', 'unclassified'];
+
+const DEFAULT_WEIGHTS: LTSWeights = {
+  speed: 0.8, volume: 0.6, exposure: 1.5, incline: 0.6, surface: 0.4, width: 0.4, curbRamps: 0.2, crossing: 1.0,
+};
+
+/** Model variants per mode (lowercase mode name). Other modes use walking weights. */
+export const LTS_MODEL_WEIGHTS: Record<string, LTSWeights> = {
+  walking: DEFAULT_WEIGHTS,
+  wheelchair: {
+    speed: 0.8, volume: 0.6, exposure: 1.5, incline: 2.0, surface: 1.2, width: 1.2, curbRamps: 1.5, crossing: 1.0,
+  },
+  'assisted walking': {
+    speed: 0.8, volume: 0.6, exposure: 1.5, incline: 1.5, surface: 1.0, width: 0.8, curbRamps: 1.0, crossing: 1.2,
+  },
+  skateboard: {
+    speed: 1.2, volume: 0.8, exposure: 0.6, incline: 1.0, surface: 2.0, width: 0.4, curbRamps: 0.6, crossing: 0.8,
+  },
+  scooter: {
+    speed: 1.2, volume: 0.8, exposure: 0.5, incline: 0.5, surface: 1.0, width: 0.4, curbRamps: 0.3, crossing: 0.8,
+  },
+};
+
+export const MIN_CALIBRATION_SAMPLES = 5;
+const CALIBRATION_ITERATIONS = 300;
+const CALIBRATION_LEARNING_RATE = 0.05;
+const CALIBRATION_RIDGE = 0.5; // Pull toward the mode defaults
+
+/** Default weights for a mode. */
+export function getLTSWeights(mode: string): LTSWeights {
+  return { ...(LTS_MODEL_WEIGHTS[mode.toLowerCase()] ?? DEFAULT_WEIGHTS) };
+}
+
+// ═══════════════════════════════════════════════════════════
+// Factor extraction
+// ═══════════════════════════════════════════════════════════
+
+function emptyFactors(): StressFactors {
+  return { speed: 0, volume: 0, exposure: 0, incline: 0, surface: 0, width: 0, curbRamps: 0, crossing: 0 };
+}
+
+function speedFactor(segment: NetworkSegment): number {
+  const speed = segment.street.maxspeed ?? DEFAULT_SPEED_MPH;
+  return Math.max(0, speed - 15) / 25;
+}
+
+function volumeFactor(segment: NetworkSegment): number {
+  const highway = segment.street.highway?.toLowerCase() ?? '';
+  const classFactor = ARTERIAL_HIGHWAYS.includes(highway) ? 1 : COLLECTOR_HIGHWAYS.includes(highway) ? 0.5 : 0;
+  const lanesFactor = Math.max(0, (segment.street.lanes ?? 2) - 2) / 2;
+  return Math.min(1.5, classFactor + lanesFactor);
+}
+
+function inclineFactor(incline: number | null): number {
+  if (incline === null || incline === undefined || Number.isNaN(incline)) return 0;
+  return Math.abs(incline) / STEEP_INCLINE_PCT;
+}
+
+function surfaceFactor(surface: string | null): number {
+  if (!surface) return 0.2; // Unknown surface — small penalty
+  const values = surface.toLowerCase().replace(/[[\]'"]/g, '').split(/[,;]/).map((v) => v.trim()).filter(Boolean);
+  if (values.some((v) => ROUGH_SURFACES.includes(v))) return 1;
+  if (values.every((v) => SMOOTH_SURFACES.includes(v))) return 0;
+  return 0.4;
+}
+
+function widthFactor(width: number | null): number {
+  if (width === null || width === undefined) return UNKNOWN_WIDTH_FACTOR;
+  return Math.max(0, COMFORTABLE_WIDTH_M - width) / COMFORTABLE_WIDTH_M;
+}
+
+function sidewalkFactors(sidewalk: SidewalkData, segment: NetworkSegment): StressFactors {
+  const buffered = sidewalk.buffered === 'yes' || !!sidewalk.seperator;
+  const missingRamps = (['start', 'end'] as const)
+    .filter((position) => !sidewalk.curbRamps.some((r) => r.position === position && r.id !== null)).length;
+
+  return {
+    ...emptyFactors(),
+    // Traffic next to the sidewalk matters less the better it's separated
+    speed: speedFactor(segment) * (buffered ? 0.25 : 0.5),
+    volume: volumeFactor(segment) * (buffered ? 0.25 : 0.5),
+    incline: inclineFactor(sidewalk.incline ?? segment.street.incline),
+    surface: surfaceFactor(sidewalk.surface),
+    width: widthFactor(sidewalk.width),
+    curbRamps: missingRamps / 2,
+  };
+}
+
+function bikewayFactors(bikeway: BikewayData, segment: NetworkSegment): StressFactors {
+  const separated = bikeway.buffered === 'yes' || !!bikeway.seperator;
+  const separation = separated ? 0.3 : 0.7;
+
+  return {
+    ...emptyFactors(),
+    speed: speedFactor(segment) * separation,
+    volume: volumeFactor(segment) * separation,
+    exposure: separated ? 0 : 0.5,
+    incline: inclineFactor(bikeway.incline ?? segment.street.incline),
+    surface: surfaceFactor(bikeway.surface ?? segment.street.surface),
+    width: widthFactor(bikeway.width),
+  };
+}
+
+function streetFactors(segment: NetworkSegment): StressFactors {
+  return {
+    ...emptyFactors(),
+    speed: speedFactor(segment),
+    volume: volumeFactor(segment),
+    exposure: 1,
+    incline: inclineFactor(segment.street.incline),
+    surface: surfaceFactor(segment.street.surface),
+  };
+}
+
+function crosswalkFactors(crosswalk: CrosswalkData, segment: NetworkSegment): StressFactors {
+  const controlled = crosswalk.controlled?.toLowerCase() === 'yes' || !!crosswalk.signals?.toLowerCase().startsWith('yes');
+  const marked = crosswalk.marked?.toLowerCase() === 'yes';
+  const poorCondition = ['bad', 'very_bad', 'horrible', 'poor'].includes(crosswalk.condition?.toLowerCase() ?? '');
+  const island = crosswalk.island?.toLowerCase() === 'yes';
+
+  let crossing = controlled ? 0 : marked ? 0.5 : 1;
+  if (poorCondition) crossing += 0.3;
+  if (island) crossing *= 0.7;
+
+  // Uncontrolled crossings are as stressful as the traffic being crossed
+  const trafficShare = controlled ? 0.25 : 1;
+  return {
+    ...emptyFactors(),
+    speed: speedFactor(segment) * trafficShare,
+    volume: volumeFactor(segment) * trafficShare,
+    crossing,
+  };
+}
+
+/**
+ * Stress factors for one facility of a segment, or null if the segment
+ * has no such facility (or the sidewalk is mapped as absent).
+ */
+export function extractStressFactors(segment: NetworkSegment, facility: FacilityType): StressFactors | null {
+  switch (facility) {
+    case 'street':
+      return streetFactors(segment);
+    case 'sidewalk_left':
+    case 'sidewalk_right': {
+      const sidewalk = facility === 'sidewalk_left' ? segment.sidewalkLeft : segment.sidewalkRight;
+      const presence = sidewalk?.presence?.toLowerCase();
+      if (!sidewalk || presence === 'no' || presence === 'none') return null;
+      return sidewalkFactors(sidewalk, segment);
+    }
+    case 'crosswalk_start':
+    case 'crosswalk_end': {
+      const crosswalk = facility === 'crosswalk_start' ? segment.crosswalkStart : segment.crosswalkEnd;
+      return crosswalk ? crosswalkFactors(crosswalk, segment) : null;
+    }
+    case 'bikeway_left_1':
+    case 'bikeway_left_2':
+    case 'bikeway_right_1':
+    case 'bikeway_right_2': {
+      const bikeway = {
+        bikeway_left_1: segment.bikewayLeft1,
+        bikeway_left_2: segment.bikewayLeft2,
+        bikeway_right_1: segment.bikewayRight1,
+        bikeway_right_2: segment.bikewayRight2,
+      }[facility];
+      return bikeway ? bikewayFactors(bikeway, segment) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════
+// Scoring
+// ═══════════════════════════════════════════════════════════
+
+export function stressScore(factors: StressFactors, weights: LTSWeights): number {
+  let score = 1;
+  for (const f of STRESS_FACTORS) score += weights[f] * factors[f];
+  return Math.max(1, Math.min(4, score));
+}
+
+export function scoreToLTS(score: number): LTSLevel {
+  return Math.max(1, Math.min(4, Math.round(score))) as LTSLevel;
+}
+
+const SCORED_FACILITIES: FacilityType[] = [
+  'street',
+  'sidewalk_left',
+  'sidewalk_right',
+  'bikeway_left_1',
+  'bikeway_left_2',
+  'bikeway_right_1',
+  'bikeway_right_2',
+  'crosswalk_start',
+  'crosswalk_end',
+];
+
+/**
+ * Score every facility of a segment for a mode.
+ * The segment-level score is its lowest-stress travel facility, since a
+ * rider can choose among them; crosswalks are scored but not included.
+ */
+export function scoreSegmentLTS(segment: NetworkSegment, mode: string, weights?: LTSWeights): SegmentLTS {
+  const w = weights ?? getLTSWeights(mode);
+  const facilities: FacilityLTS[] = [];
+
+  for (const facility of SCORED_FACILITIES) {
+    const factors = extractStressFactors(segment, facility);
+    if (!factors) continue;
+    const score = stressScore(factors, w);
+    facilities.push({ facility, score, lts: scoreToLTS(score) });
+  }
+
+  const travel = facilities.filter((f) => f.facility !== 'crosswalk_start' && f.facility !== 'crosswalk_end');
+  const score = travel.length > 0 ? Math.min(...travel.map((f) => f.score)) : 4;
+
+  return { mode, score, lts: scoreToLTS(score), facilities };
+}
+
+// ═══════════════════════════════════════════════════════════
+// Calibration
+// ═══════════════════════════════════════════════════════════
+
+/** Map a 1–10 comfort rating onto the 1–4 stress scale (10 → 1, 1 → 4). */
+export function comfortToStress(comfort: number): number {
+  const c = Math.max(1, Math.min(10, comfort));
+  return 1 + (3 * (10 - c)) / 9;
+}
+
+/**
+ * Build calibration samples from trips with map-matched segments.
+ * Runs on segments that aren't loaded (getSegment returns null) are skipped.
+ */
+export function buildCalibrationSamples(
+  trips: { comfort: number; matchedSegments?: TripSegmentMatch[] | null }[],
+  getSegment: (streetGridId: string) => NetworkSegment | null,
+): CalibrationSample[] {
+  const samples: CalibrationSample[] = [];
+
+  for (const trip of trips) {
+    for (const run of trip.matchedSegments ?? []) {
+      const segment = getSegment(run.streetGridId);
+      if (!segment) continue;
+      const factors = extractStressFactors(segment, run.facility as FacilityType);
+      if (!factors) continue;
+      samples.push({ factors, comfort: trip.comfort, weight: run.endIndex - run.startIndex + 1 });
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * Fit weights to comfort ratings by ridge-regularised gradient descent,
+ * starting from and pulled toward the base weights. Weights stay ≥ 0 so
+ * a factor can never make a facility less stressful.
+ *
+ * @returns Base weights unchanged if there are too few samples
+ */
+export function calibrateLTSWeights(base: LTSWeights, samples: CalibrationSample[]): CalibrationResult {
+  if (samples.length < MIN_CALIBRATION_SAMPLES) {
+    return { weights: { ...base }, sampleCount: samples.length };
+  }
+
+  const totalWeight = samples.reduce((sum, s) => sum + s.weight, 0);
+  const weights: LTSWeights = { ...base };
+
+  for (let iter = 0; iter < CALIBRATION_ITERATIONS; iter++) {
+    const gradient = emptyFactors();
+
+    for (const sample of samples) {
+      // Unclamped prediction so the gradient doesn't vanish at the bounds
+      let predicted = 1;
+      for (const f of STRESS_FACTORS) predicted += weights[f] * sample.factors[f];
+      const error = predicted - comfortToStress(sample.comfort);
+      for (const f of STRESS_FACTORS) {
+        gradient[f] += (sample.weight / totalWeight) * error * sample.factors[f];
+      }
+    }
+
+    for (const f of STRESS_FACTORS) {
+      const ridge = CALIBRATION_RIDGE * (weights[f] - base[f]);
+      weights[f] = Math.max(0, weights[f] - CALIBRATION_LEARNING_RATE * 2 * (gradient[f] + ridge));
+    }
+  }
+
+  return { weights, sampleCount: samples.length };
+}
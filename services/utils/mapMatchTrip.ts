@@ -0,0 +1,334 @@
+// ═══════════════════════════════════════════════════════════
+// MAP MATCH TRIP
+// ═══════════════════════════════════════════════════════════
+// Hidden Markov Model map matcher. Snaps a recorded trip onto the
+// Proximity NetworkSegment graph, choosing for each GPS point a
+// (segment, facility) candidate — street, sidewalk, crosswalk or
+// bikeway — and decoding the most likely sequence with Viterbi.
+//
+// Emission: Gaussian on the distance from the GPS point to the facility.
+// Transition: favours staying on the same facility, then moving to a
+// topologically connected segment (shared node), and otherwise penalises
+// the gap between the GPS step and the snapped step (Newson & Krumm).
+//
+// Coordinates throughout are [longitude, latitude] (GeoJSON order).
+
+import type { LineString, MultiLineString } from 'geojson';
+import type { FacilityType, NetworkSegment } from '@/services/types/NetworkSegment';
+
+export interface MatchedSegment {
+  streetGridId: string;
+  facility: FacilityType;
+  /** Index of the first trip coordinate matched to this facility. */
+  startIndex: number;
+  /** Index of the last trip coordinate matched to this facility. */
+  endIndex: number;
+}
+
+export interface MapMatchResult {
+  segments: MatchedSegment[];
+  /** Fraction of (sampled) trip points that had a candidate within the search radius. */
+  matchedRatio: number;
+}
+
+export interface MapMatchOptions {
+  /** Candidate search radius around each GPS point (m). */
+  searchRadiusM?: number;
+  /** Max (segment, facility) candidates kept per point. */
+  maxCandidates?: number;
+  /** GPS noise standard deviation used for emission probabilities (m). */
+  sigmaM?: number;
+  /** Scale of the Newson-Krumm transition penalty (m). */
+  betaM?: number;
+  /** Skip points closer than this to the previous sampled point (m). */
+  minSampleSpacingM?: number;
+}
+
+/** Returns segments near a point; DataRangerService.queryNearbySegments fits this shape. */
+export type SegmentCandidateProvider = (lat: number, lon: number, radiusM: number) => NetworkSegment[];
+
+const DEFAULTS: Required<MapMatchOptions> = {
+  searchRadiusM: 30,
+  maxCandidates: 8,
+  sigmaM: 10,
+  betaM: 15,
+  minSampleSpacingM: 5,
+};
+
+// Log-probability penalties for transitions that don't stay on one facility
+const SAME_SEGMENT_FACILITY_CHANGE = -1.5;
+const CROSSWALK_FACILITY_CHANGE = -0.5;
+const CONNECTED_SEGMENT = -0.5;
+const UNCONNECTED_SEGMENT = -3;
+
+const METERS_PER_DEG_LAT = 111320;
+
+interface Candidate {
+  segment: NetworkSegment;
+  facility: FacilityType;
+  distanceM: number;
+  snapped: [number, number];
+}
+
+// ═══════════════════════════════════════════════════════════
+// Geometry helpers
+// ═══════════════════════════════════════════════════════════
+
+function distanceMeters(a: [number, number], b: [number, number]): number {
+  const cosLat = Math.cos((((a[1] + b[1]) / 2) * Math.PI) / 180);
+  const dx = (b[0] - a[0]) * METERS_PER_DEG_LAT * cosLat;
+  const dy = (b[1] - a[1]) * METERS_PER_DEG_LAT;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+/**
+ * Project a point onto a polyline using a local equirectangular approximation.
+ * Returns the closest point and its distance in metres.
+ */
+function projectOntoLine(
+  point: [number, number],
+  line: [number, number][],
+): { snapped: [number, number]; distanceM: number } {
+  if (line.length === 1) {
+    return { snapped: line[0], distanceM: distanceMeters(point, line[0]) };
+  }
+
+  const cosLat = Math.cos((point[1] * Math.PI) / 180);
+  let best = { snapped: line[0], distanceM: Infinity };
+
+  for (let i = 0; i < line.length - 1; i++) {
+    const [ax, ay] = line[i];
+    const [bx, by] = line[i + 1];
+    const dx = (bx - ax) * cosLat;
+    const dy = by - ay;
+    const lenSq = dx * dx + dy * dy;
+    let t = lenSq === 0 ? 0 : (((point[0] - ax) * cosLat) * dx + (point[1] - ay) * dy) / lenSq;
+    t = Math.max(0, Math.min(1, t));
+
+    const snapped: [number, number] = [ax + t * (bx - ax), ay + t * (by - ay)];
+    const d = distanceMeters(point, snapped);
+    if (d < best.distanceM) best = { snapped, distanceM: d };
+  }
+
+  return best;
+}
+
+function lineParts(geometry: LineString | MultiLineString | null | undefined): [number, number][][] {
+  if (!geometry) return [];
+  if (geometry.type === 'LineString') return [geometry.coordinates as [number, number][]];
+  return geometry.coordinates as [number, number][][];
+}
+
+/**
+ * Facility geometries of a segment that a rider could be travelling along.
+ */
+export function getFacilityGeometries(
+  segment: NetworkSegment,
+): { facility: FacilityType; parts: [number, number][][] }[] {
+  const entries: { facility: FacilityType; geometry: LineString | MultiLineString | null | undefined }[] = [
+    { facility: 'street', geometry: segment.street.geometry },
+    { facility: 'sidewalk_left', geometry: segment.sidewalkLeft?.geometry },
+    { facility: 'sidewalk_right', geometry: segment.sidewalkRight?.geometry },
+    { facility: 'crosswalk_start', geometry: segment.crosswalkStart?.geometry },
+    { facility: 'crosswalk_end', geometry: segment.crosswalkEnd?.geometry },
+    { facility: 'bikeway_left_1', geometry: segment.bikewayLeft1?.geometry },
+    { facility: 'bikeway_left_2', geometry: segment.bikewayLeft2?.geometry },
+    { facility: 'bikeway_right_1', geometry: segment.bikewayRight1?.geometry },
+    { facility: 'bikeway_right_2', geometry: segment.bikewayRight2?.geometry },
+  ];
+
+  return entries
+    .map(({ facility, geometry }) => ({ facility, parts: lineParts(geometry) }))
+    .filter(({ parts }) => parts.some((p) => p.length > 0));
+}
+
+function isCrosswalk(facility: FacilityType): boolean {
+  return facility === 'crosswalk_start' || facility === 'crosswalk_end';
+}
+
+function sharesNode(a: NetworkSegment, b: NetworkSegment): boolean {
+  return (
+    a.startNodeId === b.startNodeId ||
+    a.startNodeId === b.endNodeId ||
+    a.endNodeId === b.startNodeId ||
+    a.endNodeId === b.endNodeId
+  );
+}
+
+// ═══════════════════════════════════════════════════════════
+// HMM
+// ═══════════════════════════════════════════════════════════
+
+function findCandidates(
+  point: [number, number],
+  provider: SegmentCandidateProvider,
+  opts: Required<MapMatchOptions>,
+): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  for (const segment of provider(point[1], point[0], opts.searchRadiusM)) {
+    for (const { facility, parts } of getFacilityGeometries(segment)) {
+      let best: { snapped: [number, number]; distanceM: number } | null = null;
+      for (const part of parts) {
+        if (part.length === 0) continue;
+        const projected = projectOntoLine(point, part);
+        if (!best || projected.distanceM < best.distanceM) best = projected;
+      }
+      if (best && best.distanceM <= opts.searchRadiusM) {
+        candidates.push({ segment, facility, ...best });
+      }
+    }
+  }
+
+  candidates.sort((a, b) => a.distanceM - b.distanceM);
+  return candidates.slice(0, opts.maxCandidates);
+}
+
+function emissionLogProb(c: Candidate, sigmaM: number): number {
+  const z = c.distanceM / sigmaM;
+  return -0.5 * z * z;
+}
+
+function transitionLogProb(
+  from: Candidate,
+  to: Candidate,
+  gpsStepM: number,
+  betaM: number,
+): number {
+  const snappedStepM = distanceMeters(from.snapped, to.snapped);
+  const gap = -Math.abs(gpsStepM - snappedStepM) / betaM;
+
+  if (from.segment.streetGridId === to.segment.streetGridId) {
+    if (from.facility === to.facility) return gap;
+    const change = isCrosswalk(from.facility) || isCrosswalk(to.facility)
+      ? CROSSWALK_FACILITY_CHANGE
+      : SAME_SEGMENT_FACILITY_CHANGE;
+    return gap + change;
+  }
+
+  return gap + (sharesNode(from.segment, to.segment) ? CONNECTED_SEGMENT : UNCONNECTED_SEGMENT);
+}
+
+/**
+ * Viterbi over one unbroken run of points (every point has ≥1 candidate).
+ * Returns the chosen candidate index for each point in the run.
+ */
+function viterbi(
+  points: [number, number][],
+  candidates: Candidate[][],
+  opts: Required<MapMatchOptions>,
+): number[] {
+  let scores = candidates[0].map((c) => emissionLogProb(c, opts.sigmaM));
+  const backPointers: number[][] = [candidates[0].map(() => -1)];
+
+  for (let t = 1; t < points.length; t++) {
+    const gpsStepM = distanceMeters(points[t - 1], points[t]);
+    const nextScores: number[] = [];
+    const pointers: number[] = [];
+
+    for (const to of candidates[t]) {
+      let bestScore = -Infinity;
+      let bestPrev = 0;
+      candidates[t - 1].forEach((from, i) => {
+        const score = scores[i] + transitionLogProb(from, to, gpsStepM, opts.betaM);
+        if (score > bestScore) {
+          bestScore = score;
+          bestPrev = i;
+        }
+      });
+      nextScores.push(bestScore + emissionLogProb(to, opts.sigmaM));
+      pointers.push(bestPrev);
+    }
+
+    scores = nextScores;
+    backPointers.push(pointers);
+  }
+
+  // Backtrack from the best final state
+  let state = scores.indexOf(Math.max(...scores));
+  const path: number[] = new Array(points.length);
+  for (let t = points.length - 1; t >= 0; t--) {
+    path[t] = state;
+    state = backPointers[t][state];
+  }
+  return path;
+}
+
+// ═══════════════════════════════════════════════════════════
+// Public API
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Match trip coordinates to a sequence of (streetGridId, facility) runs.
+ * Points with no candidate within the search radius break the HMM; decoding
+ * restarts after the gap so a single off-network stretch can't derail the
+ * rest of the trip.
+ *
+ * @param coordinates - Trip coordinates in [lon, lat] order
+ * @param provider - Candidate segment lookup (segments must already be loaded)
+ */
+export function mapMatchTrip(
+  coordinates: [number, number][],
+  provider: SegmentCandidateProvider,
+  options: MapMatchOptions = {},
+): MapMatchResult {
+  const opts = { ...DEFAULTS, ...options };
+
+  // Sample points so dense stationary fixes don't dominate the decode
+  const sampledIdx: number[] = [];
+  coordinates.forEach((coord, i) => {
+    const last = sampledIdx.length > 0 ? coordinates[sampledIdx[sampledIdx.length - 1]] : null;
+    if (!last || i === coordinates.length - 1 || distanceMeters(last, coord) >= opts.minSampleSpacingM) {
+      sampledIdx.push(i);
+    }
+  });
+
+  const allCandidates = sampledIdx.map((i) => findCandidates(coordinates[i], provider, opts));
+  const matchedCount = allCandidates.filter((c) => c.length > 0).length;
+
+  // Decode each unbroken run of points that have candidates
+  const assignments: { index: number; candidate: Candidate }[] = [];
+  let runStart = 0;
+  while (runStart < sampledIdx.length) {
+    if (allCandidates[runStart].length === 0) {
+      runStart++;
+      continue;
+    }
+    let runEnd = runStart;
+    while (runEnd + 1 < sampledIdx.length && allCandidates[runEnd + 1].length > 0) runEnd++;
+
+    const runIdx = sampledIdx.slice(runStart, runEnd + 1);
+    const runCandidates = allCandidates.slice(runStart, runEnd + 1);
+    const path = viterbi(runIdx.map((i) => coordinates[i]), runCandidates, opts);
+    path.forEach((state, k) => {
+      assignments.push({ index: runIdx[k], candidate: runCandidates[k][state] });
+    });
+
+    runStart = runEnd + 1;
+  }
+
+  // Collapse consecutive points on the same facility into runs
+  const segments: MatchedSegment[] = [];
+  for (const { index, candidate } of assignments) {
+    const last = segments[segments.length - 1];
+    if (
+      last &&
+      last.streetGridId === candidate.segment.streetGridId &&
+      last.facility === candidate.facility
+    ) {
+      last.endIndex = index;
+    } else {
+      segments.push({
+        streetGridId: candidate.segment.streetGridId,
+        facility: candidate.facility,
+        startIndex: index,
+        endIndex: index,
+      });
+    }
+  }
+
+  return {
+    segments,
+    matchedRatio: sampledIdx.length > 0 ? matchedCount / sampledIdx.length : 0,
+  };
+}
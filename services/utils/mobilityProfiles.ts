@@ -0,0 +1,88 @@
+// ═══════════════════════════════════════════════════════════
+// MOBILITY PROFILES
+// ═══════════════════════════════════════════════════════════
+// Resolves the effective MobilitySettings for a travel mode from:
+//   1. Per-mode defaults
+//   2. The user's comfort level for that mode (1–10, 5 = defaults):
+//      lower comfort tightens incline, width and traffic tolerance,
+//      higher comfort relaxes them
+//   3. Explicit per-setting overrides stored on the profile
+//
+// Curb ramp and surface requirements describe what a device can
+// physically do, so comfort never relaxes them — only overrides do.
+
+import type { MobilityProfile, MobilitySettings, UserProfile } from '@/adapters/DatabaseAdapter';
+
+// --- Constants ---
+
+export const DEFAULT_COMFORT = 5;
+export const MIN_COMFORT = 1;
+export const MAX_COMFORT = 10;
+
+const COMFORT_STEP = 0.06; // Incline/width scale change per comfort point
+const SPEED_STEP_MPH = 2; // Street speed tolerance change per comfort point
+const NO_STREET_BELOW_COMFORT = 3; // At or below this comfort the street is never used
+
+export const SMOOTH_SURFACES = ['paved', 'asphalt', 'concrete', 'concrete:plates', 'paving_stones'];
+
+const BASE_SETTINGS: MobilitySettings = {
+  maxInclinePct: 12,
+  minWidthM: 0.9,
+  acceptableSurfaces: null,
+  missingCurbRampsBlock: false,
+  allowStreet: false,
+  maxStreetSpeedMph: 25,
+  avoidHighways: ['motorway', 'trunk', 'primary', 'motorway_link', 'trunk_link'],
+};
+
+const MODE_DEFAULTS: Record<string, Partial<MobilitySettings>> = {
+  wheelchair: { maxInclinePct: 8.33, minWidthM: 0.92, acceptableSurfaces: SMOOTH_SURFACES, missingCurbRampsBlock: true },
+  'assisted walking': { maxInclinePct: 10, minWidthM: 0.9 },
+  skateboard: { maxInclinePct: 10, minWidthM: 1.0, acceptableSurfaces: SMOOTH_SURFACES, allowStreet: true },
+  scooter: { maxInclinePct: 12, minWidthM: 1.0, allowStreet: true },
+  walking: {},
+};
+
+/** Mode defaults before comfort or overrides are applied. */
+export function getDefaultMobilitySettings(mode: string): MobilitySettings {
+  return { ...BASE_SETTINGS, ...(MODE_DEFAULTS[mode.toLowerCase()] ?? {}) };
+}
+
+/** Scale comfort-sensitive limits around the defaults. */
+export function applyComfort(settings: MobilitySettings, comfort: number): MobilitySettings {
+  const level = Math.max(MIN_COMFORT, Math.min(MAX_COMFORT, Math.round(comfort)));
+  const scale = 1 + (level - DEFAULT_COMFORT) * COMFORT_STEP;
+
+  return {
+    ...settings,
+    maxInclinePct: Math.round(settings.maxInclinePct * scale * 100) / 100,
+    minWidthM: Math.round((settings.minWidthM / scale) * 100) / 100,
+    allowStreet: settings.allowStreet && level > NO_STREET_BELOW_COMFORT,
+    maxStreetSpeedMph: settings.maxStreetSpeedMph + (level - DEFAULT_COMFORT) * SPEED_STEP_MPH,
+  };
+}
+
+/** Effective settings for a mode given its stored profile (if any). */
+export function resolveMobilitySettings(mode: string, profile?: MobilityProfile | null): MobilitySettings {
+  const seeded = applyComfort(getDefaultMobilitySettings(mode), profile?.comfort ?? DEFAULT_COMFORT);
+  return { ...seeded, ...(profile?.overrides ?? {}) };
+}
+
+/** Stored profile for a mode, or a default (comfort 5, no overrides) profile. */
+export function getMobilityProfile(user: UserProfile | null, mode: string): MobilityProfile {
+  return user?.mobilityProfiles?.[mode.toLowerCase()] ?? { comfort: DEFAULT_COMFORT, overrides: {} };
+}
+
+/** Effective settings for one of the user's modes. */
+export function getUserMobilitySettings(user: UserProfile | null, mode: string): MobilitySettings {
+  return resolveMobilitySettings(mode, getMobilityProfile(user, mode));
+}
+
+/** Return a copy of the user's profiles with one mode's profile replaced. */
+export function withMobilityProfile(
+  profiles: Record<string, MobilityProfile> | undefined,
+  mode: string,
+  profile: MobilityProfile,
+): Record<string, MobilityProfile> {
+  return { ...(profiles ?? {}), [mode.toLowerCase()]: profile };
+}
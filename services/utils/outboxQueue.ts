@@ -0,0 +1,126 @@
+// ═══════════════════════════════════════════════════════════
+// OUTBOX QUEUE
+// ═══════════════════════════════════════════════════════════
+// Ordering and retry rules for OutboxService, kept free of storage and
+// network access so they can be unit tested.
+//
+// An entry is held back while:
+// - it has failed MAX_OUTBOX_ATTEMPTS times (until retried manually),
+// - an entry it depends on is still in the outbox,
+// - its backoff delay hasn't elapsed, or
+// - its trip has no server ID yet (still recording or waiting to sync).
+// A held-back entry also holds back every later entry for the same trip,
+// so a trip's writes always reach the server in the order they were made.
+//
+// A trip its privacy level dropped never gets a server ID, so its writes
+// are discarded rather than held forever: sending them with no trip would
+// still place the user's ratings and edits along the route that was dropped.
+
+// --- Types ---
+
+export interface OutboxEntry {
+  id: string;
+  /** Trip the write belongs to; a local ID until the trip has synced. */
+  tripId: string | null;
+  /** Entries that must be sent first. */
+  dependsOn: string[];
+  attempts: number;
+  /** ISO timestamp before which the entry is not retried. */
+  nextAttemptAt: string | null;
+}
+
+// --- Constants ---
+
+export const MAX_OUTBOX_ATTEMPTS = 10;
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+// ═══════════════════════════════════════════════════════════
+// Retry
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Exponential backoff after a failed attempt: 5 s, 10 s, 20 s, … capped at 10 min.
+ *
+ * @param attempts - Failed attempts so far (≥ 1)
+ */
+export function outboxRetryDelayMs(attempts: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * Earliest time (ms) a held-back entry becomes due for a retry, or null if
+ * none is waiting on a backoff delay.
+ */
+export function nextOutboxRetryAt(entries: OutboxEntry[]): number | null {
+  const times = entries
+    .filter((e) => e.attempts < MAX_OUTBOX_ATTEMPTS && e.nextAttemptAt !== null)
+    .map((e) => Date.parse(e.nextAttemptAt as string));
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+// ═══════════════════════════════════════════════════════════
+// Ordering
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Pick the next entry to send, in outbox order.
+ *
+ * @param entries - Outbox entries, oldest first
+ * @param now - Current time in ms
+ * @param resolveTripId - Server ID for a trip, or null if it can't be sent yet
+ * @returns The entry and its resolved trip ID, or null if nothing can be sent now
+ */
+export function nextOutboxEntry<T extends OutboxEntry>(
+  entries: T[],
+  now: number,
+  resolveTripId: (tripId: string) => string | null,
+): { entry: T; tripId: string | null } | null {
+  const pendingIds = new Set(entries.map((e) => e.id));
+  const heldTrips = new Set<string>();
+
+  for (const entry of entries) {
+    if (entry.tripId !== null && heldTrips.has(entry.tripId)) continue;
+
+    const tripId = entry.tripId !== null ? resolveTripId(entry.tripId) : null;
+    const held =
+      entry.attempts >= MAX_OUTBOX_ATTEMPTS ||
+      entry.dependsOn.some((id) => pendingIds.has(id)) ||
+      (entry.nextAttemptAt !== null && Date.parse(entry.nextAttemptAt) > now) ||
+      (entry.tripId !== null && tripId === null);
+
+    if (!held) {
+      return { entry, tripId };
+    }
+    if (entry.tripId !== null) {
+      heldTrips.add(entry.tripId);
+    }
+  }
+  return null;
+}
+
+/**
+ * Entries to discard because their trip was dropped, together with any
+ * entry that depends on one of them.
+ *
+ * @param entries - Outbox entries, oldest first
+ * @param isTripDropped - Whether a local trip ID belongs to a dropped trip
+ */
+export function droppedOutboxEntries<T extends OutboxEntry>(
+  entries: T[],
+  isTripDropped: (tripId: string) => boolean,
+): T[] {
+  const droppedIds = new Set<string>();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const entry of entries) {
+      if (droppedIds.has(entry.id)) continue;
+      if ((entry.tripId !== null && isTripDropped(entry.tripId)) || entry.dependsOn.some((id) => droppedIds.has(id))) {
+        droppedIds.add(entry.id);
+        changed = true;
+      }
+    }
+  }
+  return entries.filter((entry) => droppedIds.has(entry.id));
+}
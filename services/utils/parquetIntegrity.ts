@@ -0,0 +1,106 @@
+// ═══════════════════════════════════════════════════════════
+// PARQUET INTEGRITY
+// ═══════════════════════════════════════════════════════════
+// Checks that a downloaded proximity parquet is the file that was
+// published and one this app can read. The upload script records each
+// parquet's SHA-256 and schema version in the catalog; the client hashes
+// the file as it downloads (utils/sha256) and checks that every column
+// parquetToSegments reads is in the parquet's schema.
+//
+// A file that fails is deleted and downloaded again; one built for a
+// newer schema is refused until the app is updated.
+
+// --- Types ---
+
+export type ParquetIntegrityReason =
+  | 'truncated' // Size or PAR1 magic bytes wrong
+  | 'checksum' // SHA-256 differs from the catalog
+  | 'missing_columns' // Columns parquetToSegments reads aren't in the schema
+  | 'unsupported_schema'; // Built for a newer app
+
+/** A schema element from the parquet footer, as hyparquet returns it. */
+export interface ParquetSchemaElement {
+  name: string;
+  num_children?: number;
+}
+
+/** Thrown when a downloaded parquet can't be used; `reason` says why. */
+export class ParquetIntegrityError extends Error {
+  constructor(
+    public readonly reason: ParquetIntegrityReason,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'ParquetIntegrityError';
+  }
+}
+
+// --- Constants ---
+
+/** Newest parquet schema this app reads. Bump with parquetToSegments. */
+export const PARQUET_SCHEMA_VERSION = 1;
+
+// ═══════════════════════════════════════════════════════════
+// Checks
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Column names at the top of the schema tree. The footer lists the
+ * schema depth-first, so nested groups' children are skipped over.
+ */
+export function getTopLevelColumns(schema: ParquetSchemaElement[]): string[] {
+  const columns: string[] = [];
+  let index = 1; // schema[0] is the root
+
+  const skipSubtree = () => {
+    const children = schema[index].num_children ?? 0;
+    index++;
+    for (let i = 0; i < children && index < schema.length; i++) skipSubtree();
+  };
+
+  const rootChildren = schema[0]?.num_children ?? 0;
+  for (let i = 0; i < rootChildren && index < schema.length; i++) {
+    columns.push(schema[index].name);
+    skipSubtree();
+  }
+  return columns;
+}
+
+/** Required columns the parquet doesn't have. */
+export function findMissingColumns(schema: ParquetSchemaElement[], required: string[]): string[] {
+  const present = new Set(getTopLevelColumns(schema));
+  return required.filter((column) => !present.has(column));
+}
+
+/**
+ * Whether this app can read a parquet built with the given schema
+ * version. Parquets published before versions were recorded are v1.
+ */
+export function isSchemaSupported(schemaVersion: number | null): boolean {
+  return (schemaVersion ?? 1) <= PARQUET_SCHEMA_VERSION;
+}
+
+/**
+ * @throws ParquetIntegrityError if the digest isn't the published one
+ */
+export function assertChecksum(actualSha256: string, expectedSha256: string, fileName: string): void {
+  if (actualSha256.toLowerCase() !== expectedSha256.toLowerCase()) {
+    throw new ParquetIntegrityError(
+      'checksum',
+      `${fileName} failed verification: SHA-256 ${actualSha256.slice(0, 12)}… does not match ${expectedSha256.slice(0, 12)}…`
+    );
+  }
+}
+
+/**
+ * @throws ParquetIntegrityError if any required column is missing
+ */
+export function assertRequiredColumns(schema: ParquetSchemaElement[], required: string[], fileName: string): void {
+  const missing = findMissingColumns(schema, required);
+  if (missing.length > 0) {
+    throw new ParquetIntegrityError(
+      'missing_columns',
+      `${fileName} is missing ${missing.length} required column(s): ${missing.slice(0, 5).join(', ')}${missing.length > 5 ? ', …' : ''}`
+    );
+  }
+}
@@ -229,6 +229,8 @@ function firstCoord(geom: Geometry): unknown {
   }
 }
 
+// Only older San Francisco builds shipped UTM, so the conversion assumes
+// zone 10N; region packs elsewhere store WGS84.
 function maybeConvertToWgs84(geom: Geometry): Geometry {
   return isLikelyWgs84(firstCoord(geom)) ? geom : convertGeometryToWgs84(geom);
 }
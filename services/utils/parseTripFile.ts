@@ -0,0 +1,242 @@
+// ═══════════════════════════════════════════════════════════
+// PARSE TRIP FILE
+// ═══════════════════════════════════════════════════════════
+// Parses tracks recorded by other apps (GPX 1.0/1.1 tracks and routes,
+// GeoJSON LineStrings / MultiLineStrings) into ImportedTracks that
+// ImportService turns into trips.
+//
+// Timestamps are converted to the trip model: an absolute start time
+// (used only for time-of-day binning, never stored) plus seconds since
+// the start for each point (relativeTimes). Points missing a timestamp
+// are interpolated between their neighbours.
+//
+// Coordinates throughout are [longitude, latitude] (GeoJSON order).
+
+// --- Types ---
+
+export interface ImportedTrack {
+  name: string | null;
+  coordinates: [number, number][];
+  /** ISO timestamp of the first point, or null if the file has no absolute times. */
+  startTime: string | null;
+  /** Seconds since the first point, one per coordinate, or null if the file has no times. */
+  relativeTimes: number[] | null;
+}
+
+export type TripFileFormat = 'gpx' | 'geojson';
+
+interface RawPoint {
+  lon: number;
+  lat: number;
+  timeMs: number | null; // Absolute time
+  relativeS: number | null; // Relative time (RollTracks exports)
+}
+
+// ═══════════════════════════════════════════════════════════
+// Timestamps
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Fill missing values by linear interpolation over point index; leading and
+ * trailing gaps take the nearest known value. Returns null if none are known.
+ */
+export function interpolateTimes(times: (number | null)[]): number[] | null {
+  const known = times.map((t, i) => (t === null ? -1 : i)).filter((i) => i >= 0);
+  if (known.length === 0) return null;
+
+  return times.map((t, i) => {
+    if (t !== null) return t;
+    const next = known.find((k) => k > i);
+    const prev = [...known].reverse().find((k) => k < i);
+    if (prev === undefined) return times[next!] as number;
+    if (next === undefined) return times[prev] as number;
+    const a = times[prev] as number;
+    const b = times[next] as number;
+    return a + ((b - a) * (i - prev)) / (next - prev);
+  });
+}
+
+function parseTime(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const ms = Date.parse(value.trim());
+  return Number.isNaN(ms) ? null : ms;
+}
+
+function isValidCoordinate(lon: number, lat: number): boolean {
+  return Number.isFinite(lon) && Number.isFinite(lat) && Math.abs(lon) <= 180 && Math.abs(lat) <= 90;
+}
+
+/** Convert raw points to a track, preferring absolute times over relative ones. */
+function toTrack(name: string | null, points: RawPoint[]): ImportedTrack | null {
+  const valid = points.filter((p) => isValidCoordinate(p.lon, p.lat));
+  if (valid.length < 2) return null;
+
+  const coordinates = valid.map((p) => [p.lon, p.lat] as [number, number]);
+  const absolute = interpolateTimes(valid.map((p) => p.timeMs));
+
+  if (absolute) {
+    const start = absolute[0];
+    let last = 0;
+    // Clamp so out-of-order fixes never make time run backwards
+    const relativeTimes = absolute.map((t) => (last = Math.max(last, Math.round((t - start) / 1000))));
+    return { name, coordinates, startTime: new Date(start).toISOString(), relativeTimes };
+  }
+
+  const relative = interpolateTimes(valid.map((p) => p.relativeS));
+  return { name, coordinates, startTime: null, relativeTimes: relative };
+}
+
+// ═══════════════════════════════════════════════════════════
+// GPX
+// ═══════════════════════════════════════════════════════════
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function xmlAttribute(attributes: string, name: string): number {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`));
+  return match ? parseFloat(match[1]) : NaN;
+}
+
+function xmlChild(body: string, tag: string): string | null {
+  // Matches the tag with any namespace prefix (e.g. <rt:relativeTime>)
+  const match = body.match(new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`));
+  return match ? decodeXml(match[1]) : null;
+}
+
+function gpxPoints(body: string, tag: 'trkpt' | 'rtept'): RawPoint[] {
+  const points: RawPoint[] = [];
+  const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, 'g');
+
+  for (const match of body.matchAll(pattern)) {
+    const inner = match[2] ?? '';
+    const relative = xmlChild(inner, 'relativeTime');
+    points.push({
+      lon: xmlAttribute(match[1], 'lon'),
+      lat: xmlAttribute(match[1], 'lat'),
+      timeMs: parseTime(xmlChild(inner, 'time')),
+      relativeS: relative !== null && relative !== '' ? Number(relative) : null,
+    });
+  }
+  return points;
+}
+
+/** One track per <trk> (segments joined), or per <rte> if the file has no tracks. */
+export function parseGPX(xml: string): ImportedTrack[] {
+  if (!/<gpx\b/.test(xml)) {
+    throw new Error('Not a GPX file');
+  }
+
+  const tracks: ImportedTrack[] = [];
+  for (const [tag, pointTag] of [['trk', 'trkpt'], ['rte', 'rtept']] as const) {
+    for (const match of xml.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, 'g'))) {
+      const body = match[1];
+      // The track's own <name> precedes its points
+      const header = body.split(new RegExp(`<(?:trkseg|${pointTag})\\b`))[0];
+      const track = toTrack(xmlChild(header, 'name'), gpxPoints(body, pointTag));
+      if (track) tracks.push(track);
+    }
+    if (tracks.length > 0) break;
+  }
+  return tracks;
+}
+
+// ═══════════════════════════════════════════════════════════
+// GeoJSON
+// ═══════════════════════════════════════════════════════════
+
+function numberArray(value: unknown): (number | null)[] | null {
+  if (!Array.isArray(value)) return null;
+  return value.flat().map((v) => (typeof v === 'number' && Number.isFinite(v) ? v : null));
+}
+
+function geoJSONFeatureTrack(feature: GeoJSON.Feature): ImportedTrack | null {
+  const geometry = feature.geometry;
+  let positions: GeoJSON.Position[];
+  if (geometry?.type === 'LineString') positions = geometry.coordinates;
+  else if (geometry?.type === 'MultiLineString') positions = geometry.coordinates.flat();
+  else return null;
+
+  const properties = feature.properties ?? {};
+  // coordTimes (toGeoJSON / Strava convention) or times: ISO strings or epoch ms,
+  // nested per line for MultiLineStrings. relativeTimes: RollTracks exports.
+  const absoluteSource = properties.coordTimes ?? properties.times;
+  const absolute = Array.isArray(absoluteSource) ? absoluteSource.flat().map(parseTime) : null;
+  const relative = numberArray(properties.relativeTimes);
+
+  const points: RawPoint[] = positions.map((position, i) => ({
+    lon: position[0],
+    lat: position[1],
+    timeMs: absolute?.length === positions.length ? absolute[i] : null,
+    relativeS: relative?.length === positions.length ? relative[i] : null,
+  }));
+
+  const name = typeof properties.name === 'string' ? properties.name : null;
+  return toTrack(name, points);
+}
+
+/** One track per LineString / MultiLineString feature. */
+export function parseGeoJSON(json: string): ImportedTrack[] {
+  let data: GeoJSON.GeoJSON;
+  try {
+    data = JSON.parse(json) as GeoJSON.GeoJSON;
+  } catch {
+    throw new Error('Not a valid GeoJSON file');
+  }
+
+  let features: GeoJSON.Feature[];
+  if (data.type === 'FeatureCollection') features = data.features;
+  else if (data.type === 'Feature') features = [data];
+  else if (data.type === 'LineString' || data.type === 'MultiLineString') {
+    features = [{ type: 'Feature', geometry: data, properties: {} }];
+  } else {
+    features = [];
+  }
+
+  return features
+    .map(geoJSONFeatureTrack)
+    .filter((track): track is ImportedTrack => track !== null);
+}
+
+// ═══════════════════════════════════════════════════════════
+// Entry point
+// ═══════════════════════════════════════════════════════════
+
+/** Detect the format from the file extension, falling back to the content. */
+export function detectTripFileFormat(content: string, fileName?: string): TripFileFormat | null {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'gpx') return 'gpx';
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+
+  const start = content.trimStart();
+  if (start.startsWith('<')) return 'gpx';
+  if (start.startsWith('{')) return 'geojson';
+  return null;
+}
+
+/**
+ * Parse a GPX or GeoJSON file into tracks.
+ *
+ * @throws If the format is unsupported or the file contains no usable track
+ */
+export function parseTripFile(content: string, fileName?: string): ImportedTrack[] {
+  const format = detectTripFileFormat(content, fileName);
+  if (!format) {
+    throw new Error('Unsupported file. Choose a GPX or GeoJSON file.');
+  }
+
+  const tracks = format === 'gpx' ? parseGPX(content) : parseGeoJSON(content);
+  if (tracks.length === 0) {
+    throw new Error('No tracks with at least two points were found in this file.');
+  }
+  return tracks;
+}
@@ -0,0 +1,153 @@
+// ═══════════════════════════════════════════════════════════
+// PROXIMITY MANIFEST
+// ═══════════════════════════════════════════════════════════
+// Delta updates for the proximity network parquet. Alongside the full
+// parquet, each pipeline build publishes one small parquet per grid cell
+// and a manifest listing every cell's SHA-256. Chunks are stored by hash
+// (cells/<sha256>.parquet, next to the full parquet), so a cell that
+// didn't change keeps its path across builds and old manifests stay
+// valid while a new one rolls out.
+//
+// The device keeps the manifest of what it has installed: the base
+// parquet plus the cells it has since patched from chunks. On an update
+// it fetches only the cells whose hash changed, verifies each against
+// the manifest, and serves those cells from the chunk files instead of
+// the base parquet. A change of grid, or a delta close to the size of
+// the full file, falls back to downloading the full parquet.
+
+// --- Types ---
+
+export interface ManifestCell {
+  sha256: string; // Lowercase hex digest of the cell's chunk file
+  bytes: number;
+}
+
+export interface ProximityManifest {
+  /** Build timestamp; matches asset_metadata.last_updated for the build. */
+  version: string;
+  gridOrigin: { x: number; y: number; cellSize: number };
+  /** "col_row" → chunk. A cell missing from the manifest has no segments. */
+  cells: Record<string, ManifestCell>;
+}
+
+/** The manifest as installed on the device. */
+export interface InstalledManifest extends ProximityManifest {
+  /** Cells served from downloaded chunks instead of the base parquet: "col_row" → sha256. */
+  chunks: Record<string, string>;
+}
+
+export interface ManifestDiff {
+  added: string[];
+  changed: string[];
+  removed: string[];
+  /** Total size of the chunks to download. */
+  downloadBytes: number;
+}
+
+// --- Constants ---
+
+/** Above this share of the full build, re-download the parquet instead. */
+export const DELTA_MAX_FRACTION = 0.5;
+
+// ═══════════════════════════════════════════════════════════
+// Manifest
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Validate a manifest fetched from storage. The pipeline writes
+ * snake_case (`grid_origin.cell_size`); both spellings are accepted.
+ *
+ * @throws Error if the manifest is malformed
+ */
+export function parseManifest(json: unknown): ProximityManifest {
+  const raw = json as Record<string, any> | null;
+  const origin = raw?.gridOrigin ?? raw?.grid_origin;
+  const cells = raw?.cells;
+
+  if (!raw || typeof raw.version !== 'string' || Number.isNaN(Date.parse(raw.version))) {
+    throw new Error('Proximity manifest has no valid version');
+  }
+  if (!origin || typeof origin.x !== 'number' || typeof origin.y !== 'number') {
+    throw new Error('Proximity manifest has no grid origin');
+  }
+  if (!cells || typeof cells !== 'object') {
+    throw new Error('Proximity manifest has no cells');
+  }
+
+  const parsed: Record<string, ManifestCell> = {};
+  for (const [key, cell] of Object.entries(cells as Record<string, any>)) {
+    if (!/^-?\d+_-?\d+$/.test(key) || typeof cell?.sha256 !== 'string' || !/^[0-9a-f]{64}$/i.test(cell.sha256)) {
+      throw new Error(`Proximity manifest has an invalid entry for cell ${key}`);
+    }
+    parsed[key] = { sha256: cell.sha256.toLowerCase(), bytes: Number(cell.bytes) || 0 };
+  }
+
+  return {
+    version: raw.version,
+    gridOrigin: { x: origin.x, y: origin.y, cellSize: origin.cellSize ?? origin.cell_size ?? 500 },
+    cells: parsed,
+  };
+}
+
+/** Cell keys are only comparable between builds on the same grid. */
+export function isSameGrid(a: ProximityManifest, b: ProximityManifest): boolean {
+  return a.gridOrigin.x === b.gridOrigin.x
+    && a.gridOrigin.y === b.gridOrigin.y
+    && a.gridOrigin.cellSize === b.gridOrigin.cellSize;
+}
+
+/**
+ * Cells that differ between the installed build and a newer one.
+ */
+export function diffManifests(installed: ProximityManifest, remote: ProximityManifest): ManifestDiff {
+  const diff: ManifestDiff = { added: [], changed: [], removed: [], downloadBytes: 0 };
+
+  for (const [key, cell] of Object.entries(remote.cells)) {
+    const current = installed.cells[key];
+    if (current?.sha256 === cell.sha256) continue;
+    (current ? diff.changed : diff.added).push(key);
+    diff.downloadBytes += cell.bytes;
+  }
+  for (const key of Object.keys(installed.cells)) {
+    if (!(key in remote.cells)) diff.removed.push(key);
+  }
+
+  return diff;
+}
+
+/**
+ * Whether the delta is big enough that downloading the full parquet is
+ * the better deal.
+ */
+export function shouldDownloadFull(diff: ManifestDiff, remote: ProximityManifest): boolean {
+  const totalBytes = Object.values(remote.cells).reduce((sum, cell) => sum + cell.bytes, 0);
+  return totalBytes > 0 && diff.downloadBytes > totalBytes * DELTA_MAX_FRACTION;
+}
+
+/**
+ * The installed manifest after patching `diff`: cells from the remote
+ * build, with added and changed cells now served from their chunks.
+ */
+export function applyManifestDiff(installed: InstalledManifest, remote: ProximityManifest, diff: ManifestDiff): InstalledManifest {
+  const chunks = { ...installed.chunks };
+  for (const key of [...diff.added, ...diff.changed]) {
+    chunks[key] = remote.cells[key].sha256;
+  }
+  for (const key of diff.removed) {
+    delete chunks[key];
+  }
+  return { ...remote, chunks };
+}
+
+// ═══════════════════════════════════════════════════════════
+// Chunks
+// ═══════════════════════════════════════════════════════════
+
+/** Storage path of a cell's chunk, relative to the proximity asset folder. */
+export function getChunkPath(sha256: string): string {
+  return `cells/${sha256}.parquet`;
+}
+
+export function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,59 @@
+// ═══════════════════════════════════════════════════════════
+// REGION PACKS
+// ═══════════════════════════════════════════════════════════
+// Helpers for choosing between region packs: downloadable areas of the
+// proximity network, each with its own parquet, grid and UTM zone
+// (see RegionPackService).
+//
+// Cell keys ("col_row") are only unique within a pack, so anything
+// cached per cell across packs is keyed with packCellKey().
+
+import type { RegionPack } from '@/adapters/DatabaseAdapter';
+import type { UtmZone } from './gridProjection';
+
+// --- Types ---
+
+export interface BBox {
+  minLon: number;
+  minLat: number;
+  maxLon: number;
+  maxLat: number;
+}
+
+type PackArea = Pick<RegionPack, 'bbox'>;
+
+// ═══════════════════════════════════════════════════════════
+// Coverage
+// ═══════════════════════════════════════════════════════════
+
+export function bboxIntersects(a: BBox, b: BBox): boolean {
+  return a.minLon <= b.maxLon && a.maxLon >= b.minLon
+    && a.minLat <= b.maxLat && a.maxLat >= b.minLat;
+}
+
+/**
+ * Packs whose area overlaps the bounding box (e.g. the viewport).
+ */
+export function getPacksForBbox<T extends PackArea>(packs: T[], bbox: BBox): T[] {
+  return packs.filter((pack) => bboxIntersects(pack.bbox, bbox));
+}
+
+// ═══════════════════════════════════════════════════════════
+// Packs
+// ═══════════════════════════════════════════════════════════
+
+export function getPackUtmZone(pack: Pick<RegionPack, 'utmZone' | 'utmHemisphere'>): UtmZone {
+  return { zone: pack.utmZone, hemisphere: pack.utmHemisphere };
+}
+
+/**
+ * Whether the catalog has a newer build than the one installed.
+ */
+export function isPackOutdated(installedVersion: string, catalogPack: Pick<RegionPack, 'lastUpdated'>): boolean {
+  return new Date(catalogPack.lastUpdated).getTime() > new Date(installedVersion).getTime();
+}
+
+/** Key for a cell of a given pack, unique across packs. */
+export function packCellKey(packId: string, cellKey: string): string {
+  return `${packId}:${cellKey}`;
+}
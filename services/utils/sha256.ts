@@ -0,0 +1,127 @@
+// ═══════════════════════════════════════════════════════════
+// SHA-256 (INCREMENTAL)
+// ═══════════════════════════════════════════════════════════
+// FIPS 180-4 SHA-256 fed in chunks, for hashing files too large to hold
+// in memory (the proximity parquet is read or downloaded a few MB at a
+// time). expo-crypto only digests a whole buffer at once.
+
+// --- Constants ---
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const INITIAL_STATE = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+
+const BLOCK_BYTES = 64;
+
+// ═══════════════════════════════════════════════════════════
+// Hasher
+// ═══════════════════════════════════════════════════════════
+
+export class Sha256 {
+  private state = new Uint32Array(INITIAL_STATE);
+  private block = new Uint8Array(BLOCK_BYTES);
+  private blockLength = 0;
+  private totalBytes = 0;
+  private words = new Uint32Array(64);
+  private finished = false;
+
+  /** Add the next chunk of input. */
+  update(data: Uint8Array): this {
+    if (this.finished) throw new Error('SHA-256 already finalized');
+    this.totalBytes += data.length;
+
+    let offset = 0;
+    if (this.blockLength > 0) {
+      const take = Math.min(BLOCK_BYTES - this.blockLength, data.length);
+      this.block.set(data.subarray(0, take), this.blockLength);
+      this.blockLength += take;
+      offset = take;
+      if (this.blockLength < BLOCK_BYTES) return this;
+      this.compress(this.block, 0);
+      this.blockLength = 0;
+    }
+
+    for (; offset + BLOCK_BYTES <= data.length; offset += BLOCK_BYTES) {
+      this.compress(data, offset);
+    }
+    if (offset < data.length) {
+      this.block.set(data.subarray(offset));
+      this.blockLength = data.length - offset;
+    }
+    return this;
+  }
+
+  /** Finish hashing and return the digest as lowercase hex. */
+  hex(): string {
+    if (this.finished) throw new Error('SHA-256 already finalized');
+    this.finished = true;
+
+    const bitLength = this.totalBytes * 8;
+    this.block[this.blockLength++] = 0x80;
+    if (this.blockLength > BLOCK_BYTES - 8) {
+      this.block.fill(0, this.blockLength);
+      this.compress(this.block, 0);
+      this.blockLength = 0;
+    }
+    this.block.fill(0, this.blockLength);
+    // Length in bits, big-endian; split since bit operators are 32-bit
+    const view = new DataView(this.block.buffer);
+    view.setUint32(BLOCK_BYTES - 8, Math.floor(bitLength / 0x100000000));
+    view.setUint32(BLOCK_BYTES - 4, bitLength >>> 0);
+    this.compress(this.block, 0);
+
+    return Array.from(this.state, (word) => word.toString(16).padStart(8, '0')).join('');
+  }
+
+  private compress(data: Uint8Array, offset: number): void {
+    const w = this.words;
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const w15 = w[i - 15];
+      const w2 = w[i - 2];
+      const s0 = ((w15 >>> 7) | (w15 << 25)) ^ ((w15 >>> 18) | (w15 << 14)) ^ (w15 >>> 3);
+      const s1 = ((w2 >>> 17) | (w2 << 15)) ^ ((w2 >>> 19) | (w2 << 13)) ^ (w2 >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = this.state;
+    for (let i = 0; i < 64; i++) {
+      const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + S1 + ch + K[i] + w[i]) | 0;
+      const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    const s = this.state;
+    s[0] += a;
+    s[1] += b;
+    s[2] += c;
+    s[3] += d;
+    s[4] += e;
+    s[5] += f;
+    s[6] += g;
+    s[7] += h;
+  }
+}
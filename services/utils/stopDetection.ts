@@ -0,0 +1,96 @@
+// ═══════════════════════════════════════════════════════════
+// STOP DETECTION
+// ═══════════════════════════════════════════════════════════
+// On-device motion state detector used while a trip is recording. A stop
+// is the trailing run of points that never move further from the latest
+// point than GPS noise can explain; once it lasts long enough the user is
+// offered to pause, and later to end the trip.
+//
+// Location updates are distance-filtered, so a stationary device may stop
+// reporting altogether: the stop duration runs to `nowS`, not to the last
+// point's time.
+//
+// Coordinates throughout are [longitude, latitude] (GeoJSON order) and
+// times are seconds since trip start (matching relativeTimes).
+
+import { TrackPoint } from './cleanGPSTrack';
+import { haversineDistance } from './geoDistance';
+
+// --- Types ---
+
+export interface StopDetectionConfig {
+  /** Smallest displacement (m) that counts as movement, whatever the reported accuracy. */
+  minStopRadiusM: number;
+  /** Displacement within this multiple of the reported accuracy radius is treated as noise. */
+  accuracyMultiplier: number;
+  /** Fixes less accurate than this (m) are ignored; they neither start nor break a stop. */
+  maxAccuracyM: number;
+  /** Stop duration (s) after which pausing the trip is suggested. */
+  pauseAfterS: number;
+  /** Stop duration (s) after which ending the trip is suggested. */
+  endAfterS: number;
+}
+
+export type MotionState = 'moving' | 'suggest_pause' | 'suggest_end';
+
+export interface StopDetectionResult {
+  state: MotionState;
+  /** Seconds since the stop began; 0 when there are no usable points. */
+  stoppedForS: number;
+  /** Time (s since trip start) of the first point of the stop, or null if there is none. */
+  stopStartS: number | null;
+}
+
+// --- Constants ---
+
+export const DEFAULT_STOP_DETECTION_CONFIG: StopDetectionConfig = {
+  minStopRadiusM: 25,
+  accuracyMultiplier: 2,
+  maxAccuracyM: 100,
+  pauseAfterS: 3 * 60,
+  endAfterS: 10 * 60,
+};
+
+// ═══════════════════════════════════════════════════════════
+// Detection
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Classify the motion state at `nowS` from the points recorded so far.
+ *
+ * @param points - Recorded points, oldest first
+ * @param nowS - Current time in seconds since trip start
+ * @param config - Thresholds (defaults to DEFAULT_STOP_DETECTION_CONFIG)
+ * @param sinceS - Time recording last (re)started; a stop is not counted from before it
+ */
+export function detectStop(
+  points: TrackPoint[],
+  nowS: number,
+  config: StopDetectionConfig = DEFAULT_STOP_DETECTION_CONFIG,
+  sinceS: number = 0,
+): StopDetectionResult {
+  const usable = points.filter((p) => p.accuracy === null || p.accuracy <= config.maxAccuracyM);
+  if (usable.length === 0) {
+    return { state: 'moving', stoppedForS: 0, stopStartS: null };
+  }
+
+  const anchor = usable[usable.length - 1];
+  let stopStart = anchor;
+
+  for (let i = usable.length - 2; i >= 0; i--) {
+    const point = usable[i];
+    const noiseM = Math.max(point.accuracy ?? 0, anchor.accuracy ?? 0) * config.accuracyMultiplier;
+    if (haversineDistance(point.lat, point.lon, anchor.lat, anchor.lon) > Math.max(config.minStopRadiusM, noiseM)) {
+      break;
+    }
+    stopStart = point;
+  }
+
+  const stopStartS = Math.max(stopStart.t, sinceS);
+  const stoppedForS = Math.max(0, nowS - stopStartS);
+  let state: MotionState = 'moving';
+  if (stoppedForS >= config.endAfterS) state = 'suggest_end';
+  else if (stoppedForS >= config.pauseAfterS) state = 'suggest_pause';
+
+  return { state, stoppedForS, stopStartS };
+}
@@ -0,0 +1,209 @@
+// ═══════════════════════════════════════════════════════════
+// TIME BINS
+// ═══════════════════════════════════════════════════════════
+// Coarse time categories stored with each trip in place of its start
+// time. DatabaseAdapter bins the startTime handed to writeTrip and never
+// stores the timestamp itself.
+//
+// Bins are taken in the time zone of the trip's origin, so a trip just
+// before midnight or recorded while travelling lands in the same bin as
+// a local's. Weekends and the public holidays of the origin's calendar
+// count as non-weekdays. The bin boundaries and holiday calendars live in
+// constants/timeBins.json, shared with analysis tools; the time zone and
+// calendar of a region come from its region pack.
+
+import type { TimeOfDayBin } from '@/adapters/DatabaseAdapter';
+import config from '@/constants/timeBins.json';
+
+// --- Types ---
+
+export interface TimeOfDayBoundary {
+  bin: TimeOfDayBin;
+  startHour: number; // Local hour the bin starts at; it runs until the next bin's
+}
+
+/**
+ * A fixed date (moved to the nearest weekday when `observed`, as US
+ * federal holidays are), or the nth weekday of a month (-1 for the last).
+ */
+export type HolidayRule =
+  | { name: string; month: number; day: number; observed?: boolean }
+  | { name: string; month: number; weekday: number; nth: number }; // weekday: 0 = Sunday
+
+export interface HolidayCalendar {
+  name: string;
+  holidays: HolidayRule[];
+  dates: string[]; // One-off holidays, as YYYY-MM-DD
+}
+
+export interface BinningOptions {
+  /** IANA time zone of the trip's origin. The device's zone if missing or unknown. */
+  timeZone?: string | null;
+  /** Key in HOLIDAY_CALENDARS. No holidays if missing or unknown. */
+  holidayCalendar?: string | null;
+}
+
+interface LocalTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number; // 0-23
+  weekday: number; // 0 = Sunday
+}
+
+// --- Constants ---
+
+/** Time of day bins in order, from constants/timeBins.json. */
+export const TIME_OF_DAY_BINS = config.timeOfDay as TimeOfDayBoundary[];
+
+/** Public holiday calendars by key, from constants/timeBins.json. */
+export const HOLIDAY_CALENDARS = config.holidayCalendars as Record<string, HolidayCalendar>;
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+const holidayCache: Map<string, Set<string>> = new Map(); // "<calendar>:<year>" → YYYY-MM-DD
+
+// ═══════════════════════════════════════════════════════════
+// Local time
+// ═══════════════════════════════════════════════════════════
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    // Throws RangeError for an unknown zone
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock date and hour of an instant in a time zone, or on the
+ * device's clock without one.
+ */
+function getLocalTime(timestamp: string, timeZone?: string | null): LocalTime {
+  const date = new Date(timestamp);
+
+  if (timeZone) {
+    try {
+      const parts = Object.fromEntries(
+        getFormatter(timeZone).formatToParts(date).map((part) => [part.type, part.value]),
+      );
+      return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        hour: Number(parts.hour) % 24,
+        weekday: WEEKDAY_NAMES.indexOf(parts.weekday),
+      };
+    } catch (error) {
+      console.warn(`[timeBins] Can't bin in time zone ${timeZone}, using the device's:`, error);
+    }
+  }
+
+  return {
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    hour: date.getHours(),
+    weekday: date.getDay(),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════
+// Holidays
+// ═══════════════════════════════════════════════════════════
+
+const dateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+/** Dates of one rule in a year, as UTC midnights: the holiday and, if different, its observed day. */
+function ruleDates(rule: HolidayRule, year: number): Date[] {
+  if ('day' in rule) {
+    const date = new Date(Date.UTC(year, rule.month - 1, rule.day));
+    if (!rule.observed) return [date];
+    const weekday = date.getUTCDay();
+    const shift = weekday === 6 ? -1 : weekday === 0 ? 1 : 0; // Saturday → Friday, Sunday → Monday
+    return shift === 0 ? [date] : [date, new Date(Date.UTC(year, rule.month - 1, rule.day + shift))];
+  }
+
+  if (rule.nth > 0) {
+    const firstWeekday = new Date(Date.UTC(year, rule.month - 1, 1)).getUTCDay();
+    const day = 1 + ((rule.weekday - firstWeekday + 7) % 7) + (rule.nth - 1) * 7;
+    return [new Date(Date.UTC(year, rule.month - 1, day))];
+  }
+
+  const last = new Date(Date.UTC(year, rule.month, 0)); // Day 0 of next month
+  const day = last.getUTCDate() - ((last.getUTCDay() - rule.weekday + 7) % 7);
+  return [new Date(Date.UTC(year, rule.month - 1, day))];
+}
+
+function holidaySet(calendarKey: string, year: number): Set<string> {
+  const cacheKey = `${calendarKey}:${year}`;
+  let dates = holidayCache.get(cacheKey);
+  if (!dates) {
+    const calendar = HOLIDAY_CALENDARS[calendarKey];
+    const ruleKeys = (calendar?.holidays ?? [])
+      .flatMap((rule) => [...ruleDates(rule, year), ...ruleDates(rule, year + 1)])
+      .map(dateKey);
+    dates = new Set([...ruleKeys, ...(calendar?.dates ?? [])].filter((date) => date.startsWith(`${year}-`)));
+    holidayCache.set(cacheKey, dates);
+  }
+  return dates;
+}
+
+/**
+ * Holidays of a calendar falling in a year, as sorted YYYY-MM-DD dates.
+ * Includes observed days, even when observed from the next year's date
+ * (New Year's Day on a Saturday is observed on December 31).
+ */
+export function getHolidayDates(calendarKey: string, year: number): string[] {
+  return [...holidaySet(calendarKey, year)].sort();
+}
+
+function isHoliday(local: LocalTime, calendarKey: string | null | undefined): boolean {
+  if (!calendarKey) return false;
+  if (!HOLIDAY_CALENDARS[calendarKey]) {
+    console.warn(`[timeBins] Unknown holiday calendar ${calendarKey}, ignoring holidays`);
+    return false;
+  }
+  const key = `${local.year}-${String(local.month).padStart(2, '0')}-${String(local.day).padStart(2, '0')}`;
+  return holidaySet(calendarKey, local.year).has(key);
+}
+
+// ═══════════════════════════════════════════════════════════
+// Binning
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Bin a timestamp into a time of day category (see TIME_OF_DAY_BINS):
+ * late_night 00–05, early_morning 05–07, morning_rush 07–10, midday
+ * 10–16, evening_rush 16–19, evening 19–22, night 22–24.
+ */
+export function getTimeOfDayBin(timestamp: string, options: BinningOptions = {}): TimeOfDayBin {
+  const { hour } = getLocalTime(timestamp, options.timeZone);
+  let bin = TIME_OF_DAY_BINS[0].bin;
+  for (const boundary of TIME_OF_DAY_BINS) {
+    if (hour >= boundary.startHour) bin = boundary.bin;
+  }
+  return bin;
+}
+
+/**
+ * Determine if a timestamp is a weekday or weekend/holiday.
+ * Returns 1 for weekdays (Mon-Fri), 0 for weekends (Sat-Sun) and the
+ * holidays of `options.holidayCalendar`.
+ */
+export function getWeekdayBin(timestamp: string, options: BinningOptions = {}): number {
+  const local = getLocalTime(timestamp, options.timeZone);
+  if (local.weekday === 0 || local.weekday === 6) return 0;
+  return isHoliday(local, options.holidayCalendar) ? 0 : 1;
+}
@@ -0,0 +1,370 @@
+// ═══════════════════════════════════════════════════════════
+// TOPOLOGY VALIDATION
+// ═══════════════════════════════════════════════════════════
+// Checks a geometry edit against the loaded NetworkSegment graph before
+// it is queued, so the user hears about a broken edit while still on
+// the spot rather than when the server marks it rejected or conflict.
+//
+// Errors block the edit; warnings are shown but the edit goes through.
+// Checks that need a segment which isn't loaded are skipped with a
+// warning: the server pipeline still has the final say.
+//
+// Payloads arrive either in the typed shapes from types/NetworkSegment
+// or as raw @proximity/shared changesets (snake_case), so both are read.
+//
+// Coordinates throughout are [longitude, latitude] (GeoJSON order).
+
+import type { CurbRampSlot, GeometryEditPayload, NetworkSegment } from '@/services/types/NetworkSegment';
+
+// --- Types ---
+
+export type TopologyIssueCode =
+  | 'segment_not_loaded'
+  | 'dangling_endpoint'
+  | 'merge_same_segment'
+  | 'merge_no_shared_node'
+  | 'merge_at_intersection'
+  | 'segment_too_short'
+  | 'self_intersection'
+  | 'crosswalk_same_ramp'
+  | 'crosswalk_same_side'
+  | 'split_near_node'
+  | 'split_off_segment';
+
+export interface TopologyIssue {
+  severity: 'error' | 'warning';
+  code: TopologyIssueCode;
+  message: string; // Short enough to show inline in a callout
+  streetGridIds?: string[];
+  coord?: [number, number]; // Where the problem is, for a map marker
+}
+
+/** Looks up shared endpoints; DataRangerService.getSegmentPairInfo fits this shape. */
+export type SegmentPairInfoProvider = (
+  seg1Id: string,
+  seg2Id: string,
+) => { sharedNodeId: string | null; sharedCoord: [number, number] | null } | null;
+
+export interface TopologyContext {
+  segments: NetworkSegment[];
+  getSegmentPairInfo: SegmentPairInfoProvider;
+}
+
+type Coord = [number, number];
+
+/** Thrown when a geometry edit fails validation; carries every issue found. */
+export class TopologyValidationError extends Error {
+  constructor(public readonly issues: TopologyIssue[]) {
+    super(issues.find((i) => i.severity === 'error')?.message ?? 'Geometry edit failed validation');
+    this.name = 'TopologyValidationError';
+  }
+}
+
+// --- Constants ---
+
+/** Splits closer than this to an existing node would leave a sliver segment (m). */
+export const MIN_SPLIT_NODE_DISTANCE_M = 3;
+
+/** A split point further than this from the street isn't on it (m). */
+export const MAX_SPLIT_OFFSET_M = 15;
+
+/** Endpoints closer than this (degrees, ~1 m) are the same node. */
+const ENDPOINT_TOLERANCE = 0.00001;
+
+const METERS_PER_DEG_LAT = 111_320;
+
+// ═══════════════════════════════════════════════════════════
+// Validation
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Check a geometry edit against the loaded graph.
+ *
+ * @returns Issues found, errors first; empty if the edit looks sound
+ */
+export function validateGeometryEdit(edit: GeometryEditPayload, context: TopologyContext): TopologyIssue[] {
+  const payload = edit.payload as unknown as Record<string, any>;
+  const segments = new Map(context.segments.map((s) => [s.streetGridId, s]));
+
+  let issues: TopologyIssue[];
+  switch (edit.editType) {
+    case 'move_endpoint':
+      issues = validateMoveEndpoint(payload, context.segments);
+      break;
+    case 'merge_segments':
+      issues = validateMerge(payload, segments, context);
+      break;
+    case 'draw_segment':
+      issues = validateDrawSegment(payload);
+      break;
+    case 'draw_crosswalk':
+      issues = validateCrosswalk(payload, context.segments);
+      break;
+    case 'split_segment':
+      issues = validateSplit(payload, edit.streetGridId, segments);
+      break;
+    default:
+      issues = [];
+  }
+
+  return [...issues.filter((i) => i.severity === 'error'), ...issues.filter((i) => i.severity === 'warning')];
+}
+
+export function hasTopologyErrors(issues: TopologyIssue[]): boolean {
+  return issues.some((i) => i.severity === 'error');
+}
+
+// ═══════════════════════════════════════════════════════════
+// Checks
+// ═══════════════════════════════════════════════════════════
+
+/**
+ * Every segment meeting at the moved node has to move with it; one left
+ * behind ends at a point nothing connects to any more.
+ */
+function validateMoveEndpoint(payload: Record<string, any>, segments: NetworkSegment[]): TopologyIssue[] {
+  const nodeId = payload.nodeId ?? payload.node_id;
+  const oldCoord: Coord | undefined = payload.oldCoord;
+  const newCoord: Coord | undefined = payload.newCoord ?? (payload.new_x !== undefined ? [payload.new_x, payload.new_y] : undefined);
+  const rubberBand: string[] = payload.rubberBandSegments ?? payload.rubber_band_segments ?? [];
+
+  const touchesNode = (s: NetworkSegment, end: 'start' | 'end') => {
+    const id = end === 'start' ? s.startNodeId : s.endNodeId;
+    if (nodeId !== undefined && nodeId !== null && String(id) === String(nodeId)) return true;
+    const coords = s.street.geometry.coordinates;
+    return !!oldCoord && sameCoord(end === 'start' ? coords[0] : coords[coords.length - 1], oldCoord);
+  };
+  const connected = segments.filter((s) => touchesNode(s, 'start') || touchesNode(s, 'end'));
+
+  if (connected.length === 0) {
+    return [warning('segment_not_loaded', 'The moved node isn\'t loaded, so its connections can\'t be checked', { coord: newCoord })];
+  }
+  // Without a rubber band every connected segment moves with the node
+  if (rubberBand.length === 0) return [];
+
+  const leftBehind = connected.filter((s) => !rubberBand.includes(s.streetGridId)).map((s) => s.streetGridId);
+  if (leftBehind.length === 0) return [];
+
+  return [
+    error(
+      'dangling_endpoint',
+      `Moving this node would disconnect ${leftBehind.length} segment${leftBehind.length === 1 ? '' : 's'}`,
+      { streetGridIds: leftBehind, coord: oldCoord ?? newCoord },
+    ),
+  ];
+}
+
+function validateMerge(
+  payload: Record<string, any>,
+  segments: Map<string, NetworkSegment>,
+  context: TopologyContext,
+): TopologyIssue[] {
+  const ids: string[] = payload.segmentIds ?? [payload.surviving_seg_id, payload.consumed_seg_id];
+  const [first, second] = ids;
+
+  if (first === second) {
+    return [error('merge_same_segment', 'Pick two different segments to merge', { streetGridIds: [first] })];
+  }
+  const missing = ids.filter((id) => !segments.has(id));
+  if (missing.length > 0) {
+    return [warning('segment_not_loaded', 'A segment to merge isn\'t loaded, so the merge can\'t be checked', { streetGridIds: missing })];
+  }
+
+  const pair = context.getSegmentPairInfo(first, second);
+  if (!pair?.sharedCoord) {
+    return [error('merge_no_shared_node', 'These segments don\'t meet at a node and can\'t be merged', { streetGridIds: ids })];
+  }
+
+  // A node where other segments also meet is an intersection; merging through it hides a junction
+  const degree = context.segments.filter((s) => {
+    const coords = s.street.geometry.coordinates;
+    return sameCoord(coords[0], pair.sharedCoord!) || sameCoord(coords[coords.length - 1], pair.sharedCoord!);
+  }).length;
+  if (degree > 2) {
+    return [warning('merge_at_intersection', 'These segments meet at an intersection; merging will hide it', { streetGridIds: ids, coord: pair.sharedCoord })];
+  }
+
+  return [];
+}
+
+function validateDrawSegment(payload: Record<string, any>): TopologyIssue[] {
+  const coords: Coord[] = payload.geometry?.coordinates ?? payload.coordinates ?? [];
+  const distinct = coords.filter((c, i) => i === 0 || !sameCoord(c, coords[i - 1]));
+
+  if (distinct.length < 2) {
+    return [error('segment_too_short', 'A segment needs at least two distinct points')];
+  }
+
+  const crossing = findSelfIntersection(distinct);
+  if (crossing) {
+    return [error('self_intersection', 'The drawn line crosses itself', { coord: crossing })];
+  }
+
+  return [];
+}
+
+/**
+ * A crosswalk spans the street, so its ramps must sit on opposite sidewalks.
+ * Left and right are relative to each segment's own direction, so sides are
+ * only compared for ramps on the same segment; a corner crosswalk joining
+ * two segments can link any pair of sides.
+ */
+function validateCrosswalk(payload: Record<string, any>, segments: NetworkSegment[]): TopologyIssue[] {
+  const from = payload.fromRampId !== undefined ? findRamp(segments, payload.fromRampId) : rampEnd(payload.ramp_a);
+  const to = payload.toRampId !== undefined ? findRamp(segments, payload.toRampId) : rampEnd(payload.ramp_b);
+
+  if (from && to && from.key === to.key) {
+    return [error('crosswalk_same_ramp', 'A crosswalk needs two different curb ramps', { streetGridIds: [from.streetGridId] })];
+  }
+  if (!from || !to) {
+    return [warning('segment_not_loaded', 'A curb ramp isn\'t loaded, so the crosswalk can\'t be checked')];
+  }
+  if (from.streetGridId === to.streetGridId && from.side === to.side) {
+    return [
+      error(
+        'crosswalk_same_side',
+        'Both curb ramps are on the same side of the street',
+        { streetGridIds: [...new Set([from.streetGridId, to.streetGridId])] },
+      ),
+    ];
+  }
+
+  return [];
+}
+
+function validateSplit(
+  payload: Record<string, any>,
+  editStreetGridId: string | undefined,
+  segments: Map<string, NetworkSegment>,
+): TopologyIssue[] {
+  const streetGridId: string | undefined = payload.streetGridId ?? editStreetGridId;
+  const splitPoint: Coord | undefined = payload.splitPoint;
+  const segment = streetGridId ? segments.get(streetGridId) : undefined;
+
+  if (!segment || !splitPoint) {
+    return [warning('segment_not_loaded', 'The segment to split isn\'t loaded, so the split can\'t be checked', { coord: splitPoint })];
+  }
+
+  const coords = segment.street.geometry.coordinates as Coord[];
+  const { snapped, distanceM } = projectOntoLine(splitPoint, coords);
+  const ids = [segment.streetGridId];
+
+  if (distanceM > MAX_SPLIT_OFFSET_M) {
+    return [warning('split_off_segment', `The split point is ${Math.round(distanceM)} m from the street`, { streetGridIds: ids, coord: splitPoint })];
+  }
+
+  const nodeDistanceM = Math.min(distanceMeters(snapped, coords[0]), distanceMeters(snapped, coords[coords.length - 1]));
+  if (nodeDistanceM < MIN_SPLIT_NODE_DISTANCE_M) {
+    return [error('split_near_node', `Split at least ${MIN_SPLIT_NODE_DISTANCE_M} m away from the end of the segment`, { streetGridIds: ids, coord: snapped })];
+  }
+
+  return [];
+}
+
+// ═══════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════
+
+function error(code: TopologyIssueCode, message: string, extra: Partial<TopologyIssue> = {}): TopologyIssue {
+  return { severity: 'error', code, message, ...extra };
+}
+
+function warning(code: TopologyIssueCode, message: string, extra: Partial<TopologyIssue> = {}): TopologyIssue {
+  return { severity: 'warning', code, message, ...extra };
+}
+
+interface RampLocation {
+  key: string;
+  streetGridId: string;
+  side: 'left' | 'right';
+}
+
+/** A ramp as identified by the shared crosswalk tool (segment, side, position, slot). */
+function rampEnd(ramp: { segment_id?: string; side?: string; position?: string; index?: number } | undefined): RampLocation | null {
+  if (!ramp?.segment_id || (ramp.side !== 'left' && ramp.side !== 'right')) return null;
+  return {
+    key: `${ramp.segment_id}:${ramp.side}:${ramp.position}:${ramp.index}`,
+    streetGridId: ramp.segment_id,
+    side: ramp.side,
+  };
+}
+
+function findRamp(segments: NetworkSegment[], rampId: string): RampLocation | null {
+  for (const segment of segments) {
+    const sides: ['left' | 'right', CurbRampSlot[] | undefined][] = [
+      ['left', segment.sidewalkLeft?.curbRamps],
+      ['right', segment.sidewalkRight?.curbRamps],
+    ];
+    for (const [side, ramps] of sides) {
+      if (ramps?.some((r) => r.id === rampId)) {
+        return { key: rampId, streetGridId: segment.streetGridId, side };
+      }
+    }
+  }
+  return null;
+}
+
+function sameCoord(a: number[] | undefined, b: number[] | undefined): boolean {
+  return !!a && !!b && Math.abs(a[0] - b[0]) < ENDPOINT_TOLERANCE && Math.abs(a[1] - b[1]) < ENDPOINT_TOLERANCE;
+}
+
+function distanceMeters(a: Coord, b: Coord): number {
+  const cosLat = Math.cos((((a[1] + b[1]) / 2) * Math.PI) / 180);
+  const dx = (b[0] - a[0]) * METERS_PER_DEG_LAT * cosLat;
+  const dy = (b[1] - a[1]) * METERS_PER_DEG_LAT;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+/**
+ * Project a point onto a polyline using a local equirectangular approximation.
+ */
+function projectOntoLine(point: Coord, line: Coord[]): { snapped: Coord; distanceM: number } {
+  const cosLat = Math.cos((point[1] * Math.PI) / 180);
+  let best = { snapped: line[0], distanceM: distanceMeters(point, line[0]) };
+
+  for (let i = 0; i < line.length - 1; i++) {
+    const [ax, ay] = line[i];
+    const [bx, by] = line[i + 1];
+    const dx = (bx - ax) * cosLat;
+    const dy = by - ay;
+    const lenSq = dx * dx + dy * dy;
+    const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, (((point[0] - ax) * cosLat) * dx + (point[1] - ay) * dy) / lenSq));
+
+    const snapped: Coord = [ax + t * (bx - ax), ay + t * (by - ay)];
+    const d = distanceMeters(point, snapped);
+    if (d < best.distanceM) best = { snapped, distanceM: d };
+  }
+
+  return best;
+}
+
+/**
+ * First point where two non-adjacent edges of the line cross, or null.
+ * A closed loop (last point on the first) is a self-intersection too.
+ */
+function findSelfIntersection(coords: Coord[]): Coord | null {
+  const n = coords.length - 1; // Edge count
+  for (let i = 0; i < n; i++) {
+    // Adjacent edges always share a vertex, so start two edges on
+    for (let j = i + 2; j < n; j++) {
+      const hit = intersectEdges(coords[i], coords[i + 1], coords[j], coords[j + 1]);
+      if (hit) return hit;
+    }
+  }
+  return n >= 2 && sameCoord(coords[0], coords[n]) ? coords[0] : null;
+}
+
+function intersectEdges(a: Coord, b: Coord, c: Coord, d: Coord): Coord | null {
+  const rx = b[0] - a[0];
+  const ry = b[1] - a[1];
+  const sx = d[0] - c[0];
+  const sy = d[1] - c[1];
+  const denom = rx * sy - ry * sx;
+  if (denom === 0) return null; // Parallel (collinear overlaps are left to the server)
+
+  const t = ((c[0] - a[0]) * sy - (c[1] - a[1]) * sx) / denom;
+  const u = ((c[0] - a[0]) * ry - (c[1] - a[1]) * rx) / denom;
+  if (t < 0 || t > 1 || u < 0 || u > 1) return null;
+
+  return [a[0] + t * rx, a[1] + t * ry];
+}
@@ -0,0 +1,217 @@
+// ═══════════════════════════════════════════════════════════
+// TRIP EXPORT
+// ═══════════════════════════════════════════════════════════
+// Serializes a user's trips to GPX 1.1, a GeoJSON FeatureCollection or
+// CSV for ExportService to write and share.
+//
+// Only data the app already holds is exported: binned time of day and
+// weekday flag, plus timestamps relative to the trip start. No absolute
+// times are written, so the export is no more precise than the stored trip.
+//
+// Coordinates throughout are [longitude, latitude] (GeoJSON order).
+
+import type { TimeOfDayBin } from '@/adapters/DatabaseAdapter';
+
+// --- Types ---
+
+export type TripExportFormat = 'gpx' | 'geojson' | 'csv';
+
+export interface ExportableTrip {
+  tripId: string;
+  mode: string;
+  comfort: number;
+  purpose: string;
+  timeOfDay: TimeOfDayBin | null; // null for queued trips not yet binned server-side
+  weekday: number | null;
+  durationS: number | null;
+  distanceMi: number | null;
+  reachedDest: boolean | null;
+  coordinates: [number, number][];
+  relativeTimes: number[] | null; // Seconds from trip start, one per coordinate
+  clipped: boolean; // false = raw recording including origin/destination blocks
+}
+
+// --- Constants ---
+
+export const EXPORT_FILE_EXTENSIONS: Record<TripExportFormat, string> = {
+  gpx: 'gpx',
+  geojson: 'geojson',
+  csv: 'csv',
+};
+
+export const EXPORT_MIME_TYPES: Record<TripExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  geojson: 'application/geo+json',
+  csv: 'text/csv',
+};
+
+const GPX_EXTENSION_NS = 'urn:rolltracks:gpx:1';
+
+const CSV_COLUMNS = [
+  'trip_id',
+  'mode',
+  'comfort',
+  'purpose',
+  'time_of_day',
+  'weekday',
+  'clipped',
+  'point_index',
+  'relative_time_s',
+  'longitude',
+  'latitude',
+];
+
+/**
+ * Relative times aligned with the coordinates, or null if they don't line up
+ * (e.g. an older trip recorded before per-point times were stored).
+ */
+function alignedTimes(trip: ExportableTrip): number[] | null {
+  return trip.relativeTimes && trip.relativeTimes.length === trip.coordinates.length ? trip.relativeTimes : null;
+}
+
+// ═══════════════════════════════════════════════════════════
+// GPX
+// ═══════════════════════════════════════════════════════════
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function gpxTrack(trip: ExportableTrip): string {
+  const times = alignedTimes(trip);
+  const meta: [string, string | number | boolean | null][] = [
+    ['tripId', trip.tripId],
+    ['comfort', trip.comfort],
+    ['purpose', trip.purpose],
+    ['timeOfDay', trip.timeOfDay],
+    ['weekday', trip.weekday],
+    ['durationS', trip.durationS],
+    ['distanceMi', trip.distanceMi],
+    ['reachedDest', trip.reachedDest],
+    ['clipped', trip.clipped],
+  ];
+
+  const lines = [
+    '  <trk>',
+    `    <name>${escapeXml(`${trip.mode} trip`)}</name>`,
+    `    <type>${escapeXml(trip.mode)}</type>`,
+    '    <extensions>',
+    ...meta
+      .filter(([, value]) => value !== null && value !== '')
+      .map(([key, value]) => `      <rt:${key}>${escapeXml(String(value))}</rt:${key}>`),
+    '    </extensions>',
+    '    <trkseg>',
+    ...trip.coordinates.map(([lon, lat], i) =>
+      times
+        ? `      <trkpt lat="${lat}" lon="${lon}"><extensions><rt:relativeTime>${times[i]}</rt:relativeTime></extensions></trkpt>`
+        : `      <trkpt lat="${lat}" lon="${lon}"/>`,
+    ),
+    '    </trkseg>',
+    '  </trk>',
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * GPX 1.1 document with one <trk> per trip. Trip attributes and per-point
+ * relative times go in RollTracks extension elements, since GPX <time>
+ * requires an absolute timestamp.
+ */
+export function tripsToGPX(trips: ExportableTrip[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="RollTracks" xmlns="http://www.topografix.com/GPX/1/1" xmlns:rt="${GPX_EXTENSION_NS}">`,
+    '  <metadata>',
+    '    <name>RollTracks trips</name>',
+    '  </metadata>',
+    ...trips.map(gpxTrack),
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+// ═══════════════════════════════════════════════════════════
+// GeoJSON
+// ═══════════════════════════════════════════════════════════
+
+/** FeatureCollection with one LineString Feature per trip. */
+export function tripsToGeoJSON(trips: ExportableTrip[]): string {
+  const collection: GeoJSON.FeatureCollection<GeoJSON.LineString> = {
+    type: 'FeatureCollection',
+    features: trips.map((trip) => ({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: trip.coordinates },
+      properties: {
+        tripId: trip.tripId,
+        mode: trip.mode,
+        comfort: trip.comfort,
+        purpose: trip.purpose,
+        timeOfDay: trip.timeOfDay,
+        weekday: trip.weekday,
+        durationS: trip.durationS,
+        distanceMi: trip.distanceMi,
+        reachedDest: trip.reachedDest,
+        clipped: trip.clipped,
+        relativeTimes: alignedTimes(trip),
+      },
+    })),
+  };
+  return JSON.stringify(collection, null, 2);
+}
+
+// ═══════════════════════════════════════════════════════════
+// CSV
+// ═══════════════════════════════════════════════════════════
+
+function csvField(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per recorded point, with the trip's attributes repeated on each row. */
+export function tripsToCSV(trips: ExportableTrip[]): string {
+  const rows = [CSV_COLUMNS.join(',')];
+
+  for (const trip of trips) {
+    const times = alignedTimes(trip);
+    trip.coordinates.forEach(([lon, lat], i) => {
+      rows.push(
+        [
+          trip.tripId,
+          trip.mode,
+          trip.comfort,
+          trip.purpose,
+          trip.timeOfDay,
+          trip.weekday,
+          trip.clipped,
+          i,
+          times ? times[i] : null,
+          lon,
+          lat,
+        ]
+          .map(csvField)
+          .join(','),
+      );
+    });
+  }
+
+  return rows.join('\n') + '\n';
+}
+
+/** Serialize trips in the requested format. */
+export function serializeTrips(trips: ExportableTrip[], format: TripExportFormat): string {
+  switch (format) {
+    case 'gpx':
+      return tripsToGPX(trips);
+    case 'geojson':
+      return tripsToGeoJSON(trips);
+    case 'csv':
+      return tripsToCSV(trips);
+  }
+}
@@ -1,77 +1,64 @@
 // ═══════════════════════════════════════════════════════════
 // UTM TO WGS84 COORDINATE CONVERTER
 // ═══════════════════════════════════════════════════════════
-// Converts UTM Zone 10N (EPSG:32610) coordinates to WGS84 (EPSG:4326).
-// Used by the parquet pipeline because the proximity parquet stores
-// geometries in UTM despite the schema specifying EPSG:4326.
+// Converts grid coordinates (a UTM zone or any transverse Mercator
+// definition, see gridProjection.ts) to WGS84 (EPSG:4326), by default
+// from Zone 10N (EPSG:32610). Used by the parquet pipeline because older
+// proximity parquet builds store geometries in UTM despite the schema
+// specifying EPSG:4326.
 //
-// Based on the inverse Transverse Mercator projection formulas.
-// See: Snyder, "Map Projections — A Working Manual" (USGS PP 1395)
+// Inverse of wgs84ToUtm.ts.
 
 import type { Geometry, Position } from 'geojson';
 
-// WGS84 ellipsoid constants
-const a = 6378137.0;                       // semi-major axis (m)
-const f = 1 / 298.257223563;               // flattening
-const b = a * (1 - f);                     // semi-minor axis
-const e = Math.sqrt(1 - (b * b) / (a * a)); // first eccentricity
-const e2 = e * e;
-const ePrime2 = e2 / (1 - e2);             // second eccentricity squared
+import { conformalTan, GridProjection, KRUGER, originNorthing, toTransverseMercator, UTM_ZONE_10N } from './gridProjection';
 
-// UTM Zone 10N constants
-const k0 = 0.9996;                         // scale factor
-const lon0 = -123 * (Math.PI / 180);       // central meridian (radians)
-const falseEasting = 500000;
-const falseNorthing = 0;
+// Newton iteration on the geodetic latitude converges in 2–3 steps
+const LATITUDE_TOLERANCE = 1e-12;
+const MAX_LATITUDE_ITERATIONS = 10;
 
 /**
- * Convert a single UTM coordinate to [longitude, latitude] in degrees.
+ * Convert a single grid coordinate to [longitude, latitude] in degrees,
+ * in the given projection (UTM zone 10N if none is given).
  */
-function utmToLatLon(easting: number, northing: number): [number, number] {
-  const x = easting - falseEasting;
-  const y = northing - falseNorthing;
-
-  // Footpoint latitude
-  const M = y / k0;
-  const mu = M / (a * (1 - e2 / 4 - 3 * e2 * e2 / 64 - 5 * e2 * e2 * e2 / 256));
-
-  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
-  const phi1 = mu
-    + (3 * e1 / 2 - 27 * e1 * e1 * e1 / 32) * Math.sin(2 * mu)
-    + (21 * e1 * e1 / 16 - 55 * e1 * e1 * e1 * e1 / 32) * Math.sin(4 * mu)
-    + (151 * e1 * e1 * e1 / 96) * Math.sin(6 * mu)
-    + (1097 * e1 * e1 * e1 * e1 / 512) * Math.sin(8 * mu);
-
-  const sinPhi1 = Math.sin(phi1);
-  const cosPhi1 = Math.cos(phi1);
-  const tanPhi1 = sinPhi1 / cosPhi1;
-
-  const N1 = a / Math.sqrt(1 - e2 * sinPhi1 * sinPhi1);
-  const T1 = tanPhi1 * tanPhi1;
-  const C1 = ePrime2 * cosPhi1 * cosPhi1;
-  const R1 = a * (1 - e2) / Math.pow(1 - e2 * sinPhi1 * sinPhi1, 1.5);
-  const D = x / (N1 * k0);
-
-  const lat = phi1 - (N1 * tanPhi1 / R1) * (
-    D * D / 2
-    - (5 + 3 * T1 + 10 * C1 - 4 * C1 * C1 - 9 * ePrime2) * D * D * D * D / 24
-    + (61 + 90 * T1 + 298 * C1 + 45 * T1 * T1 - 252 * ePrime2 - 3 * C1 * C1) * D * D * D * D * D * D / 720
-  );
-
-  const lon = lon0 + (1 / cosPhi1) * (
-    D
-    - (1 + 2 * T1 + C1) * D * D * D / 6
-    + (5 - 2 * C1 + 28 * T1 - 3 * C1 * C1 + 8 * ePrime2 + 24 * T1 * T1) * D * D * D * D * D / 120
-  );
-
-  return [lon * (180 / Math.PI), lat * (180 / Math.PI)];
+export function utmToLatLon(easting: number, northing: number, projection: GridProjection = UTM_ZONE_10N): [number, number] {
+  const tm = toTransverseMercator(projection);
+  const { A, beta, e } = KRUGER;
+  const e2 = e * e;
+
+  const eta = (easting - tm.falseEasting) / (tm.scaleFactor * A);
+  const xi = (northing - tm.falseNorthing + originNorthing(tm)) / (tm.scaleFactor * A);
+
+  let xiPrime = xi;
+  let etaPrime = eta;
+  for (let j = 1; j <= beta.length; j++) {
+    xiPrime -= beta[j - 1] * Math.sin(2 * j * xi) * Math.cosh(2 * j * eta);
+    etaPrime -= beta[j - 1] * Math.cos(2 * j * xi) * Math.sinh(2 * j * eta);
+  }
+
+  // Conformal latitude, then solve for the geodetic latitude
+  const tauPrime = Math.sin(xiPrime) / Math.sqrt(Math.sinh(etaPrime) ** 2 + Math.cos(xiPrime) ** 2);
+  let tau = tauPrime;
+  for (let i = 0; i < MAX_LATITUDE_ITERATIONS; i++) {
+    const tauIPrime = conformalTan(tau);
+    const delta = ((tauPrime - tauIPrime) / Math.sqrt(1 + tauIPrime * tauIPrime))
+      * ((1 + (1 - e2) * tau * tau) / ((1 - e2) * Math.sqrt(1 + tau * tau)));
+    tau += delta;
+    if (Math.abs(delta) < LATITUDE_TOLERANCE) break;
+  }
+
+  const lat = Math.atan(tau) * (180 / Math.PI);
+  const dLon = Math.atan2(Math.sinh(etaPrime), Math.cos(xiPrime)) * (180 / Math.PI);
+  // Wrap to [-180, 180) for grids near the antimeridian
+  const lon = ((((tm.centralMeridian + dLon) % 360) + 540) % 360) - 180;
+  return [lon, lat];
 }
 
 /**
  * Convert a position array [easting, northing] to [lon, lat].
  */
-function convertPosition(pos: Position): Position {
-  const [lon, lat] = utmToLatLon(pos[0], pos[1]);
+function convertPosition(pos: Position, projection: GridProjection): Position {
+  const [lon, lat] = utmToLatLon(pos[0], pos[1], projection);
   return [lon, lat];
 }
 
@@ -79,47 +66,49 @@ function convertPosition(pos: Position): Position {
  * Recursively convert all coordinates in a GeoJSON geometry from UTM to WGS84.
  * Returns a new geometry object (does not mutate input).
  */
-export function convertGeometryToWgs84(geom: Geometry): Geometry {
+export function convertGeometryToWgs84(geom: Geometry, projection: GridProjection = UTM_ZONE_10N): Geometry {
+  const convert = (pos: Position) => convertPosition(pos, projection);
+
   switch (geom.type) {
     case 'Point':
-      return { type: 'Point', coordinates: convertPosition(geom.coordinates) };
+      return { type: 'Point', coordinates: convert(geom.coordinates) };
 
     case 'LineString':
       return {
         type: 'LineString',
-        coordinates: geom.coordinates.map(convertPosition),
+        coordinates: geom.coordinates.map(convert),
       };
 
     case 'MultiPoint':
       return {
         type: 'MultiPoint',
-        coordinates: geom.coordinates.map(convertPosition),
+        coordinates: geom.coordinates.map(convert),
       };
 
     case 'MultiLineString':
       return {
         type: 'MultiLineString',
-        coordinates: geom.coordinates.map(ring => ring.map(convertPosition)),
+        coordinates: geom.coordinates.map(ring => ring.map(convert)),
       };
 
     case 'Polygon':
       return {
         type: 'Polygon',
-        coordinates: geom.coordinates.map(ring => ring.map(convertPosition)),
+        coordinates: geom.coordinates.map(ring => ring.map(convert)),
       };
 
     case 'MultiPolygon':
       return {
         type: 'MultiPolygon',
         coordinates: geom.coordinates.map(poly =>
-          poly.map(ring => ring.map(convertPosition)),
+          poly.map(ring => ring.map(convert)),
         ),
       };
 
     case 'GeometryCollection':
       return {
         type: 'GeometryCollection',
-        geometries: geom.geometries.map(convertGeometryToWgs84),
+        geometries: geom.geometries.map((g) => convertGeometryToWgs84(g, projection)),
       };
 
     default:
@@ -1,64 +1,48 @@
 // ═══════════════════════════════════════════════════════════
-// WGS84 TO UTM ZONE 10N COORDINATE CONVERTER
+// WGS84 TO UTM COORDINATE CONVERTER
 // ═══════════════════════════════════════════════════════════
-// Converts WGS84 (EPSG:4326) coordinates to UTM Zone 10N (EPSG:32610).
-// Used for computing grid cell indices from lat/lon viewport bounds.
+// Converts WGS84 (EPSG:4326) coordinates to a network's grid projection:
+// a UTM zone (EPSG:326xx / 327xx) or any transverse Mercator definition
+// (see gridProjection.ts). Used for computing grid cell indices from
+// lat/lon viewport bounds. The default is zone 10N (EPSG:32610), which
+// the San Francisco network uses.
 //
-// Inverse of utmToWgs84.ts. Based on the forward Transverse Mercator
-// projection formulas from Snyder, "Map Projections — A Working Manual".
+// Inverse of utmToWgs84.ts.
 
-// WGS84 ellipsoid constants
-const a = 6378137.0;                       // semi-major axis (m)
-const f = 1 / 298.257223563;               // flattening
-const b = a * (1 - f);                     // semi-minor axis
-const e = Math.sqrt(1 - (b * b) / (a * a)); // first eccentricity
-const e2 = e * e;
-const ePrime2 = e2 / (1 - e2);             // second eccentricity squared
-
-// UTM Zone 10N constants
-const k0 = 0.9996;                         // scale factor
-const lon0Deg = -123;                      // central meridian (degrees)
-const lon0 = lon0Deg * (Math.PI / 180);    // central meridian (radians)
-const falseEasting = 500000;
-const falseNorthing = 0;
+import {
+  conformalTan,
+  GridProjection,
+  KRUGER,
+  originNorthing,
+  toTransverseMercator,
+  UTM_ZONE_10N,
+} from './gridProjection';
 
 /**
- * Convert a WGS84 [longitude, latitude] to UTM Zone 10N [easting, northing].
+ * Convert WGS84 latitude/longitude to grid [easting, northing] in the
+ * given projection (UTM zone 10N if none is given).
  */
-export function latLonToUtm(lat: number, lon: number): [number, number] {
-  const phi = lat * (Math.PI / 180);
-  const lambda = lon * (Math.PI / 180);
-
-  const sinPhi = Math.sin(phi);
-  const cosPhi = Math.cos(phi);
-  const tanPhi = Math.tan(phi);
-
-  const N = a / Math.sqrt(1 - e2 * sinPhi * sinPhi);
-  const T = tanPhi * tanPhi;
-  const C = ePrime2 * cosPhi * cosPhi;
-  const A = cosPhi * (lambda - lon0);
+export function latLonToUtm(lat: number, lon: number, projection: GridProjection = UTM_ZONE_10N): [number, number] {
+  const tm = toTransverseMercator(projection);
+  const { A, alpha } = KRUGER;
 
-  const M = a * (
-    (1 - e2 / 4 - 3 * e2 * e2 / 64 - 5 * e2 * e2 * e2 / 256) * phi
-    - (3 * e2 / 8 + 3 * e2 * e2 / 32 + 45 * e2 * e2 * e2 / 1024) * Math.sin(2 * phi)
-    + (15 * e2 * e2 / 256 + 45 * e2 * e2 * e2 / 1024) * Math.sin(4 * phi)
-    - (35 * e2 * e2 * e2 / 3072) * Math.sin(6 * phi)
-  );
+  // Longitude from the central meridian, wrapped to [-180, 180)
+  const dLon = ((((lon - tm.centralMeridian) % 360) + 540) % 360) - 180;
+  const lambda = dLon * (Math.PI / 180);
+  const tauPrime = conformalTan(Math.tan(lat * (Math.PI / 180)));
 
-  const easting = falseEasting + k0 * N * (
-    A
-    + (1 - T + C) * A * A * A / 6
-    + (5 - 18 * T + T * T + 72 * C - 58 * ePrime2) * A * A * A * A * A / 120
-  );
+  const xiPrime = Math.atan2(tauPrime, Math.cos(lambda));
+  const etaPrime = Math.asinh(Math.sin(lambda) / Math.sqrt(tauPrime * tauPrime + Math.cos(lambda) ** 2));
 
-  const northing = falseNorthing + k0 * (
-    M + N * tanPhi * (
-      A * A / 2
-      + (5 - T + 9 * C + 4 * C * C) * A * A * A * A / 24
-      + (61 - 58 * T + T * T + 600 * C - 330 * ePrime2) * A * A * A * A * A * A / 720
-    )
-  );
+  let xi = xiPrime;
+  let eta = etaPrime;
+  for (let j = 1; j <= alpha.length; j++) {
+    xi += alpha[j - 1] * Math.sin(2 * j * xiPrime) * Math.cosh(2 * j * etaPrime);
+    eta += alpha[j - 1] * Math.cos(2 * j * xiPrime) * Math.sinh(2 * j * etaPrime);
+  }
 
+  const easting = tm.falseEasting + tm.scaleFactor * A * eta;
+  const northing = tm.falseNorthing + tm.scaleFactor * A * xi - originNorthing(tm);
   return [easting, northing];
 }
 
@@ -70,13 +54,14 @@ export function bboxToGridCells(
   bbox: { minLon: number; minLat: number; maxLon: number; maxLat: number },
   origin: { x: number; y: number },
   cellSize: number,
+  projection: GridProjection = UTM_ZONE_10N,
 ): { minCol: number; maxCol: number; minRow: number; maxRow: number } {
   // Convert all 4 corners to UTM and take the envelope
   const corners = [
-    latLonToUtm(bbox.minLat, bbox.minLon),
-    latLonToUtm(bbox.minLat, bbox.maxLon),
-    latLonToUtm(bbox.maxLat, bbox.minLon),
-    latLonToUtm(bbox.maxLat, bbox.maxLon),
+    latLonToUtm(bbox.minLat, bbox.minLon, projection),
+    latLonToUtm(bbox.minLat, bbox.maxLon, projection),
+    latLonToUtm(bbox.maxLat, bbox.minLon, projection),
+    latLonToUtm(bbox.maxLat, bbox.maxLon, projection),
   ];
 
   const eastings = corners.map(c => c[0]);
@@ -0,0 +1,20 @@
+-- ═══════════════════════════════════════════════════════════
+-- ADD TRACK CLEANING POINT COUNTS TO TRIPS
+-- ═══════════════════════════════════════════════════════════
+-- Migration: Record raw vs. cleaned GPS point counts
+-- Date: 2026-06-01
+--
+-- The client now runs a track-filtering pipeline (accuracy threshold,
+-- speed outlier rejection, stop-jitter collapse, optional Kalman
+-- smoothing) before computing distance and encoding the polyline.
+-- Storing both counts lets analysis judge how much of a trip was
+-- filtered and flag trips recorded with poor GPS.
+-- ═══════════════════════════════════════════════════════════
+
+ALTER TABLE trips
+  ADD COLUMN IF NOT EXISTS raw_point_count INTEGER,
+  ADD COLUMN IF NOT EXISTS cleaned_point_count INTEGER;
+COMMENT ON COLUMN trips.raw_point_count IS
+  'Number of GPS fixes recorded on the device before track cleaning. NULL for trips recorded before track cleaning was introduced.';
+COMMENT ON COLUMN trips.cleaned_point_count IS
+  'Number of GPS fixes remaining after track cleaning (before census block clipping). NULL for trips recorded before track cleaning was introduced.';
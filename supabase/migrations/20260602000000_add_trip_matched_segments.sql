@@ -0,0 +1,21 @@
+-- ═══════════════════════════════════════════════════════════
+-- ADD MAP-MATCHED SEGMENTS TO TRIPS
+-- ═══════════════════════════════════════════════════════════
+-- Migration: Store the network path a trip was matched to
+-- Date: 2026-06-02
+--
+-- The client map-matches each trip (HMM/Viterbi) onto the Proximity
+-- NetworkSegment graph before upload. The result is an ordered list of
+-- runs, one per facility used:
+--   [{ "streetGridId": "12_34_0", "facility": "sidewalk_left",
+--      "startIndex": 0, "endIndex": 17 }, ...]
+-- Indexes refer to coordinates of the stored (clipped) geometry, so
+-- relative_times can be joined to compute per-segment speeds.
+--
+-- This is the basis for per-segment Level of Traffic Stress modelling.
+-- ═══════════════════════════════════════════════════════════
+
+ALTER TABLE trips
+  ADD COLUMN IF NOT EXISTS matched_segments JSONB DEFAULT NULL;
+COMMENT ON COLUMN trips.matched_segments IS
+  'Ordered map-matched runs [{streetGridId, facility, startIndex, endIndex}] over the clipped geometry. NULL if the trip could not be matched (e.g. proximity network not downloaded).';
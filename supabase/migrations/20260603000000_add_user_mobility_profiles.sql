@@ -0,0 +1,21 @@
+-- ═══════════════════════════════════════════════════════════
+-- ADD MOBILITY PROFILES TO USER PROFILES
+-- ═══════════════════════════════════════════════════════════
+-- Migration: Store per-mode mobility profiles with the user profile
+-- Date: 2026-06-03
+--
+-- Keyed by lowercase mode name:
+--   { "wheelchair": { "comfort": 4, "overrides": { "maxInclinePct": 6 } } }
+-- The client derives effective limits (max incline, minimum width,
+-- surfaces, curb ramp requirement, street traffic tolerance) from
+-- per-mode defaults scaled by comfort, then applies the overrides.
+-- Used for routing and segment scoring.
+--
+-- migrate_user_to_new_session moves the profile row by id, so the
+-- column carries over on device recovery without changes.
+-- ═══════════════════════════════════════════════════════════
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS mobility_profiles JSONB NOT NULL DEFAULT '{}'::jsonb;
+COMMENT ON COLUMN user_profiles.mobility_profiles IS
+  'Per-mode mobility profiles {mode: {comfort 1-10, overrides}}. Modes without an entry use client defaults.';
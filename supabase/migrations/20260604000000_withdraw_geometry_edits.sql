@@ -0,0 +1,22 @@
+-- ═══════════════════════════════════════════════════════════
+-- LET USERS WITHDRAW THEIR PENDING GEOMETRY EDITS
+-- ═══════════════════════════════════════════════════════════
+-- Migration: Allow undo of geometry edits that already reached the server
+-- Date: 2026-06-04
+--
+-- DataRanger editing now has undo. An edit still in the device outbox
+-- is simply never sent; one that was already uploaded is marked
+-- 'withdrawn' so the pipeline skips it. Users may only withdraw their
+-- own edits, and only while they are still pending: applied, rejected
+-- and conflicting edits are the pipeline's to manage.
+-- ═══════════════════════════════════════════════════════════
+
+DROP POLICY IF EXISTS "Users can withdraw their own pending geometry edits"
+  ON public.geometry_edits;
+CREATE POLICY "Users can withdraw their own pending geometry edits"
+  ON public.geometry_edits FOR UPDATE
+  USING (auth.uid() = user_id AND status = 'pending')
+  WITH CHECK (auth.uid() = user_id AND status = 'withdrawn');
+
+COMMENT ON COLUMN public.geometry_edits.status IS
+  'pending | applied | rejected | conflict | withdrawn (undone by the user before processing)';
@@ -0,0 +1,58 @@
+-- ═══════════════════════════════════════════════════════════
+-- LET USERS RESOLVE REJECTED AND CONFLICTING EDITS
+-- ═══════════════════════════════════════════════════════════
+-- Migration: Conflict inbox for geometry and feature edits
+-- Date: 2026-06-05
+--
+-- The pipeline now records why it rejected an edit or flagged it as a
+-- conflict (status_reason), and the app lists those edits in a conflict
+-- inbox. From there the user can re-apply or amend the edit, which
+-- submits a new edit and marks the old one 'superseded', or withdraw it.
+--
+-- superseded_by has no foreign key: the replacement is sent from the
+-- device outbox and may not have arrived when the old row is updated.
+--
+-- feature_edits had no status at all; it gets the same lifecycle.
+-- ═══════════════════════════════════════════════════════════
+
+-- ───────────────────────────────────────────────────────────
+-- GEOMETRY EDITS
+-- ───────────────────────────────────────────────────────────
+
+ALTER TABLE public.geometry_edits
+  ADD COLUMN IF NOT EXISTS status_reason text,
+  ADD COLUMN IF NOT EXISTS superseded_by uuid,
+  ADD COLUMN IF NOT EXISTS resolved_at timestamptz;
+
+-- Replaces the pending-only withdraw policy
+DROP POLICY IF EXISTS "Users can withdraw their own pending geometry edits"
+  ON public.geometry_edits;
+DROP POLICY IF EXISTS "Users can resolve their own geometry edits"
+  ON public.geometry_edits;
+CREATE POLICY "Users can resolve their own geometry edits"
+  ON public.geometry_edits FOR UPDATE
+  USING (auth.uid() = user_id AND status IN ('pending', 'rejected', 'conflict'))
+  WITH CHECK (auth.uid() = user_id AND status IN ('withdrawn', 'superseded'));
+
+COMMENT ON COLUMN public.geometry_edits.status IS
+  'pending | applied | rejected | conflict | withdrawn (by the user) | superseded (re-applied or amended as superseded_by)';
+COMMENT ON COLUMN public.geometry_edits.status_reason IS
+  'Why the pipeline rejected the edit or flagged a conflict; shown to the user';
+
+-- ───────────────────────────────────────────────────────────
+-- FEATURE EDITS
+-- ───────────────────────────────────────────────────────────
+
+ALTER TABLE public.feature_edits
+  ADD COLUMN IF NOT EXISTS status text DEFAULT 'pending',
+  ADD COLUMN IF NOT EXISTS status_reason text,
+  ADD COLUMN IF NOT EXISTS superseded_by uuid,
+  ADD COLUMN IF NOT EXISTS resolved_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_feature_edits_status
+  ON public.feature_edits(status);
+
+COMMENT ON COLUMN public.feature_edits.status IS
+  'pending | applied | rejected | conflict | withdrawn (by the user) | superseded (re-applied as superseded_by)';
+COMMENT ON COLUMN public.feature_edits.status_reason IS
+  'Why the pipeline rejected the edit or flagged a conflict; shown to the user';
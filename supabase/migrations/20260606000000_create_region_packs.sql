@@ -0,0 +1,60 @@
+-- ═══════════════════════════════════════════════════════════
+-- REGION PACKS
+-- ═══════════════════════════════════════════════════════════
+-- Migration: Catalog of downloadable proximity network areas
+-- Date: 2026-06-06
+--
+-- The proximity network is now published per area instead of as one
+-- city-wide parquet. Each pack's files live in the dataranger-assets
+-- bucket as <asset_name>.parquet, with its cell chunks and manifest
+-- under <asset_name>/. The app lists this catalog so users can choose
+-- which areas to keep on the device.
+--
+-- Each pack's grid is laid out in the UTM zone of its area, so packs
+-- from different zones can't share cell keys.
+--
+-- The existing San Francisco parquet becomes the first pack; its
+-- version carries over from asset_metadata.
+-- ═══════════════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS public.region_packs (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  jurisdiction TEXT,
+  min_lon DOUBLE PRECISION NOT NULL,
+  min_lat DOUBLE PRECISION NOT NULL,
+  max_lon DOUBLE PRECISION NOT NULL,
+  max_lat DOUBLE PRECISION NOT NULL,
+  utm_zone SMALLINT NOT NULL CHECK (utm_zone BETWEEN 1 AND 60),
+  utm_hemisphere CHAR(1) NOT NULL DEFAULT 'N' CHECK (utm_hemisphere IN ('N', 'S')),
+  asset_name TEXT NOT NULL UNIQUE,
+  size_bytes BIGINT NOT NULL DEFAULT 0,
+  last_updated TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (min_lon < max_lon AND min_lat < max_lat)
+);
+
+ALTER TABLE public.region_packs ENABLE ROW LEVEL SECURITY;
+
+-- Packs are published by the upload script with the service role
+DROP POLICY IF EXISTS "Public read access to region packs" ON public.region_packs;
+CREATE POLICY "Public read access to region packs"
+  ON public.region_packs FOR SELECT
+  USING (true);
+
+INSERT INTO public.region_packs
+  (id, name, jurisdiction, min_lon, min_lat, max_lon, max_lat, utm_zone, utm_hemisphere, asset_name, size_bytes, last_updated)
+SELECT
+  'san-francisco-ca',
+  'San Francisco',
+  'San Francisco County, California',
+  -122.5149, 37.7081, -122.3569, 37.8324,
+  10, 'N',
+  'San_Francisco_County_California_USA_network',
+  COALESCE((SELECT file_size_bytes FROM asset_metadata WHERE asset_name = 'ProximityNetwork'), 0),
+  COALESCE((SELECT last_updated FROM asset_metadata WHERE asset_name = 'ProximityNetwork'), NOW())
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE public.region_packs IS
+  'Downloadable areas of the proximity network; files in dataranger-assets under asset_name';
+COMMENT ON COLUMN public.region_packs.last_updated IS
+  'Build timestamp of the pack; matches the version in its cell manifest';
@@ -0,0 +1,30 @@
+-- ═══════════════════════════════════════════════════════════
+-- PROXIMITY ASSET CHECKSUMS
+-- ═══════════════════════════════════════════════════════════
+-- Migration: Record the SHA-256 and schema version of published parquets
+-- Date: 2026-06-07
+--
+-- The app used to accept any downloaded parquet with the right size and
+-- PAR1 magic bytes. The upload script now records each parquet's SHA-256
+-- and the schema version it was built with; the app verifies the hash
+-- after downloading, re-downloads on a mismatch, and refuses parquets
+-- built for a newer schema than it reads.
+--
+-- Existing rows keep NULL until their next upload; the app skips the
+-- hash check for those and treats a missing schema version as 1.
+-- ═══════════════════════════════════════════════════════════
+
+ALTER TABLE asset_metadata
+  ADD COLUMN IF NOT EXISTS sha256 TEXT CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  ADD COLUMN IF NOT EXISTS schema_version INTEGER CHECK (schema_version >= 1);
+
+ALTER TABLE public.region_packs
+  ADD COLUMN IF NOT EXISTS sha256 TEXT CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  ADD COLUMN IF NOT EXISTS schema_version INTEGER CHECK (schema_version >= 1);
+
+COMMENT ON COLUMN asset_metadata.sha256 IS
+  'Lowercase hex SHA-256 of the uploaded file';
+COMMENT ON COLUMN public.region_packs.sha256 IS
+  'Lowercase hex SHA-256 of <asset_name>.parquet; verified by the app after download';
+COMMENT ON COLUMN public.region_packs.schema_version IS
+  'Parquet schema version; apps refuse builds newer than they read';
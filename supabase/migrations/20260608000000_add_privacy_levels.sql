@@ -0,0 +1,34 @@
+-- ═══════════════════════════════════════════════════════════
+-- TRIP PRIVACY LEVELS
+-- ═══════════════════════════════════════════════════════════
+-- Migration: Let users choose how strongly trips are anonymized
+-- Date: 2026-06-08
+--
+-- Census block clipping used to be the only spatial privacy step. The
+-- client now runs an anonymization pipeline whose stages depend on the
+-- user's privacy level:
+--   standard  clip to the origin/destination census blocks
+--   enhanced  widen endpoints to a block group or tract, trim a fixed
+--             and a random distance beyond them, jitter relative_times
+--   strict    wider areas and trims; trips whose endpoints can't be
+--             hidden are not uploaded at all
+--
+-- With a widened endpoint, od_geoids holds the block group (12 digits)
+-- or tract (11 digits) GEOID prefix rather than a block GEOID.
+--
+-- Each trip records the level it was anonymized at, so analyses can
+-- account for trimmed routes and jittered times. Trips uploaded before
+-- this migration keep NULL (equivalent to standard).
+-- ═══════════════════════════════════════════════════════════
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS privacy_level TEXT NOT NULL DEFAULT 'standard'
+    CHECK (privacy_level IN ('standard', 'enhanced', 'strict'));
+COMMENT ON COLUMN user_profiles.privacy_level IS
+  'Trip anonymization level chosen by the user: standard, enhanced or strict.';
+
+ALTER TABLE trips
+  ADD COLUMN IF NOT EXISTS privacy_level TEXT DEFAULT NULL
+    CHECK (privacy_level IN ('standard', 'enhanced', 'strict'));
+COMMENT ON COLUMN trips.privacy_level IS
+  'Anonymization level the trip was uploaded at. NULL for trips uploaded before levels existed (census block clipping only).';
@@ -0,0 +1,37 @@
+-- ═══════════════════════════════════════════════════════════
+-- REGION TIME ZONES AND HOLIDAY CALENDARS
+-- ═══════════════════════════════════════════════════════════
+-- Migration: Bin trip times in the time zone of the trip's origin
+-- Date: 2026-06-09
+--
+-- time_of_day and weekday used to be taken from the recording device's
+-- clock, so a trip recorded while travelling, or one just before
+-- midnight on a device set to another zone, got the wrong bins, and
+-- holidays were never counted as non-weekdays.
+--
+-- The app now looks up the region pack containing a trip's origin and
+-- bins the start time in that region's time zone, counting the public
+-- holidays of its calendar as weekday = 0. Calendars and the time of
+-- day bin boundaries are defined in constants/timeBins.json, which
+-- analysis tools should read too. Neither the zone nor the calendar is
+-- stored with the trip.
+--
+-- Trips starting outside every region are binned on the device's clock
+-- with no holidays, as before.
+-- ═══════════════════════════════════════════════════════════
+
+ALTER TABLE public.region_packs
+  ADD COLUMN IF NOT EXISTS time_zone TEXT,
+  ADD COLUMN IF NOT EXISTS holiday_calendar TEXT;
+
+COMMENT ON COLUMN public.region_packs.time_zone IS
+  'IANA time zone trips starting in the region are binned in (e.g. America/Los_Angeles)';
+COMMENT ON COLUMN public.region_packs.holiday_calendar IS
+  'Key of the public holiday calendar in constants/timeBins.json; NULL counts no holidays';
+
+UPDATE public.region_packs
+SET time_zone = 'America/Los_Angeles', holiday_calendar = 'us-federal'
+WHERE id = 'san-francisco-ca' AND time_zone IS NULL;
+
+COMMENT ON COLUMN trips.weekday IS
+  '1 for weekdays (Mon-Fri), 0 for weekends and public holidays, in the time zone and holiday calendar of the region the trip started in.';
@@ -0,0 +1,21 @@
+-- ═══════════════════════════════════════════════════════════
+-- REGION CENSUS BLOCK FLAG
+-- ═══════════════════════════════════════════════════════════
+-- Migration: Record which regions publish census blocks
+-- Date: 2026-06-10
+--
+-- The app clips a trip's origin and destination to census blocks read
+-- from census_blocks.geojson in the region pack's asset folder. It used
+-- to treat a missing file as "this region has no blocks" and upload the
+-- trip unclipped, so a storage outage or a pack published without its
+-- blocks leaked exact endpoints.
+--
+-- A missing file is now an error: the trip stays queued and is retried.
+-- A region is treated as having no blocks only when its row says so.
+-- ═══════════════════════════════════════════════════════════
+
+ALTER TABLE public.region_packs
+  ADD COLUMN IF NOT EXISTS has_census_blocks BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN public.region_packs.has_census_blocks IS
+  'Whether census_blocks.geojson is published in the asset folder; false: trip endpoints in the region cannot be hidden';
@@ -0,0 +1,13 @@
+declare module '@mapbox/polyline' {
+  /** Decode an encoded polyline to [latitude, longitude] pairs. */
+  function decode(encoded: string, precision?: number): [number, number][];
+
+  /** Encode [latitude, longitude] pairs as a polyline. */
+  function encode(coordinates: number[][], precision?: number): string;
+
+  /** Decode an encoded polyline to a GeoJSON LineString. */
+  function toGeoJSON(encoded: string, precision?: number): GeoJSON.LineString;
+
+  /** Encode a GeoJSON LineString as a polyline. */
+  function fromGeoJSON(geojson: GeoJSON.LineString | GeoJSON.Feature<GeoJSON.LineString>, precision?: number): string;
+}